@@ -4,9 +4,16 @@ import { streamText, tool, stepCountIs } from 'ai';
 import { getDb } from '@/lib/mongodb';
 import { doPaginatedVectorSearch } from '@/lib/utils';
 import { compressImage, estimateImageTokens } from '@/lib/image-utils';
+import { CATEGORY_FORMATS, SNIFF_BYTES, formatMimeType, sniffFormat } from '@/lib/file-types';
+import { hydrateBinaryContent } from '@/lib/services/fileStorage.service';
+import { getActiveEmbedding, modelFilter, storedVector } from '@/lib/services/embeddingModel.service';
 import { searchWeb, isPerplexityEnabled } from '@/lib/services/perplexity.service';
 import { sendEmail, isEmailEnabled, createEmailConfirmationPrompt } from '@/lib/services/email.service';
 import { extractReferencesFromToolResults, updateConversationWithReferences } from '@/lib/services/references.service';
+import { getPageChanges } from '@/lib/services/webSource.service';
+import { listTables, queryTable, TableQuery } from '@/lib/services/table.service';
+import { listFeedEntries, listFeeds } from '@/lib/services/feed.service';
+import { formatTimecode } from '@/lib/transcript-parser';
 import { storeMemory, retrieveMemories, updateMemoryAccess, getMemoryContext, isMemoryEnabled } from '@/lib/services/memory.service';
 import { AgentPlan, ToolExecution } from '@/types/models';
 import { MemoryType } from '@/types/agent.types';
@@ -17,12 +24,58 @@ export const maxDuration = 60;
 
 
 
-// Tool to search for information within a project (returns at most 2 highly-relevant hits)
-async function searchProjectData(projectId: string, query: string) {
+type ChunkLocationInfo = {
+  pageNumber?: number,
+  slideNumber?: number,
+  headingPath?: string[],
+  startTime?: number,
+  endTime?: number,
+  speakers?: string[],
+  jsonPath?: string
+};
+
+type EmailInfo = {
+  from?: string,
+  date?: Date | string
+};
+
+// Describe where inside its source file a chunk came from, for citations
+function describeChunkLocation(chunkInfo?: ChunkLocationInfo, email?: EmailInfo): string | undefined {
+  if (email) {
+    const date = email.date ? ` on ${new Date(email.date).toISOString().slice(0, 10)}` : '';
+    return `email from ${email.from || 'unknown sender'}${date}`;
+  }
+  if (!chunkInfo) return undefined;
+  if (chunkInfo.jsonPath) return chunkInfo.jsonPath;
+  if (chunkInfo.headingPath && chunkInfo.headingPath.length > 0) {
+    return chunkInfo.headingPath.join(' > ');
+  }
+  if (chunkInfo.startTime !== undefined) {
+    const speakers = chunkInfo.speakers?.length ? ` (${chunkInfo.speakers.join(', ')})` : '';
+    return `at ${formatTimecode(chunkInfo.startTime)}${speakers}`;
+  }
+  if (chunkInfo.slideNumber) return `slide ${chunkInfo.slideNumber}`;
+  if (chunkInfo.pageNumber) return `page ${chunkInfo.pageNumber}`;
+  return undefined;
+}
+
+// Tool to search for information within a project (returns the top maxResults hits, 2 by default)
+// With an image (base64), the query text and the image are searched together
+// With a reranker configured, the hits are the reranker's picks from the search's top candidates
+// (the 'agent' search context sets how many)
+async function searchProjectData(projectId: string, query: string, image?: string, maxResults: number = 2) {
   try {
     const db = await getDb();
     // Keep results tight so the agent can iterate quickly with multiple calls
-    const results = await doPaginatedVectorSearch(db, projectId, query, 'text', 1, 2);
+    const results = await doPaginatedVectorSearch(
+      db,
+      projectId,
+      image ? { text: query, image } : query,
+      'text',
+      1,
+      maxResults,
+      { context: 'agent' }
+    );
     if (!results.results || results.results.length === 0) {
       return "No results found for your query.";
     }
@@ -30,15 +83,18 @@ async function searchProjectData(projectId: string, query: string) {
     // Return a simplified summary without embeddings, focusing on top results
     const summaryResults = results.results.map((r: {
       _id: { toString: () => string },
-      metadata?: { filename?: string, size?: number },
+      metadata?: { filename?: string, size?: number, chunkInfo?: ChunkLocationInfo, email?: EmailInfo },
       type: string,
       score: number,
+      rerankScore?: number,
       analysis?: { description?: string, tags?: string[] }
     }) => ({
       id: r._id.toString(),
       filename: r.metadata?.filename || 'Unknown',
+      location: describeChunkLocation(r.metadata?.chunkInfo, r.metadata?.email),
       type: r.type,
       score: r.score,
+      ...(r.rerankScore !== undefined && { rerankScore: r.rerankScore }),
       description: r.analysis?.description || 'No description available',
       tags: r.analysis?.tags || [],
       size: r.metadata?.size || 0
@@ -46,8 +102,8 @@ async function searchProjectData(projectId: string, query: string) {
 
     return JSON.stringify({
       total: results.total,
-      showing: Math.min(2, summaryResults.length),
-      results: summaryResults.slice(0, 2)
+      showing: Math.min(maxResults, summaryResults.length),
+      results: summaryResults.slice(0, maxResults)
     });
   } catch (error) {
     console.error('Search error:', error);
@@ -74,6 +130,8 @@ async function analyzeImage(projectId: string, dataId: string, userQuery: string
       });
     }
 
+    projectData = await hydrateBinaryContent(db, projectData);
+
     if (!projectData || !projectData.content?.base64) {
       return JSON.stringify({
         error: 'Image not found or invalid',
@@ -166,13 +224,15 @@ async function getProjectDataAnalysis(projectId: string, dataId: string) {
   try {
     const db = await getDb();
     // Prefer scoped to project, but fall back to global by id
+    // Word bounding boxes are for highlighting in the UI, the agent only needs the text
+    const projection = { content: 0, 'ocr.words': 0 };
     let doc = await db.collection('projectData').findOne({
       _id: new ObjectId(dataId),
       projectId: new ObjectId(projectId)
-    }, { projection: { content: 0 } });
+    }, { projection });
 
     if (!doc) {
-      doc = await db.collection('projectData').findOne({ _id: new ObjectId(dataId) }, { projection: { content: 0 } });
+      doc = await db.collection('projectData').findOne({ _id: new ObjectId(dataId) }, { projection });
     }
 
     if (!doc) {
@@ -188,6 +248,10 @@ async function getProjectDataAnalysis(projectId: string, dataId: string) {
         size: doc.metadata?.size,
       },
       analysis: doc.analysis || { description: '', tags: [], insights: [], facets: {} },
+      ...(doc.ocr?.text && {
+        ocrText: doc.ocr.text,
+        ocrConfidence: doc.ocr.confidence,
+      }),
       createdAt: doc.createdAt,
       updatedAt: doc.updatedAt,
     };
@@ -198,18 +262,127 @@ async function getProjectDataAnalysis(projectId: string, dataId: string) {
   }
 }
 
+// Tool: Describe how a tracked web page changed over a period
+async function getWebPageChanges(projectId: string, url: string, sinceDays?: number) {
+  try {
+    const db = await getDb();
+    const since = sinceDays ? new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000) : undefined;
+    const changes = await getPageChanges(db, projectId, url, since);
+
+    if (!changes) {
+      return JSON.stringify({
+        error: 'This page is not tracked for changes, or has not been fetched yet',
+        url,
+      });
+    }
+
+    return JSON.stringify({
+      ...changes,
+      summary: changes.from.version === changes.to.version
+        ? 'No changes recorded in this period'
+        : `${changes.modified.length} modified, ${changes.added.length} added and ${changes.removed.length} removed sections between version ${changes.from.version} and ${changes.to.version}`,
+    });
+  } catch (error) {
+    console.error('getWebPageChanges error:', error);
+    return JSON.stringify({ error: 'Failed to fetch page changes' });
+  }
+}
+
+// Tool: Run exact filters, group-bys and aggregates over the rows of a CSV/XLSX file
+async function queryProjectTable(projectId: string, query: Partial<TableQuery>) {
+  try {
+    const db = await getDb();
+
+    // Without a table, describe what can be queried
+    if (!query.table) {
+      const tables = await listTables(db, projectId);
+      return JSON.stringify({
+        tables: tables.map((table) => ({
+          id: table._id.toString(),
+          filename: table.filename,
+          sheetName: table.sheetName,
+          rowCount: table.rowCount,
+          columns: table.columns.map(({ name, type, nullCount, distinctCount, min, max, examples }) => ({
+            name, type, nullCount, distinctCount, min, max, examples,
+          })),
+        })),
+      });
+    }
+
+    const result = await queryTable(db, projectId, query as TableQuery);
+    return JSON.stringify(result);
+  } catch (error) {
+    console.error('queryProjectTable error:', error);
+    // Table and column errors list the valid names, so the model can correct its query
+    return JSON.stringify({ error: error instanceof Error ? error.message : 'Failed to query table' });
+  }
+}
+
+// Tool: List articles ingested from the project's RSS/Atom feeds over a period
+async function getFeedItems(
+  projectId: string,
+  options: { sinceDays?: number; by?: 'ingested' | 'published'; feed?: string; limit?: number }
+) {
+  try {
+    const db = await getDb();
+    const feeds = await listFeeds(db, projectId);
+    if (feeds.length === 0) {
+      return JSON.stringify({ error: 'This project has no feed subscriptions' });
+    }
+
+    // Narrow to one feed by title or URL when asked about a specific source
+    const needle = options.feed?.toLowerCase();
+    const feed = needle
+      ? feeds.find((f) => f.title.toLowerCase().includes(needle) || f.url.toLowerCase().includes(needle))
+      : undefined;
+    if (needle && !feed) {
+      return JSON.stringify({
+        error: `No feed matches "${options.feed}"`,
+        feeds: feeds.map((f) => ({ title: f.title, url: f.url })),
+      });
+    }
+
+    const sinceDays = options.sinceDays ?? 7;
+    const entries = await listFeedEntries(db, projectId, {
+      since: new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000),
+      by: options.by,
+      subscriptionId: feed?._id,
+      limit: options.limit ?? 50,
+    });
+
+    return JSON.stringify({
+      period: `${options.by === 'published' ? 'published' : 'added'} in the last ${sinceDays} days`,
+      count: entries.length,
+      entries: entries.map((entry) => ({
+        title: entry.title,
+        url: entry.url,
+        feed: entry.feedTitle,
+        author: entry.author,
+        publishedAt: entry.publishedAt,
+        addedAt: entry.ingestedAt,
+        dataIds: entry.dataIds.map((id) => id.toString()),
+      })),
+    });
+  } catch (error) {
+    console.error('getFeedItems error:', error);
+    return JSON.stringify({ error: 'Failed to list feed items' });
+  }
+}
+
 // Tool: Search similar items based on a specific dataId
 async function searchSimilarItems(projectId: string, dataId: string, maxResults: number = 3) {
   try {
     const db = await getDb();
 
-    // Get the item's embedding
+    // Get the item's embedding (from the active model; others can't be compared)
+    const active = await getActiveEmbedding(db);
     const item = await db.collection('projectData').findOne(
       { _id: new ObjectId(dataId) },
-      { projection: { embedding: 1, metadata: 1 } }
+      { projection: { [active.slot]: 1, [active.modelPath]: 1, metadata: 1 } }
     );
+    const embedding = storedVector(active, item);
 
-    if (!item || !item.embedding) {
+    if (!embedding) {
       return JSON.stringify({ error: 'Item not found or has no embedding' });
     }
 
@@ -218,12 +391,15 @@ async function searchSimilarItems(projectId: string, dataId: string, maxResults:
       .aggregate([
         {
           $vectorSearch: {
-            queryVector: item.embedding,
-            path: 'embedding',
+            queryVector: embedding,
+            path: active.slot,
             numCandidates: maxResults * 5,
             limit: maxResults + 1, // +1 to exclude the original item
-            index: 'vector_index',
-            filter: projectId ? { projectId: new ObjectId(projectId) } : undefined
+            index: active.index,
+            filter: {
+              ...modelFilter(active),
+              ...(projectId && { projectId: new ObjectId(projectId) })
+            }
           }
         },
         {
@@ -253,7 +429,7 @@ async function searchSimilarItems(projectId: string, dataId: string, maxResults:
     }));
 
     return JSON.stringify({
-      originalItem: item.metadata?.filename || dataId,
+      originalItem: item?.metadata?.filename || dataId,
       similarItems: summaryResults
     });
   } catch (error) {
@@ -356,7 +532,9 @@ export async function POST(req: Request) {
       // Tool toggles from UI (default based on feature availability)
       enableWebSearch = false,
       enableEmail = false,
-      enableMemory = true
+      enableMemory = true,
+      // Image attached to the last message (data URL or base64)
+      attachedImage: attachedImageInput
     } = await req.json();
 
     if (!projectId) {
@@ -373,6 +551,19 @@ export async function POST(req: Request) {
           ? (lastMessage.content as Array<{ type: string; text?: string }>).find((c) => c.type === 'text')?.text || ''
           : '');
 
+    // The attached image is shown to the model and can be used as a search query
+    let attachedImage: { base64: string; mimeType: string } | null = null;
+    if (typeof attachedImageInput === 'string' && attachedImageInput) {
+      const raw = attachedImageInput.replace(/^data:[^;]+;base64,/, '');
+      const format = sniffFormat(Buffer.from(raw, 'base64').subarray(0, SNIFF_BYTES));
+      if (!CATEGORY_FORMATS.image.includes(format)) {
+        return new Response('Attached file must be a JPEG, PNG, GIF or WebP image', { status: 400 });
+      }
+      // Re-encoded as JPEG (WebP stays WebP) and scaled down like analyzed images
+      const compressed = await compressImage(raw, formatMimeType(format)!);
+      attachedImage = { base64: compressed.base64, mimeType: format === 'webp' ? 'image/webp' : 'image/jpeg' };
+    }
+
     // Save the user message
     await saveConversation(projectId, sessionId, {
       role: 'user',
@@ -423,13 +614,16 @@ ${selectedDataIds.length > 2 ? `- And so on for the other selected items` : ''}
 
 **DO NOT search for these items by filename** - use the provided data IDs directly! This saves tool calls and ensures accuracy.` : ''}
 
+${attachedImage ? `## 📎 Attached Image
+The user attached an image to their message (you can see it). To find project items like it, call \`searchProjectData\` with \`withAttachedImage: true\`: the image and the query text are searched together, so the query should say how results relate to the image (e.g. "the same street at night"), or be empty to find look-alikes.` : ''}
+
 ## Your Capabilities
 You have access to ${(() => {
-  let count = 5; // Base tools: planQuery, searchProjectData, searchSimilarItems, analyzeImage, projectDataAnalysis
+  let count = 8; // Base tools: planQuery, searchProjectData, searchSimilarItems, analyzeImage, projectDataAnalysis, webPageChanges, queryTable, feedItems
   if (enableMemory && isMemoryEnabled()) count += 2; // rememberContext, recallMemory
   if (enableWebSearch && isPerplexityEnabled()) count += 1; // searchWeb
   if (enableEmail && isEmailEnabled()) count += 1; // sendEmail
-  return count === 5 ? 'five' : count === 6 ? 'six' : count === 7 ? 'seven' : count === 8 ? 'eight' : 'nine';
+  return count === 8 ? 'eight' : count === 9 ? 'nine' : count === 10 ? 'ten' : count === 11 ? 'eleven' : 'twelve';
 })()} powerful tools:
 
 ### Core Research Tools
@@ -444,7 +638,7 @@ You have access to ${(() => {
 
 ### 2. 🔍 searchProjectData
 - Search through project documents, images, text chunks, and web content using semantic vector search
-- Returns relevant content with similarity scores
+- Returns relevant content with similarity scores (and rerankScore, the relevance results are ordered by, when reranking is on)
 - Accepts maxResults parameter (default: 2, max: 10)
 - Use for finding information related to user queries
 - Supports: Images, Documents, Text Chunks (from .txt/.csv/.json files), Web Chunks (from scraped websites)
@@ -464,16 +658,35 @@ You have access to ${(() => {
 ### 5. 📄 projectDataAnalysis
 - Fetch the stored analysis for a specific project item by id
 - Returns description, tags, insights, facets, and metadata (no base64) for precise reasoning
+- For images, also returns ocrText: the exact text recognized in the image (signs, forms, whiteboards, screenshots). Quote it verbatim instead of paraphrasing the description
+
+### 6. 🕘 webPageChanges
+- Describe what changed on a tracked web page (one registered for scheduled refreshes) over a period
+- Pass the page URL and sinceDays (e.g. 30 for "since last month")
+- Returns modified, added and removed sections with before/after excerpts and the version history
+- Use for questions like "what changed on this page since last month"
+
+### 7. 📊 queryTable
+- Compute exact answers over the rows of uploaded CSV and XLSX files (totals, averages, counts, top-N, filtered lists)
+- Call without a table first to list the tables with their columns and inferred types
+- Then pass filters, groupBy and aggregates (count, countDistinct, sum, avg, min, max); the rows are aggregated in the database
+- **ALWAYS** use this instead of adding up numbers from searchProjectData text chunks, which only hold a sample of the rows
+
+### 8. 📰 feedItems
+- List articles ingested from the project's RSS/Atom feed subscriptions over a period, newest first
+- Pass sinceDays (default 7), by "ingested" (added to the project) or "published", and optionally a feed title or URL
+- Returns each article's title, URL, feed, publish date and data IDs; use searchProjectData or projectDataAnalysis for their content
+- Use for questions like "what was added from feeds this week" or "what did vendor X publish this month"
 
 ${enableMemory && isMemoryEnabled() ? `### Memory Tools
 
-### 6. 🧠 rememberContext
+### 9. 🧠 rememberContext
 - Store important information, facts, preferences, or insights for future reference
 - Use when you learn something valuable about the user, project, or data patterns
 - Types: fact (objective information), preference (user choices), pattern (recurring themes), insight (analytical conclusions)
 - Memories are searchable and persist across conversations
 
-### 7. 💭 recallMemory
+### 10. 💭 recallMemory
 - Search and retrieve relevant memories from past conversations
 - Use semantic search to find related information you've learned before
 - Helps provide context-aware responses based on conversation history
@@ -481,7 +694,7 @@ ${enableMemory && isMemoryEnabled() ? `### Memory Tools
 
 ${enableWebSearch && isPerplexityEnabled() ? `### External Tools
 
-### ${enableMemory && isMemoryEnabled() ? '8' : '6'}. 🌐 searchWeb
+### ${enableMemory && isMemoryEnabled() ? '11' : '9'}. 🌐 searchWeb
 - Search the web using Perplexity AI for external information and real-time data
 - Returns answers with citations from reliable sources
 - Use when:
@@ -491,7 +704,7 @@ ${enableWebSearch && isPerplexityEnabled() ? `### External Tools
   - Comparing project data with external benchmarks or standards
 - Returns structured answers with source citations` : ''}
 
-${enableEmail && isEmailEnabled() ? `### ${(enableWebSearch && isPerplexityEnabled()) && (enableMemory && isMemoryEnabled()) ? '9' : (enableMemory && isMemoryEnabled()) || (enableWebSearch && isPerplexityEnabled()) ? '7' : '6'}. 📧 sendEmail
+${enableEmail && isEmailEnabled() ? `### ${9 + (enableMemory && isMemoryEnabled() ? 2 : 0) + (enableWebSearch && isPerplexityEnabled() ? 1 : 0)}. 📧 sendEmail
 - Send emails with analysis results or summaries
 - Requires explicit user confirmation before sending
 - Use when user requests to share or send information via email` : ''}
@@ -511,7 +724,7 @@ Constraint Rules:
 - ❌ **NEVER** use external knowledge, assumptions, or general information
 - ❌ **NEVER** make up data points, statistics, or facts not present in tool results
 - ❌ **NEVER** provide answers based on training data or common knowledge
-- ✅ **ONLY** use information explicitly returned by searchProjectData, analyzeImage, or projectDataAnalysis
+- ✅ **ONLY** use information explicitly returned by searchProjectData, analyzeImage, projectDataAnalysis, webPageChanges, queryTable, or feedItems
 - ✅ **IF** no relevant data is found in the project, explicitly state: "I couldn't find information about [topic] in this project's data"
 - ✅ **IF** the search returns no results, say so clearly and ask the user to rephrase or check if the data exists
 
@@ -522,8 +735,16 @@ Every piece of information you present MUST include an inline citation showing w
 
 **Citation Formats:**
 - **For search results**: \`[Source: filename.ext, Score: 0.XX]\`
+- **For search results with a location** (section, page or slide): \`[Source: filename.ext › location, Score: 0.XX]\`, e.g. \`[Source: handbook.md › Setup > Installation, Score: 0.87]\`
+- **For transcript results** (location "at hh:mm:ss (speakers)"): name the moment in the sentence, e.g. "at 00:14:32 in standup.vtt, Alice agreed to ship Friday \`[Source: standup.vtt › at 00:14:32 (Alice, Bob), Score: 0.84]\`"
+- **For email results** (location "email from X on date"): name sender and date, e.g. "Bob confirmed the budget in an email from Bob Lee on 2025-03-04 \`[Source: inbox.mbox › email from Bob Lee on 2025-03-04, Score: 0.81]\`"
+- **For JSON results** (location is a JSONPath): cite the path, e.g. \`[Source: orders.json › $.orders[42].shipping, Score: 0.83]\`
 - **For image analyses**: \`[Image: filename.ext]\`
+- **For text quoted from an image's ocrText**: \`[Image text: filename.ext]\`
 - **For stored analyses**: \`[Analysis: filename.ext]\`
+- **For page changes**: \`[Changes: url, version N → M]\`
+- **For feed items**: \`[Feed: feed title › article title, publish date]\`
+- **For table queries**: name the computation, e.g. \`[Table: sales.csv, SUM(amount) by region]\` or \`[Table: budget.xlsx › Q3, 12 rows where status = open]\`
 
 **End-of-Response Source List:**
 After your analysis, include a "**## Sources Referenced**" section listing all files/images you consulted with their IDs:
@@ -620,7 +841,17 @@ After using tools (search, analyze, etc.), you MUST provide a comprehensive synt
 5. **Clearly states** if information wasn't found: ${enableWebSearch && isPerplexityEnabled() ? `"I couldn't find data about [X] in this project, but web search found..."` : `"I couldn't find data about [X] in this project"`}
 
 Never end your response immediately after tool calls. Always synthesize and present your findings to the user.`,
-      messages: messages.slice(-10),
+      messages: messages.slice(-10).map((message: { role: string; content: unknown }, index: number, recent: unknown[]) =>
+        attachedImage && index === recent.length - 1
+          ? {
+              role: message.role,
+              content: [
+                { type: 'text' as const, text: userQuery },
+                { type: 'image' as const, image: new URL(`data:${attachedImage.mimeType};base64,${attachedImage.base64}`) }
+              ]
+            }
+          : message
+      ),
       maxRetries: 2,
       // Step budget: includes tool calls + final synthesis step
       // General: 4 tool calls + 1 synthesis = 5 steps
@@ -677,9 +908,10 @@ Never end your response immediately after tool calls. Always synthesize and pres
           inputSchema: z.object({
             query: z.string().describe('The search query'),
             maxResults: z.number().optional().describe('Maximum number of results to return (default: 2, max: 10)'),
-            useAnalysis: z.boolean().optional().describe('If true, prioritize items with analysis.description and consider tags when summarizing')
+            useAnalysis: z.boolean().optional().describe('If true, prioritize items with analysis.description and consider tags when summarizing'),
+            withAttachedImage: z.boolean().optional().describe('If true, search with the image the user attached together with the query text')
           }),
-          execute: async ({ query, maxResults = 2, useAnalysis }) => {
+          execute: async ({ query, maxResults = 2, useAnalysis, withAttachedImage }) => {
             stepCounter++;
             const startTime = Date.now();
 
@@ -688,7 +920,12 @@ Never end your response immediately after tool calls. Always synthesize and pres
             // Clamp maxResults to reasonable limits
             const limit = Math.min(Math.max(maxResults, 1), 10);
 
-            const raw = await searchProjectData(projectId, query);
+            const raw = await searchProjectData(
+              projectId,
+              query,
+              withAttachedImage && attachedImage ? attachedImage.base64 : undefined,
+              limit
+            );
 
             let result = raw;
             if (useAnalysis) {
@@ -709,7 +946,7 @@ Never end your response immediately after tool calls. Always synthesize and pres
             toolExecutions.push({
               step: stepCounter,
               tool: 'searchProjectData',
-              input: { query, maxResults: limit, useAnalysis },
+              input: { query, maxResults: limit, useAnalysis, withAttachedImage },
               output: result,
               duration: Date.now() - startTime,
               timestamp: new Date()
@@ -771,7 +1008,7 @@ Never end your response immediately after tool calls. Always synthesize and pres
           },
         }),
         projectDataAnalysis: tool({
-          description: 'Fetch stored analysis for a specific projectData item (no base64 returned).',
+          description: 'Fetch stored analysis for a specific projectData item (no base64 returned), including the OCR text of images.',
           inputSchema: z.object({
             dataId: z.string().describe('The ID of the projectData item'),
           }),
@@ -795,6 +1032,104 @@ Never end your response immediately after tool calls. Always synthesize and pres
             return result;
           },
         }),
+        webPageChanges: tool({
+          description: 'Describe what changed on a tracked web page over a period: modified, added and removed sections with before/after excerpts.',
+          inputSchema: z.object({
+            url: z.string().describe('URL of the tracked page'),
+            sinceDays: z.number().optional().describe('Look back this many days (e.g. 30 for "since last month"); defaults to the whole history'),
+          }),
+          execute: async ({ url, sinceDays }) => {
+            stepCounter++;
+            const startTime = Date.now();
+
+            console.log('Tool call: webPageChanges with url:', url, 'sinceDays:', sinceDays);
+
+            const result = await getWebPageChanges(projectId, url, sinceDays);
+
+            toolExecutions.push({
+              step: stepCounter,
+              tool: 'webPageChanges',
+              input: { url, sinceDays },
+              output: result,
+              duration: Date.now() - startTime,
+              timestamp: new Date()
+            });
+
+            return result;
+          },
+        }),
+        queryTable: tool({
+          description: 'Run exact filters, group-bys and aggregates over the rows of an uploaded CSV/XLSX file. Call without table to list tables and their typed columns.',
+          inputSchema: z.object({
+            table: z.string().optional().describe('Filename (or table id) of the CSV/XLSX file; omit to list available tables'),
+            sheet: z.string().optional().describe('XLSX sheet name, needed when the file has several sheets'),
+            filters: z.array(z.object({
+              column: z.string(),
+              op: z.enum(['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'contains', 'isNull', 'notNull']),
+              value: z.union([z.string(), z.number(), z.boolean(), z.array(z.union([z.string(), z.number()]))]).optional()
+                .describe('Compared after converting to the column type; an array for "in"'),
+            })).optional().describe('Conditions every row must meet (AND)'),
+            groupBy: z.array(z.string()).optional().describe('Columns to group by'),
+            aggregates: z.array(z.object({
+              fn: z.enum(['count', 'countDistinct', 'sum', 'avg', 'min', 'max']),
+              column: z.string().optional().describe('Not needed for count'),
+              as: z.string().optional().describe('Name of the result field'),
+            })).optional().describe('Aggregates per group (or over all matching rows without groupBy)'),
+            columns: z.array(z.string()).optional().describe('Columns to return when listing rows (no aggregates)'),
+            sort: z.object({
+              by: z.string().describe('Column, or a groupBy/aggregate result name when aggregating'),
+              direction: z.enum(['asc', 'desc']).optional(),
+            }).optional(),
+            limit: z.number().optional().describe('Maximum rows or groups to return (default 50, max 500)'),
+          }),
+          execute: async (input) => {
+            stepCounter++;
+            const startTime = Date.now();
+
+            console.log('Tool call: queryTable with input:', JSON.stringify(input));
+
+            const result = await queryProjectTable(projectId, input);
+
+            toolExecutions.push({
+              step: stepCounter,
+              tool: 'queryTable',
+              input,
+              output: result,
+              duration: Date.now() - startTime,
+              timestamp: new Date()
+            });
+
+            return result;
+          },
+        }),
+        feedItems: tool({
+          description: 'List articles ingested from the project\'s RSS/Atom feeds over a period (added or published in the last N days), optionally for one feed.',
+          inputSchema: z.object({
+            sinceDays: z.number().optional().describe('Look back this many days (default 7, e.g. 7 for "this week")'),
+            by: z.enum(['ingested', 'published']).optional().describe('Date the period applies to: when the article was added to the project (default) or published'),
+            feed: z.string().optional().describe('Feed title or URL fragment to narrow to one subscription'),
+            limit: z.number().optional().describe('Maximum articles to return (default 50, max 200)'),
+          }),
+          execute: async (input) => {
+            stepCounter++;
+            const startTime = Date.now();
+
+            console.log('Tool call: feedItems with input:', JSON.stringify(input));
+
+            const result = await getFeedItems(projectId, input);
+
+            toolExecutions.push({
+              step: stepCounter,
+              tool: 'feedItems',
+              input,
+              output: result,
+              duration: Date.now() - startTime,
+              timestamp: new Date()
+            });
+
+            return result;
+          },
+        }),
         ...(enableWebSearch && isPerplexityEnabled() ? {
           searchWeb: tool({
             description: 'Search the web using Perplexity AI for external information and real-time data. Returns answers with citations from reliable sources. Use when user requests web info, project data is insufficient, or you need current events/benchmarks.',
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { getEmbeddingStatus } from '@/lib/services/embeddingModel.service';
+
+/**
+ * GET /api/embeddings
+ * Active embedding model, the one configured in the environment, and the progress of the
+ * latest re-embedding migration (started with `npm run migrate:embeddings`)
+ */
+export async function GET() {
+  try {
+    const db = await getDb();
+    const status = await getEmbeddingStatus(db);
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('Embedding status error:', error);
+    return NextResponse.json({ error: 'Failed to get embedding status' }, { status: 500 });
+  }
+}
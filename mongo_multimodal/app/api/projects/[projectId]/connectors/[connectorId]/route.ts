@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import {
+  deleteConnector,
+  getConnector,
+  listConnectorFiles,
+  redactConnector,
+  updateConnector,
+} from '@/lib/services/connector.service';
+import { ConnectorFile } from '@/types/models';
+
+/**
+ * GET /api/projects/[projectId]/connectors/[connectorId]
+ * A connector with its tracked files (most recently synced first)
+ * Query: ?status=imported|failed
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; connectorId: string }> }
+) {
+  try {
+    const { projectId, connectorId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const status = request.nextUrl.searchParams.get('status') as ConnectorFile['status'] | null;
+    if (status && status !== 'imported' && status !== 'failed') {
+      return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const connector = await getConnector(db, projectId, connectorId);
+    if (!connector) {
+      return NextResponse.json({ error: 'Connector not found' }, { status: 404 });
+    }
+
+    const files = await listConnectorFiles(db, connector._id, { status: status || undefined });
+    return NextResponse.json({ connector: redactConnector(connector), files });
+  } catch (error) {
+    console.error('Get connector error:', error);
+    return NextResponse.json({ error: 'Failed to fetch connector' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/projects/[projectId]/connectors/[connectorId]
+ * Body: { name?: string, syncIntervalHours?: number, enabled?: boolean }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; connectorId: string }> }
+) {
+  try {
+    const { projectId, connectorId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { name, syncIntervalHours, enabled } = body;
+
+    if (name !== undefined && typeof name !== 'string') {
+      return NextResponse.json({ error: 'name must be a string' }, { status: 400 });
+    }
+    if (syncIntervalHours !== undefined && typeof syncIntervalHours !== 'number') {
+      return NextResponse.json({ error: 'syncIntervalHours must be a number' }, { status: 400 });
+    }
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      return NextResponse.json({ error: 'enabled must be a boolean' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const connector = await updateConnector(db, projectId, connectorId, { name, syncIntervalHours, enabled });
+    if (!connector) {
+      return NextResponse.json({ error: 'Connector not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, connector: redactConnector(connector) });
+  } catch (error) {
+    console.error('Update connector error:', error);
+    return NextResponse.json({ error: 'Failed to update connector' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/projects/[projectId]/connectors/[connectorId]
+ * Stops syncing the source; imported items are kept unless ?removeItems=true
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; connectorId: string }> }
+) {
+  try {
+    const { projectId, connectorId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const removeItems = request.nextUrl.searchParams.get('removeItems') === 'true';
+
+    const db = await getDb();
+    const deleted = await deleteConnector(db, projectId, connectorId, removeItems);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Connector not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete connector error:', error);
+    return NextResponse.json({ error: 'Failed to delete connector' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { getConnector, requestSync } from '@/lib/services/connector.service';
+
+/**
+ * POST /api/projects/[projectId]/connectors/[connectorId]/sync
+ * Queues a sync now instead of waiting for the schedule
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; connectorId: string }> }
+) {
+  try {
+    const { projectId, connectorId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const connector = await getConnector(db, projectId, connectorId);
+    if (!connector) {
+      return NextResponse.json({ error: 'Connector not found' }, { status: 404 });
+    }
+
+    const jobId = await requestSync(db, connector);
+
+    return NextResponse.json({
+      success: true,
+      jobId: jobId?.toString() || null,
+      message: jobId ? 'Sync queued' : 'A sync is already pending',
+    });
+  } catch (error) {
+    console.error('Sync connector error:', error);
+    return NextResponse.json({ error: 'Failed to queue sync' }, { status: 500 });
+  }
+}
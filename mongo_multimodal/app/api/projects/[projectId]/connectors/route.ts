@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import {
+  CONNECTOR_KINDS,
+  ConnectorConfigError,
+  listConnectors,
+  redactConnector,
+  registerConnector,
+} from '@/lib/services/connector.service';
+import { ConnectorKind } from '@/types/models';
+
+/**
+ * GET /api/projects/[projectId]/connectors
+ * Lists the folders and S3 buckets synced into the project, with their last sync status
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const connectors = await listConnectors(db, projectId);
+
+    return NextResponse.json({ connectors: connectors.map(redactConnector) });
+  } catch (error) {
+    console.error('List connectors error:', error);
+    return NextResponse.json({ error: 'Failed to list connectors' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/projects/[projectId]/connectors
+ * Registers a source; the initial import is queued right away
+ * Body: {
+ *   kind: 'folder' | 's3',
+ *   name?: string,
+ *   config: { path } | { bucket, prefix?, region?, endpoint?, accessKeyId?, secretAccessKey? },
+ *   syncIntervalHours?: number
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { kind, name, config, syncIntervalHours } = body;
+
+    if (!CONNECTOR_KINDS.includes(kind)) {
+      return NextResponse.json(
+        { error: `kind must be one of: ${CONNECTOR_KINDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!config || typeof config !== 'object') {
+      return NextResponse.json({ error: 'config is required' }, { status: 400 });
+    }
+    if (name !== undefined && typeof name !== 'string') {
+      return NextResponse.json({ error: 'name must be a string' }, { status: 400 });
+    }
+    if (syncIntervalHours !== undefined && typeof syncIntervalHours !== 'number') {
+      return NextResponse.json({ error: 'syncIntervalHours must be a number' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const connector = await registerConnector(db, projectId, {
+      kind: kind as ConnectorKind,
+      name,
+      config,
+      syncIntervalHours,
+    });
+
+    return NextResponse.json({ success: true, connector: redactConnector(connector) });
+  } catch (error) {
+    if (error instanceof ConnectorConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Register connector error:', error);
+    return NextResponse.json({ error: 'Failed to register connector' }, { status: 500 });
+  }
+}
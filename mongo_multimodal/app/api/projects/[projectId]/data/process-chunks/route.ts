@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import { processItemEmbedding } from '@/lib/services/projectData.service';
+import { processItemEmbeddings } from '@/lib/services/projectData.service';
 
 export async function POST(
   request: NextRequest,
@@ -19,21 +19,17 @@ export async function POST(
       );
     }
 
-    // Process each chunk
+    // Embed the chunks in batched requests; failures are reported per chunk
+    const processed = await processItemEmbeddings(db, chunkIds);
     const results: Array<{
       chunkId: string;
       success: boolean;
       error?: string;
-    }> = [];
-
-    for (const chunkId of chunkIds) {
-      const result = await processItemEmbedding(db, chunkId);
-      results.push({
-        chunkId,
-        success: result.success,
-        error: result.error,
-      });
-    }
+    }> = chunkIds.map((chunkId: string, i: number) => ({
+      chunkId,
+      success: processed[i].success,
+      error: processed[i].error,
+    }));
 
     // Count successes
     const successCount = results.filter((r) => r.success).length;
@@ -15,12 +15,12 @@ export async function POST(
     }
 
     const db = await getDb();
-    const results = await bulkProcessEmbeddings(db, projectId, ids);
+    const queuedIds = await bulkProcessEmbeddings(db, projectId, ids);
 
-    return NextResponse.json({ results });
+    return NextResponse.json({ ids: queuedIds });
   } catch (error) {
     console.error('Bulk process error:', error);
-    return NextResponse.json({ error: 'Failed to process items' }, { status: 500 });
+    return NextResponse.json({ error: 'Failed to queue items for processing' }, { status: 500 });
   }
 }
 
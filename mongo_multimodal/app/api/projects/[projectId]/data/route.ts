@@ -1,6 +1,7 @@
 import { getDb } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
 import { NextResponse } from 'next/server';
+import { embeddingProjection, getActiveEmbedding } from '@/lib/services/embeddingModel.service';
 
 // Define a minimal type for the database items
 interface ProjectDataItem {
@@ -36,6 +37,7 @@ export async function GET(
   try {
     const { projectId } = await params;
     const db = await getDb();
+    const active = await getActiveEmbedding(db);
 
     // First, get all data items without base64 content for images
     const data = await db
@@ -48,7 +50,7 @@ export async function GET(
         'content.text': 1, // Include text content for documents (images exclude base64 here)
         metadata: 1,
         analysis: 1,
-        embedding: 1,
+        embedding: embeddingProjection(active), // vector from the active model
         createdAt: 1,
         updatedAt: 1,
         processedAt: 1
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { getDuplicateReport } from '@/lib/services/dedup.service';
+
+/**
+ * GET /api/projects/[projectId]/duplicates
+ * Reports groups of items with identical content (same SHA-256 hash)
+ * Items uploaded before hashing existed are counted as unhashed (see npm run migrate:hashes)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const report = await getDuplicateReport(db, projectId);
+
+    return NextResponse.json({
+      totalGroups: report.groups.length,
+      duplicateItems: report.duplicateItems,
+      unhashed: report.unhashed,
+      groups: report.groups,
+    });
+  } catch (error) {
+    console.error('Duplicate report error:', error);
+    return NextResponse.json({ error: 'Failed to build duplicate report' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { getFeed, requestPoll } from '@/lib/services/feed.service';
+
+/**
+ * POST /api/projects/[projectId]/feeds/[feedId]/poll
+ * Queues a poll now instead of waiting for the schedule
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; feedId: string }> }
+) {
+  try {
+    const { projectId, feedId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const feed = await getFeed(db, projectId, feedId);
+    if (!feed) {
+      return NextResponse.json({ error: 'Feed not found' }, { status: 404 });
+    }
+
+    const jobId = await requestPoll(db, feed);
+
+    return NextResponse.json({
+      success: true,
+      jobId: jobId?.toString() || null,
+      message: jobId ? 'Poll queued' : 'A poll is already pending',
+    });
+  } catch (error) {
+    console.error('Poll feed error:', error);
+    return NextResponse.json({ error: 'Failed to queue poll' }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { deleteFeed, getFeed, listFeedEntries, updateFeed } from '@/lib/services/feed.service';
+
+/**
+ * GET /api/projects/[projectId]/feeds/[feedId]
+ * A feed subscription with its most recently ingested entries
+ * Query: ?days=7 to only list entries ingested in the last N days
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; feedId: string }> }
+) {
+  try {
+    const { projectId, feedId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const days = Number(request.nextUrl.searchParams.get('days')) || undefined;
+
+    const db = await getDb();
+    const feed = await getFeed(db, projectId, feedId);
+    if (!feed) {
+      return NextResponse.json({ error: 'Feed not found' }, { status: 404 });
+    }
+
+    const entries = await listFeedEntries(db, projectId, {
+      subscriptionId: feed._id,
+      since: days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined,
+    });
+    return NextResponse.json({ feed, entries });
+  } catch (error) {
+    console.error('Get feed error:', error);
+    return NextResponse.json({ error: 'Failed to fetch feed' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/projects/[projectId]/feeds/[feedId]
+ * Body: { pollIntervalHours?: number, enabled?: boolean }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; feedId: string }> }
+) {
+  try {
+    const { projectId, feedId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { pollIntervalHours, enabled } = body;
+
+    if (pollIntervalHours !== undefined && typeof pollIntervalHours !== 'number') {
+      return NextResponse.json({ error: 'pollIntervalHours must be a number' }, { status: 400 });
+    }
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      return NextResponse.json({ error: 'enabled must be a boolean' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const feed = await updateFeed(db, projectId, feedId, { pollIntervalHours, enabled });
+    if (!feed) {
+      return NextResponse.json({ error: 'Feed not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, feed });
+  } catch (error) {
+    console.error('Update feed error:', error);
+    return NextResponse.json({ error: 'Failed to update feed' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/projects/[projectId]/feeds/[feedId]
+ * Unsubscribes; articles already ingested are kept
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; feedId: string }> }
+) {
+  try {
+    const { projectId, feedId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const deleted = await deleteFeed(db, projectId, feedId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Feed not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete feed error:', error);
+    return NextResponse.json({ error: 'Failed to delete feed' }, { status: 500 });
+  }
+}
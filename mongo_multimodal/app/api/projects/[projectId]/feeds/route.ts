@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { FeedSubscriptionError, listFeeds, subscribeFeed } from '@/lib/services/feed.service';
+
+/**
+ * GET /api/projects/[projectId]/feeds
+ * Lists the RSS/Atom feeds the project is subscribed to
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const feeds = await listFeeds(db, projectId);
+
+    return NextResponse.json({ feeds });
+  } catch (error) {
+    console.error('List feeds error:', error);
+    return NextResponse.json({ error: 'Failed to list feeds' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/projects/[projectId]/feeds
+ * Subscribes to a feed; the first poll is queued right away
+ * Body: { url: string, pollIntervalHours?: number }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { url, pollIntervalHours } = body;
+
+    if (!url || typeof url !== 'string') {
+      return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+    }
+    if (pollIntervalHours !== undefined && typeof pollIntervalHours !== 'number') {
+      return NextResponse.json({ error: 'pollIntervalHours must be a number' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const feed = await subscribeFeed(db, projectId, url, pollIntervalHours);
+
+    return NextResponse.json({ success: true, feed });
+  } catch (error) {
+    if (error instanceof FeedSubscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Subscribe feed error:', error);
+    return NextResponse.json({ error: 'Failed to subscribe to feed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { cancelIngestion, getIngestion } from '@/lib/services/ingestion.service';
+
+/**
+ * GET /api/projects/[projectId]/ingestions/[ingestionId]
+ * Progress of one ingestion
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; ingestionId: string }> }
+) {
+  try {
+    const { projectId, ingestionId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const ingestion = await getIngestion(db, projectId, ingestionId);
+    if (!ingestion) {
+      return NextResponse.json({ error: 'Ingestion not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ingestion });
+  } catch (error) {
+    console.error('Get ingestion error:', error);
+    return NextResponse.json({ error: 'Failed to fetch ingestion' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/projects/[projectId]/ingestions/[ingestionId]
+ * Cancels a running ingestion; items already stored are kept
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; ingestionId: string }> }
+) {
+  try {
+    const { projectId, ingestionId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const cancelled = await cancelIngestion(db, projectId, ingestionId);
+    if (!cancelled) {
+      return NextResponse.json({ error: 'Ingestion not found or not running' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Cancel ingestion error:', error);
+    return NextResponse.json({ error: 'Failed to cancel ingestion' }, { status: 500 });
+  }
+}
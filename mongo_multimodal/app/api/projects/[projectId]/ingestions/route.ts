@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { listIngestions } from '@/lib/services/ingestion.service';
+import { IngestionKind, IngestionStatus } from '@/types/models';
+
+const INGESTION_STATUSES: IngestionStatus[] = ['running', 'completed', 'failed', 'cancelled'];
+const INGESTION_KINDS: IngestionKind[] = ['crawl', 'zip', 'sync'];
+
+/**
+ * GET /api/projects/[projectId]/ingestions
+ * Lists multi-source ingestions (website crawls), newest first
+ * Query: ?kind=crawl&status=running|completed|failed|cancelled&limit=20
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const kind = searchParams.get('kind') as IngestionKind | null;
+    const status = searchParams.get('status') as IngestionStatus | null;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+
+    if (kind && !INGESTION_KINDS.includes(kind)) {
+      return NextResponse.json({ error: `Invalid kind: ${kind}` }, { status: 400 });
+    }
+    if (status && !INGESTION_STATUSES.includes(status)) {
+      return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const ingestions = await listIngestions(db, projectId, {
+      kind: kind || undefined,
+      status: status || undefined,
+      limit,
+    });
+
+    return NextResponse.json({ ingestions });
+  } catch (error) {
+    console.error('List ingestions error:', error);
+    return NextResponse.json({ error: 'Failed to list ingestions' }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { cancelJobs, listJobs } from '@/lib/services/jobQueue.service';
+import { JOB_STATUSES, JOB_TYPES, JobStatus, JobType } from '@/types/models';
+
+/**
+ * GET /api/projects/[projectId]/jobs
+ * Lists background jobs with per-status counts (of every job of the type, not just the listed ones)
+ * Query: ?status=queued|running|completed|failed|cancelled&type=analyze|embed|refresh|sync|poll|crawl|import&limit=50
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status') as JobStatus | null;
+    const type = searchParams.get('type') as JobType | null;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 500);
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+    }
+    if (type && !JOB_TYPES.includes(type)) {
+      return NextResponse.json({ error: `Invalid type: ${type}` }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const { jobs, counts } = await listJobs(db, projectId, {
+      status: status || undefined,
+      type: type || undefined,
+      limit,
+    });
+
+    return NextResponse.json({ jobs, counts });
+  } catch (error) {
+    console.error('List jobs error:', error);
+    return NextResponse.json({ error: 'Failed to list jobs' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/projects/[projectId]/jobs
+ * Cancels queued or running jobs
+ * Body (optional): { jobIds: string[] } - cancels every active job when omitted
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { jobIds } = body as { jobIds?: unknown };
+
+    if (jobIds !== undefined && (!Array.isArray(jobIds) || jobIds.length === 0)) {
+      return NextResponse.json({ error: 'jobIds must be a non-empty array' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const cancelled = await cancelJobs(db, projectId, jobIds as string[] | undefined);
+
+    return NextResponse.json({ success: true, cancelled });
+  } catch (error) {
+    console.error('Cancel jobs error:', error);
+    return NextResponse.json({ error: 'Failed to cancel jobs' }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 import { getDb } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
 import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { uploadPolicySchema } from '@/lib/validations';
 
 export async function GET(
   request: Request,
@@ -34,22 +36,28 @@ export async function GET(
   }
 }
 
+/**
+ * PATCH /api/projects/[projectId]
+ * Body: { name?, description?, uploadPolicy? } — uploadPolicy: { allowedTypes?, maxFileBytes?, maxBytesByType? },
+ * or null to remove every upload restriction
+ */
 export async function PATCH(
   request: Request,
   { params }: { params: Promise<{ projectId: string }> }
 ) {
   try {
     const { projectId } = await params;
-    const { name, description } = await request.json();
+    const { name, description, uploadPolicy } = await request.json();
     const db = await getDb();
 
     const update: Record<string, unknown> = { updatedAt: new Date() };
     if (typeof name === 'string') update.name = name;
     if (typeof description === 'string') update.description = description;
+    if (uploadPolicy) update.uploadPolicy = uploadPolicySchema.parse(uploadPolicy);
 
     const res = await db.collection('projects').updateOne(
       { _id: new ObjectId(projectId) },
-      { $set: update }
+      uploadPolicy === null ? { $set: update, $unset: { uploadPolicy: '' } } : { $set: update }
     );
 
     if (res.matchedCount === 0) {
@@ -58,6 +66,12 @@ export async function PATCH(
 
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
     console.error('Error updating project:', error);
     return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
   }
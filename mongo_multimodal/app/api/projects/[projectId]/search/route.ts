@@ -1,6 +1,8 @@
 import { getDb } from '@/lib/mongodb';
 import { doVectorSearchAndAnalyse, doPaginatedVectorSearch } from '@/lib/utils';
+import { fusionWeightsSchema, searchFiltersSchema } from '@/lib/validations';
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 
 // Define error interface for better type safety
 interface SearchError extends Error {
@@ -18,7 +20,7 @@ export async function POST(
   {
     const paramsFound = await params;
     const db = await getDb();
-    const { query, type = 'text', mode = 'agent', page = 1, limit = 12, includeBase64 = false } = await request.json();
+    const { query, type = 'text', mode = 'agent', page = 1, limit = 12, includeBase64 = false, weights, filters } = await request.json();
 
     if ( !query )
     {
@@ -26,8 +28,19 @@ export async function POST(
     }
 
     // "Search" mode for direct, paginated results
+    // Hybrid: `weights` ({ vector, keyword, k }) tunes how keyword and vector rankings are fused;
+    // `filters` ({ types, tags, filenames, mimeTypes, createdFrom, createdTo }) restricts both
     if (mode === 'search') {
-      const searchResults = await doPaginatedVectorSearch(db, paramsFound.projectId, query, type, page, limit);
+      const fusionWeights = weights ? fusionWeightsSchema.parse(weights) : undefined;
+      const searchFilters = filters ? searchFiltersSchema.parse(filters) : undefined;
+      if (type === 'image' && fusionWeights?.vector === 0) {
+        return NextResponse.json({ error: 'Image queries need a positive vector weight' }, { status: 400 });
+      }
+
+      const searchResults = await doPaginatedVectorSearch(db, paramsFound.projectId, query, type, page, limit, {
+        weights: fusionWeights,
+        filters: searchFilters,
+      });
 
       // Strip base64 from results if not requested (default behavior)
       if (!includeBase64 && searchResults.results) {
@@ -91,6 +104,12 @@ export async function POST(
       );
     }
   } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
     console.error( 'Search error:', error );
     const err = error as Error;
     return NextResponse.json(
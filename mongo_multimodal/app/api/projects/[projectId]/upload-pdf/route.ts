@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { processAndUploadPDFFile } from '@/lib/services/chunking.service';
+import { parseDuplicatePolicy } from '@/lib/services/dedup.service';
+import { FileValidationError, validateUploadFile } from '@/lib/services/uploadValidation.service';
+
+export const maxDuration = 120;
+
+/**
+ * POST /api/projects/[projectId]/upload-pdf
+ * Accepts either multipart form data ({ file, sessionId, duplicatePolicy }) or a raw
+ * application/pdf body with the filename in ?filename= (for scripts)
+ * duplicatePolicy: skip (default) | replace | keep-both
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    const db = await getDb();
+
+    let upload: File | null = null;
+    let sessionId: string | null = null;
+    let duplicatePolicy: unknown = null;
+
+    const contentType = request.headers.get('content-type') || '';
+    if (contentType.startsWith('multipart/form-data')) {
+      const formData = await request.formData();
+      upload = formData.get('file') as File | null;
+      sessionId = formData.get('sessionId') as string | null;
+      duplicatePolicy = formData.get('duplicatePolicy');
+    } else {
+      const buffer = await request.arrayBuffer();
+      if (buffer.byteLength > 0) {
+        const filename = request.nextUrl.searchParams.get('filename') || 'document.pdf';
+        upload = new File([buffer], filename, { type: 'application/pdf' });
+      }
+      sessionId = request.nextUrl.searchParams.get('sessionId');
+      duplicatePolicy = request.nextUrl.searchParams.get('duplicatePolicy');
+    }
+
+    if (!upload) {
+      return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
+    }
+
+    // Validate content, not just the declared type (20MB limit for single-request uploads)
+    const { file } = await validateUploadFile(db, projectId, upload, {
+      accept: ['pdf'],
+      maxBytes: 20 * 1024 * 1024,
+    });
+
+    const result = await processAndUploadPDFFile(
+      db,
+      projectId,
+      file,
+      sessionId || undefined,
+      { duplicatePolicy: parseDuplicatePolicy(duplicatePolicy) }
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: result.error || 'Failed to process PDF',
+          code: result.invalid ? 'invalid_item' : 'processing_failed',
+          filename: file.name,
+        },
+        { status: result.invalid ? 422 : 500 }
+      );
+    }
+
+    if (result.skipped) {
+      return NextResponse.json({
+        success: true,
+        skipped: true,
+        duplicateOf: (result.duplicateOf || []).map((id) => id.toString()),
+        message: `Skipped: ${file.name} already exists in this project`,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      pageCount: result.pageCount,
+      chunkCount: result.totalChunks,
+      dataIds: result.insertedIds.map((id) => id.toString()),
+      jobIds: (result.jobIds || []).map((id) => id.toString()),
+      memoriesCreated: result.memoriesCreated || 0,
+      replacedIds: (result.replacedIds || []).map((id) => id.toString()),
+      message: `Successfully uploaded ${result.pageCount} pages (${result.totalChunks} items) and created ${result.memoriesCreated || 0} memories`,
+    });
+  } catch (error) {
+    if (error instanceof FileValidationError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.status });
+    }
+    console.error('PDF upload error:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload PDF' },
+      { status: 500 }
+    );
+  }
+}
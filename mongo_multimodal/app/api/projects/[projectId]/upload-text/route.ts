@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { processAndUploadTextFile } from '@/lib/services/chunking.service';
+import { parseDuplicatePolicy } from '@/lib/services/dedup.service';
+import { FileValidationError, validateUploadFile } from '@/lib/services/uploadValidation.service';
+
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
 
 export async function POST(
   request: NextRequest,
@@ -10,62 +14,62 @@ export async function POST(
     const { projectId } = await params;
     const db = await getDb();
     const formData = await request.formData();
-    const file = formData.get('file') as File;
+    const upload = formData.get('file') as File | null;
     const sessionId = formData.get('sessionId') as string | null;
+    const duplicatePolicy = parseDuplicatePolicy(formData.get('duplicatePolicy'));
 
-    if (!file) {
+    if (!upload) {
       return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
     }
 
-    // Validate file type
-    const validMimeTypes = [
-      'text/plain',
-      'text/csv',
-      'application/json',
-      'application/x-json',
-    ];
-
-    if (!validMimeTypes.includes(file.type) && !file.name.match(/\.(txt|csv|json)$/i)) {
-      return NextResponse.json(
-        {
-          error: 'Invalid file type. Supported: .txt, .csv, .json',
-        },
-        { status: 400 }
-      );
-    }
-
-    // Validate file size (20MB limit)
-    const maxSize = 20 * 1024 * 1024;
-    if (file.size > maxSize) {
-      return NextResponse.json(
-        { error: 'File size exceeds 20MB limit' },
-        { status: 400 }
-      );
-    }
+    // Supported: .txt, .csv, .json, .md, .html, .srt, .vtt, .docx, .pptx, .xlsx (checked against the content)
+    const { file } = await validateUploadFile(db, projectId, upload, {
+      accept: ['text', 'office'],
+      maxBytes: MAX_UPLOAD_BYTES,
+    });
 
     // Process and upload
     const result = await processAndUploadTextFile(
       db,
       projectId,
       file,
-      sessionId || undefined
+      sessionId || undefined,
+      { duplicatePolicy }
     );
 
     if (!result.success) {
       return NextResponse.json(
-        { error: result.error || 'Failed to process file' },
-        { status: 500 }
+        {
+          error: result.error || 'Failed to process file',
+          code: result.invalid ? 'invalid_item' : 'processing_failed',
+          filename: file.name,
+        },
+        { status: result.invalid ? 422 : 500 }
       );
     }
 
+    if (result.skipped) {
+      return NextResponse.json({
+        success: true,
+        skipped: true,
+        duplicateOf: (result.duplicateOf || []).map((id) => id.toString()),
+        message: `Skipped: ${file.name} already exists in this project`,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       chunkCount: result.totalChunks,
       dataIds: result.insertedIds.map((id) => id.toString()),
+      jobIds: (result.jobIds || []).map((id) => id.toString()),
       memoriesCreated: result.memoriesCreated || 0,
+      replacedIds: (result.replacedIds || []).map((id) => id.toString()),
       message: `Successfully uploaded ${result.totalChunks} chunks and created ${result.memoriesCreated || 0} memories`,
     });
   } catch (error) {
+    if (error instanceof FileValidationError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.status });
+    }
     console.error('Upload error:', error);
     return NextResponse.json(
       { error: 'Failed to upload file' },
@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import { processAndUploadWebContent } from '@/lib/services/chunking.service';
+import { processAndUploadWebContent, startWebsiteCrawl } from '@/lib/services/chunking.service';
 import { normalizeURL, validateURL } from '@/lib/web-scraper';
+import { parseDuplicatePolicy } from '@/lib/services/dedup.service';
 
+/**
+ * POST /api/projects/[projectId]/upload-web
+ * Scrapes a single page, or crawls a site when mode is 'crawl'
+ * Body: { url, sessionId?, duplicatePolicy?, mode?: 'page' | 'crawl',
+ *         maxDepth?, maxPages?, useSitemap?, respectRobots? }
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ projectId: string }> }
@@ -13,7 +20,7 @@ export async function POST(
 
     // Parse JSON body
     const body = await request.json();
-    const { url, sessionId } = body;
+    const { url, sessionId, duplicatePolicy, mode = 'page' } = body;
 
     if (!url || typeof url !== 'string') {
       return NextResponse.json(
@@ -31,12 +38,47 @@ export async function POST(
       );
     }
 
+    if (mode !== 'page' && mode !== 'crawl') {
+      return NextResponse.json(
+        { error: `Invalid mode: ${mode}` },
+        { status: 400 }
+      );
+    }
+
+    // Crawls run in the background; progress is polled from the ingestions endpoint
+    if (mode === 'crawl') {
+      const ingestionId = await startWebsiteCrawl(
+        db,
+        projectId,
+        normalizedUrl,
+        {
+          maxDepth: parseOptionalNumber(body.maxDepth),
+          maxPages: parseOptionalNumber(body.maxPages),
+          useSitemap: body.useSitemap !== false,
+          respectRobots: body.respectRobots !== false,
+        },
+        { duplicatePolicy: parseDuplicatePolicy(duplicatePolicy) }
+      );
+
+      return NextResponse.json(
+        {
+          success: true,
+          url: normalizedUrl,
+          ingestionId: ingestionId.toString(),
+          status: 'running',
+          message: `Crawling ${normalizedUrl}`,
+        },
+        { status: 202 }
+      );
+    }
+
     // Process and upload
     const result = await processAndUploadWebContent(
       db,
       projectId,
       normalizedUrl,
-      sessionId || undefined
+      sessionId || undefined,
+      { duplicatePolicy: parseDuplicatePolicy(duplicatePolicy) }
     );
 
     if (!result.success) {
@@ -46,12 +88,24 @@ export async function POST(
       );
     }
 
+    if (result.skipped) {
+      return NextResponse.json({
+        success: true,
+        url: normalizedUrl,
+        skipped: true,
+        duplicateOf: (result.duplicateOf || []).map((id) => id.toString()),
+        message: `Skipped: the content of ${normalizedUrl} already exists in this project`,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       url: normalizedUrl,
       chunkCount: result.totalChunks,
       dataIds: result.insertedIds.map((id) => id.toString()),
+      jobIds: (result.jobIds || []).map((id) => id.toString()),
       memoriesCreated: result.memoriesCreated || 0,
+      replacedIds: (result.replacedIds || []).map((id) => id.toString()),
       message: `Successfully scraped and uploaded ${result.totalChunks} chunks and created ${result.memoriesCreated || 0} memories`,
     });
   } catch (error) {
@@ -62,3 +116,11 @@ export async function POST(
     );
   }
 }
+
+/**
+ * Helper: Read a numeric crawl limit, ignoring anything that is not a number
+ */
+function parseOptionalNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+}
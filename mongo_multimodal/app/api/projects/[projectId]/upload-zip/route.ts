@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { importZipArchive } from '@/lib/services/archiveImport.service';
+import { parseDuplicatePolicy } from '@/lib/services/dedup.service';
+import {
+  FileValidationError,
+  checkFileMetadata,
+  getUploadPolicy,
+} from '@/lib/services/uploadValidation.service';
+
+export const maxDuration = 300;
+
+/**
+ * POST /api/projects/[projectId]/upload-zip
+ * Accepts a raw application/zip body with the filename in ?filename= (streamed entry by entry)
+ * or multipart form data ({ file, duplicatePolicy })
+ * Images, text/Office files and PDFs inside the archive go through their usual pipelines;
+ * the response lists the outcome of every entry, and each entry is validated like a single upload
+ * duplicatePolicy: skip (default) | replace | keep-both
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    const db = await getDb();
+
+    let archiveName: string;
+    let stream: ReadableStream<Uint8Array> | null = null;
+    let size: number | null = null;
+    let duplicatePolicy: unknown = null;
+
+    const contentType = request.headers.get('content-type') || '';
+    if (contentType.startsWith('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file') as File | null;
+      archiveName = file?.name || 'archive.zip';
+      stream = file && file.size > 0 ? file.stream() : null;
+      size = file?.size ?? null;
+      duplicatePolicy = formData.get('duplicatePolicy');
+    } else {
+      archiveName = request.nextUrl.searchParams.get('filename') || 'archive.zip';
+      stream = request.body;
+      size = Number(request.headers.get('content-length')) || null;
+      duplicatePolicy = request.nextUrl.searchParams.get('duplicatePolicy');
+    }
+
+    if (!stream) {
+      return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
+    }
+
+    // The archive itself: allowed in the project and within its size limits
+    checkFileMetadata(await getUploadPolicy(db, projectId), archiveName, size, { accept: ['archive'] });
+
+    const result = await importZipArchive(db, projectId, archiveName, stream, {
+      duplicatePolicy: parseDuplicatePolicy(duplicatePolicy),
+    });
+
+    const body = {
+      ingestionId: result.ingestionId.toString(),
+      status: result.status,
+      counts: result.counts,
+      itemsCreated: result.itemsCreated,
+      entries: result.entries,
+    };
+
+    // Nothing could be read at all, e.g. the upload is not a ZIP archive
+    if (result.status === 'failed' && result.entries.length === 0) {
+      return NextResponse.json(
+        { ...body, error: result.error, filename: archiveName },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ ...body, ...(result.error && { error: result.error }) });
+  } catch (error) {
+    if (error instanceof FileValidationError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.status });
+    }
+    console.error('ZIP upload error:', error);
+    return NextResponse.json(
+      { error: 'Failed to import archive' },
+      { status: 500 }
+    );
+  }
+}
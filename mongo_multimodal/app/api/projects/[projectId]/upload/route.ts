@@ -1,7 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
+import { processAndUploadImageFile, processAndUploadTextFile } from '@/lib/services/chunking.service';
+import { enqueueIngestionJobs } from '@/lib/services/jobQueue.service';
+import { FileValidationError, validateUploadFile } from '@/lib/services/uploadValidation.service';
+import { ProjectDataValidationError, assertValidProjectData } from '@/lib/validations';
+import { storeFile } from '@/lib/services/fileStorage.service';
+import {
+  checkDuplicate,
+  hashContent,
+  parseDuplicatePolicy,
+  replaceDuplicates,
+} from '@/lib/services/dedup.service';
 
+// Larger files are sent through the resumable /uploads endpoints
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+/**
+ * POST /api/projects/[projectId]/upload
+ * Images, Office documents and other text files ({ file, duplicatePolicy } form data)
+ * The type is taken from the file's content; rejected files get { error, code, filename, ... }
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ projectId: string }> }
@@ -10,26 +29,102 @@ export async function POST(
     const { projectId } = await params;
     const db = await getDb();
     const formData = await request.formData();
-    const file = formData.get('file') as File;
+    const upload = formData.get('file') as File | null;
+    const duplicatePolicy = parseDuplicatePolicy(formData.get('duplicatePolicy'));
 
-    if (!file) {
+    if (!upload) {
       return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
     }
 
+    const { file, category } = await validateUploadFile(db, projectId, upload, {
+      accept: ['image', 'office', 'text'],
+      maxBytes: MAX_UPLOAD_BYTES,
+    });
+
+    // Office documents are binary packages: parse them into text chunks
+    if (category === 'office') {
+      const result = await processAndUploadTextFile(db, projectId, file, undefined, { duplicatePolicy });
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            error: result.error || 'Failed to process file',
+            code: result.invalid ? 'invalid_item' : 'processing_failed',
+            filename: file.name,
+          },
+          { status: result.invalid ? 422 : 500 }
+        );
+      }
+      if (result.skipped) {
+        return NextResponse.json({
+          skipped: true,
+          duplicateOf: (result.duplicateOf || []).map((id) => id.toString()),
+        });
+      }
+      return NextResponse.json({
+        id: result.insertedIds[0],
+        chunkCount: result.totalChunks,
+        dataIds: result.insertedIds.map((id) => id.toString()),
+        jobIds: (result.jobIds || []).map((id) => id.toString()),
+      });
+    }
+
+    if (category === 'image') {
+      const result = await processAndUploadImageFile(db, projectId, file, { duplicatePolicy });
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            error: result.error || 'Failed to upload file',
+            code: result.invalid ? 'invalid_item' : 'processing_failed',
+            filename: file.name,
+          },
+          { status: result.invalid ? 422 : 500 }
+        );
+      }
+      if (result.skipped) {
+        return NextResponse.json({
+          skipped: true,
+          duplicateOf: (result.duplicateOf || []).map((id) => id.toString()),
+        });
+      }
+      return NextResponse.json({
+        id: result.insertedIds[0],
+        jobIds: (result.jobIds || []).map((id) => id.toString()),
+        replacedIds: (result.replacedIds || []).map((id) => id.toString()),
+      });
+    }
+
     const buffer = await file.arrayBuffer();
-    const base64 = Buffer.from(buffer).toString('base64');
+    const sourceHash = hashContent(buffer);
+
+    const duplicate = await checkDuplicate(db, projectId, sourceHash, duplicatePolicy);
+    if (duplicate.skip) {
+      return NextResponse.json({
+        skipped: true,
+        duplicateOf: duplicate.existingIds.map((id) => id.toString()),
+      });
+    }
+    // Other files are kept as documents; the original bytes live in GridFS
+    const originalFileId = await storeFile(db, buffer, {
+      filename: file.name,
+      contentType: file.type || 'application/octet-stream',
+      projectId,
+      kind: 'original',
+    });
+    const text = await file.text();
 
     const projectData = {
       projectId: new ObjectId(projectId),
-      type: file.type.startsWith('image/') ? 'image' : 'document',
+      type: 'document',
       content: {
-        base64: file.type.startsWith('image/') ? base64 : undefined,
-        text: !file.type.startsWith('image/') ? await file.text() : undefined,
+        text,
       },
       metadata: {
         filename: file.name,
         mimeType: file.type,
         size: file.size,
+        originalFileId,
+        contentHash: hashContent(text),
+        sourceHash,
       },
       analysis: {
         description: '',
@@ -40,12 +135,30 @@ export async function POST(
       updatedAt: new Date(),
     };
 
+    assertValidProjectData(projectData);
     const result = await db.collection('projectData').insertOne(projectData);
 
-    // TODO: Trigger background job for embedding generation and analysis
+    // Analysis and embedding run in the background job queue
+    const jobIds = await enqueueIngestionJobs(db, projectId, [
+      { _id: result.insertedId, type: projectData.type },
+    ]);
+    const replacedIds = await replaceDuplicates(db, duplicate, [result.insertedId]);
 
-    return NextResponse.json({ id: result.insertedId });
+    return NextResponse.json({
+      id: result.insertedId,
+      jobIds: jobIds.map((id) => id.toString()),
+      replacedIds: replacedIds.map((id) => id.toString()),
+    });
   } catch (error) {
+    if (error instanceof FileValidationError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.status });
+    }
+    if (error instanceof ProjectDataValidationError) {
+      return NextResponse.json(
+        { error: error.message, code: 'invalid_item', issues: error.issues },
+        { status: 422 }
+      );
+    }
     console.error('Upload error:', error);
     return NextResponse.json(
       { error: 'Failed to upload file' },
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { UploadError, completeUpload } from '@/lib/services/resumableUpload.service';
+import { FileValidationError } from '@/lib/services/uploadValidation.service';
+
+/**
+ * POST /api/projects/[projectId]/uploads/[uploadId]/complete
+ * Queues the import of the assembled file through the pipeline for its type
+ * Answers 202 { uploadId, status: 'processing' } while the import runs; poll
+ * GET /api/projects/[projectId]/uploads/[uploadId] for its result. Once imported, the response
+ * matches the single-request upload endpoints (ZIP results under `archive`)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; uploadId: string }> }
+) {
+  try {
+    const { projectId, uploadId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const upload = await completeUpload(db, projectId, uploadId);
+
+    if (upload.status === 'failed') {
+      return NextResponse.json({ error: upload.error || 'Upload failed' }, { status: 422 });
+    }
+    if (upload.status === 'processing') {
+      return NextResponse.json({ uploadId: upload.uploadId, status: upload.status }, { status: 202 });
+    }
+
+    return NextResponse.json({ uploadId: upload.uploadId, ...upload.result });
+  } catch (error) {
+    if (error instanceof FileValidationError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.status });
+    }
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Complete upload error:', error);
+    return NextResponse.json({ error: 'Failed to complete upload' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { UploadError, storeUploadPart } from '@/lib/services/resumableUpload.service';
+
+/**
+ * PUT /api/projects/[projectId]/uploads/[uploadId]/parts/[partNumber]
+ * Stores one part of a resumable upload (raw body) after checking its size and checksum
+ * Headers: Content-Length (required), X-Part-Sha256 (hex SHA-256 of the part)
+ * Re-sending a part replaces it, so parts can be retried after a dropped connection
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; uploadId: string; partNumber: string }> }
+) {
+  try {
+    const { projectId, uploadId, partNumber } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    // The body is only read once the upload and the declared length check out
+    const contentLength = request.headers.get('content-length');
+    const db = await getDb();
+    const upload = await storeUploadPart(
+      db,
+      projectId,
+      uploadId,
+      Number(partNumber),
+      {
+        contentLength: contentLength === null ? null : Number(contentLength),
+        read: async () => new Uint8Array(await request.arrayBuffer()),
+      },
+      request.headers.get('x-part-sha256')
+    );
+
+    return NextResponse.json({
+      success: true,
+      partNumber: Number(partNumber),
+      receivedParts: upload.receivedParts.length,
+      receivedBytes: upload.receivedBytes,
+      totalParts: upload.totalParts,
+    });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Upload part error:', error);
+    return NextResponse.json({ error: 'Failed to store part' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { abortUpload, getUploadSession } from '@/lib/services/resumableUpload.service';
+
+/**
+ * GET /api/projects/[projectId]/uploads/[uploadId]
+ * Status of a resumable upload, including the parts already received (to resume)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; uploadId: string }> }
+) {
+  try {
+    const { projectId, uploadId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const upload = await getUploadSession(db, projectId, uploadId);
+    if (!upload) {
+      return NextResponse.json({ error: 'Upload not found or expired' }, { status: 404 });
+    }
+
+    return NextResponse.json({ upload });
+  } catch (error) {
+    console.error('Get upload error:', error);
+    return NextResponse.json({ error: 'Failed to fetch upload' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/projects/[projectId]/uploads/[uploadId]
+ * Aborts a resumable upload and discards its parts
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; uploadId: string }> }
+) {
+  try {
+    const { projectId, uploadId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const aborted = await abortUpload(db, projectId, uploadId);
+    if (!aborted) {
+      return NextResponse.json({ error: 'Upload not found or expired' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Abort upload error:', error);
+    return NextResponse.json({ error: 'Failed to abort upload' }, { status: 500 });
+  }
+}
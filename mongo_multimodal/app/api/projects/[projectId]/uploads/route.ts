@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { UploadError, createUploadSession } from '@/lib/services/resumableUpload.service';
+import { FileValidationError } from '@/lib/services/uploadValidation.service';
+
+/**
+ * POST /api/projects/[projectId]/uploads
+ * Starts a resumable upload for a large file (image, text/Office, PDF, email or ZIP archive)
+ * Body: { filename, size, contentType?, partSize?, sha256?, duplicatePolicy?, sessionId? }
+ * Then PUT each part to /uploads/[uploadId]/parts/[partNumber] and POST /uploads/[uploadId]/complete
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { filename, size, contentType, partSize, sha256, duplicatePolicy, sessionId } = body;
+
+    if (!filename || typeof filename !== 'string') {
+      return NextResponse.json({ error: 'filename is required' }, { status: 400 });
+    }
+    if (typeof size !== 'number') {
+      return NextResponse.json({ error: 'size is required' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const upload = await createUploadSession(db, projectId, {
+      filename,
+      size,
+      contentType: typeof contentType === 'string' ? contentType : undefined,
+      partSize: typeof partSize === 'number' ? partSize : undefined,
+      sha256: typeof sha256 === 'string' ? sha256 : undefined,
+      duplicatePolicy,
+      sessionId: typeof sessionId === 'string' ? sessionId : undefined,
+    });
+
+    return NextResponse.json({ success: true, upload });
+  } catch (error) {
+    if (error instanceof FileValidationError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.status });
+    }
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Start upload error:', error);
+    return NextResponse.json({ error: 'Failed to start upload' }, { status: 500 });
+  }
+}
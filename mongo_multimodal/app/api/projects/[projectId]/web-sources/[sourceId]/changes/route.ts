@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { getPageChanges, getWebSource } from '@/lib/services/webSource.service';
+
+/**
+ * GET /api/projects/[projectId]/web-sources/[sourceId]/changes
+ * Section-level diff between the version current at `since` and the latest version
+ * Query: ?since=2025-01-31 (ISO date; defaults to the oldest version)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; sourceId: string }> }
+) {
+  try {
+    const { projectId, sourceId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const sinceParam = request.nextUrl.searchParams.get('since');
+    const since = sinceParam ? new Date(sinceParam) : undefined;
+    if (since && isNaN(since.getTime())) {
+      return NextResponse.json({ error: `Invalid date: ${sinceParam}` }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const source = await getWebSource(db, projectId, sourceId);
+    if (!source) {
+      return NextResponse.json({ error: 'Web source not found' }, { status: 404 });
+    }
+
+    const changes = await getPageChanges(db, projectId, source.url, since);
+    if (!changes) {
+      return NextResponse.json({ error: 'No versions recorded yet' }, { status: 404 });
+    }
+
+    return NextResponse.json(changes);
+  } catch (error) {
+    console.error('Web source changes error:', error);
+    return NextResponse.json({ error: 'Failed to compute changes' }, { status: 500 });
+  }
+}
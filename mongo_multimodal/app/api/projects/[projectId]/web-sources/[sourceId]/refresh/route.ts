@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { getWebSource, requestRefresh } from '@/lib/services/webSource.service';
+
+/**
+ * POST /api/projects/[projectId]/web-sources/[sourceId]/refresh
+ * Queues a refresh now instead of waiting for the schedule
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; sourceId: string }> }
+) {
+  try {
+    const { projectId, sourceId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const source = await getWebSource(db, projectId, sourceId);
+    if (!source) {
+      return NextResponse.json({ error: 'Web source not found' }, { status: 404 });
+    }
+
+    const jobId = await requestRefresh(db, source);
+
+    return NextResponse.json({
+      success: true,
+      jobId: jobId?.toString() || null,
+      message: jobId ? 'Refresh queued' : 'A refresh is already pending',
+    });
+  } catch (error) {
+    console.error('Refresh web source error:', error);
+    return NextResponse.json({ error: 'Failed to queue refresh' }, { status: 500 });
+  }
+}
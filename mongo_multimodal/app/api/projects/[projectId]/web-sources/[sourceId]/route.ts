@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import {
+  deleteWebSource,
+  getWebSource,
+  listWebSourceVersions,
+  updateWebSource,
+} from '@/lib/services/webSource.service';
+
+/**
+ * GET /api/projects/[projectId]/web-sources/[sourceId]
+ * A web source with its version history (newest first)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; sourceId: string }> }
+) {
+  try {
+    const { projectId, sourceId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const source = await getWebSource(db, projectId, sourceId);
+    if (!source) {
+      return NextResponse.json({ error: 'Web source not found' }, { status: 404 });
+    }
+
+    const versions = await listWebSourceVersions(db, source._id);
+    return NextResponse.json({ source, versions });
+  } catch (error) {
+    console.error('Get web source error:', error);
+    return NextResponse.json({ error: 'Failed to fetch web source' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/projects/[projectId]/web-sources/[sourceId]
+ * Body: { refreshIntervalHours?: number, enabled?: boolean }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; sourceId: string }> }
+) {
+  try {
+    const { projectId, sourceId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { refreshIntervalHours, enabled } = body;
+
+    if (refreshIntervalHours !== undefined && typeof refreshIntervalHours !== 'number') {
+      return NextResponse.json({ error: 'refreshIntervalHours must be a number' }, { status: 400 });
+    }
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      return NextResponse.json({ error: 'enabled must be a boolean' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const source = await updateWebSource(db, projectId, sourceId, { refreshIntervalHours, enabled });
+    if (!source) {
+      return NextResponse.json({ error: 'Web source not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, source });
+  } catch (error) {
+    console.error('Update web source error:', error);
+    return NextResponse.json({ error: 'Failed to update web source' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/projects/[projectId]/web-sources/[sourceId]
+ * Stops refreshing the page; its ingested chunks are kept
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; sourceId: string }> }
+) {
+  try {
+    const { projectId, sourceId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const deleted = await deleteWebSource(db, projectId, sourceId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Web source not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete web source error:', error);
+    return NextResponse.json({ error: 'Failed to delete web source' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { listWebSources, registerWebSource } from '@/lib/services/webSource.service';
+
+/**
+ * GET /api/projects/[projectId]/web-sources
+ * Lists web pages that are re-scraped on a schedule
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const sources = await listWebSources(db, projectId);
+
+    return NextResponse.json({ sources });
+  } catch (error) {
+    console.error('List web sources error:', error);
+    return NextResponse.json({ error: 'Failed to list web sources' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/projects/[projectId]/web-sources
+ * Registers a page for scheduled refreshes; the first fetch is queued right away
+ * Body: { url: string, refreshIntervalHours?: number }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    if (!ObjectId.isValid(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { url, refreshIntervalHours } = body;
+
+    if (!url || typeof url !== 'string') {
+      return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+    }
+    if (refreshIntervalHours !== undefined && typeof refreshIntervalHours !== 'number') {
+      return NextResponse.json({ error: 'refreshIntervalHours must be a number' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const source = await registerWebSource(db, projectId, url, refreshIntervalHours);
+
+    return NextResponse.json({ success: true, source });
+  } catch (error) {
+    console.error('Register web source error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to register web source';
+    const status = message === 'Invalid URL format' ? 400 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
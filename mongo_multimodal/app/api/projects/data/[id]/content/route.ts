@@ -1,10 +1,15 @@
 import { getDb } from '@/lib/mongodb';
 import { NextRequest, NextResponse } from 'next/server';
-import { getItemContent } from '@/lib/services/projectData.service';
+import { ObjectId } from 'mongodb';
+import { Readable } from 'stream';
+import { getFileInfo, openFileStream } from '@/lib/services/fileStorage.service';
 
 /**
  * GET /api/projects/data/[id]/content
- * Fetch content data for a specific item (used for lazy loading image content)
+ * Streams the bytes of an item: the image for image items, otherwise the text
+ * Query: ?original=1 streams the uploaded source file (PDF, Office, ...)
+ *        ?download=1 sends it as an attachment
+ * Supports single byte ranges (Range: bytes=start-end)
  */
 export async function GET(
   request: NextRequest,
@@ -12,14 +17,124 @@ export async function GET(
 ) {
   try {
     const { id } = await params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const wantOriginal = searchParams.get('original') === '1';
+    const download = searchParams.get('download') === '1';
+
     const db = await getDb();
+    const item = await db.collection('projectData').findOne(
+      { _id: new ObjectId(id) },
+      { projection: { embedding: 0, embeddingAlt: 0 } }
+    );
+
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const fileId: ObjectId | undefined = wantOriginal
+      ? item.metadata?.originalFileId || item.content?.fileId
+      : item.content?.fileId;
+
+    const headers = new Headers({
+      'Cache-Control': 'private, max-age=3600',
+      'Accept-Ranges': 'bytes',
+    });
+    if (item.metadata?.contentHash && !wantOriginal) {
+      headers.set('ETag', `"${item.metadata.contentHash}"`);
+      if (request.headers.get('if-none-match') === `"${item.metadata.contentHash}"`) {
+        return new Response(null, { status: 304, headers });
+      }
+    }
+
+    // Bytes in GridFS are streamed without loading the whole file
+    if (fileId) {
+      const info = await getFileInfo(db, fileId);
+      if (!info) {
+        return NextResponse.json({ error: 'Stored file not found' }, { status: 404 });
+      }
+
+      const filename = wantOriginal
+        ? item.metadata?.chunkInfo?.originalFilename || info.filename
+        : item.metadata?.filename || info.filename;
+      headers.set('Content-Type', info.metadata?.contentType || item.metadata?.mimeType || 'application/octet-stream');
+      headers.set(
+        'Content-Disposition',
+        `${download ? 'attachment' : 'inline'}; filename*=UTF-8''${encodeURIComponent(filename)}`
+      );
+
+      const range = parseRange(request.headers.get('range'), info.length);
+      if (range === 'invalid') {
+        headers.set('Content-Range', `bytes */${info.length}`);
+        return new Response(null, { status: 416, headers });
+      }
+
+      const stream = openFileStream(db, fileId, range ? { start: range.start, end: range.end + 1 } : undefined);
+      const body = Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>;
+
+      if (range) {
+        headers.set('Content-Range', `bytes ${range.start}-${range.end}/${info.length}`);
+        headers.set('Content-Length', String(range.end - range.start + 1));
+        return new Response(body, { status: 206, headers });
+      }
 
-    const result = await getItemContent(db, id);
-    return NextResponse.json(result);
+      headers.set('Content-Length', String(info.length));
+      return new Response(body, { status: 200, headers });
+    }
+
+    // Items stored before the GridFS migration, and plain text items
+    let bytes: Buffer | null = null;
+    if (item.content?.base64 && !wantOriginal) {
+      bytes = Buffer.from(item.content.base64, 'base64');
+      headers.set('Content-Type', item.metadata?.mimeType || 'application/octet-stream');
+    } else if (typeof item.content?.text === 'string') {
+      bytes = Buffer.from(item.content.text, 'utf8');
+      headers.set('Content-Type', 'text/plain; charset=utf-8');
+    }
+
+    if (!bytes) {
+      return NextResponse.json({ error: 'Item has no content' }, { status: 404 });
+    }
+
+    const filename = item.metadata?.filename || id;
+    headers.set(
+      'Content-Disposition',
+      `${download ? 'attachment' : 'inline'}; filename*=UTF-8''${encodeURIComponent(filename)}`
+    );
+    headers.set('Content-Length', String(bytes.length));
+    return new Response(new Uint8Array(bytes), { status: 200, headers });
   } catch (error) {
-    console.error('Error fetching item content:', error);
-    const message = error instanceof Error ? error.message : 'Failed to fetch item content';
-    const status = message === 'Invalid ID format' ? 400 : message === 'Item not found' ? 404 : 500;
-    return NextResponse.json({ error: message }, { status });
+    console.error('Error streaming item content:', error);
+    return NextResponse.json({ error: 'Failed to fetch item content' }, { status: 500 });
+  }
+}
+
+/**
+ * Helper: Parse a single "bytes=start-end" range header (inclusive end)
+ */
+function parseRange(
+  header: string | null,
+  size: number
+): { start: number; end: number } | 'invalid' | null {
+  if (!header) return null;
+
+  const match = header.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(size - parseInt(match[2], 10), 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
   }
-}
\ No newline at end of file
+
+  if (start >= size || start > end) return 'invalid';
+  return { start, end };
+}
@@ -0,0 +1,25 @@
+import { getDb } from '@/lib/mongodb';
+import { NextRequest, NextResponse } from 'next/server';
+import { getItemContent } from '@/lib/services/projectData.service';
+
+/**
+ * GET /api/projects/data/[id]
+ * Fetch a single item for the preview modal; bytes are streamed from ./content
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const db = await getDb();
+
+    const result = await getItemContent(db, id);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching item:', error);
+    const message = error instanceof Error ? error.message : 'Failed to fetch item';
+    const status = message === 'Invalid ID format' ? 400 : message === 'Item not found' ? 404 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
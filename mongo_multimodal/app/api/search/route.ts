@@ -1,20 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { performVectorSearch } from '@/lib/services/vectorSearch.service';
+import { CATEGORY_FORMATS, SNIFF_BYTES, sniffFormat } from '@/lib/file-types';
 import { ObjectId } from 'mongodb';
 
 /**
  * Global search endpoint
  * Searches across all projects and enriches results with project information
+ * Body: JSON { query?, image? (base64 or data URL) } or multipart form data { query?, image (file) }
+ * With both, the text and image are embedded together ("like this photo but at night")
  */
 export async function POST(req: NextRequest) {
   try {
     const db = await getDb();
-    const { query } = await req.json();
+    const { query, image } = await readSearchRequest(req);
 
-    if (!query || typeof query !== 'string' || !query.trim()) {
+    if (!query && !image) {
       return NextResponse.json(
-        { error: 'Query is required' },
+        { error: 'Query or image is required' },
+        { status: 400 }
+      );
+    }
+    if (image && !CATEGORY_FORMATS.image.includes(sniffFormat(Buffer.from(image, 'base64').subarray(0, SNIFF_BYTES)))) {
+      return NextResponse.json(
+        { error: 'Image must be a JPEG, PNG, GIF or WebP file' },
         { status: 400 }
       );
     }
@@ -27,7 +36,7 @@ export async function POST(req: NextRequest) {
       exact: false
     };
 
-    const results = await performVectorSearch(db, query.trim(), 'text', searchConfig);
+    const results = await performVectorSearch(db, { text: query, image }, 'text', searchConfig);
 
     // Enrich results with project information
     const enrichedResults = await Promise.all(
@@ -98,3 +107,26 @@ export async function POST(req: NextRequest) {
     );
   }
 }
+
+/**
+ * Helper: Query text and image bytes (base64) from a JSON or multipart request
+ */
+async function readSearchRequest(req: NextRequest): Promise<{ query?: string; image?: string }> {
+  if (req.headers.get('content-type')?.includes('multipart/form-data')) {
+    const formData = await req.formData();
+    const query = formData.get('query');
+    const image = formData.get('image');
+    return {
+      query: typeof query === 'string' ? query.trim() || undefined : undefined,
+      image: image instanceof File && image.size > 0
+        ? Buffer.from(await image.arrayBuffer()).toString('base64')
+        : undefined,
+    };
+  }
+
+  const { query, image } = await req.json();
+  return {
+    query: typeof query === 'string' ? query.trim() || undefined : undefined,
+    image: typeof image === 'string' && image ? image.replace(/^data:[^;]+;base64,/, '') : undefined,
+  };
+}
@@ -15,6 +15,7 @@ import { getDb } from '@/lib/mongodb';
 import { recordToolCall, endVoiceSession } from '@/lib/services/voice-usage.service';
 import { ObjectId } from 'mongodb';
 import { compressImage } from '@/lib/image-utils';
+import { hydrateBinaryContent } from '@/lib/services/fileStorage.service';
 
 // Store active sessions and their message queues (in-memory, use Redis for production)
 const activeSessions = new Map<string, any>();
@@ -496,10 +497,13 @@ export async function POST(request: NextRequest) {
         const db = await getDb();
 
         // Fetch the image
-        const projectData = await db.collection('projectData').findOne({
-          _id: new ObjectId(body.dataId),
-          type: 'image'
-        });
+        const projectData = await hydrateBinaryContent(
+          db,
+          await db.collection('projectData').findOne({
+            _id: new ObjectId(body.dataId),
+            type: 'image'
+          })
+        );
 
         if (!projectData || !projectData.content?.base64) {
           throw new Error('Image not found');
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { chunkEmailMessage, formatEmailDate, getEmailFormat, parseEmailFile } from '../email-parser';
+
+function message(headers: Record<string, string>, body: string): string {
+  return `${Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n')}\n\n${body}\n`;
+}
+
+const KICKOFF = message(
+  {
+    From: 'Alice Doe <alice@example.com>',
+    To: 'Bob Lee <bob@example.com>, carol@example.com',
+    Subject: 'Budget kickoff',
+    Date: 'Mon, 03 Mar 2025 09:15:00 +0000',
+    'Message-ID': '<kickoff@example.com>',
+  },
+  'Hi both,\n\nFrom the numbers so far we are on track.\n>From our side nothing changes.'
+);
+
+const REPLY = message(
+  {
+    From: 'Bob Lee <bob@example.com>',
+    To: 'Alice Doe <alice@example.com>',
+    Subject: 'Re: Budget kickoff',
+    Date: 'Tue, 04 Mar 2025 10:00:00 +0000',
+    'Message-ID': '<reply@example.com>',
+    'In-Reply-To': '<kickoff@example.com>',
+    References: '<kickoff@example.com>',
+  },
+  'Confirmed.\n\nOn Mon, Alice Doe wrote:\n> Hi both,\n> we are on track.'
+);
+
+const FOLLOW_UP = message(
+  {
+    From: 'carol@example.com',
+    Subject: 'Re: Re: Budget kickoff',
+    'Message-ID': '<follow-up@example.com>',
+    'In-Reply-To': '<reply@example.com>',
+  },
+  'Thanks!'
+);
+
+describe('getEmailFormat', () => {
+  it('detects .eml and .mbox files', () => {
+    expect(getEmailFormat('note.EML', '')).toBe('eml');
+    expect(getEmailFormat('export', 'application/mbox')).toBe('mbox');
+    expect(getEmailFormat('notes.txt', 'text/plain')).toBeNull();
+  });
+});
+
+describe('parseEmailFile', () => {
+  it('splits an mbox on separator lines only, keeping body lines that start with "From "', async () => {
+    const mbox = [
+      `From alice@example.com Mon Mar  3 09:15:00 2025\n${KICKOFF}`,
+      `From bob@example.com Tue Mar 04 10:00:00 +0000 2025\n${REPLY}`,
+      `From MAILER-DAEMON Wed Mar  5 08:00 2025\n${FOLLOW_UP}`,
+    ].join('\n');
+
+    const messages = await parseEmailFile(Buffer.from(mbox), 'mbox');
+
+    expect(messages.map((m) => m.subject)).toEqual(['Budget kickoff', 'Re: Budget kickoff', 'Re: Re: Budget kickoff']);
+    expect(messages[0].body).toBe('Hi both,\n\nFrom the numbers so far we are on track.\nFrom our side nothing changes.');
+  });
+
+  it('reads headers, strips quoted replies and threads replies to the first message', async () => {
+    const mbox = [
+      `From bob@example.com Tue Mar  4 10:00:00 2025\n${REPLY}`,
+      `From alice@example.com Mon Mar  3 09:15:00 2025\n${KICKOFF}`,
+      `From carol@example.com Wed Mar  5 08:00:00 2025\n${FOLLOW_UP}`,
+    ].join('\n');
+
+    const [reply, kickoff, followUp] = await parseEmailFile(Buffer.from(mbox), 'mbox');
+
+    expect(kickoff).toMatchObject({
+      messageId: 'kickoff@example.com',
+      from: 'Alice Doe <alice@example.com>',
+      to: ['Bob Lee <bob@example.com>', 'carol@example.com'],
+      cc: [],
+      threadId: 'kickoff@example.com',
+    });
+    expect(kickoff.date?.toISOString()).toBe('2025-03-03T09:15:00.000Z');
+    expect(reply).toMatchObject({ inReplyTo: 'kickoff@example.com', references: ['kickoff@example.com'], body: 'Confirmed.' });
+    expect(reply.threadId).toBe('kickoff@example.com');
+    expect(followUp.threadId).toBe('kickoff@example.com');
+  });
+
+  it('threads messages without headers by their subject, ignoring Re: prefixes', async () => {
+    const [first] = await parseEmailFile(Buffer.from(message({ Subject: 'Lunch' }, 'Noon?')), 'eml');
+    const [second] = await parseEmailFile(Buffer.from(message({ Subject: 'RE: Lunch' }, 'Yes')), 'eml');
+
+    expect(first.threadId).toMatch(/^subject:[0-9a-f]{16}$/);
+    expect(second.threadId).toBe(first.threadId);
+  });
+
+  it('collects attachments', async () => {
+    const eml = [
+      'From: alice@example.com',
+      'Subject: Report',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/mixed; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/plain',
+      '',
+      'See attached.',
+      '--b1',
+      'Content-Type: text/csv; name="q3.csv"',
+      'Content-Disposition: attachment; filename="q3.csv"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('region,amount\neu,10\n').toString('base64'),
+      '--b1--',
+      '',
+    ].join('\r\n');
+
+    const [email] = await parseEmailFile(Buffer.from(eml), 'eml');
+
+    expect(email.body).toBe('See attached.');
+    expect(email.attachments).toHaveLength(1);
+    expect(email.attachments[0]).toMatchObject({ filename: 'q3.csv', contentType: 'text/csv', inline: false });
+    expect(email.attachments[0].data.toString()).toBe('region,amount\neu,10\n');
+  });
+});
+
+describe('chunkEmailMessage', () => {
+  it('prefixes every chunk with the message header block', async () => {
+    const [email] = await parseEmailFile(Buffer.from(KICKOFF), 'eml');
+
+    const chunks = chunkEmailMessage(email, 'inbox.mbox');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content).toBe(
+      'From: Alice Doe <alice@example.com>\n' +
+        'To: Bob Lee <bob@example.com>, carol@example.com\n' +
+        'Date: 2025-03-03 09:15 UTC\n' +
+        'Subject: Budget kickoff\n\n' +
+        email.body
+    );
+    expect(chunks[0].metadata).toMatchObject({ type: 'email_message', originalFilename: 'inbox.mbox' });
+  });
+});
+
+describe('formatEmailDate', () => {
+  it('formats dates in UTC to the minute', () => {
+    expect(formatEmailDate(new Date('2025-03-04T10:00:59+02:00'))).toBe('2025-03-04 08:00 UTC');
+  });
+});
@@ -0,0 +1,106 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import {
+  createEmbeddingProvider,
+  createLocalProvider,
+  embeddingModelId,
+  generateEmbeddings,
+  parseRetryAfter,
+} from '../embeddings';
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+const norm = (vector: number[]) => Math.sqrt(cosine(vector, vector));
+
+async function solidImage(color: { r: number; g: number; b: number }): Promise<string> {
+  const png = await sharp({ create: { width: 16, height: 16, channels: 3, background: color } }).png().toBuffer();
+  return png.toString('base64');
+}
+
+describe('createLocalProvider', () => {
+  const local = createLocalProvider(256);
+
+  it('describes itself as an offline multimodal model', () => {
+    expect(local).toMatchObject({ name: 'local', model: 'local-hash-v1', dimensions: 256, supportsImages: true });
+    expect(embeddingModelId(local)).toBe('local/local-hash-v1/256');
+  });
+
+  it('returns deterministic unit vectors of the configured size', async () => {
+    const [first, second] = await local.embedBatch([{ text: 'Quarterly invoice' }, { text: 'Quarterly invoice' }], 'document');
+
+    expect(first).toHaveLength(256);
+    expect(norm(first)).toBeCloseTo(1, 6);
+    expect(second).toEqual(first);
+  });
+
+  it('scores texts sharing words and word parts as more similar', async () => {
+    const [query, related, unrelated] = await local.embedBatch(
+      [{ text: 'unpaid invoices from March' }, { text: 'The March invoice is unpaid' }, { text: 'Roof inspection photos' }],
+      'query'
+    );
+
+    expect(cosine(query, related)).toBeGreaterThan(0.4);
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated) + 0.3);
+  });
+
+  it('never embeds text as a zero vector', async () => {
+    const [vector] = await local.embedBatch([{ text: '!!!' }], 'document');
+
+    expect(norm(vector)).toBeCloseTo(1, 6);
+  });
+
+  it('embeds images so that only near-identical pictures match', async () => {
+    const [red, alsoRed, blue] = await local.embedBatch(
+      [
+        { base64: await solidImage({ r: 220, g: 20, b: 20 }) },
+        { base64: await solidImage({ r: 222, g: 22, b: 18 }) },
+        { base64: await solidImage({ r: 20, g: 20, b: 220 }) },
+      ],
+      'document'
+    );
+
+    expect(cosine(red, alsoRed)).toBeGreaterThan(0.99);
+    expect(cosine(red, blue)).toBeLessThan(0.5);
+  });
+
+  it('combines text and image into one vector', async () => {
+    const image = await solidImage({ r: 0, g: 200, b: 0 });
+    const [combined, textOnly] = await local.embedBatch([{ text: 'green field', base64: image }, { text: 'green field' }], 'query');
+
+    expect(norm(combined)).toBeCloseTo(1, 6);
+    expect(combined).not.toEqual(textOnly);
+  });
+
+  it('rejects empty input', async () => {
+    await expect(local.embedBatch([{}], 'document')).rejects.toThrow('No content provided');
+  });
+});
+
+describe('generateEmbeddings with the local provider', () => {
+  it('returns one result per input and fails only the bad ones', async () => {
+    const provider = createEmbeddingProvider({ provider: 'local', dimensions: 64 });
+    const progress: number[] = [];
+
+    const results = await generateEmbeddings([{ text: 'one' }, {}, { text: 'two' }], 'document', {
+      provider,
+      onProgress: (done) => progress.push(done),
+    });
+
+    expect(results[0].embedding).toHaveLength(64);
+    expect(results[1]).toEqual({ error: 'No content provided' });
+    expect(results[2].embedding).toHaveLength(64);
+    expect(progress[progress.length - 1]).toBe(3);
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => createEmbeddingProvider({ provider: 'nope' })).toThrow('Unknown embedding provider "nope"');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(new Date(Date.now() - 1000).toUTCString())).toBe(0);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { parseFeed } from '../feed-parser';
+
+const BASE_URL = 'https://blog.example.com/feed.xml';
+
+describe('parseFeed', () => {
+  it('parses RSS 2.0 items with relative links, dates and HTML descriptions', () => {
+    const xml = `<?xml version="1.0"?>
+      <rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+        <channel>
+          <title>Example Blog</title>
+          <link>/</link>
+          <item>
+            <title>Release 2.0</title>
+            <link>/posts/release-2</link>
+            <guid isPermaLink="false">post-42</guid>
+            <pubDate>Tue, 04 Mar 2025 10:00:00 GMT</pubDate>
+            <dc:creator>Alice</dc:creator>
+            <description><![CDATA[<p>Big <b>news</b>
+              today.</p>]]></description>
+          </item>
+          <item>
+            <title>No guid</title>
+            <link>https://blog.example.com/posts/no-guid</link>
+          </item>
+        </channel>
+      </rss>`;
+
+    const feed = parseFeed(xml, BASE_URL);
+
+    expect(feed).toMatchObject({ format: 'rss', title: 'Example Blog', siteUrl: 'https://blog.example.com/' });
+    expect(feed.entries).toEqual([
+      {
+        guid: 'post-42',
+        url: 'https://blog.example.com/posts/release-2',
+        title: 'Release 2.0',
+        publishedAt: new Date('2025-03-04T10:00:00Z'),
+        author: 'Alice',
+        summary: 'Big news today.',
+      },
+      {
+        guid: 'https://blog.example.com/posts/no-guid',
+        url: 'https://blog.example.com/posts/no-guid',
+        title: 'No guid',
+      },
+    ]);
+  });
+
+  it('parses RSS 1.0 (RDF) items that sit beside the channel', () => {
+    const xml = `<?xml version="1.0"?>
+      <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns="http://purl.org/rss/1.0/"
+        xmlns:dc="http://purl.org/dc/elements/1.1/">
+        <channel rdf:about="https://news.example.com/">
+          <title>News</title>
+          <link>https://news.example.com/</link>
+        </channel>
+        <item rdf:about="https://news.example.com/a">
+          <title>Story A</title>
+          <link>https://news.example.com/a</link>
+          <dc:date>2025-03-01T08:30:00Z</dc:date>
+        </item>
+      </rdf:RDF>`;
+
+    const feed = parseFeed(xml, BASE_URL);
+
+    expect(feed.format).toBe('rdf');
+    expect(feed.entries).toEqual([
+      {
+        guid: 'https://news.example.com/a',
+        url: 'https://news.example.com/a',
+        title: 'Story A',
+        publishedAt: new Date('2025-03-01T08:30:00Z'),
+      },
+    ]);
+  });
+
+  it('parses Atom entries using the alternate link', () => {
+    const xml = `<?xml version="1.0" encoding="utf-8"?>
+      <feed xmlns="http://www.w3.org/2005/Atom">
+        <title>Atom Blog</title>
+        <link rel="self" href="https://atom.example.com/feed"/>
+        <link href="https://atom.example.com/"/>
+        <entry>
+          <id>tag:atom.example.com,2025:1</id>
+          <title type="html">Hello &lt;em&gt;world&lt;/em&gt;</title>
+          <link rel="edit" href="/edit/1"/>
+          <link rel="alternate" href="/2025/hello"/>
+          <updated>2025-02-01T12:00:00Z</updated>
+          <author><name>Bob</name></author>
+          <content type="html">&lt;p&gt;Body&lt;/p&gt;</content>
+        </entry>
+      </feed>`;
+
+    const feed = parseFeed(xml, 'https://atom.example.com/feed');
+
+    expect(feed).toMatchObject({ format: 'atom', title: 'Atom Blog', siteUrl: 'https://atom.example.com/' });
+    expect(feed.entries).toEqual([
+      {
+        guid: 'tag:atom.example.com,2025:1',
+        url: 'https://atom.example.com/2025/hello',
+        title: 'Hello world',
+        publishedAt: new Date('2025-02-01T12:00:00Z'),
+        author: 'Bob',
+        summary: 'Body',
+      },
+    ]);
+  });
+
+  it('derives a stable guid from title and date when an entry has no id or link', () => {
+    const xml = '<rss><channel><title>T</title><item><title>Untitled note</title>' +
+      '<pubDate>Sat, 01 Mar 2025 00:00:00 GMT</pubDate></item></channel></rss>';
+
+    const [first] = parseFeed(xml, BASE_URL).entries;
+    const [second] = parseFeed(xml, BASE_URL).entries;
+
+    expect(first.guid).toMatch(/^[0-9a-f]{64}$/);
+    expect(second.guid).toBe(first.guid);
+    expect(first.url).toBe('');
+  });
+
+  it('ignores non-http links', () => {
+    const xml = '<rss><channel><title>T</title><item><guid>1</guid><title>X</title>' +
+      '<link>javascript:alert(1)</link></item></channel></rss>';
+
+    expect(parseFeed(xml, BASE_URL).entries[0].url).toBe('');
+  });
+
+  it('rejects documents that are not feeds', () => {
+    expect(() => parseFeed('<html><body>Hi</body></html>', BASE_URL)).toThrow('Not an RSS or Atom feed');
+  });
+});
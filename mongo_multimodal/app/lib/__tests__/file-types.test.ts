@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { CATEGORY_FORMATS, describeFormat, formatMimeType, sniffFormat } from '../file-types';
+
+const bytes = (...values: Array<number | string>) =>
+  new Uint8Array(values.flatMap((value) => (typeof value === 'string' ? Array.from(Buffer.from(value, 'latin1')) : [value])));
+
+describe('sniffFormat', () => {
+  it('recognizes image signatures', () => {
+    expect(sniffFormat(bytes(0xff, 0xd8, 0xff, 0xe0, 0, 0x10))).toBe('jpeg');
+    expect(sniffFormat(bytes(0x89, 'PNG\r\n', 0x1a, '\n', 0, 0, 0, 0x0d))).toBe('png');
+    expect(sniffFormat(bytes('GIF89a', 1, 0))).toBe('gif');
+    expect(sniffFormat(bytes('GIF87a'))).toBe('gif');
+    expect(sniffFormat(bytes('RIFF', 0x24, 0, 0, 0, 'WEBPVP8 '))).toBe('webp');
+  });
+
+  it('recognizes PDF and ZIP signatures, including an empty archive', () => {
+    expect(sniffFormat(bytes('%PDF-1.7\n'))).toBe('pdf');
+    expect(sniffFormat(bytes('PK', 3, 4, 0x14, 0))).toBe('zip');
+    expect(sniffFormat(bytes('PK', 5, 6, 0, 0))).toBe('zip');
+  });
+
+  it('does not mistake RIFF audio for WebP', () => {
+    expect(sniffFormat(bytes('RIFF', 0x24, 0, 0, 0, 'WAVEfmt ', 0, 0))).toBe('binary');
+  });
+
+  it('treats UTF-8 and 8-bit text as text', () => {
+    expect(sniffFormat(new TextEncoder().encode('name,city\nZoë,Zürich\r\n\tindented'))).toBe('text');
+    expect(sniffFormat(bytes('caf', 0xe9, ',', 0x80, '\n'))).toBe('text');
+    expect(sniffFormat(new Uint8Array(0))).toBe('text');
+  });
+
+  it('treats NUL bytes and heavy control characters as binary', () => {
+    expect(sniffFormat(bytes(0xff, 0xfe, 'h', 0, 'i', 0))).toBe('binary');
+    expect(sniffFormat(bytes('ab', 1, 2, 3, 'cd'))).toBe('binary');
+    expect(sniffFormat(bytes('a'.repeat(100), 1, 2))).toBe('text');
+  });
+
+  it('needs the whole signature', () => {
+    expect(sniffFormat(bytes(0xff, 0xd8))).not.toBe('jpeg');
+    expect(sniffFormat(bytes('%PDF'))).toBe('text');
+    expect(sniffFormat(bytes('PK', 3))).toBe('binary');
+  });
+});
+
+describe('format helpers', () => {
+  it('maps formats to MIME types and descriptions', () => {
+    expect(formatMimeType('webp')).toBe('image/webp');
+    expect(formatMimeType('binary')).toBeUndefined();
+    expect(describeFormat('zip')).toBe('a ZIP package');
+  });
+
+  it('accepts Office documents and archives only as ZIP packages', () => {
+    expect(CATEGORY_FORMATS.office).toEqual(['zip']);
+    expect(CATEGORY_FORMATS.archive).toEqual(['zip']);
+    expect(CATEGORY_FORMATS.image).not.toContain('text');
+  });
+});
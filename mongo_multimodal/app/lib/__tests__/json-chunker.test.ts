@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { chunkJSON } from '../text-chunker';
+
+describe('chunkJSON', () => {
+  it('makes one chunk per record with key paths relative to its JSONPath', () => {
+    const json = JSON.stringify({
+      meta: { version: 2, exported: '2025-03-04' },
+      orders: [
+        { id: 1, shipping: { city: 'Oslo' }, tags: ['rush', 'gift'], 'unit price': 9.5 },
+        { id: 2, items: [{ sku: 'A-1' }], notes: null },
+      ],
+    });
+
+    const chunks = chunkJSON(json, 'orders.json');
+
+    expect(chunks.map((chunk) => chunk.metadata.jsonPath)).toEqual(['$.orders[0]', '$.orders[1]', '$']);
+    expect(chunks[0].content).toBe("$.orders[0]\n\nid: 1\nshipping.city: Oslo\ntags: rush, gift\n['unit price']: 9.5");
+    expect(chunks[1].content).toBe('$.orders[1]\n\nid: 2\nitems[0].sku: A-1\nnotes: null');
+    expect(chunks[2].content).toBe('$\n\nmeta.version: 2\nmeta.exported: 2025-03-04');
+    expect(chunks.every((chunk) => chunk.metadata.type === 'json_section' && chunk.totalChunks === 3)).toBe(true);
+  });
+
+  it('splits a top-level array of records per element', () => {
+    const chunks = chunkJSON('[{"name":"a"},{"name":"b"}]');
+
+    expect(chunks.map((chunk) => [chunk.metadata.jsonPath, chunk.content])).toEqual([
+      ['$[0]', '$[0]\n\nname: a'],
+      ['$[1]', '$[1]\n\nname: b'],
+    ]);
+  });
+
+  it('keeps a small document without records in one chunk', () => {
+    const chunks = chunkJSON('{"name":"app","settings":{"debug":true,"ports":[80,443]},"empty":{}}');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content).toBe('$\n\nname: app\nsettings.debug: true\nsettings.ports: 80, 443\nempty: {}');
+  });
+
+  it('splits oversized records into subtrees and slices', () => {
+    const values = Array.from({ length: 60 }, (_, i) => [i, i * 2]);
+    const json = JSON.stringify({ report: { title: 'Big', values } });
+
+    const chunks = chunkJSON(json, 'report.json', { maxTokens: 100 });
+
+    const paths = chunks.map((chunk) => chunk.metadata.jsonPath!);
+    expect(paths[0]).toMatch(/^\$\.report\.values\[0:\d+\]$/);
+    expect(paths).toContain('$.report');
+    expect(chunks.every((chunk) => chunk.metadata.estimatedTokens <= 110)).toBe(true);
+    // Every element lands in exactly one slice
+    const lines = chunks.flatMap((chunk) => chunk.content.split('\n').filter((line) => line.startsWith('[')));
+    expect(lines).toHaveLength(60);
+  });
+
+  it('falls back to text chunking for invalid JSON', () => {
+    const chunks = chunkJSON('{ not json', 'broken.json', { minChunkSize: 0 });
+
+    expect(chunks[0].metadata.type).toBe('paragraph');
+    expect(chunks[0].content).toBe('{ not json');
+  });
+});
@@ -0,0 +1,150 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { chunkOfficeFile, extractXlsxTables, getOfficeFormat } from '../office-parser';
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const P = 'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" ' +
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+async function buildPackage(parts: Record<string, string>): Promise<Uint8Array> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(parts)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'uint8array' });
+}
+
+function relationships(rels: Array<{ id: string; type: string; target: string }>): string {
+  return `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${rels
+    .map((rel) => `<Relationship Id="${rel.id}" Type="${REL}/${rel.type}" Target="${rel.target}"/>`)
+    .join('')}</Relationships>`;
+}
+
+function docxParagraph(text: string, style?: string): string {
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : '';
+  return `<w:p>${properties}<w:r><w:t>${text}</w:t></w:r></w:p>`;
+}
+
+function slideShape(text: string, placeholder?: string): string {
+  const ph = placeholder ? `<p:nvSpPr><p:nvPr><p:ph type="${placeholder}"/></p:nvPr></p:nvSpPr>` : '';
+  return `<p:sp>${ph}<p:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:txBody></p:sp>`;
+}
+
+describe('getOfficeFormat', () => {
+  it('detects formats by MIME type or extension', () => {
+    expect(getOfficeFormat('x.bin', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')).toBe('docx');
+    expect(getOfficeFormat('Deck.PPTX', 'application/octet-stream')).toBe('pptx');
+    expect(getOfficeFormat('notes.txt', 'text/plain')).toBeNull();
+  });
+});
+
+describe('chunkOfficeFile', () => {
+  it('groups DOCX paragraphs and tables under their heading trail', async () => {
+    const body = [
+      docxParagraph('Handbook', 'Title'),
+      docxParagraph('Intro text.'),
+      docxParagraph('Setup', 'Heading1'),
+      docxParagraph('Installation', 'Heading2'),
+      docxParagraph('Run the installer.'),
+      '<w:tbl><w:tr><w:tc><w:p><w:r><w:t>OS</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Command</w:t></w:r></w:p></w:tc></w:tr>' +
+        '<w:tr><w:tc><w:p><w:r><w:t>Linux</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>make</w:t></w:r></w:p></w:tc></w:tr></w:tbl>',
+      docxParagraph('Usage', 'Heading1'),
+      docxParagraph('Start it.'),
+    ].join('');
+    const data = await buildPackage({
+      'word/document.xml': `<w:document ${W}><w:body>${body}</w:body></w:document>`,
+    });
+
+    const chunks = await chunkOfficeFile(data, 'handbook.docx', '');
+
+    expect(chunks.map((chunk) => chunk.metadata.headingPath)).toEqual([
+      ['Handbook'],
+      ['Handbook', 'Setup', 'Installation'],
+      ['Handbook', 'Usage'],
+    ]);
+    expect(chunks[1].content).toBe('Handbook > Setup > Installation\n\nRun the installer.\n\nOS | Command\nLinux | make');
+    expect(chunks.every((chunk) => chunk.metadata.type === 'docx_section')).toBe(true);
+    expect(chunks.map((chunk) => chunk.chunkIndex)).toEqual([0, 1, 2]);
+    expect(chunks[2].totalChunks).toBe(3);
+  });
+
+  it('chunks PPTX slides in presentation order with speaker notes', async () => {
+    const slide = (shapes: string) => `<p:sld ${P}><p:cSld><p:spTree>${shapes}</p:spTree></p:cSld></p:sld>`;
+    const data = await buildPackage({
+      'ppt/presentation.xml': `<p:presentation ${P}><p:sldIdLst><p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId1"/></p:sldIdLst></p:presentation>`,
+      'ppt/_rels/presentation.xml.rels': relationships([
+        { id: 'rId1', type: 'slide', target: 'slides/slide2.xml' },
+        { id: 'rId2', type: 'slide', target: 'slides/slide1.xml' },
+      ]),
+      'ppt/slides/slide1.xml': slide(slideShape('Roadmap', 'title') + slideShape('Ship v2') + slideShape('7', 'sldNum')),
+      'ppt/slides/_rels/slide1.xml.rels': relationships([
+        { id: 'rId1', type: 'notesSlide', target: '../notesSlides/notesSlide1.xml' },
+      ]),
+      'ppt/notesSlides/notesSlide1.xml': `<p:notes ${P}><p:cSld><p:spTree>${slideShape('Mention the beta')}</p:spTree></p:cSld></p:notes>`,
+      'ppt/slides/slide2.xml': slide(slideShape('Questions?', 'ctrTitle')),
+    });
+
+    const chunks = await chunkOfficeFile(data, 'deck.pptx', '');
+
+    expect(chunks.map((chunk) => chunk.content)).toEqual([
+      'Slide 1: Roadmap\n\nShip v2\n\nSpeaker notes:\nMention the beta',
+      'Slide 2: Questions?',
+    ]);
+    expect(chunks.map((chunk) => chunk.metadata.slideNumber)).toEqual([1, 2]);
+  });
+
+  it('chunks XLSX sheets as rows with shared strings resolved', async () => {
+    const data = await buildXlsx();
+
+    const chunks = await chunkOfficeFile(data, 'budget.xlsx', '');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content.startsWith('Sheet: Q3\n')).toBe(true);
+    expect(chunks[0].content).toContain('Travel');
+    expect(chunks[0].metadata.type).toBe('xlsx_rows');
+    expect(chunks[0].metadata.csvMetadata).toMatchObject({ sheetName: 'Q3', columns: ['Item', 'Amount', 'Approved'] });
+  });
+
+  it('rejects files that are not zip packages', async () => {
+    await expect(chunkOfficeFile(new TextEncoder().encode('plain text'), 'fake.docx', '')).rejects.toThrow(
+      'fake.docx is not a valid DOCX file'
+    );
+  });
+});
+
+describe('extractXlsxTables', () => {
+  it('reads each sheet with its first row as header, placing cells by reference', async () => {
+    const tables = await extractXlsxTables(await buildXlsx(), 'budget.xlsx');
+
+    expect(tables).toEqual([
+      {
+        sheetName: 'Q3',
+        headers: ['Item', 'Amount', 'Approved'],
+        rows: [
+          ['Travel', '1200.5', 'TRUE'],
+          ['Hotel', '', 'FALSE'],
+        ],
+      },
+    ]);
+  });
+});
+
+async function buildXlsx(): Promise<Uint8Array> {
+  const cell = (ref: string, value: string, type?: string) =>
+    `<c r="${ref}"${type ? ` t="${type}"` : ''}><v>${value}</v></c>`;
+  const rows = [
+    `<row r="1">${cell('A1', '0', 's')}${cell('B1', '1', 's')}${cell('C1', '2', 's')}</row>`,
+    `<row r="2">${cell('A2', '3', 's')}${cell('B2', '1200.5')}${cell('C2', '1', 'b')}</row>`,
+    `<row r="3"><c r="A3" t="inlineStr"><is><t>Hotel</t></is></c>${cell('C3', '0', 'b')}</row>`,
+    '<row r="4"></row>',
+  ].join('');
+
+  return buildPackage({
+    'xl/workbook.xml': `<workbook xmlns:r="${REL}"><sheets><sheet name="Q3" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': relationships([{ id: 'rId1', type: 'worksheet', target: 'worksheets/sheet1.xml' }]),
+    'xl/sharedStrings.xml': '<sst><si><t>Item</t></si><si><t>Amount</t></si><si><t>Approved</t></si><si><t>Travel</t></si></sst>',
+    'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${rows}</sheetData></worksheet>`,
+  });
+}
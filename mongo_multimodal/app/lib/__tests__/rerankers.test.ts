@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createLocalReranker, createReranker, createVoyageReranker, rerankDocuments, Reranker } from '../rerankers';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('createReranker', () => {
+  it('creates the reranker named by the provider', () => {
+    expect(createReranker()).toBeNull();
+    expect(createReranker('none')).toBeNull();
+    expect(createReranker('local')).toMatchObject({ name: 'local', model: 'local-bm25-v1' });
+    expect(createReranker('voyage')).toMatchObject({ name: 'voyage', model: 'rerank-2' });
+    expect(createReranker('voyage', 'rerank-2-lite')?.model).toBe('rerank-2-lite');
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => createReranker('cohere')).toThrow('Unknown rerank provider "cohere"');
+  });
+});
+
+describe('createLocalReranker', () => {
+  const local = createLocalReranker();
+
+  it('ranks documents matching more of the query words higher', async () => {
+    const scores = await local.rerank('roof leak repair', [
+      'Quarterly budget review',
+      'Roof inspection found a leak near the chimney',
+      'Roof leak repair quote: replace flashing to repair the leak',
+      'Photos of the roof',
+    ]);
+
+    expect(scores[0]).toBe(0);
+    const order = scores.map((score, i) => [score, i]).sort((a, b) => b[0] - a[0]).map(([, i]) => i);
+    expect(order).toEqual([2, 1, 3, 0]);
+    expect(scores.every((score) => score >= 0 && score <= 1)).toBe(true);
+  });
+
+  it('weighs rare words above common ones', async () => {
+    const [common, rare] = await local.rerank('invoice PN-4432', [
+      'invoice for March',
+      'part pn 4432 shipped',
+      'invoice overdue',
+      'invoice paid',
+    ]);
+
+    expect(rare).toBeGreaterThan(common);
+  });
+
+  it('is case-insensitive and deterministic', async () => {
+    const first = await local.rerank('Zürich Office', ['zürich office', 'ZÜRICH OFFICE', 'Basel office']);
+    const second = await local.rerank('Zürich Office', ['zürich office', 'ZÜRICH OFFICE', 'Basel office']);
+
+    expect(first).toEqual(second);
+    expect(first[1]).toBe(first[0]);
+    expect(first[1]).toBeGreaterThan(first[2]);
+  });
+
+  it('scores nothing for queries without words', async () => {
+    expect(await local.rerank('???', ['a', 'b'])).toEqual([0, 0]);
+    expect(await local.rerank('query', [])).toEqual([]);
+  });
+});
+
+describe('rerankDocuments', () => {
+  it('splits documents into requests of at most maxDocuments, keeping input order', async () => {
+    const batches: string[][] = [];
+    const counting: Reranker = {
+      name: 'test',
+      model: 'length',
+      maxDocuments: 2,
+      rerank: async (_query, documents) => {
+        batches.push(documents);
+        return documents.map((document) => document.length);
+      },
+    };
+
+    const scores = await rerankDocuments('q', ['a', 'bbb', 'cc', 'dddd', 'e'], counting);
+
+    expect(batches).toEqual([['a', 'bbb'], ['cc', 'dddd'], ['e']]);
+    expect(scores).toEqual([1, 3, 2, 4, 1]);
+  });
+
+  it('fails when a reranker returns the wrong number of scores', async () => {
+    const broken: Reranker = { name: 'test', model: 'broken', maxDocuments: 10, rerank: async () => [1] };
+
+    await expect(rerankDocuments('q', ['a', 'b'], broken)).rejects.toThrow('Expected 2 rerank scores, got 1');
+  });
+
+  it('fails without a reranker', async () => {
+    await expect(rerankDocuments('q', ['a'], null)).rejects.toThrow('No reranker configured');
+  });
+});
+
+describe('createVoyageReranker', () => {
+  it('maps relevance scores back to input order', async () => {
+    const fetchMock = vi.fn(async () =>
+      new Response(
+        JSON.stringify({
+          object: 'list',
+          data: [
+            { index: 1, relevance_score: 0.9 },
+            { index: 0, relevance_score: 0.2 },
+          ],
+          model: 'rerank-2',
+          usage: { total_tokens: 10 },
+        })
+      )
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const scores = await createVoyageReranker('rerank-2', 'test-key').rerank('query', ['first', 'second', 'third']);
+
+    expect(scores).toEqual([0.2, 0.9, 0]);
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(init.body as string)).toEqual({
+      query: 'query',
+      documents: ['first', 'second', 'third'],
+      model: 'rerank-2',
+      truncation: true,
+    });
+  });
+
+  it('reports API errors and a missing key', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ detail: 'Invalid model' }), { status: 400 })));
+
+    await expect(createVoyageReranker('nope', 'test-key').rerank('q', ['a'])).rejects.toThrow('Invalid model');
+    vi.stubEnv('VOYAGE_API_KEY', '');
+    await expect(createVoyageReranker('rerank-2').rerank('q', ['a'])).rejects.toThrow('VOYAGE_API_KEY is not set');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { coerceValue, inferTableSchema } from '../table-schema';
+import { parseCSVTable } from '../text-chunker';
+
+describe('inferTableSchema', () => {
+  it('infers number, date, boolean and string columns from a CSV', () => {
+    const { headers, rows } = parseCSVTable(
+      [
+        'region,amount,closed,approved,owner',
+        'eu,"$1,200.50",2025-03-04,yes,Ann',
+        'us,-12.5,3/4/2025,No,Bob',
+        'apac,N/A,2025-03-05T10:00:00Z,TRUE,',
+      ].join('\r\n')
+    );
+
+    const columns = inferTableSchema(headers, rows);
+
+    expect(columns.map(({ name, key, type }) => ({ name, key, type }))).toEqual([
+      { name: 'region', key: 'c0', type: 'string' },
+      { name: 'amount', key: 'c1', type: 'number' },
+      { name: 'closed', key: 'c2', type: 'date' },
+      { name: 'approved', key: 'c3', type: 'boolean' },
+      { name: 'owner', key: 'c4', type: 'string' },
+    ]);
+    expect(columns[1]).toMatchObject({ min: -12.5, max: 1200.5, nullCount: 1, distinctCount: 2 });
+    expect(columns[2].max).toBe('2025-03-05T10:00:00.000Z');
+    expect(columns[4]).toMatchObject({ nullCount: 1, examples: ['Ann', 'Bob'] });
+  });
+
+  it('keeps a column as string when any value does not parse', () => {
+    const columns = inferTableSchema(['value'], [['1'], ['2'], ['three']]);
+
+    expect(columns[0].type).toBe('string');
+  });
+
+  it('treats numbers with leading zeros as identifiers', () => {
+    const columns = inferTableSchema(['zip', 'count'], [['02139', '0'], ['10001', '0.5']]);
+
+    expect(columns.map((column) => column.type)).toEqual(['string', 'number']);
+  });
+
+  it('prefers number over boolean and leaves empty columns as strings', () => {
+    const columns = inferTableSchema(['flag', 'empty'], [['1', ''], ['0', 'null']]);
+
+    expect(columns[0].type).toBe('number');
+    expect(columns[1]).toMatchObject({ type: 'string', nullCount: 2, distinctCount: 0 });
+  });
+
+  it('names blank and repeated headers uniquely and covers ragged rows', () => {
+    const columns = inferTableSchema(['amount', '', 'Amount'], [['1', '2', '3', '4']]);
+
+    expect(columns.map((column) => column.name)).toEqual(['amount', 'column_2', 'Amount_2', 'column_4']);
+  });
+});
+
+describe('coerceValue', () => {
+  it('converts cell text to the column type', () => {
+    expect(coerceValue('1,234.5', 'number')).toBe(1234.5);
+    expect(coerceValue('12.5%', 'number')).toBe(12.5);
+    expect(coerceValue('2025-03-04', 'date')).toEqual(new Date('2025-03-04'));
+    expect(coerceValue('Yes', 'boolean')).toBe(true);
+    expect(coerceValue('  text ', 'string')).toBe('text');
+  });
+
+  it('returns null for missing and unparseable cells', () => {
+    expect(coerceValue('n/a', 'string')).toBeNull();
+    expect(coerceValue(undefined, 'number')).toBeNull();
+    expect(coerceValue('abc', 'number')).toBeNull();
+    expect(coerceValue('maybe', 'boolean')).toBeNull();
+  });
+
+  it('keeps values that already have the column type', () => {
+    const date = new Date('2025-01-01');
+
+    expect(coerceValue(42, 'number')).toBe(42);
+    expect(coerceValue(false, 'boolean')).toBe(false);
+    expect(coerceValue(date, 'date')).toBe(date);
+  });
+});
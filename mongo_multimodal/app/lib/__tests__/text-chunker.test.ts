@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { chunkFileContent, chunkHTML, chunkMarkdown } from '../text-chunker';
+
+describe('chunkMarkdown', () => {
+  it('starts a chunk at every heading and records the heading path', () => {
+    const markdown = [
+      '# Guide',
+      '',
+      'Welcome.',
+      '',
+      '## Setup',
+      '',
+      'Install it.',
+      '',
+      '### Linux',
+      '',
+      'Use apt.',
+      '',
+      '## Usage',
+      '',
+      'Run it.',
+    ].join('\n');
+
+    const chunks = chunkMarkdown(markdown, 'guide.md');
+
+    expect(chunks.map((chunk) => chunk.metadata.headingPath)).toEqual([
+      ['Guide'],
+      ['Guide', 'Setup'],
+      ['Guide', 'Setup', 'Linux'],
+      ['Guide', 'Usage'],
+    ]);
+    expect(chunks[2].content).toBe('Guide > Setup > Linux\n\nUse apt.');
+    expect(chunks.every((chunk) => chunk.totalChunks === 4)).toBe(true);
+  });
+
+  it('maps chunks back to their character range in the source', () => {
+    const markdown = '# Title\n\nFirst paragraph.\n\nSecond paragraph.';
+
+    const [chunk] = chunkMarkdown(markdown);
+
+    expect(markdown.slice(chunk.metadata.charStart, chunk.metadata.charEnd)).toBe(
+      'First paragraph.\n\nSecond paragraph.'
+    );
+  });
+
+  it('reads setext headings', () => {
+    const chunks = chunkMarkdown('Title\n=====\n\nIntro.\n\nPart\n----\n\nBody.');
+
+    expect(chunks.map((chunk) => chunk.metadata.headingPath)).toEqual([['Title'], ['Title', 'Part']]);
+  });
+
+  it('never splits fenced code blocks or tables, even over the token limit', () => {
+    const code = ['```ts', ...Array.from({ length: 40 }, (_, i) => `const value${i} = ${i};`), '```'].join('\n');
+    const table = ['| a | b |', '| --- | --- |', ...Array.from({ length: 40 }, (_, i) => `| ${i} | row ${i} |`)].join('\n');
+    const markdown = `# Code\n\n${code}\n\n# Data\n\n${table}`;
+
+    const chunks = chunkMarkdown(markdown, 'big.md', { maxTokens: 50 });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].content).toBe(`Code\n\n${code}`);
+    expect(chunks[1].content).toBe(`Data\n\n${table}`);
+  });
+
+  it('does not treat headings inside code fences as headings', () => {
+    const chunks = chunkMarkdown('# Real\n\n```\n# not a heading\n```');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].metadata.headingPath).toEqual(['Real']);
+    expect(chunks[0].content).toContain('# not a heading');
+  });
+
+  it('splits long prose by sentences within its section', () => {
+    const sentence = 'This sentence is padding for the chunker. ';
+    const markdown = `# Long\n\n${sentence.repeat(40).trim()}`;
+
+    const chunks = chunkMarkdown(markdown, 'long.md', { maxTokens: 100, overlapTokens: 0, minChunkSize: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.content.startsWith('Long\n\n'))).toBe(true);
+  });
+});
+
+describe('chunkHTML', () => {
+  it('chunks HTML by its headings, keeping code and tables as Markdown', () => {
+    const html = `
+      <html><body><main>
+        <h1>API</h1>
+        <p>Overview of the API.</p>
+        <h2>Errors</h2>
+        <table><tr><th>Code</th><th>Meaning</th></tr><tr><td>404</td><td>Not found</td></tr></table>
+        <h2>Example</h2>
+        <pre><code class="language-js">fetch('/api')</code></pre>
+      </main></body></html>`;
+
+    const chunks = chunkHTML(html, 'api.html');
+
+    expect(chunks.map((chunk) => chunk.metadata.headingPath)).toEqual([
+      ['API'],
+      ['API', 'Errors'],
+      ['API', 'Example'],
+    ]);
+    expect(chunks[1].content).toContain('| Code | Meaning |\n| --- | --- |\n| 404 | Not found |');
+    expect(chunks[2].content).toContain("```js\nfetch('/api')\n```");
+  });
+});
+
+describe('chunkFileContent', () => {
+  it('picks the structure-aware chunkers by extension', () => {
+    expect(chunkFileContent('# A\n\nText.', 'notes.md', '')[0].metadata.headingPath).toEqual(['A']);
+    expect(chunkFileContent('<h1>A</h1><p>Text.</p>', 'page.htm', '')[0].metadata.type).toBe('section');
+  });
+});
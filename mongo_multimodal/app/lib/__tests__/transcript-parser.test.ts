@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { chunkTranscript, formatTimecode, getTranscriptFormat, parseTranscriptCues } from '../transcript-parser';
+
+const SRT = `1
+00:00:01,000 --> 00:00:04,500
+Alice: Good morning everyone.
+
+2
+00:00:05,000 --> 00:00:07,000
+<i>Bob: Morning!</i>
+
+3
+00:00:08,000 --> 00:00:10,000
+Alice: Let's start with
+the release.
+`;
+
+const VTT = `WEBVTT
+
+NOTE recorded on Monday
+
+STYLE
+::cue { color: yellow }
+
+intro
+00:01.000 --> 00:03.000
+<v Dr. Smith>Welcome &amp; thanks.</v>
+
+01:00:02.250 --> 01:00:04.000 align:start
+<v.loud Carol>Last point.
+`;
+
+describe('getTranscriptFormat', () => {
+  it('detects SRT and WebVTT by MIME type or extension', () => {
+    expect(getTranscriptFormat('talk.bin', 'text/vtt')).toBe('vtt');
+    expect(getTranscriptFormat('Talk.SRT', '')).toBe('srt');
+    expect(getTranscriptFormat('talk.txt', 'text/plain')).toBeNull();
+  });
+});
+
+describe('parseTranscriptCues', () => {
+  it('reads SRT cues with times, markup removed and recurring Name: prefixes as speakers', () => {
+    const cues = parseTranscriptCues(SRT);
+
+    expect(cues.map(({ startTime, endTime, speaker, text }) => ({ startTime, endTime, speaker, text }))).toEqual([
+      { startTime: 1, endTime: 4.5, speaker: 'Alice', text: 'Good morning everyone.' },
+      { startTime: 5, endTime: 7, speaker: undefined, text: 'Bob: Morning!' },
+      { startTime: 8, endTime: 10, speaker: 'Alice', text: "Let's start with the release." },
+    ]);
+    expect(SRT.slice(cues[0].charStart, cues[0].charEnd).startsWith('1\n00:00:01,000')).toBe(true);
+  });
+
+  it('reads VTT voice tags, short timestamps and entities, skipping header blocks', () => {
+    const cues = parseTranscriptCues(VTT.replace(/\n/g, '\r\n'));
+
+    expect(cues.map(({ startTime, speaker, text }) => ({ startTime, speaker, text }))).toEqual([
+      { startTime: 1, speaker: 'Dr. Smith', text: 'Welcome & thanks.' },
+      { startTime: 3602.25, speaker: 'Carol', text: 'Last point.' },
+    ]);
+  });
+
+  it('keeps one-off "Word:" prefixes as text', () => {
+    const cues = parseTranscriptCues(
+      '00:00:01.000 --> 00:00:02.000\nNote: the mic was off.\n\n00:00:03.000 --> 00:00:04.000\nWarning: spoilers ahead.\n'
+    );
+
+    expect(cues.map((cue) => [cue.speaker, cue.text])).toEqual([
+      [undefined, 'Note: the mic was off.'],
+      [undefined, 'Warning: spoilers ahead.'],
+    ]);
+  });
+});
+
+describe('chunkTranscript', () => {
+  it('groups cues into time windows with one line per speaker turn', () => {
+    const chunks = chunkTranscript(SRT, 'standup.srt', { windowSeconds: 6 });
+
+    expect(chunks.map((chunk) => chunk.content)).toEqual([
+      '[00:00:01] Alice: Good morning everyone.\n[00:00:05] Bob: Morning!',
+      "[00:00:08] Alice: Let's start with the release.",
+    ]);
+    expect(chunks[0].metadata).toMatchObject({
+      type: 'transcript_window',
+      startTime: 1,
+      endTime: 7,
+      speakers: ['Alice'],
+      originalFilename: 'standup.srt',
+    });
+    expect(chunks.map((chunk) => chunk.totalChunks)).toEqual([2, 2]);
+  });
+
+  it('merges consecutive cues of the same speaker into one turn', () => {
+    const vtt = 'WEBVTT\n\n00:00.000 --> 00:01.000\n<v Ann>One.\n\n00:01.000 --> 00:02.000\n<v Ann>Two.\n';
+
+    expect(chunkTranscript(vtt)[0].content).toBe('[00:00:00] Ann: One. Two.');
+  });
+});
+
+describe('formatTimecode', () => {
+  it('formats seconds as hh:mm:ss', () => {
+    expect(formatTimecode(872.9)).toBe('00:14:32');
+    expect(formatTimecode(3602.25)).toBe('01:00:02');
+    expect(formatTimecode(-5)).toBe('00:00:00');
+  });
+});
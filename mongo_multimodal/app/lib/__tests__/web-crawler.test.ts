@@ -0,0 +1,162 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { crawlWebsite, CrawledPage, isAllowedByRobots, parseRobotsTxt } from '../web-crawler';
+
+// Static fixture site served from memory; {origin} is replaced with the server's address
+const SITE: Record<string, { body: string; type?: string }> = {
+  '/': page('Home', '<a href="/docs">Docs</a> <a href="/about#team">About</a> <a href="https://example.com/">Elsewhere</a>'),
+  '/docs': page('Docs', '<a href="/docs/install">Install</a> <a href="/manual.pdf">Manual</a> <a href="/missing">Missing</a>'),
+  '/docs/install': page('Install', '<a href="/docs/install/linux">Linux</a>'),
+  '/docs/install/linux': page('Linux', 'Deepest page'),
+  '/about': page('About', '<a href="/">Home</a>'),
+  '/private/report': page('Private', 'Hidden'),
+  '/from-sitemap': page('Sitemap only', 'Not linked from anywhere'),
+};
+
+const ROBOTS = 'User-agent: *\nDisallow: /private/\n\nSitemap: {origin}/sitemap.xml\n';
+const SITEMAP = '<?xml version="1.0"?><urlset><url><loc>{origin}/from-sitemap</loc></url>' +
+  '<url><loc>{origin}/private/report</loc></url><url><loc>https://example.com/other</loc></url></urlset>';
+
+let server: Server;
+let origin: string;
+const requested: string[] = [];
+
+function page(title: string, body: string): { body: string } {
+  return { body: `<html><head><title>${title}</title></head><body><main><h1>${title}</h1><p>${body}</p></main></body></html>` };
+}
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const path = (request.url || '/').split('?')[0];
+    requested.push(path);
+
+    const files: Record<string, { body: string; type?: string }> = {
+      ...SITE,
+      '/robots.txt': { body: ROBOTS, type: 'text/plain' },
+      '/sitemap.xml': { body: SITEMAP, type: 'application/xml' },
+    };
+    const file = files[path];
+    if (!file) {
+      response.writeHead(404, { 'Content-Type': 'text/plain' });
+      response.end('Not found');
+      return;
+    }
+    response.writeHead(200, { 'Content-Type': file.type || 'text/html; charset=utf-8' });
+    response.end(file.body.replaceAll('{origin}', origin));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('crawlWebsite', () => {
+  it('crawls same-origin pages breadth-first within maxDepth, with sitemap and robots.txt', async () => {
+    const pages: CrawledPage[] = [];
+    const errors: Array<{ url: string; error: string }> = [];
+
+    const summary = await crawlWebsite(`${origin}/`, {
+      maxDepth: 2,
+      onPage: async (crawled) => {
+        pages.push(crawled);
+      },
+      onError: async (url, error) => {
+        errors.push({ url, error });
+      },
+    });
+
+    expect(pages.map((crawled) => [new URL(crawled.url).pathname, crawled.depth, crawled.discoveredBy])).toEqual([
+      ['/', 0, 'start'],
+      ['/from-sitemap', 1, 'sitemap'],
+      ['/docs', 1, 'link'],
+      ['/about', 1, 'link'],
+      ['/docs/install', 2, 'link'],
+    ]);
+    expect(pages[2].scraped.title).toBe('Docs');
+    expect(errors).toEqual([{ url: `${origin}/missing`, error: 'HTTP 404: Not Found' }]);
+    expect(summary).toMatchObject({
+      startUrl: `${origin}/`,
+      pagesVisited: 6,
+      pagesSucceeded: 5,
+      pagesFailed: 1,
+      blockedByRobots: [`${origin}/private/report`],
+      sitemapUrls: 2,
+      stoppedBy: 'completed',
+    });
+    // Blocked, off-site and non-page links are never fetched
+    expect(requested).not.toContain('/private/report');
+    expect(requested).not.toContain('/manual.pdf');
+    expect(requested).not.toContain('/docs/install/linux');
+  });
+
+  it('stops at maxPages', async () => {
+    const summary = await crawlWebsite(`${origin}/`, { maxPages: 2, useSitemap: false });
+
+    expect(summary).toMatchObject({ pagesVisited: 2, stoppedBy: 'maxPages' });
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const visited: string[] = [];
+
+    const summary = await crawlWebsite(`${origin}/`, {
+      signal: controller.signal,
+      useSitemap: false,
+      onPage: async (crawled) => {
+        visited.push(crawled.url);
+        controller.abort();
+      },
+    });
+
+    expect(visited).toEqual([`${origin}/`]);
+    expect(summary.stoppedBy).toBe('cancelled');
+  });
+
+  it('rejects invalid start URLs', async () => {
+    await expect(crawlWebsite('ftp://example.com/')).rejects.toThrow('Invalid URL format');
+  });
+});
+
+describe('parseRobotsTxt', () => {
+  it('prefers the group naming this crawler over the catch-all group', () => {
+    const robots = parseRobotsTxt([
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: OtherBot',
+      'User-agent: MongoMultimodal',
+      'Disallow: /admin # comment',
+      'Allow: /admin/public',
+      'Crawl-delay: 2',
+      'Sitemap: https://example.com/sitemap.xml',
+    ].join('\n'));
+
+    expect(robots).toEqual({
+      rules: [
+        { allow: false, path: '/admin' },
+        { allow: true, path: '/admin/public' },
+      ],
+      sitemaps: ['https://example.com/sitemap.xml'],
+      crawlDelayMs: 2000,
+    });
+  });
+});
+
+describe('isAllowedByRobots', () => {
+  const robots = parseRobotsTxt('User-agent: *\nDisallow: /search\nAllow: /search/about\nDisallow: /*.json$\n');
+
+  it('applies the longest matching rule', () => {
+    expect(isAllowedByRobots(robots, 'https://example.com/search?q=1')).toBe(false);
+    expect(isAllowedByRobots(robots, 'https://example.com/search/about')).toBe(true);
+    expect(isAllowedByRobots(robots, 'https://example.com/docs')).toBe(true);
+  });
+
+  it('supports wildcards and end anchors', () => {
+    expect(isAllowedByRobots(robots, 'https://example.com/data/items.json')).toBe(false);
+    expect(isAllowedByRobots(robots, 'https://example.com/data/items.json.html')).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+import { strToU8, strFromU8, zipSync, Zippable } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { readZipStream, ZIP_LIMITS, ZipEntry } from '../zip-reader';
+
+// Streams the bytes in small chunks so entries span several reads
+function streamOf(bytes: Uint8Array, chunkSize = 64): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+}
+
+async function readAll(files: Zippable, limits = ZIP_LIMITS) {
+  const entries: ZipEntry[] = [];
+  const errors: Array<{ path: string; error: string }> = [];
+  const summary = await readZipStream(
+    streamOf(zipSync(files)),
+    {
+      onEntry: async (entry) => {
+        entries.push(entry);
+      },
+      onEntryError: async (path, error) => {
+        errors.push({ path, error });
+      },
+    },
+    limits
+  );
+  return { entries, errors, summary };
+}
+
+describe('readZipStream', () => {
+  it('hands over stored and deflated files in archive order with their folders', async () => {
+    const { entries, errors, summary } = await readAll({
+      'readme.txt': [strToU8('hello'), { level: 0 }],
+      'site-a/roof/notes.md': strToU8('# Roof\n'.repeat(200)),
+      'site-a\\windows.txt': strToU8('backslash path'),
+    });
+
+    expect(entries.map(({ path, name, folderPath }) => ({ path, name, folderPath }))).toEqual([
+      { path: 'readme.txt', name: 'readme.txt', folderPath: '' },
+      { path: 'site-a/roof/notes.md', name: 'notes.md', folderPath: 'site-a/roof' },
+      { path: 'site-a/windows.txt', name: 'windows.txt', folderPath: 'site-a' },
+    ]);
+    expect(strFromU8(entries[0].data)).toBe('hello');
+    expect(strFromU8(entries[1].data)).toBe('# Roof\n'.repeat(200));
+    expect(errors).toEqual([]);
+    expect(summary).toEqual({ entries: 3, ignored: 0 });
+  });
+
+  it('ignores folders and files created by the OS', async () => {
+    const { entries, summary } = await readAll({
+      'photos/': new Uint8Array(0),
+      'photos/a.jpg': strToU8('jpeg'),
+      '__MACOSX/photos/._a.jpg': strToU8('fork'),
+      'photos/.DS_Store': strToU8('ds'),
+      'photos/Thumbs.db': strToU8('thumbs'),
+    });
+
+    expect(entries.map((entry) => entry.path)).toEqual(['photos/a.jpg']);
+    expect(summary).toEqual({ entries: 1, ignored: 4 });
+  });
+
+  it('reports entries over the size limit and keeps reading the rest', async () => {
+    const { entries, errors } = await readAll(
+      {
+        'big.txt': strToU8('x'.repeat(2048)),
+        'small.txt': strToU8('ok'),
+      },
+      { ...ZIP_LIMITS, maxEntryBytes: 1024 }
+    );
+
+    expect(entries.map((entry) => entry.path)).toEqual(['small.txt']);
+    expect(errors).toEqual([{ path: 'big.txt', error: 'File is larger than 0 MB' }]);
+  });
+
+  it('fails when the archive has too many files', async () => {
+    await expect(
+      readAll({ 'a.txt': strToU8('a'), 'b.txt': strToU8('b'), 'c.txt': strToU8('c') }, { ...ZIP_LIMITS, maxEntries: 2 })
+    ).rejects.toThrow('Archive contains more than 2 files');
+  });
+
+  it('fails when the archive expands past the total size limit', async () => {
+    await expect(
+      readAll(
+        { 'a.txt': strToU8('a'.repeat(600)), 'b.txt': strToU8('b'.repeat(600)) },
+        { ...ZIP_LIMITS, maxTotalBytes: 1000 }
+      )
+    ).rejects.toThrow('Archive expands to more than 0 MB');
+  });
+
+  it('rejects data that is not a ZIP archive', async () => {
+    await expect(
+      readZipStream(streamOf(strToU8('not a zip at all')), { onEntry: async () => undefined })
+    ).rejects.toThrow('File is not a ZIP archive');
+  });
+});
@@ -6,6 +6,7 @@
 import { Agent } from './base.agent';
 import { AgentInput, AgentOutput } from '@/types/agent.types';
 import { compressImage, estimateImageTokens } from '@/lib/image-utils';
+import { hydrateBinaryContent } from '@/lib/services/fileStorage.service';
 import { anthropic } from '@ai-sdk/anthropic';
 import { openai } from '@ai-sdk/openai';
 import { streamText } from 'ai';
@@ -72,6 +73,8 @@ export class AnalysisAgent extends Agent {
         });
       }
 
+      projectData = await hydrateBinaryContent(db, projectData);
+
       if (!projectData || !projectData.content?.base64) {
         return this.createErrorOutput('Image not found or invalid');
       }
@@ -7,6 +7,7 @@ import { Agent } from './base.agent';
 import { AgentInput, AgentOutput } from '@/types/agent.types';
 import { doPaginatedVectorSearch } from '@/lib/utils';
 import { searchWeb, isPerplexityEnabled } from '@/lib/services/perplexity.service';
+import { getActiveEmbedding, modelFilter, storedVector } from '@/lib/services/embeddingModel.service';
 import { ObjectId } from 'mongodb';
 
 export class SearchAgent extends Agent {
@@ -114,13 +115,15 @@ export class SearchAgent extends Agent {
     this.log('Finding similar items', { dataId, maxResults });
 
     try {
-      // Get the reference item's embedding
+      // Get the reference item's embedding (from the active model; others can't be compared)
+      const active = await getActiveEmbedding(db);
       const item = await db.collection('projectData').findOne(
         { _id: new ObjectId(dataId) },
-        { projection: { embedding: 1, metadata: 1 } }
+        { projection: { [active.slot]: 1, [active.modelPath]: 1, metadata: 1 } }
       );
+      const embedding = storedVector(active, item);
 
-      if (!item || !item.embedding) {
+      if (!embedding) {
         return this.createErrorOutput('Reference item not found or has no embedding');
       }
 
@@ -129,12 +132,12 @@ export class SearchAgent extends Agent {
         .aggregate([
           {
             $vectorSearch: {
-              queryVector: item.embedding,
-              path: 'embedding',
+              queryVector: embedding,
+              path: active.slot,
               numCandidates: maxResults * 5,
               limit: maxResults + 1,
-              index: 'vector_index',
-              filter: { projectId: new ObjectId(context.projectId) },
+              index: active.index,
+              filter: { projectId: new ObjectId(context.projectId), ...modelFilter(active) },
             },
           },
           {
@@ -164,7 +167,7 @@ export class SearchAgent extends Agent {
       }));
 
       return this.createSuccessOutput({
-        referenceItem: item.metadata?.filename || dataId,
+        referenceItem: item?.metadata?.filename || dataId,
         found: formattedResults.length,
         results: formattedResults,
       });
@@ -0,0 +1,188 @@
+/**
+ * Connector Sources
+ * Lists and reads files from a server-side folder or an S3-compatible bucket (AWS S3, MinIO)
+ * behind one interface, so syncs can treat both alike
+ */
+
+import { createReadStream } from 'fs';
+import { readdir, stat } from 'fs/promises';
+import path from 'path';
+import { GetObjectCommand, ListObjectsV2Command, S3Client } from '@aws-sdk/client-s3';
+
+export interface FolderConnectorConfig {
+  path: string; // absolute path inside one of CONNECTOR_FOLDER_ROOTS
+}
+
+export interface S3ConnectorConfig {
+  bucket: string;
+  prefix?: string; // only keys under this prefix, e.g. "reports/"
+  region?: string; // default S3_REGION or us-east-1
+  endpoint?: string; // for MinIO and other S3-compatible stores, e.g. http://localhost:9000
+  accessKeyId?: string; // default S3_ACCESS_KEY_ID
+  secretAccessKey?: string; // default S3_SECRET_ACCESS_KEY
+}
+
+export interface SourceFile {
+  path: string; // relative to the folder or prefix, "/"-separated
+  size: number;
+  version: string; // changes whenever the content may have changed (ETag, or mtime + size)
+  modifiedAt: Date;
+}
+
+export interface ConnectorSource {
+  listFiles(): AsyncGenerator<SourceFile>;
+  readFile(filePath: string): Promise<Uint8Array>;
+}
+
+// Files larger than this are reported as failed instead of being read into memory
+export const MAX_SOURCE_FILE_BYTES = 200 * 1024 * 1024;
+
+/**
+ * Check a folder path against the allowed roots
+ * Folder connectors read from the server's disk, so only folders under
+ * CONNECTOR_FOLDER_ROOTS (comma-separated absolute paths) can be registered
+ * @throws Error when folder connectors are disabled or the path is outside every root
+ */
+export function resolveFolderPath(folderPath: string): string {
+  const roots = (process.env.CONNECTOR_FOLDER_ROOTS || '')
+    .split(',')
+    .map((root) => root.trim())
+    .filter(Boolean)
+    .map((root) => path.resolve(root));
+
+  if (roots.length === 0) {
+    throw new Error('Folder connectors are disabled. Set CONNECTOR_FOLDER_ROOTS to allow them');
+  }
+
+  const resolved = path.resolve(folderPath);
+  const allowed = roots.some((root) => resolved === root || resolved.startsWith(root + path.sep));
+  if (!allowed) {
+    throw new Error(`Folder must be inside one of: ${roots.join(', ')}`);
+  }
+  return resolved;
+}
+
+/**
+ * Source for a folder on the server's disk (recursive; hidden files and folders are skipped)
+ */
+export function createFolderSource(config: FolderConnectorConfig): ConnectorSource {
+  const root = resolveFolderPath(config.path);
+
+  async function* walk(dir: string): AsyncGenerator<SourceFile> {
+    const entries = await readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        yield* walk(fullPath);
+      } else if (entry.isFile()) {
+        const info = await stat(fullPath);
+        yield {
+          path: path.relative(root, fullPath).split(path.sep).join('/'),
+          size: info.size,
+          version: `${info.mtimeMs}:${info.size}`,
+          modifiedAt: info.mtime,
+        };
+      }
+    }
+  }
+
+  return {
+    listFiles: () => walk(root),
+    readFile: async (filePath) => {
+      const fullPath = path.resolve(root, filePath);
+      if (!fullPath.startsWith(root + path.sep)) {
+        throw new Error(`Path escapes the connector folder: ${filePath}`);
+      }
+      return readStream(createReadStream(fullPath));
+    },
+  };
+}
+
+/**
+ * Source for an S3 bucket or S3-compatible store such as MinIO
+ */
+export function createS3Source(config: S3ConnectorConfig): ConnectorSource {
+  const prefix = normalizePrefix(config.prefix);
+  const client = createS3Client(config);
+
+  async function* list(): AsyncGenerator<SourceFile> {
+    let continuationToken: string | undefined;
+    do {
+      const page = await client.send(new ListObjectsV2Command({
+        Bucket: config.bucket,
+        Prefix: prefix || undefined,
+        ContinuationToken: continuationToken,
+      }));
+
+      for (const object of page.Contents || []) {
+        if (!object.Key || object.Key.endsWith('/')) continue; // folder placeholders
+        const relative = object.Key.slice(prefix.length);
+        if (relative.split('/').some((part) => part.startsWith('.'))) continue;
+
+        yield {
+          path: relative,
+          size: object.Size || 0,
+          version: object.ETag?.replace(/"/g, '') || `${object.LastModified?.getTime()}:${object.Size}`,
+          modifiedAt: object.LastModified || new Date(0),
+        };
+      }
+
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+
+  return {
+    listFiles: list,
+    readFile: async (filePath) => {
+      const object = await client.send(new GetObjectCommand({ Bucket: config.bucket, Key: prefix + filePath }));
+      if (!object.Body) {
+        throw new Error(`Empty response for ${filePath}`);
+      }
+      return object.Body.transformToByteArray();
+    },
+  };
+}
+
+/**
+ * Helper: S3 client for AWS or a custom endpoint (path-style addressing, as MinIO expects)
+ */
+function createS3Client(config: S3ConnectorConfig): S3Client {
+  const endpoint = config.endpoint || process.env.S3_ENDPOINT;
+  const accessKeyId = config.accessKeyId || process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = config.secretAccessKey || process.env.S3_SECRET_ACCESS_KEY;
+
+  return new S3Client({
+    region: config.region || process.env.S3_REGION || 'us-east-1',
+    ...(endpoint && { endpoint, forcePathStyle: true }),
+    ...(accessKeyId && secretAccessKey && { credentials: { accessKeyId, secretAccessKey } }),
+  });
+}
+
+/**
+ * Helper: "reports" and "/reports/" both mean keys under "reports/"
+ */
+function normalizePrefix(prefix?: string): string {
+  const trimmed = (prefix || '').replace(/^\/+/, '');
+  return trimmed && !trimmed.endsWith('/') ? `${trimmed}/` : trimmed;
+}
+
+/**
+ * Helper: Read a file stream into memory, refusing files over MAX_SOURCE_FILE_BYTES
+ */
+async function readStream(stream: NodeJS.ReadableStream): Promise<Uint8Array> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of stream) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    total += buffer.length;
+    if (total > MAX_SOURCE_FILE_BYTES) {
+      throw new Error(`File exceeds the ${MAX_SOURCE_FILE_BYTES / 1024 / 1024}MB limit`);
+    }
+    chunks.push(buffer);
+  }
+  return new Uint8Array(Buffer.concat(chunks));
+}
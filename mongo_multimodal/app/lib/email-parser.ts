@@ -0,0 +1,252 @@
+/**
+ * Email Parsing
+ * Splits .eml and .mbox files into messages with headers, body text, thread ids and attachments
+ */
+
+import { createHash } from 'crypto';
+import { simpleParser, AddressObject } from 'mailparser';
+import { chunkText, TextChunk } from './text-chunker';
+import { htmlToMarkdown } from './web-scraper';
+
+export type EmailFormat = 'eml' | 'mbox';
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+  inline: boolean; // embedded in the HTML body (cid:) rather than attached
+}
+
+export interface ParsedEmail {
+  messageId?: string; // without angle brackets
+  inReplyTo?: string;
+  references: string[]; // oldest first
+  threadId: string;
+  subject: string;
+  from?: string; // "Name <address>"
+  to: string[];
+  cc: string[];
+  date?: Date;
+  body: string; // plain text without quoted reply history
+  attachments: EmailAttachment[];
+}
+
+const EMAIL_MIME_TYPES: Record<string, EmailFormat> = {
+  'message/rfc822': 'eml',
+  'application/mbox': 'mbox',
+};
+
+// mbox separator: "From <sender> <asctime date>" at the start of the file or after a blank line,
+// e.g. "From alice@example.com Thu Jan  4 09:15:00 2024"; an optional zone may precede or follow the year
+const MBOX_SEPARATOR = new RegExp(
+  '(?:^|(?<=\\n\\r?\\n))From \\S+ +' +
+    '(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun) +(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec) +\\d{1,2} +' +
+    '\\d{1,2}:\\d{2}(?::\\d{2})? +(?:[A-Z]{2,5} +|[+-]\\d{4} +)?\\d{4}\\b[^\\n]*',
+  'g'
+);
+
+/**
+ * Detect the email format of a file by MIME type or extension
+ */
+export function getEmailFormat(filename: string, mimeType: string): EmailFormat | null {
+  if (EMAIL_MIME_TYPES[mimeType]) {
+    return EMAIL_MIME_TYPES[mimeType];
+  }
+  const match = filename.toLowerCase().match(/\.(eml|mbox)$/);
+  return match ? (match[1] as EmailFormat) : null;
+}
+
+/**
+ * Check if a file is an .eml message or an .mbox mailbox
+ */
+export function isEmailFile(filename: string, mimeType: string): boolean {
+  return getEmailFormat(filename, mimeType) !== null;
+}
+
+/**
+ * Parse every message of an .eml or .mbox file
+ * Thread ids follow References/In-Reply-To back to the first known message,
+ * falling back to the normalized subject when a message has neither header
+ */
+export async function parseEmailFile(data: Buffer, format: EmailFormat): Promise<ParsedEmail[]> {
+  const rawMessages = format === 'mbox' ? splitMbox(data) : [data];
+
+  const messages: ParsedEmail[] = [];
+  for (const raw of rawMessages) {
+    messages.push(await parseMessage(raw));
+  }
+
+  assignThreadIds(messages);
+  return messages;
+}
+
+/**
+ * Chunk one message into text_chunk content
+ * Every chunk starts with the From/To/Date/Subject header block so it stands on its own;
+ * long bodies are split with the plain-text chunker
+ */
+export function chunkEmailMessage(email: ParsedEmail, filename?: string): TextChunk[] {
+  const header = [
+    email.from && `From: ${email.from}`,
+    email.to.length > 0 && `To: ${email.to.join(', ')}`,
+    email.cc.length > 0 && `Cc: ${email.cc.join(', ')}`,
+    email.date && `Date: ${formatEmailDate(email.date)}`,
+    `Subject: ${email.subject}`,
+    email.attachments.length > 0 && `Attachments: ${email.attachments.map((a) => a.filename).join(', ')}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const bodyChunks = email.body ? chunkText(email.body, filename, { minChunkSize: 0 }) : [];
+  const contents = bodyChunks.length > 0
+    ? bodyChunks.map((chunk) => `${header}\n\n${chunk.content}`)
+    : [header];
+
+  return contents.map((content, index) => ({
+    content,
+    chunkIndex: index,
+    totalChunks: contents.length,
+    metadata: {
+      charStart: bodyChunks[index]?.metadata.charStart ?? 0,
+      charEnd: bodyChunks[index]?.metadata.charEnd ?? 0,
+      estimatedTokens: Math.ceil(content.length / 4),
+      type: 'email_message',
+      originalFilename: filename,
+      sourceType: 'file',
+    },
+  }));
+}
+
+/**
+ * Format a message date for headers and citations (UTC, minute precision)
+ */
+export function formatEmailDate(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+/**
+ * Helper: Split an mbox file on its "From " separator lines, undoing ">From " quoting
+ * Body lines starting with "From " that are not separators stay in their message
+ */
+function splitMbox(data: Buffer): Buffer[] {
+  // latin1 maps bytes 1:1, so each message converts back to its original bytes
+  const text = data.toString('latin1');
+  const separators = [...text.matchAll(MBOX_SEPARATOR)];
+  // A single message saved with an .mbox extension
+  if (separators.length === 0) return text.trim() ? [data] : [];
+
+  return separators
+    .map((separator, i) => {
+      const start = separator.index! + separator[0].length + 1;
+      const end = i + 1 < separators.length ? separators[i + 1].index! : text.length;
+      const message = text.slice(start, end).replace(/^>(>*From )/gm, '$1');
+      return Buffer.from(message, 'latin1');
+    })
+    .filter((message) => message.toString('latin1').trim().length > 0);
+}
+
+/**
+ * Helper: Parse one RFC 822 message
+ */
+async function parseMessage(raw: Buffer): Promise<ParsedEmail> {
+  const parsed = await simpleParser(raw);
+
+  const references = (Array.isArray(parsed.references) ? parsed.references : parsed.references ? [parsed.references] : [])
+    .flatMap((ref) => ref.split(/\s+/))
+    .map(stripAngleBrackets)
+    .filter(Boolean);
+
+  const bodySource = parsed.text || (parsed.html ? htmlToMarkdown(parsed.html) : '');
+
+  return {
+    messageId: parsed.messageId ? stripAngleBrackets(parsed.messageId) : undefined,
+    inReplyTo: parsed.inReplyTo ? stripAngleBrackets(parsed.inReplyTo) : undefined,
+    references,
+    threadId: '',
+    subject: parsed.subject?.trim() || '(no subject)',
+    from: formatAddresses(parsed.from)[0],
+    to: formatAddresses(parsed.to),
+    cc: formatAddresses(parsed.cc),
+    date: parsed.date,
+    body: stripQuotedReply(bodySource),
+    attachments: parsed.attachments.map((attachment, index) => ({
+      filename: attachment.filename || `attachment-${index + 1}`,
+      contentType: attachment.contentType,
+      data: attachment.content,
+      inline: attachment.related || attachment.contentDisposition === 'inline',
+    })),
+  };
+}
+
+/**
+ * Helper: Give every message the id of the first message in its thread
+ * Replies inherit the thread of a parent found in the same file
+ */
+function assignThreadIds(messages: ParsedEmail[]): void {
+  const threadByMessageId = new Map<string, string>();
+
+  // Parents usually come first, but mbox order is not guaranteed, so resolve until stable
+  let changed = true;
+  for (let pass = 0; changed && pass < 5; pass++) {
+    changed = false;
+    for (const message of messages) {
+      const parentId = message.references[0] || message.inReplyTo;
+      const threadId =
+        (parentId && (threadByMessageId.get(parentId) || parentId)) ||
+        message.messageId ||
+        `subject:${hashSubject(message.subject)}`;
+
+      if (message.threadId !== threadId) {
+        message.threadId = threadId;
+        changed = true;
+      }
+      if (message.messageId) {
+        threadByMessageId.set(message.messageId, threadId);
+      }
+    }
+  }
+}
+
+/**
+ * Helper: Drop quoted reply history ("On ... wrote:" followed by "> " lines, or an Outlook original message)
+ */
+function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const kept: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^-{2,}\s*Original Message\s*-{2,}$/i.test(line.trim())) break;
+    if (line.startsWith('>')) continue;
+    if (/^On .+wrote:\s*$/.test(line.trim()) && (lines[i + 1] ?? '').startsWith('>')) continue;
+    kept.push(line);
+  }
+
+  return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Helper: Format parsed address headers as "Name <address>" strings
+ */
+function formatAddresses(field: AddressObject | AddressObject[] | undefined): string[] {
+  const objects = Array.isArray(field) ? field : field ? [field] : [];
+  return objects
+    .flatMap((object) => object.value)
+    .map((entry) => (entry.name && entry.address ? `${entry.name} <${entry.address}>` : entry.address || entry.name))
+    .filter((value): value is string => !!value);
+}
+
+/**
+ * Helper: Message ids are compared without their angle brackets
+ */
+function stripAngleBrackets(id: string): string {
+  return id.trim().replace(/^<|>$/g, '');
+}
+
+/**
+ * Helper: Stable id for messages without threading headers, ignoring Re:/Fwd: prefixes
+ */
+function hashSubject(subject: string): string {
+  const normalized = subject.replace(/^(\s*(re|fw|fwd|aw|sv)(\[\d+\])?:\s*)+/i, '').trim().toLowerCase();
+  return createHash('sha256').update(normalized).digest('hex').slice(0, 16);
+}
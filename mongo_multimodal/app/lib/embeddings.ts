@@ -0,0 +1,530 @@
+/**
+ * Embedding Providers
+ * One interface over the models that turn text and images into vectors, selected by
+ * EMBEDDING_PROVIDER: Voyage (default), any OpenAI-compatible /embeddings endpoint, or a
+ * deterministic local provider that needs no network or API key.
+ * Inputs are sent in batches that stay under each provider's per-request limits, and
+ * rate-limited requests are retried with backoff.
+ */
+
+import sharp from 'sharp';
+import { createVoyageProvider } from './voyageai';
+
+export type EmbeddingInputType = 'query' | 'document';
+
+export interface EmbeddingInput {
+  text?: string;
+  base64?: string; // image bytes
+}
+
+// What a single request to the provider may contain
+export interface EmbeddingBatchLimits {
+  maxInputs: number;
+  maxTokens: number; // estimated: text at ~3 characters per token, images by their pixels
+  pixelsPerToken?: number; // image pixels that count as one token
+  maxPixels?: number; // per image; larger images are scaled down before they are sent
+}
+
+// Which model to use; vectors from different specs can't be compared
+export interface EmbeddingModelSpec {
+  provider: string; // 'voyage' | 'openai' | 'local'
+  model?: string; // the provider's default when omitted
+  dimensions?: number; // only for models with a configurable output size; their default when omitted
+}
+
+export interface EmbeddingProvider {
+  name: string; // 'voyage' | 'openai' | 'local'
+  model: string;
+  dimensions: number; // length of every vector; the vector indexes are created with it
+  supportsImages: boolean; // text-only models embed images through their text instead
+  limits: EmbeddingBatchLimits;
+  /**
+   * Embed inputs in one request
+   * @returns one vector per input, in input order
+   * @throws EmbeddingRequestError for HTTP errors, so rate limits can be retried
+   */
+  embedBatch(contents: EmbeddingInput[], inputType: EmbeddingInputType): Promise<number[][]>;
+}
+
+export interface OpenAICompatibleProviderConfig {
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1 for Ollama
+  apiKey?: string;
+  model: string;
+  dimensions: number;
+  sendDimensions: boolean; // only models with a configurable output size accept `dimensions`
+}
+
+export interface EmbeddingResult {
+  embedding?: number[];
+  error?: string; // set when this input failed; the others in its batch are unaffected
+}
+
+export interface EmbeddingBatchOptions {
+  provider?: EmbeddingProvider; // the configured provider when omitted
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Failed embedding request, with what the provider said about retrying
+ */
+export class EmbeddingRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'EmbeddingRequestError';
+  }
+
+  // Rate limits and server errors pass; anything else is a problem with the inputs
+  get retryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+const DEFAULT_DIMENSIONS = 1024;
+const OPENAI_DEFAULT_MODEL = 'text-embedding-3-small';
+const OPENAI_DEFAULT_DIMENSIONS = 1536; // text-embedding-3-small's native size
+// Local image features: the picture shrunk to this many pixels per side
+const LOCAL_IMAGE_GRID = 8;
+
+// Inputs per request unless EMBEDDING_BATCH_SIZE says otherwise (never above the provider's maximum)
+const DEFAULT_BATCH_SIZE = 64;
+// Keeps request bodies with many images to a size every provider accepts
+const MAX_BATCH_BYTES = 16 * 1024 * 1024;
+const MAX_RETRIES = 5;
+const BASE_RETRY_MS = 1000;
+const MAX_RETRY_MS = 60 * 1000;
+
+let provider: EmbeddingProvider | null = null;
+
+/**
+ * The configured embedding provider (created on first use)
+ * Stored vectors may come from another model: see getActiveEmbedding in embeddingModel.service
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    provider = createEmbeddingProvider(embeddingSpecFromEnv());
+  }
+  return provider;
+}
+
+/**
+ * The model configured in the environment
+ * EMBEDDING_PROVIDER: voyage | openai | local; EMBEDDING_MODEL and EMBEDDING_DIMENSIONS override
+ * the provider's defaults
+ */
+export function embeddingSpecFromEnv(): EmbeddingModelSpec {
+  return {
+    provider: process.env.EMBEDDING_PROVIDER || 'voyage',
+    model: process.env.EMBEDDING_MODEL || undefined,
+    dimensions: Number(process.env.EMBEDDING_DIMENSIONS) || undefined,
+  };
+}
+
+/**
+ * Create the provider for a model spec
+ * EMBEDDING_BASE_URL and EMBEDDING_API_KEY point the openai provider at another compatible server
+ * @throws Error for unknown providers
+ */
+export function createEmbeddingProvider(spec: EmbeddingModelSpec): EmbeddingProvider {
+  const { dimensions } = spec;
+
+  switch (spec.provider) {
+    case 'voyage':
+      return createVoyageProvider({
+        model: spec.model || 'voyage-multimodal-3',
+        dimensions: dimensions || DEFAULT_DIMENSIONS,
+        outputDimension: dimensions,
+      });
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.EMBEDDING_BASE_URL || 'https://api.openai.com/v1',
+        apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY,
+        model: spec.model || OPENAI_DEFAULT_MODEL,
+        dimensions: dimensions || OPENAI_DEFAULT_DIMENSIONS,
+        sendDimensions: !!dimensions,
+      });
+    case 'local':
+      return createLocalProvider(dimensions);
+    default:
+      throw new Error(`Unknown embedding provider "${spec.provider}" (expected voyage, openai or local)`);
+  }
+}
+
+/**
+ * Identifier stored with every vector, e.g. "voyage/voyage-multimodal-3/1024"
+ * Vectors are only compared with vectors of the same id
+ */
+export function embeddingModelId(embeddings: EmbeddingProvider): string {
+  return `${embeddings.name}/${embeddings.model}/${embeddings.dimensions}`;
+}
+
+/**
+ * Embed text, an image, or both
+ * Text-only providers embed the text of mixed input and reject image-only input
+ * @param embeddings - Provider to use; the configured one when omitted
+ * @throws Error when the provider fails or returns a vector of the wrong size
+ */
+export async function generateMultimodalEmbedding(
+  content: EmbeddingInput,
+  taskType: EmbeddingInputType = 'document',
+  embeddings?: EmbeddingProvider
+): Promise<number[]> {
+  const [result] = await generateEmbeddings([content], taskType, { provider: embeddings });
+  if (!result.embedding) {
+    throw new Error(result.error || 'Failed to generate embedding');
+  }
+  return result.embedding;
+}
+
+/**
+ * Embed many inputs with as few requests as the provider's limits allow
+ * Each input gets its own vector. A rate-limited request is retried with backoff (honoring
+ * Retry-After); a rejected batch is retried one input at a time so a single bad input only
+ * fails itself.
+ * @returns one result per input, in input order
+ */
+export async function generateEmbeddings(
+  contents: EmbeddingInput[],
+  taskType: EmbeddingInputType = 'document',
+  options: EmbeddingBatchOptions = {}
+): Promise<EmbeddingResult[]> {
+  const embeddings = options.provider || getEmbeddingProvider();
+  const results: EmbeddingResult[] = new Array(contents.length);
+  const prepared: PreparedInput[] = [];
+
+  for (const [index, content] of contents.entries()) {
+    try {
+      prepared.push({ index, ...(await prepareInput(embeddings, content)) });
+    } catch (error) {
+      results[index] = { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  let done = contents.length - prepared.length;
+  for (const batch of packBatches(embeddings, prepared)) {
+    const batchResults = await embedPreparedBatch(embeddings, batch, taskType);
+    batch.forEach((input, i) => {
+      results[input.index] = batchResults[i];
+    });
+    done += batch.length;
+    options.onProgress?.(done, contents.length);
+  }
+
+  return results;
+}
+
+/**
+ * Embedding provider for an OpenAI-compatible /embeddings endpoint (text only)
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleProviderConfig): EmbeddingProvider {
+  return {
+    name: 'openai',
+    model: config.model,
+    dimensions: config.dimensions,
+    supportsImages: false,
+    // OpenAI's limits; compatible servers usually accept less, see EMBEDDING_BATCH_SIZE
+    limits: { maxInputs: 2048, maxTokens: 300000 },
+    embedBatch: async (contents) => {
+      if (contents.some((content) => !content.text)) {
+        throw new Error('No content provided');
+      }
+
+      const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          input: contents.map((content) => content.text),
+          encoding_format: 'float',
+          ...(config.sendDimensions && { dimensions: config.dimensions }),
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new EmbeddingRequestError(
+          error.error?.message || error.message || `Embedding request failed (${response.status})`,
+          response.status,
+          parseRetryAfter(response.headers.get('retry-after'))
+        );
+      }
+
+      const result: { data: Array<{ embedding: number[]; index: number }> } = await response.json();
+      return result.data
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    },
+  };
+}
+
+/**
+ * Deterministic embedding provider that runs offline
+ * Text is feature-hashed from its words and character trigrams, so texts sharing words score
+ * as similar; images are hashed from a tiny thumbnail, so only near-identical pictures match.
+ * Good for development and tests, not for real semantic search.
+ */
+export function createLocalProvider(dimensions: number = DEFAULT_DIMENSIONS): EmbeddingProvider {
+  return {
+    name: 'local',
+    model: 'local-hash-v1',
+    dimensions,
+    supportsImages: true,
+    limits: { maxInputs: 256, maxTokens: Infinity },
+    embedBatch: (contents) => Promise.all(contents.map(async (content) => {
+      if (!content.text && !content.base64) {
+        throw new Error('No content provided');
+      }
+
+      const vector = new Array<number>(dimensions).fill(0);
+      if (content.text) {
+        addInto(vector, textFeatures(content.text, dimensions));
+      }
+      if (content.base64) {
+        addInto(vector, await imageFeatures(content.base64, dimensions));
+      }
+      return normalize(vector);
+    })),
+  };
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+interface PreparedInput {
+  index: number; // position in the caller's list
+  content: EmbeddingInput;
+  tokens: number;
+  bytes: number;
+}
+
+/**
+ * Helper: Apply the provider's input rules and estimate the input's share of a request
+ * @throws Error for inputs the provider can't embed
+ */
+async function prepareInput(
+  embeddings: EmbeddingProvider,
+  content: EmbeddingInput
+): Promise<Omit<PreparedInput, 'index'>> {
+  if (!content.text && !content.base64) {
+    throw new Error('No content provided');
+  }
+
+  let input = content;
+  if (content.base64 && !embeddings.supportsImages) {
+    if (!content.text) {
+      throw new Error(`The ${embeddings.name} embedding model (${embeddings.model}) cannot embed images`);
+    }
+    input = { text: content.text };
+  }
+
+  let tokens = input.text ? Math.ceil(input.text.length / 3) : 0;
+  const { maxPixels, pixelsPerToken } = embeddings.limits;
+  if (input.base64 && (maxPixels || pixelsPerToken)) {
+    const image = await fitImage(input.base64, maxPixels);
+    input = { ...input, base64: image.base64 };
+    if (pixelsPerToken) tokens += Math.ceil(image.pixels / pixelsPerToken);
+  }
+
+  return { content: input, tokens, bytes: (input.text?.length || 0) + (input.base64?.length || 0) };
+}
+
+/**
+ * Helper: Scale an image down to at most maxPixels, keeping its aspect ratio
+ */
+async function fitImage(base64: string, maxPixels?: number): Promise<{ base64: string; pixels: number }> {
+  const image = sharp(Buffer.from(base64, 'base64'));
+  const { width = 0, height = 0 } = await image.metadata();
+  const pixels = width * height;
+  if (!maxPixels || pixels <= maxPixels) {
+    return { base64, pixels };
+  }
+
+  const { data, info } = await image
+    .rotate()
+    .resize({
+      width: Math.floor(width * Math.sqrt(maxPixels / pixels)),
+      height: Math.floor(height * Math.sqrt(maxPixels / pixels)),
+      fit: 'inside',
+    })
+    .jpeg({ quality: 90 })
+    .toBuffer({ resolveWithObject: true });
+  return { base64: data.toString('base64'), pixels: info.width * info.height };
+}
+
+/**
+ * Helper: Group inputs into requests under the input, token and size limits
+ */
+function packBatches(embeddings: EmbeddingProvider, inputs: PreparedInput[]): PreparedInput[][] {
+  const maxInputs = Math.min(
+    Number(process.env.EMBEDDING_BATCH_SIZE) || DEFAULT_BATCH_SIZE,
+    embeddings.limits.maxInputs
+  );
+  const batches: PreparedInput[][] = [];
+  let batch: PreparedInput[] = [];
+  let tokens = 0;
+  let bytes = 0;
+
+  for (const input of inputs) {
+    if (
+      batch.length > 0 &&
+      (batch.length >= maxInputs ||
+        tokens + input.tokens > embeddings.limits.maxTokens ||
+        bytes + input.bytes > MAX_BATCH_BYTES)
+    ) {
+      batches.push(batch);
+      batch = [];
+      tokens = 0;
+      bytes = 0;
+    }
+    batch.push(input);
+    tokens += input.tokens;
+    bytes += input.bytes;
+  }
+  if (batch.length > 0) batches.push(batch);
+
+  return batches;
+}
+
+/**
+ * Helper: Embed one batch, falling back to one input at a time when the provider rejects it
+ */
+async function embedPreparedBatch(
+  embeddings: EmbeddingProvider,
+  batch: PreparedInput[],
+  taskType: EmbeddingInputType
+): Promise<EmbeddingResult[]> {
+  try {
+    const vectors = await requestWithBackoff(embeddings, batch.map((input) => input.content), taskType);
+    return vectors.map((embedding) =>
+      embedding.length === embeddings.dimensions
+        ? { embedding }
+        : {
+            error: `${embeddings.model} returned ${embedding.length} dimensions, expected ${embeddings.dimensions} (see EMBEDDING_DIMENSIONS)`,
+          }
+    );
+  } catch (error) {
+    // Rate limits that outlasted every retry fail the whole batch; anything else may be one bad input
+    if (batch.length > 1 && !(error instanceof EmbeddingRequestError && error.retryable)) {
+      const results: EmbeddingResult[] = [];
+      for (const input of batch) {
+        results.push(...(await embedPreparedBatch(embeddings, [input], taskType)));
+      }
+      return results;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return batch.map(() => ({ error: message }));
+  }
+}
+
+/**
+ * Helper: Send one request, waiting out rate limits and server errors with exponential backoff
+ */
+async function requestWithBackoff(
+  embeddings: EmbeddingProvider,
+  contents: EmbeddingInput[],
+  taskType: EmbeddingInputType
+): Promise<number[][]> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const vectors = await embeddings.embedBatch(contents, taskType);
+      if (vectors.length !== contents.length) {
+        throw new Error(`Expected ${contents.length} embeddings, got ${vectors.length}`);
+      }
+      return vectors;
+    } catch (error) {
+      if (!(error instanceof EmbeddingRequestError && error.retryable) || attempt >= MAX_RETRIES) {
+        throw error;
+      }
+      const delay = Math.min(
+        error.retryAfterMs ?? BASE_RETRY_MS * 2 ** attempt * (1 + Math.random() / 2),
+        MAX_RETRY_MS
+      );
+      console.warn(`[Embeddings] ${embeddings.name} answered ${error.status}, retrying in ${Math.round(delay / 1000)}s`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Helper: Unit-length hashed features of the words and character trigrams in a text
+ */
+function textFeatures(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  // Text without letters or digits (e.g. "!!!") is one feature, so it never embeds as a zero vector
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [text.trim()];
+
+  for (const word of words) {
+    addFeature(vector, `w:${word}`, 1);
+    // Trigrams let inflections and typos ("invoice" / "invoices") still overlap
+    const padded = `^${word}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.5);
+    }
+  }
+  return normalize(vector);
+}
+
+/**
+ * Helper: Unit-length hashed features of an image's colors on a small grid
+ */
+async function imageFeatures(base64: string, dimensions: number): Promise<number[]> {
+  const vector = new Array<number>(dimensions).fill(0);
+  const pixels = await sharp(Buffer.from(base64, 'base64'))
+    .rotate()
+    .resize(LOCAL_IMAGE_GRID, LOCAL_IMAGE_GRID, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+
+  pixels.forEach((value, i) => addFeature(vector, `p:${i}`, value / 255 - 0.5));
+  return normalize(vector);
+}
+
+/**
+ * Helper: Add a weighted feature at its hashed position, with a hashed sign so collisions cancel out
+ */
+function addFeature(vector: number[], feature: string, weight: number): void {
+  const hash = fnv1a(feature);
+  vector[hash % vector.length] += hash & 0x80000000 ? -weight : weight;
+}
+
+/**
+ * Helper: 32-bit FNV-1a hash of a string
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Helper: Add one vector into another
+ */
+function addInto(target: number[], source: number[]): void {
+  for (let i = 0; i < target.length; i++) target[i] += source[i];
+}
+
+/**
+ * Helper: Scale a vector to unit length (zero vectors stay zero)
+ */
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
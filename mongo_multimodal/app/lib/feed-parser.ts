@@ -0,0 +1,211 @@
+/**
+ * Feed Parsing
+ * Fetches and parses RSS 2.0, RSS 1.0 (RDF) and Atom feeds into a common entry shape
+ */
+
+import * as cheerio from 'cheerio';
+import { createHash } from 'crypto';
+import { SCRAPER_USER_AGENT } from './web-scraper';
+
+export type FeedFormat = 'rss' | 'rdf' | 'atom';
+
+export interface FeedEntry {
+  guid: string; // <guid> or <id>; the link, or a hash of title and date, when the feed has none
+  url: string; // article page, resolved against the feed URL
+  title: string;
+  publishedAt?: Date;
+  author?: string;
+  summary?: string; // plain-text description from the feed
+}
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  title: string;
+  siteUrl?: string;
+  entries: FeedEntry[];
+}
+
+export type FeedFetchResult =
+  | { status: 'not-modified' }
+  | { status: 'ok'; feed: ParsedFeed; etag?: string; lastModified?: string };
+
+// Element selection as returned by .children()
+type Selection = ReturnType<ReturnType<cheerio.CheerioAPI>['children']>;
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_SUMMARY_CHARS = 500;
+
+/**
+ * Fetch and parse a feed, sending the validators of the previous fetch
+ * @throws Error when the request fails or the response is not a feed
+ */
+export async function fetchFeed(
+  url: string,
+  validators: { etag?: string; lastModified?: string } = {}
+): Promise<FeedFetchResult> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': SCRAPER_USER_AGENT,
+        Accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8, */*;q=0.5',
+        ...(validators.etag && { 'If-None-Match': validators.etag }),
+        ...(validators.lastModified && { 'If-Modified-Since': validators.lastModified }),
+      },
+      signal: controller.signal,
+    });
+
+    if (response.status === 304) {
+      return { status: 'not-modified' };
+    }
+    if (!response.ok) {
+      throw new Error(`Feed request failed: HTTP ${response.status}`);
+    }
+
+    return {
+      status: 'ok',
+      feed: parseFeed(await response.text(), response.url || url),
+      etag: response.headers.get('etag') || undefined,
+      lastModified: response.headers.get('last-modified') || undefined,
+    };
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error('Feed request timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Parse RSS or Atom XML
+ * Entries are returned in feed order (usually newest first)
+ * @param baseUrl - URL the feed was fetched from, for resolving relative links
+ * @throws Error when the document is not an RSS or Atom feed
+ */
+export function parseFeed(xml: string, baseUrl: string): ParsedFeed {
+  const $ = cheerio.load(xml, { xmlMode: true });
+
+  const atom = $('feed').first();
+  if (atom.length > 0) {
+    const siteUrl = atomLink(atom.children('link'), baseUrl);
+    return {
+      format: 'atom',
+      title: text(atom.children('title')),
+      siteUrl,
+      entries: atom.children('entry').toArray().map((elem) => {
+        const entry = $(elem);
+        const url = atomLink(entry.children('link'), baseUrl) || '';
+        const publishedAt = parseDate(text(entry.children('published')) || text(entry.children('updated')));
+        return buildEntry({
+          id: text(entry.children('id')),
+          url,
+          title: text(entry.children('title')),
+          publishedAt,
+          author: text(entry.children('author').children('name')),
+          summary: text(entry.children('summary')) || text(entry.children('content')),
+        });
+      }),
+    };
+  }
+
+  const channel = $('rss > channel, channel').first();
+  if (channel.length > 0) {
+    const isRdf = $('rdf\\:RDF, RDF').length > 0;
+    // RSS 1.0 items are siblings of the channel rather than children
+    const items = isRdf ? $('item') : channel.children('item');
+    return {
+      format: isRdf ? 'rdf' : 'rss',
+      title: text(channel.children('title')),
+      siteUrl: resolveUrl(text(channel.children('link')), baseUrl),
+      entries: items.toArray().map((elem) => {
+        const item = $(elem);
+        const url = resolveUrl(text(item.children('link')), baseUrl) || '';
+        const publishedAt = parseDate(text(item.children('pubDate')) || text(item.children('dc\\:date')));
+        return buildEntry({
+          id: text(item.children('guid')) || item.attr('rdf:about') || '',
+          url,
+          title: text(item.children('title')),
+          publishedAt,
+          author: text(item.children('dc\\:creator')) || text(item.children('author')),
+          summary: text(item.children('description')) || text(item.children('content\\:encoded')),
+        });
+      }),
+    };
+  }
+
+  throw new Error('Not an RSS or Atom feed');
+}
+
+/**
+ * Helper: Fill in the GUID fallback and tidy the summary
+ */
+function buildEntry(raw: {
+  id: string;
+  url: string;
+  title: string;
+  publishedAt?: Date;
+  author: string;
+  summary: string;
+}): FeedEntry {
+  const guid = raw.id || raw.url ||
+    createHash('sha256').update(`${raw.title}\n${raw.publishedAt?.toISOString() || ''}`).digest('hex');
+  const summary = stripHtml(raw.summary).slice(0, MAX_SUMMARY_CHARS);
+
+  return {
+    guid,
+    url: raw.url,
+    title: stripHtml(raw.title) || raw.url, // Atom titles may be HTML
+    ...(raw.publishedAt && { publishedAt: raw.publishedAt }),
+    ...(raw.author && { author: raw.author }),
+    ...(summary && { summary }),
+  };
+}
+
+/**
+ * Helper: Trimmed text of the first matching element
+ */
+function text(elements: Selection): string {
+  return elements.first().text().trim();
+}
+
+/**
+ * Helper: The alternate (HTML) link of an Atom feed or entry
+ */
+function atomLink(links: Selection, baseUrl: string): string | undefined {
+  const alternate = links.filter(':not([rel]), [rel="alternate"]').first();
+  return resolveUrl(alternate.attr('href') || '', baseUrl);
+}
+
+/**
+ * Helper: Absolute http(s) URL, or undefined for empty and unsupported links
+ */
+function resolveUrl(href: string, baseUrl: string): string | undefined {
+  if (!href) return undefined;
+  try {
+    const url = new URL(href, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Helper: Parse RFC 822 (RSS) and ISO 8601 (Atom, Dublin Core) dates
+ */
+function parseDate(value: string): Date | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time);
+}
+
+/**
+ * Helper: Plain text of an HTML description
+ */
+function stripHtml(html: string): string {
+  if (!html) return '';
+  return cheerio.load(html).root().text().replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,104 @@
+/**
+ * File Type Detection
+ * Identifies files by their leading bytes rather than the MIME type a browser or archive reports
+ */
+
+export const FILE_CATEGORIES = ['image', 'pdf', 'text', 'office', 'email', 'archive'] as const;
+
+export type FileCategory = (typeof FILE_CATEGORIES)[number];
+
+export type SniffedFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'pdf' | 'zip' | 'text' | 'binary';
+
+// Bytes to read from the start of a file; enough for every signature and a fair text sample
+export const SNIFF_BYTES = 8192;
+
+// Formats a file of each category must have (Office documents are ZIP packages)
+export const CATEGORY_FORMATS: Record<FileCategory, SniffedFormat[]> = {
+  image: ['jpeg', 'png', 'gif', 'webp'],
+  pdf: ['pdf'],
+  text: ['text'],
+  office: ['zip'],
+  email: ['text'],
+  archive: ['zip'],
+};
+
+const FORMAT_MIME_TYPES: Partial<Record<SniffedFormat, string>> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  text: 'text/plain',
+};
+
+const FORMAT_DESCRIPTIONS: Record<SniffedFormat, string> = {
+  jpeg: 'a JPEG image',
+  png: 'a PNG image',
+  gif: 'a GIF image',
+  webp: 'a WebP image',
+  pdf: 'a PDF document',
+  zip: 'a ZIP package',
+  text: 'plain text',
+  binary: 'binary data',
+};
+
+/**
+ * Identify a file from its first bytes (see SNIFF_BYTES)
+ * Files without a known signature are 'text' when they decode as text and 'binary' otherwise
+ */
+export function sniffFormat(header: Uint8Array): SniffedFormat {
+  if (startsWith(header, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (startsWith(header, ascii('GIF87a')) || startsWith(header, ascii('GIF89a'))) return 'gif';
+  if (startsWith(header, ascii('RIFF')) && startsWith(header, ascii('WEBP'), 8)) return 'webp';
+  if (startsWith(header, ascii('%PDF-'))) return 'pdf';
+  // Local file header, or the end-of-directory record of an empty archive
+  if (startsWith(header, [0x50, 0x4b, 0x03, 0x04]) || startsWith(header, [0x50, 0x4b, 0x05, 0x06])) return 'zip';
+  return looksLikeText(header) ? 'text' : 'binary';
+}
+
+/**
+ * MIME type of a sniffed format (undefined for binary data)
+ */
+export function formatMimeType(format: SniffedFormat): string | undefined {
+  return FORMAT_MIME_TYPES[format];
+}
+
+/**
+ * Human-readable name of a sniffed format, e.g. "a PNG image"
+ */
+export function describeFormat(format: SniffedFormat): string {
+  return FORMAT_DESCRIPTIONS[format];
+}
+
+/**
+ * Helper: Whether the bytes at offset match the signature
+ */
+function startsWith(header: Uint8Array, signature: number[], offset = 0): boolean {
+  if (header.length < offset + signature.length) return false;
+  return signature.every((byte, i) => header[offset + i] === byte);
+}
+
+/**
+ * Helper: Byte values of an ASCII signature
+ */
+function ascii(value: string): number[] {
+  return Array.from(value, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Helper: Text has no NUL bytes and few control characters
+ * Any 8-bit encoding passes (CSV exports are often Windows-1252), UTF-16 does not
+ */
+function looksLikeText(header: Uint8Array): boolean {
+  let control = 0;
+  for (const byte of header) {
+    if (byte === 0) return false;
+    // Tab, line feed, form feed, carriage return and escape appear in ordinary text
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d && byte !== 0x1b) {
+      control++;
+    }
+  }
+  return control <= header.length * 0.05;
+}
@@ -0,0 +1,130 @@
+/**
+ * Offline OCR
+ * Recognizes text and word bounding boxes in images with tesseract.js, using the
+ * language data bundled in node_modules so no network access is needed
+ */
+
+import path from 'path';
+import sharp from 'sharp';
+import { createWorker, OEM } from 'tesseract.js';
+import type { Worker } from 'tesseract.js';
+
+export interface OcrWord {
+  text: string;
+  confidence: number; // 0-100
+  bbox: { x0: number; y0: number; x1: number; y1: number }; // pixels of the (EXIF-rotated) image
+}
+
+export interface OcrResult {
+  text: string;
+  words: OcrWord[];
+  confidence: number; // mean word confidence, 0-100
+  language: string;
+  width: number;
+  height: number;
+}
+
+// Larger images are scaled down first; bounding boxes are mapped back to the original size
+const MAX_OCR_DIMENSION = 4000;
+// Dense scans can hold tens of thousands of words; keep the item document reasonably small
+const MAX_WORDS = 5000;
+// Words Tesseract is this unsure about are usually noise from photos and textures
+const MIN_WORD_CONFIDENCE = 30;
+
+let workerPromise: Promise<Worker> | null = null;
+
+/**
+ * Check whether OCR is enabled (OCR_ENABLED=false turns it off)
+ */
+export function isOcrEnabled(): boolean {
+  return process.env.OCR_ENABLED !== 'false';
+}
+
+/**
+ * Recognize the text in an image
+ * @param image - Raw image bytes (any format sharp can read)
+ * @returns Recognized text, with one line per text line, and its words with bounding boxes
+ */
+export async function recognizeImageText(image: Buffer): Promise<OcrResult> {
+  // Normalize to PNG in its display orientation so Tesseract reads every format the same way
+  const source = sharp(image).rotate();
+  const { width = 0, height = 0 } = await source.clone().metadata().then((meta) =>
+    (meta.orientation ?? 1) >= 5 ? { width: meta.height, height: meta.width } : meta
+  );
+  const scale = Math.max(width, height) > MAX_OCR_DIMENSION
+    ? MAX_OCR_DIMENSION / Math.max(width, height)
+    : 1;
+  const png = await (scale < 1
+    ? source.resize(Math.round(width * scale), Math.round(height * scale))
+    : source
+  ).png().toBuffer();
+
+  const worker = await getWorker();
+  const { data } = await worker.recognize(png, {}, { blocks: true });
+
+  const words: OcrWord[] = [];
+  const lines: string[] = [];
+  for (const block of data.blocks || []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        const lineWords: string[] = [];
+        for (const word of line.words) {
+          const text = word.text.trim();
+          if (!text || word.confidence < MIN_WORD_CONFIDENCE) continue;
+          lineWords.push(text);
+          words.push({
+            text,
+            confidence: Math.round(word.confidence),
+            bbox: {
+              x0: Math.round(word.bbox.x0 / scale),
+              y0: Math.round(word.bbox.y0 / scale),
+              x1: Math.round(word.bbox.x1 / scale),
+              y1: Math.round(word.bbox.y1 / scale),
+            },
+          });
+        }
+        if (lineWords.length > 0) lines.push(lineWords.join(' '));
+      }
+    }
+  }
+
+  const confidence = words.length > 0
+    ? Math.round(words.reduce((sum, word) => sum + word.confidence, 0) / words.length)
+    : 0;
+
+  return {
+    text: lines.join('\n'),
+    words: words.slice(0, MAX_WORDS),
+    confidence,
+    language: getLanguages(),
+    width,
+    height,
+  };
+}
+
+/**
+ * Helper: Shared Tesseract worker, created on first use
+ * Loading the language model takes a few seconds, so one worker serves every job
+ */
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createWorker(getLanguages().split('+'), OEM.LSTM_ONLY, {
+      // LSTM-only models from @tesseract.js-data/<lang>; OCR_LANG_PATH points elsewhere for other languages
+      langPath: process.env.OCR_LANG_PATH ||
+        path.join(process.cwd(), 'node_modules/@tesseract.js-data/eng/4.0.0_best_int'),
+      gzip: true,
+      cacheMethod: 'none',
+    }).catch((error) => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+/**
+ * Helper: Tesseract language codes, e.g. "eng" or "eng+deu"
+ */
+function getLanguages(): string {
+  return process.env.OCR_LANGUAGES || 'eng';
+}
@@ -0,0 +1,582 @@
+/**
+ * Office Document Parsing
+ * Extracts structured text from DOCX, PPTX and XLSX files and chunks it
+ */
+
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+import { chunkText, chunkCSV, TextChunk } from './text-chunker';
+
+export type OfficeFormat = 'docx' | 'pptx' | 'xlsx';
+
+const OFFICE_MIME_TYPES: Record<string, OfficeFormat> = {
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+};
+
+type XmlNode = Record<string, unknown>;
+
+const xmlParser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  trimValues: false,
+  parseTagValue: false,
+  parseAttributeValue: false,
+});
+
+/**
+ * Detect the Office format of a file by MIME type or extension
+ */
+export function getOfficeFormat(filename: string, mimeType: string): OfficeFormat | null {
+  if (OFFICE_MIME_TYPES[mimeType]) {
+    return OFFICE_MIME_TYPES[mimeType];
+  }
+  const match = filename.toLowerCase().match(/\.(docx|pptx|xlsx)$/);
+  return match ? (match[1] as OfficeFormat) : null;
+}
+
+/**
+ * Check if a file is a supported Office document
+ */
+export function isOfficeFile(filename: string, mimeType: string): boolean {
+  return getOfficeFormat(filename, mimeType) !== null;
+}
+
+/**
+ * Parse an Office document and chunk its content
+ * DOCX: one or more chunks per heading section
+ * PPTX: one chunk per slide, including speaker notes
+ * XLSX: per-sheet row ranges with csvMetadata
+ */
+export async function chunkOfficeFile(
+  data: ArrayBuffer | Uint8Array,
+  filename: string,
+  mimeType: string
+): Promise<TextChunk[]> {
+  const format = getOfficeFormat(filename, mimeType);
+  if (!format) {
+    throw new Error(`Unsupported Office document: ${filename}`);
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error(`${filename} is not a valid ${format.toUpperCase()} file`);
+  }
+
+  let chunks: Omit<TextChunk, 'chunkIndex' | 'totalChunks'>[];
+  switch (format) {
+    case 'docx':
+      chunks = await chunkDocx(zip, filename);
+      break;
+    case 'pptx':
+      chunks = await chunkPptx(zip, filename);
+      break;
+    case 'xlsx':
+      chunks = await chunkXlsx(zip, filename);
+      break;
+  }
+
+  // Re-number chunks across sections, slides and sheets
+  return chunks.map((chunk, index) => ({
+    ...chunk,
+    chunkIndex: index,
+    totalChunks: chunks.length,
+  }));
+}
+
+/**
+ * Read every worksheet of an XLSX file as a table (first row as header)
+ * Rows line up with the rowStart/rowEnd of the sheet's xlsx_rows chunks
+ */
+export async function extractXlsxTables(
+  data: ArrayBuffer | Uint8Array,
+  filename: string
+): Promise<Array<{ sheetName: string; headers: string[]; rows: string[][] }>> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error(`${filename} is not a valid XLSX file`);
+  }
+
+  const sheets = await readXlsxSheets(zip, filename);
+  return sheets.map(({ sheetName, rows }) => ({
+    sheetName,
+    headers: rows[0],
+    rows: rows.slice(1),
+  }));
+}
+
+/**
+ * DOCX: group paragraphs and tables under their nearest heading
+ */
+async function chunkDocx(
+  zip: JSZip,
+  filename: string
+): Promise<Omit<TextChunk, 'chunkIndex' | 'totalChunks'>[]> {
+  const documentXml = await readZipXml(zip, 'word/document.xml');
+  if (documentXml.length === 0) {
+    throw new Error(`${filename} has no word/document.xml`);
+  }
+
+  const body = findFirst(documentXml, 'w:body');
+  const sections: Array<{ headingTrail: string[]; blocks: string[] }> = [
+    { headingTrail: [], blocks: [] },
+  ];
+  const headingStack: Array<{ level: number; text: string }> = [];
+
+  for (const node of children(body)) {
+    const name = tagName(node);
+
+    if (name === 'w:p') {
+      const text = docxParagraphText(node).trim();
+      if (!text) continue;
+
+      const level = docxHeadingLevel(node);
+      if (level !== null) {
+        while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+          headingStack.pop();
+        }
+        headingStack.push({ level, text });
+        sections.push({ headingTrail: headingStack.map((h) => h.text), blocks: [] });
+      } else {
+        sections[sections.length - 1].blocks.push(text);
+      }
+    } else if (name === 'w:tbl') {
+      const rows = findAll(children(node), 'w:tr').map((row) =>
+        findAll(children(row), 'w:tc')
+          .map((cell) => findAll(children(cell), 'w:p').map(docxParagraphText).join(' ').trim())
+          .join(' | ')
+      );
+      const table = rows.filter((row) => row.replace(/[|\s]/g, '').length > 0).join('\n');
+      if (table) {
+        sections[sections.length - 1].blocks.push(table);
+      }
+    }
+  }
+
+  const chunks: Omit<TextChunk, 'chunkIndex' | 'totalChunks'>[] = [];
+  let charStart = 0;
+
+  for (const section of sections) {
+    if (section.blocks.length === 0) continue;
+
+    const heading = section.headingTrail.join(' > ');
+    const bodyText = section.blocks.join('\n\n');
+
+    // Large sections are split further, each piece keeps the heading for context
+    for (const { content: piece } of chunkText(bodyText, filename)) {
+      const content = [heading, piece].filter(Boolean).join('\n\n');
+
+      chunks.push({
+        content,
+        metadata: {
+          charStart,
+          charEnd: charStart + content.length,
+          estimatedTokens: Math.ceil(content.length / 4),
+          type: 'docx_section',
+          headingPath: section.headingTrail.length > 0 ? section.headingTrail : undefined,
+          originalFilename: filename,
+          sourceType: 'file',
+        },
+      });
+      charStart += content.length;
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * PPTX: one chunk per slide in presentation order, with speaker notes appended
+ */
+async function chunkPptx(
+  zip: JSZip,
+  filename: string
+): Promise<Omit<TextChunk, 'chunkIndex' | 'totalChunks'>[]> {
+  const presentationXml = await readZipXml(zip, 'ppt/presentation.xml');
+  const presentationRels = await readRelationships(zip, 'ppt/presentation.xml');
+  if (presentationXml.length === 0) {
+    throw new Error(`${filename} has no ppt/presentation.xml`);
+  }
+
+  const slidePaths = findAll(presentationXml, 'p:sldId')
+    .map((node) => presentationRels[attr(node, 'r:id') || ''])
+    .filter((target): target is string => !!target);
+
+  const chunks: Omit<TextChunk, 'chunkIndex' | 'totalChunks'>[] = [];
+  let charStart = 0;
+
+  for (let i = 0; i < slidePaths.length; i++) {
+    const slideNumber = i + 1;
+    const slidePath = slidePaths[i];
+    const slideXml = await readZipXml(zip, slidePath);
+    if (slideXml.length === 0) continue;
+
+    let title = '';
+    const bodyLines: string[] = [];
+
+    for (const shape of findAll(slideXml, 'p:sp')) {
+      const placeholderType = attr(findFirst(children(shape), 'p:ph'), 'type');
+      const lines = findAll(children(shape), 'a:p')
+        .map(drawingParagraphText)
+        .filter((line) => line.trim().length > 0);
+
+      if (!title && (placeholderType === 'title' || placeholderType === 'ctrTitle')) {
+        title = lines.join(' ');
+      } else if (placeholderType !== 'sldNum' && placeholderType !== 'dt' && placeholderType !== 'ftr') {
+        bodyLines.push(...lines);
+      }
+    }
+
+    // Tables on slides
+    for (const row of findAll(slideXml, 'a:tr')) {
+      const cells = findAll(children(row), 'a:tc').map((cell) =>
+        findAll(children(cell), 'a:p').map(drawingParagraphText).join(' ').trim()
+      );
+      if (cells.some(Boolean)) {
+        bodyLines.push(cells.join(' | '));
+      }
+    }
+
+    // Speaker notes are linked from the slide's relationships
+    const slideRels = await readRelationships(zip, slidePath, 'notesSlide');
+    const notesPath = Object.values(slideRels)[0];
+    const notesLines: string[] = [];
+    if (notesPath) {
+      const notesXml = await readZipXml(zip, notesPath);
+      for (const shape of findAll(notesXml, 'p:sp')) {
+        const placeholderType = attr(findFirst(children(shape), 'p:ph'), 'type');
+        if (placeholderType === 'sldNum' || placeholderType === 'sldImg') continue;
+        notesLines.push(
+          ...findAll(children(shape), 'a:p')
+            .map(drawingParagraphText)
+            .filter((line) => line.trim().length > 0)
+        );
+      }
+    }
+
+    if (!title && bodyLines.length === 0 && notesLines.length === 0) continue;
+
+    const parts = [`Slide ${slideNumber}${title ? `: ${title}` : ''}`];
+    if (bodyLines.length > 0) parts.push(bodyLines.join('\n'));
+    if (notesLines.length > 0) parts.push(`Speaker notes:\n${notesLines.join('\n')}`);
+    const content = parts.join('\n\n');
+
+    chunks.push({
+      content,
+      metadata: {
+        charStart,
+        charEnd: charStart + content.length,
+        estimatedTokens: Math.ceil(content.length / 4),
+        type: 'pptx_slide',
+        originalFilename: filename,
+        sourceType: 'file',
+        slideNumber,
+      },
+    });
+    charStart += content.length;
+  }
+
+  return chunks;
+}
+
+/**
+ * XLSX: convert each sheet to CSV and chunk by row ranges
+ */
+async function chunkXlsx(
+  zip: JSZip,
+  filename: string
+): Promise<Omit<TextChunk, 'chunkIndex' | 'totalChunks'>[]> {
+  const chunks: Omit<TextChunk, 'chunkIndex' | 'totalChunks'>[] = [];
+  let charStart = 0;
+
+  for (const { sheetName, rows } of await readXlsxSheets(zip, filename)) {
+    // chunkCSV splits on line breaks, so flatten multi-line cells first
+    const csv = rows
+      .map((row) => row.map((value) => escapeCSVValue(value.replace(/\r?\n/g, ' '))).join(','))
+      .join('\n');
+
+    for (const chunk of chunkCSV(csv, filename)) {
+      const content = `Sheet: ${sheetName}\n${chunk.content}`;
+      const { rowStart = 1, rowEnd = rows.length, columns = [] } = chunk.metadata;
+
+      chunks.push({
+        content,
+        metadata: {
+          ...chunk.metadata,
+          charStart,
+          charEnd: charStart + content.length,
+          estimatedTokens: Math.ceil(content.length / 4),
+          type: 'xlsx_rows',
+          sheetName,
+          csvMetadata: {
+            rowStart,
+            rowEnd,
+            columns,
+            sheetName,
+          },
+        },
+      });
+      charStart += content.length;
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Helper: Read the non-empty rows of every worksheet, first row first
+ */
+async function readXlsxSheets(
+  zip: JSZip,
+  filename: string
+): Promise<Array<{ sheetName: string; rows: string[][] }>> {
+  const workbookXml = await readZipXml(zip, 'xl/workbook.xml');
+  const workbookRels = await readRelationships(zip, 'xl/workbook.xml');
+  if (workbookXml.length === 0) {
+    throw new Error(`${filename} has no xl/workbook.xml`);
+  }
+
+  // Shared string table: cells of type "s" hold an index into it
+  const sharedStringsXml = await readZipXml(zip, 'xl/sharedStrings.xml');
+  const sharedStrings = findAll(sharedStringsXml, 'si').map((si) =>
+    findAll(children(si), 't').map(textContent).join('')
+  );
+
+  const sheets: Array<{ sheetName: string; rows: string[][] }> = [];
+
+  for (const sheet of findAll(workbookXml, 'sheet')) {
+    const sheetName = attr(sheet, 'name') || 'Sheet';
+    const sheetPath = workbookRels[attr(sheet, 'r:id') || ''];
+    if (!sheetPath) continue;
+
+    const sheetXml = await readZipXml(zip, sheetPath);
+    const rows: string[][] = [];
+
+    for (const row of findAll(sheetXml, 'row')) {
+      const values: string[] = [];
+      for (const cell of findAll(children(row), 'c')) {
+        const ref = attr(cell, 'r');
+        const columnIndex = ref ? columnIndexFromRef(ref) : values.length;
+        values[columnIndex] = xlsxCellValue(cell, sharedStrings);
+      }
+      const normalized = Array.from(values, (value) => value ?? '');
+      if (normalized.some((value) => value.trim().length > 0)) {
+        rows.push(normalized);
+      }
+    }
+
+    if (rows.length > 0) {
+      sheets.push({ sheetName, rows });
+    }
+  }
+
+  return sheets;
+}
+
+/**
+ * Helper: Read and parse an XML part from the package
+ */
+async function readZipXml(zip: JSZip, path: string): Promise<XmlNode[]> {
+  const file = zip.file(path);
+  if (!file) {
+    return [];
+  }
+  return xmlParser.parse(await file.async('string')) as XmlNode[];
+}
+
+/**
+ * Helper: Resolve a part's relationships (rId -> package path)
+ * Optionally restricted to relationship types ending with typeSuffix
+ */
+async function readRelationships(
+  zip: JSZip,
+  partPath: string,
+  typeSuffix?: string
+): Promise<Record<string, string>> {
+  const slash = partPath.lastIndexOf('/');
+  const dir = partPath.substring(0, slash);
+  const relsXml = await readZipXml(zip, `${dir}/_rels/${partPath.substring(slash + 1)}.rels`);
+
+  const rels: Record<string, string> = {};
+  for (const rel of findAll(relsXml, 'Relationship')) {
+    const id = attr(rel, 'Id');
+    const target = attr(rel, 'Target');
+    const type = attr(rel, 'Type') || '';
+    if (!id || !target || attr(rel, 'TargetMode') === 'External') continue;
+    if (typeSuffix && !type.endsWith(`/${typeSuffix}`)) continue;
+    rels[id] = resolvePartPath(dir, target);
+  }
+  return rels;
+}
+
+/**
+ * Helper: Resolve a relationship target relative to the source part's folder
+ */
+function resolvePartPath(baseDir: string, target: string): string {
+  if (target.startsWith('/')) {
+    return target.substring(1);
+  }
+  const segments = baseDir ? baseDir.split('/') : [];
+  for (const segment of target.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+/**
+ * Helper: Name of an element node (undefined for text nodes)
+ */
+function tagName(node: XmlNode): string | undefined {
+  return Object.keys(node).find((key) => key !== ':@' && key !== '#text');
+}
+
+/**
+ * Helper: Child nodes of an element (or the node list itself)
+ */
+function children(node: XmlNode | XmlNode[] | undefined): XmlNode[] {
+  if (!node) return [];
+  if (Array.isArray(node)) return node;
+  const name = tagName(node);
+  const value = name ? node[name] : undefined;
+  return Array.isArray(value) ? (value as XmlNode[]) : [];
+}
+
+/**
+ * Helper: Attribute value of an element
+ */
+function attr(node: XmlNode | undefined, name: string): string | undefined {
+  const attributes = node?.[':@'] as Record<string, string> | undefined;
+  return attributes?.[`@_${name}`];
+}
+
+/**
+ * Helper: Depth-first search for all elements with the given name
+ */
+function findAll(nodes: XmlNode[], name: string): XmlNode[] {
+  const found: XmlNode[] = [];
+  for (const node of nodes) {
+    if (tagName(node) === name) {
+      found.push(node);
+    } else {
+      found.push(...findAll(children(node), name));
+    }
+  }
+  return found;
+}
+
+/**
+ * Helper: First element with the given name
+ */
+function findFirst(nodes: XmlNode[], name: string): XmlNode | undefined {
+  return findAll(nodes, name)[0];
+}
+
+/**
+ * Helper: Concatenated text nodes of an element
+ */
+function textContent(node: XmlNode): string {
+  return children(node)
+    .map((child) => (child['#text'] !== undefined ? String(child['#text']) : textContent(child)))
+    .join('');
+}
+
+/**
+ * Helper: Text of a WordprocessingML paragraph (runs, tabs and breaks)
+ */
+function docxParagraphText(paragraph: XmlNode): string {
+  const parts: string[] = [];
+  const walk = (nodes: XmlNode[]) => {
+    for (const node of nodes) {
+      const name = tagName(node);
+      if (name === 'w:t') parts.push(textContent(node));
+      else if (name === 'w:tab') parts.push('\t');
+      else if (name === 'w:br' || name === 'w:cr') parts.push('\n');
+      else if (name !== 'w:pPr' && name !== 'w:rPr' && name !== 'w:instrText') walk(children(node));
+    }
+  };
+  walk(children(paragraph));
+  return parts.join('');
+}
+
+/**
+ * Helper: Heading level of a WordprocessingML paragraph (null for body text)
+ */
+function docxHeadingLevel(paragraph: XmlNode): number | null {
+  const properties = findFirst(children(paragraph), 'w:pPr');
+  const style = attr(findFirst(children(properties), 'w:pStyle'), 'w:val') || '';
+
+  if (/^title$/i.test(style)) return 0;
+  const headingMatch = style.match(/^heading\s?(\d)$/i);
+  if (headingMatch) return parseInt(headingMatch[1], 10);
+
+  const outline = attr(findFirst(children(properties), 'w:outlineLvl'), 'w:val');
+  if (outline !== undefined && /^\d$/.test(outline) && outline !== '9') {
+    return parseInt(outline, 10) + 1;
+  }
+  return null;
+}
+
+/**
+ * Helper: Text of a DrawingML paragraph (used by slides and notes)
+ */
+function drawingParagraphText(paragraph: XmlNode): string {
+  const parts: string[] = [];
+  const walk = (nodes: XmlNode[]) => {
+    for (const node of nodes) {
+      const name = tagName(node);
+      if (name === 'a:t') parts.push(textContent(node));
+      else if (name === 'a:br') parts.push('\n');
+      else if (name !== 'a:pPr' && name !== 'a:rPr') walk(children(node));
+    }
+  };
+  walk(children(paragraph));
+  return parts.join('');
+}
+
+/**
+ * Helper: Display value of a SpreadsheetML cell
+ */
+function xlsxCellValue(cell: XmlNode, sharedStrings: string[]): string {
+  const type = attr(cell, 't');
+  if (type === 'inlineStr') {
+    return findAll(children(cell), 't').map(textContent).join('');
+  }
+
+  const valueNode = findFirst(children(cell), 'v');
+  const raw = valueNode ? textContent(valueNode) : '';
+  if (type === 's') return sharedStrings[parseInt(raw, 10)] ?? '';
+  if (type === 'b') return raw === '1' ? 'TRUE' : 'FALSE';
+  return raw;
+}
+
+/**
+ * Helper: Zero-based column index from a cell reference like "AB12"
+ */
+function columnIndexFromRef(ref: string): number {
+  const letters = ref.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Helper: Quote a CSV value when needed
+ */
+function escapeCSVValue(value: string): string {
+  if (/[",\n\r]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
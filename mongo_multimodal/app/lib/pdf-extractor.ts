@@ -0,0 +1,161 @@
+/**
+ * Server-side PDF Extraction
+ * Extracts the text layer and renders a JPEG image for every PDF page
+ */
+
+import path from 'path';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+export interface ExtractOptions {
+  scale?: number;
+  jpegQuality?: number; // 0-100
+  maxImageBytes?: number;
+}
+
+export interface ExtractedPDFPage {
+  pageNumber: number;
+  text: string;
+  image: {
+    base64: string;
+    mimeType: 'image/jpeg';
+    sizeBytes: number;
+  };
+}
+
+export interface ExtractedPDF {
+  numPages: number;
+  title?: string;
+  author?: string;
+  pages: ExtractedPDFPage[];
+}
+
+interface NodeCanvasAndContext {
+  canvas: { toBuffer: (mimeType: 'image/jpeg', quality?: number) => Buffer };
+  context: unknown;
+}
+
+interface NodeCanvasFactory {
+  create: (width: number, height: number) => NodeCanvasAndContext;
+  destroy: (canvasAndContext: NodeCanvasAndContext) => void;
+}
+
+/**
+ * Check whether a buffer starts with the PDF magic bytes (%PDF-)
+ */
+export function isPDFBuffer(data: Uint8Array): boolean {
+  return (
+    data.length > 4 &&
+    data[0] === 0x25 &&
+    data[1] === 0x50 &&
+    data[2] === 0x44 &&
+    data[3] === 0x46 &&
+    data[4] === 0x2d
+  );
+}
+
+/**
+ * Extract text and page images from a PDF
+ * @param pdfData - Raw PDF bytes
+ * @param options - Rendering options
+ * @returns Page-by-page text and JPEG renders
+ */
+export async function extractPDFPages(
+  pdfData: ArrayBuffer | Uint8Array,
+  options: ExtractOptions = {}
+): Promise<ExtractedPDF> {
+  const {
+    scale = 2.0,
+    jpegQuality = 85,
+    maxImageBytes = 2 * 1024 * 1024 // 2MB
+  } = options;
+
+  // pdf.js takes ownership of the buffer and rejects Node Buffers, so hand it a plain copy
+  const data = Uint8Array.from(pdfData instanceof Uint8Array ? pdfData : new Uint8Array(pdfData));
+
+  const pdf = await getDocument({
+    data,
+    useSystemFonts: true,
+    isEvalSupported: false,
+    standardFontDataUrl: path.join(process.cwd(), 'node_modules/pdfjs-dist/standard_fonts/'),
+  }).promise;
+
+  try {
+    const canvasFactory = pdf.canvasFactory as NodeCanvasFactory;
+    const pages: ExtractedPDFPage[] = [];
+
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+      const page = await pdf.getPage(pageNum);
+
+      // Extract the text layer, keeping line breaks reported by pdf.js
+      const textContent = await page.getTextContent();
+      const text = textContent.items
+        .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+
+      // Render the page, lowering scale and quality until it fits the size budget
+      let currentScale = scale;
+      let imageBuffer: Buffer | null = null;
+
+      while (currentScale > 0.5) {
+        const viewport = page.getViewport({ scale: currentScale });
+        const canvasAndContext = canvasFactory.create(
+          Math.ceil(viewport.width),
+          Math.ceil(viewport.height)
+        );
+
+        await page.render({
+          canvasContext: canvasAndContext.context as CanvasRenderingContext2D,
+          viewport,
+        }).promise;
+
+        let quality = jpegQuality;
+        while (quality > 30) {
+          imageBuffer = canvasAndContext.canvas.toBuffer('image/jpeg', quality);
+          if (imageBuffer.length <= maxImageBytes) {
+            break;
+          }
+          quality -= 10;
+        }
+
+        canvasFactory.destroy(canvasAndContext);
+
+        if (imageBuffer && imageBuffer.length <= maxImageBytes) {
+          break;
+        }
+
+        currentScale -= 0.25;
+      }
+
+      if (!imageBuffer) {
+        throw new Error(`Could not render page ${pageNum}`);
+      }
+
+      pages.push({
+        pageNumber: pageNum,
+        text,
+        image: {
+          base64: imageBuffer.toString('base64'),
+          mimeType: 'image/jpeg',
+          sizeBytes: imageBuffer.length,
+        },
+      });
+
+      page.cleanup();
+    }
+
+    const { info } = await pdf.getMetadata().catch(() => ({ info: {} }));
+    const metadata = info as { Title?: string; Author?: string };
+
+    return {
+      numPages: pdf.numPages,
+      title: metadata.Title?.trim() || undefined,
+      author: metadata.Author?.trim() || undefined,
+      pages,
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
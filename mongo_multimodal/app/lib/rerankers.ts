@@ -0,0 +1,174 @@
+/**
+ * Rerankers
+ * Second-stage scoring of search hits against the query text, selected by RERANK_PROVIDER:
+ * Voyage's hosted rerank models, or a local lexical stand-in that needs no network or API key.
+ * Unset, search results keep their retrieval order.
+ */
+
+const VOYAGE_RERANK_URL = 'https://api.voyageai.com/v1/rerank';
+const VOYAGE_DEFAULT_MODEL = 'rerank-2';
+// Local scoring: BM25 term frequency saturation and length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export interface Reranker {
+  name: string;
+  model: string;
+  maxDocuments: number; // per request
+  /**
+   * Score documents for relevance to the query
+   * @returns one score per document, in input order (higher is more relevant)
+   */
+  rerank: (query: string, documents: string[]) => Promise<number[]>;
+}
+
+interface VoyageRerankResponse {
+  object: 'list';
+  data: Array<{ index: number; relevance_score: number }>;
+  model: string;
+  usage: { total_tokens: number };
+}
+
+let reranker: Reranker | null | undefined;
+
+/**
+ * The configured reranker (created on first use), or null when reranking is off
+ * RERANK_PROVIDER: voyage | local; RERANK_MODEL overrides Voyage's default model
+ */
+export function getReranker(): Reranker | null {
+  if (reranker === undefined) {
+    reranker = createReranker(process.env.RERANK_PROVIDER, process.env.RERANK_MODEL);
+  }
+  return reranker;
+}
+
+/**
+ * Create the reranker for a provider name
+ * @throws Error for unknown providers
+ */
+export function createReranker(provider?: string, model?: string): Reranker | null {
+  switch (provider || 'none') {
+    case 'none':
+      return null;
+    case 'voyage':
+      return createVoyageReranker(model || VOYAGE_DEFAULT_MODEL);
+    case 'local':
+      return createLocalReranker();
+    default:
+      throw new Error(`Unknown rerank provider "${provider}" (expected voyage or local)`);
+  }
+}
+
+/**
+ * Score documents with a reranker, in as many requests as its limit needs
+ * @returns one score per document, in input order
+ */
+export async function rerankDocuments(
+  query: string,
+  documents: string[],
+  rerankWith: Reranker | null = getReranker()
+): Promise<number[]> {
+  if (!rerankWith) {
+    throw new Error('No reranker configured (see RERANK_PROVIDER)');
+  }
+
+  const scores: number[] = [];
+  for (let start = 0; start < documents.length; start += rerankWith.maxDocuments) {
+    const batch = documents.slice(start, start + rerankWith.maxDocuments);
+    const batchScores = await rerankWith.rerank(query, batch);
+    if (batchScores.length !== batch.length) {
+      throw new Error(`Expected ${batch.length} rerank scores, got ${batchScores.length}`);
+    }
+    scores.push(...batchScores);
+  }
+  return scores;
+}
+
+/**
+ * Reranker for Voyage's hosted rerank models (relevance scores between 0 and 1)
+ */
+export function createVoyageReranker(model: string, apiKey: string | undefined = process.env.VOYAGE_API_KEY): Reranker {
+  return {
+    name: 'voyage',
+    model,
+    maxDocuments: 1000,
+    rerank: async (query, documents) => {
+      if (!apiKey) {
+        throw new Error('VOYAGE_API_KEY is not set');
+      }
+
+      const response = await fetch(VOYAGE_RERANK_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`,
+        },
+        // Long documents are cut to the model's context instead of failing the request
+        body: JSON.stringify({ query, documents, model, truncation: true }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.detail || error.message || `Rerank request failed (${response.status})`);
+      }
+
+      const result: VoyageRerankResponse = await response.json();
+      const scores = new Array<number>(documents.length).fill(0);
+      for (const item of result.data) {
+        scores[item.index] = item.relevance_score;
+      }
+      return scores;
+    },
+  };
+}
+
+/**
+ * Deterministic reranker that runs offline
+ * Scores BM25-style overlap between the query's words and each document, with word rarity
+ * judged across the documents being reranked; 1 means every query word matched well.
+ * Good for development and tests, not for real relevance judgements.
+ */
+export function createLocalReranker(): Reranker {
+  return {
+    name: 'local',
+    model: 'local-bm25-v1',
+    maxDocuments: Infinity,
+    rerank: async (query, documents) => lexicalScores(query, documents),
+  };
+}
+
+/**
+ * Helper: BM25 scores of documents for a query, scaled to 0..1
+ */
+function lexicalScores(query: string, documents: string[]): number[] {
+  const terms = [...new Set(words(query))];
+  const docs = documents.map(words);
+  if (terms.length === 0 || docs.length === 0) return documents.map(() => 0);
+
+  const averageLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+  const idf = terms.map((term) => {
+    const containing = docs.filter((doc) => doc.includes(term)).length;
+    return Math.log(1 + (docs.length - containing + 0.5) / (containing + 0.5));
+  });
+  const maxScore = idf.reduce((sum, weight) => sum + weight, 0);
+
+  return docs.map((doc) => {
+    const counts = new Map<string, number>();
+    for (const word of doc) counts.set(word, (counts.get(word) || 0) + 1);
+
+    const lengthNorm = 1 - BM25_B + BM25_B * (doc.length / averageLength);
+    const score = terms.reduce((sum, term, i) => {
+      const tf = counts.get(term) || 0;
+      // Saturates towards idf as the term repeats
+      return sum + idf[i] * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm) / (BM25_K1 + 1);
+    }, 0);
+    return Math.min(1, score / maxScore);
+  });
+}
+
+/**
+ * Helper: Lowercase words and numbers of a text
+ */
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
@@ -0,0 +1,160 @@
+import { Db, Document, ObjectId } from 'mongodb';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getFusionWeights, paginatedVectorSearch } from '../vectorSearch.service';
+
+vi.mock('../../embeddings', () => ({
+  generateMultimodalEmbedding: vi.fn(async () => [0.1, 0.2, 0.3]),
+}));
+
+vi.mock('../embeddingModel.service', () => ({
+  getActiveEmbedding: vi.fn(async () => ({
+    modelId: 'local/local-hash-v1/3',
+    slot: 'embedding',
+    modelPath: 'embeddingModel',
+    index: 'vector_index',
+  })),
+  modelFilter: () => ({ 'embeddingModel.id': 'local/local-hash-v1/3' }),
+}));
+
+vi.mock('../../rerankers', () => ({
+  getReranker: () => null,
+  rerankDocuments: vi.fn(),
+}));
+
+const PROJECT_ID = new ObjectId().toString();
+
+// Fake Db that records the facet pipeline and answers with a canned $facet result
+function fakeDb(facet: Document = { paginated: [], total: [] }) {
+  const pipelines: Document[][] = [];
+  const db = {
+    collection: () => ({
+      aggregate: (pipeline: Document[]) => {
+        pipelines.push(pipeline);
+        return { toArray: async () => [facet] };
+      },
+    }),
+  } as unknown as Db;
+  return { db, pipelines };
+}
+
+// Reciprocal rank fusion as the pipeline computes it: each branch's $project stage gives the hit at
+// a rank weight / (k + rank + 1), and $group sums a hit's scores across branches
+function fuse(branches: Document[][], hitsByBranch: string[][]): Map<string, number> {
+  const fused = new Map<string, number>();
+  branches.forEach((branch, b) => {
+    const project = branch.find((stage) => stage.$project?.fusedScore)!.$project;
+    const [weight, { $add: [k] }] = project.fusedScore.$divide;
+    hitsByBranch[b].forEach((id, rank) => {
+      fused.set(id, (fused.get(id) || 0) + weight / (k + rank + 1));
+    });
+  });
+  return fused;
+}
+
+// The ranking branches of a facet pipeline: the stages before $unionWith, and its pipeline
+function branchesOf(pipeline: Document[]): Document[][] {
+  const union = pipeline.findIndex((stage) => stage.$unionWith);
+  const group = pipeline.findIndex((stage) => stage.$group?.fusedScore);
+  return union === -1
+    ? [pipeline.slice(0, group)]
+    : [pipeline.slice(0, union), pipeline[union].$unionWith.pipeline];
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getFusionWeights', () => {
+  it('defaults to equal weights with k = 60', () => {
+    expect(getFusionWeights()).toEqual({ vector: 1, keyword: 1, k: 60 });
+  });
+
+  it('reads the environment, with request overrides winning', () => {
+    vi.stubEnv('SEARCH_VECTOR_WEIGHT', '2');
+    vi.stubEnv('SEARCH_RRF_K', 'not a number');
+
+    expect(getFusionWeights()).toEqual({ vector: 2, keyword: 1, k: 60 });
+    expect(getFusionWeights({ keyword: 0, k: 10 })).toEqual({ vector: 2, keyword: 0, k: 10 });
+  });
+
+  it('rejects negative weights and two zero weights', () => {
+    expect(() => getFusionWeights({ vector: -1 })).toThrow('Fusion weights must not be negative');
+    expect(() => getFusionWeights({ vector: 0, keyword: 0 })).toThrow('At least one fusion weight must be positive');
+  });
+});
+
+describe('paginatedVectorSearch fusion', () => {
+  it('fuses the vector and keyword rankings by reciprocal rank', async () => {
+    const { db, pipelines } = fakeDb();
+
+    await paginatedVectorSearch(db, PROJECT_ID, 'invoice PN-4432', 'text', 1, 10, {
+      weights: { vector: 1, keyword: 2, k: 10 },
+    });
+
+    const branches = branchesOf(pipelines[0]);
+    expect(branches[0][0].$vectorSearch).toBeDefined();
+    expect(branches[1][0].$search).toBeDefined();
+
+    // "b" is second in both rankings and beats "a", which only the vector ranking found first
+    const fused = fuse(branches, [['a', 'b', 'c'], ['d', 'b']]);
+    expect(fused.get('a')).toBeCloseTo(1 / 11);
+    expect(fused.get('b')).toBeCloseTo(1 / 12 + 2 / 12);
+    expect(fused.get('d')).toBeCloseTo(2 / 11);
+    expect([...fused.entries()].sort((x, y) => y[1] - x[1]).map(([id]) => id)).toEqual(['b', 'd', 'a', 'c']);
+
+    // Hits are merged by id and sorted by the summed score
+    const stages = pipelines[0];
+    expect(stages.find((stage) => stage.$group?.fusedScore)!.$group.fusedScore).toEqual({ $sum: '$fusedScore' });
+    expect(stages.find((stage) => stage.$sort?.fusedScore)!.$sort).toEqual({ fusedScore: -1, _id: 1 });
+  });
+
+  it('skips a ranking whose weight is zero', async () => {
+    const { db, pipelines } = fakeDb();
+
+    await paginatedVectorSearch(db, PROJECT_ID, 'invoice', 'text', 1, 10, { weights: { vector: 0 } });
+
+    const branches = branchesOf(pipelines[0]);
+    expect(branches).toHaveLength(1);
+    expect(branches[0][0].$search).toBeDefined();
+  });
+
+  it('uses only the vector ranking for image queries', async () => {
+    const { db, pipelines } = fakeDb();
+
+    await paginatedVectorSearch(db, PROJECT_ID, { text: 'at night', image: 'aW1hZ2U=' }, 'text', 1, 10);
+
+    const branches = branchesOf(pipelines[0]);
+    expect(branches).toHaveLength(1);
+    expect(branches[0][0].$vectorSearch).toBeDefined();
+  });
+
+  it('uses the agent search settings in the agent context', async () => {
+    const { db, pipelines } = fakeDb();
+
+    await paginatedVectorSearch(db, PROJECT_ID, 'invoice', 'text', 1, 2, { context: 'agent' });
+
+    const [vector, keyword] = branchesOf(pipelines[0]);
+    expect(vector[0].$vectorSearch).toMatchObject({ limit: 20, numCandidates: 150 });
+    expect(vector.find((stage) => stage.$match?.score)!.$match).toEqual({ score: { $gte: 0.6 } });
+    expect(keyword.find((stage) => stage.$limit)).toEqual({ $limit: 20 });
+  });
+
+  it('rejects keyword-only searches without query text', async () => {
+    const { db } = fakeDb();
+
+    await expect(
+      paginatedVectorSearch(db, PROJECT_ID, 'aW1hZ2U=', 'image', 1, 10, { weights: { vector: 0 } })
+    ).rejects.toThrow('Keyword search needs a text-only query');
+  });
+
+  it('scores results relative to ranking first in every ranking used', async () => {
+    const top = { _id: new ObjectId(), type: 'document', content: { text: 'x' }, fusedScore: 2 / 61, source: 'both' };
+    const second = { _id: new ObjectId(), type: 'document', content: { text: 'y' }, fusedScore: 1 / 62, source: 'vector' };
+    const { db } = fakeDb({ paginated: [top, second], total: [{ total: 2 }], types: [{ _id: 'document', count: 2 }] });
+
+    const page = await paginatedVectorSearch(db, PROJECT_ID, 'invoice', 'text', 1, 10);
+
+    expect(page.results.map((result) => result.score)).toEqual([1, expect.closeTo(61 / 124, 6)]);
+    expect(page).toMatchObject({ total: 2, totalPages: 1, facets: { types: [{ value: 'document', count: 2 }] } });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Archive Import Service
+ * Imports every file of a ZIP archive, routing each entry to the image, text, PDF or email pipeline
+ */
+
+import { Db, ObjectId } from 'mongodb';
+import { readZipStream } from '../zip-reader';
+import { IngestOptions, IngestPipeline, getIngestPipeline, processAndUploadByType } from './chunking.service';
+import { createIngestion, finishIngestion, recordIngestionProgress } from './ingestion.service';
+import {
+  FileValidationCode,
+  FileValidationError,
+  checkFileContent,
+  getUploadPolicy,
+} from './uploadValidation.service';
+
+export type ArchiveEntryStatus = 'success' | 'skipped' | 'failed' | 'unsupported';
+
+export interface ArchiveEntryResult {
+  path: string;
+  status: ArchiveEntryStatus;
+  pipeline?: IngestPipeline;
+  dataIds?: string[]; // items created from the entry
+  duplicateOf?: string[]; // existing items when skipped as a duplicate
+  error?: string;
+  code?: FileValidationCode; // why validation rejected the entry
+}
+
+export interface ArchiveImportResult {
+  ingestionId: ObjectId;
+  status: 'completed' | 'cancelled' | 'failed';
+  counts: Record<ArchiveEntryStatus, number>;
+  itemsCreated: number;
+  entries: ArchiveEntryResult[];
+  error?: string; // why the archive could not be read to the end
+}
+
+/**
+ * Import a ZIP archive streamed from an upload
+ * Entries are processed one at a time as they are read; folder paths are kept
+ * as item metadata and the whole import is tracked as a 'zip' ingestion
+ */
+export async function importZipArchive(
+  db: Db,
+  projectId: string,
+  archiveName: string,
+  stream: ReadableStream<Uint8Array>,
+  options: IngestOptions = {}
+): Promise<ArchiveImportResult> {
+  const policy = await getUploadPolicy(db, projectId);
+  const ingestion = await createIngestion(db, projectId, 'zip', archiveName, {
+    duplicatePolicy: options.duplicatePolicy,
+  });
+
+  const result: ArchiveImportResult = {
+    ingestionId: ingestion._id,
+    status: 'completed',
+    counts: { success: 0, skipped: 0, failed: 0, unsupported: 0 },
+    itemsCreated: 0,
+    entries: [],
+  };
+
+  // Thrown from the entry handlers to stop reading once the ingestion is cancelled
+  const cancelled = new Error('Import cancelled');
+
+  const record = async (entry: ArchiveEntryResult, itemCount = 0) => {
+    result.entries.push(entry);
+    result.counts[entry.status]++;
+    result.itemsCreated += itemCount;
+
+    const stillRunning = await recordIngestionProgress(db, ingestion._id, {
+      succeeded: entry.status === 'success' ? 1 : 0,
+      skipped: entry.status === 'skipped' || entry.status === 'unsupported' ? 1 : 0,
+      failed: entry.status === 'failed' ? 1 : 0,
+      items: itemCount,
+      error: entry.error && entry.status === 'failed' ? { source: entry.path, error: entry.error } : undefined,
+    });
+    if (!stillRunning) throw cancelled;
+  };
+
+  try {
+    await readZipStream(stream, {
+      onEntry: async (entry) => {
+        const type = getIngestPipeline(entry.name);
+        if (!type) {
+          await record({ path: entry.path, status: 'unsupported', error: 'Unsupported file type' });
+          return;
+        }
+
+        // Entries are checked like single uploads; types the project excludes count as unsupported
+        let mimeType: string;
+        try {
+          ({ mimeType } = checkFileContent(policy, entry.name, entry.data.byteLength, entry.data));
+        } catch (error) {
+          if (!(error instanceof FileValidationError)) throw error;
+          await record({
+            path: entry.path,
+            status: error.code === 'type_not_allowed' ? 'unsupported' : 'failed',
+            pipeline: type.pipeline,
+            error: error.message,
+            code: error.code,
+          });
+          return;
+        }
+
+        const file = new File([entry.data], entry.name, { type: mimeType });
+        const upload = await processAndUploadByType(db, projectId, file, undefined, {
+          ...options,
+          ingestionId: ingestion._id,
+          folderPath: entry.folderPath || undefined,
+        });
+
+        if (!upload.success) {
+          await record({
+            path: entry.path,
+            status: 'failed',
+            pipeline: type.pipeline,
+            error: upload.error || 'Failed to process file',
+          });
+        } else if (upload.skipped) {
+          await record({
+            path: entry.path,
+            status: 'skipped',
+            pipeline: type.pipeline,
+            duplicateOf: (upload.duplicateOf || []).map((id) => id.toString()),
+          });
+        } else {
+          await record(
+            {
+              path: entry.path,
+              status: 'success',
+              pipeline: type.pipeline,
+              dataIds: upload.insertedIds.map((id) => id.toString()),
+            },
+            upload.insertedIds.length
+          );
+        }
+      },
+      onEntryError: async (path, error) => {
+        await record({ path, status: 'failed', error });
+      },
+    });
+  } catch (error) {
+    if (error === cancelled) {
+      result.status = 'cancelled';
+    } else {
+      result.status = 'failed';
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  const summary = { counts: result.counts, itemsCreated: result.itemsCreated };
+  if (result.status === 'failed') {
+    await finishIngestion(db, ingestion._id, 'failed', { result: summary, error: result.error });
+  } else {
+    await finishIngestion(db, ingestion._id, 'completed', { result: summary });
+  }
+
+  return result;
+}
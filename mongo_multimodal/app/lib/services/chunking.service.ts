@@ -4,19 +4,168 @@
  */
 
 import { Db, ObjectId } from 'mongodb';
-import { chunkFileContent, TextChunk } from '../text-chunker';
-import { scrapeWebsite, validateURL, normalizeURL } from '../web-scraper';
+import { chunkFileContent, chunkMarkdown, parseCSVTable, TextChunk } from '../text-chunker';
+import { scrapeWebsite, validateURL, normalizeURL, ScrapedContent } from '../web-scraper';
+import { crawlWebsite, CrawlOptions } from '../web-crawler';
+import { extractPDFPages } from '../pdf-extractor';
+import { chunkOfficeFile, extractXlsxTables, isOfficeFile } from '../office-parser';
+import { chunkEmailMessage, getEmailFormat, parseEmailFile } from '../email-parser';
 import { storeMemory } from './memory.service';
+import { cancelItemJobs, enqueueIngestionJobs, enqueueJobs } from './jobQueue.service';
+import { DuplicatePolicy, checkDuplicate, hashContent, replaceDuplicates } from './dedup.service';
+import { deleteFiles, referencedFileIds, storeFile } from './fileStorage.service';
+import { deleteTablesOf, storeTable } from './table.service';
+import {
+  IngestionProgress,
+  createIngestion,
+  finishIngestion,
+  isIngestionCancelled,
+  recordIngestionProgress,
+  restartIngestion,
+} from './ingestion.service';
 import { anthropic } from '@ai-sdk/anthropic';
 import { openai } from '@ai-sdk/openai';
 import { streamText } from 'ai';
+import { DataTable, ProjectData } from '../../types/models';
+import { ProjectDataValidationError, assertValidProjectData } from '../validations';
 
 export interface ChunkUploadResult {
   success: boolean;
   insertedIds: ObjectId[];
   totalChunks: number;
   memoriesCreated?: number;
+  pageCount?: number;
+  messageCount?: number; // emails in an .eml/.mbox file
+  attachmentCount?: number; // email attachments linked to their message
+  jobIds?: ObjectId[]; // background analyze/embed jobs queued for the new items
+  skipped?: boolean; // content already in the project and policy was 'skip'
+  duplicateOf?: ObjectId[]; // existing items holding the same content
+  replacedIds?: ObjectId[]; // existing items removed by the 'replace' policy
   error?: string;
+  invalid?: boolean; // an item built from the file failed schema validation
+}
+
+export interface IngestOptions {
+  duplicatePolicy?: DuplicatePolicy;
+  ingestionId?: ObjectId; // set when the source is part of a larger ingestion
+  folderPath?: string; // folder of the file inside an uploaded archive or connector source
+  attachmentOf?: ObjectId; // email message item the file was attached to
+  connectorId?: ObjectId; // connector the file was synced from
+  feed?: ProjectData['metadata']['feed']; // feed entry a web page was ingested from
+}
+
+export type IngestPipeline = 'image' | 'text' | 'pdf' | 'email';
+
+// Extension → pipeline and the MIME type it expects, for files that arrive without one (archives, attachments)
+const FILE_PIPELINES: Record<string, { pipeline: IngestPipeline; mimeType: string }> = {
+  jpg: { pipeline: 'image', mimeType: 'image/jpeg' },
+  jpeg: { pipeline: 'image', mimeType: 'image/jpeg' },
+  png: { pipeline: 'image', mimeType: 'image/png' },
+  gif: { pipeline: 'image', mimeType: 'image/gif' },
+  webp: { pipeline: 'image', mimeType: 'image/webp' },
+  pdf: { pipeline: 'pdf', mimeType: 'application/pdf' },
+  txt: { pipeline: 'text', mimeType: 'text/plain' },
+  csv: { pipeline: 'text', mimeType: 'text/csv' },
+  json: { pipeline: 'text', mimeType: 'application/json' },
+  md: { pipeline: 'text', mimeType: 'text/markdown' },
+  markdown: { pipeline: 'text', mimeType: 'text/markdown' },
+  html: { pipeline: 'text', mimeType: 'text/html' },
+  htm: { pipeline: 'text', mimeType: 'text/html' },
+  srt: { pipeline: 'text', mimeType: 'application/x-subrip' },
+  vtt: { pipeline: 'text', mimeType: 'text/vtt' },
+  docx: { pipeline: 'text', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  pptx: { pipeline: 'text', mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation' },
+  xlsx: { pipeline: 'text', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  eml: { pipeline: 'email', mimeType: 'message/rfc822' },
+  mbox: { pipeline: 'email', mimeType: 'application/mbox' },
+};
+
+export type WebsiteCrawlOptions = Pick<CrawlOptions, 'maxDepth' | 'maxPages' | 'useSitemap' | 'respectRobots'>;
+
+/**
+ * Helper: Result returned when an upload is skipped as a duplicate
+ */
+function skippedDuplicateResult(existingIds: ObjectId[]): ChunkUploadResult {
+  return {
+    success: true,
+    insertedIds: [],
+    totalChunks: 0,
+    skipped: true,
+    duplicateOf: existingIds,
+  };
+}
+
+/**
+ * Helper: Result returned when processing a file throws
+ */
+function failedUploadResult(error: unknown): ChunkUploadResult {
+  return {
+    success: false,
+    insertedIds: [],
+    totalChunks: 0,
+    error: error instanceof Error ? error.message : String(error),
+    ...(error instanceof ProjectDataValidationError && { invalid: true }),
+  };
+}
+
+/**
+ * Helper: Check an item against projectDataSchema, then insert it
+ * @throws ProjectDataValidationError before anything is written
+ */
+async function insertProjectData(db: Db, item: Record<string, unknown>) {
+  assertValidProjectData(item);
+  return db.collection('projectData').insertOne(item);
+}
+
+/**
+ * Helper: Metadata linking an item to the ingestion, folder and connector it came from
+ */
+function ingestMetadata(options: IngestOptions): { ingestionId?: ObjectId; folderPath?: string } {
+  return {
+    ...(options.ingestionId && { ingestionId: options.ingestionId }),
+    ...(options.folderPath && { folderPath: options.folderPath }),
+    ...(options.attachmentOf && { attachmentOf: options.attachmentOf }),
+    ...(options.connectorId && { connectorId: options.connectorId }),
+  };
+}
+
+/**
+ * Pick the ingestion pipeline for a file by its extension
+ * @returns null for file types that cannot be ingested
+ */
+export function getIngestPipeline(filename: string): { pipeline: IngestPipeline; mimeType: string } | null {
+  const dot = filename.lastIndexOf('.');
+  return dot === -1 ? null : FILE_PIPELINES[filename.slice(dot + 1).toLowerCase()] || null;
+}
+
+/**
+ * Process and upload a file through the pipeline for its type
+ * Used where files arrive in bulk without a dedicated endpoint (archive entries, email attachments, connector syncs)
+ */
+export async function processAndUploadByType(
+  db: Db,
+  projectId: string,
+  file: File,
+  sessionId?: string,
+  options: IngestOptions = {}
+): Promise<ChunkUploadResult> {
+  switch (getIngestPipeline(file.name)?.pipeline) {
+    case 'image':
+      return processAndUploadImageFile(db, projectId, file, options);
+    case 'pdf':
+      return processAndUploadPDFFile(db, projectId, file, sessionId, options);
+    case 'text':
+      return processAndUploadTextFile(db, projectId, file, sessionId, options);
+    case 'email':
+      return processAndUploadEmailFile(db, projectId, file, sessionId, options);
+    default:
+      return {
+        success: false,
+        insertedIds: [],
+        totalChunks: 0,
+        error: 'Unsupported file type',
+      };
+  }
 }
 
 /**
@@ -45,19 +194,31 @@ function isMemoryEnabled(): boolean {
 
 /**
  * Process and upload text file with chunking
+ * A failure part-way removes the chunks, tables and original file already stored
  */
 export async function processAndUploadTextFile(
   db: Db,
   projectId: string,
   file: File,
-  sessionId?: string
+  sessionId?: string,
+  options: IngestOptions = {}
 ): Promise<ChunkUploadResult> {
+  const parentId = new ObjectId();
+  const storedFileIds: ObjectId[] = [];
+  let imported = false;
+
   try {
-    // Read file content
-    const fileContent = await file.text();
+    const bytes = await file.arrayBuffer();
+    const sourceHash = hashContent(bytes);
+    const duplicate = await checkDuplicate(db, projectId, sourceHash, options.duplicatePolicy);
+    if (duplicate.skip) {
+      return skippedDuplicateResult(duplicate.existingIds);
+    }
 
-    // Detect type and chunk accordingly
-    const chunks = chunkFileContent(fileContent, file.name, file.type);
+    // Detect type and chunk accordingly (Office files are binary packages)
+    const chunks = isOfficeFile(file.name, file.type)
+      ? await chunkOfficeFile(bytes, file.name, file.type)
+      : chunkFileContent(await file.text(), file.name, file.type);
 
     if (chunks.length === 0) {
       return {
@@ -68,10 +229,20 @@ export async function processAndUploadTextFile(
       };
     }
 
+    // Keep the uploaded file so it can be downloaded or re-processed later
+    const originalFileId = await storeFile(db, bytes, {
+      filename: file.name,
+      contentType: file.type || 'application/octet-stream',
+      projectId,
+      kind: 'original',
+    });
+    storedFileIds.push(originalFileId);
+
     // Create projectData documents for each chunk
-    const parentId = new ObjectId();
     const insertedIds: ObjectId[] = [];
 
+    const tables = await storeFileTables(db, projectId, file, bytes, chunks, parentId, sourceHash);
+
     for (const chunk of chunks) {
       const projectData = {
         projectId: new ObjectId(projectId),
@@ -83,12 +254,22 @@ export async function processAndUploadTextFile(
           filename: file.name,
           mimeType: file.type,
           size: file.size,
+          contentHash: hashContent(chunk.content),
+          sourceHash,
+          originalFileId,
+          ...ingestMetadata(options),
           chunkInfo: {
             chunkIndex: chunk.chunkIndex,
             totalChunks: chunk.totalChunks,
             parentId,
             originalFilename: file.name,
-            csvMetadata: chunk.metadata.csvMetadata || undefined,
+            slideNumber: chunk.metadata.slideNumber,
+            headingPath: chunk.metadata.headingPath,
+            startTime: chunk.metadata.startTime,
+            endTime: chunk.metadata.endTime,
+            speakers: chunk.metadata.speakers,
+            jsonPath: chunk.metadata.jsonPath,
+            csvMetadata: tableMetadata(chunk, tables),
           },
         },
         analysis: {
@@ -100,10 +281,20 @@ export async function processAndUploadTextFile(
         updatedAt: new Date(),
       };
 
-      const result = await db.collection('projectData').insertOne(projectData);
+      const result = await insertProjectData(db, projectData);
       insertedIds.push(result.insertedId);
     }
 
+    const jobIds = await enqueueIngestionJobs(
+      db,
+      projectId,
+      insertedIds.map((_id) => ({ _id, type: 'text_chunk' }))
+    );
+    imported = true;
+
+    // The previous copy goes only once this one is stored
+    const replacedIds = await replaceDuplicates(db, duplicate, insertedIds);
+
     // Extract memories from chunks if enabled
     let memoriesCreated = 0;
     if (isMemoryEnabled() && sessionId) {
@@ -121,17 +312,63 @@ export async function processAndUploadTextFile(
       insertedIds,
       totalChunks: chunks.length,
       memoriesCreated,
+      jobIds,
+      replacedIds,
     };
   } catch (error) {
-    return {
-      success: false,
-      insertedIds: [],
-      totalChunks: 0,
-      error: error instanceof Error ? error.message : String(error),
-    };
+    if (!imported) {
+      await discardPartialImport(db, parentId, storedFileIds);
+    }
+    return failedUploadResult(error);
   }
 }
 
+/**
+ * Helper: Store the typed rows of a CSV file or of each XLSX sheet as queryable tables
+ * @returns the stored tables keyed by sheet name ('' for CSV)
+ */
+async function storeFileTables(
+  db: Db,
+  projectId: string,
+  file: File,
+  bytes: ArrayBuffer,
+  chunks: TextChunk[],
+  parentId: ObjectId,
+  sourceHash: string
+): Promise<Map<string, DataTable>> {
+  const tables = new Map<string, DataTable>();
+  const type = chunks[0]?.metadata.type;
+
+  if (type === 'csv_rows') {
+    const { headers, rows } = parseCSVTable(new TextDecoder().decode(bytes));
+    tables.set('', await storeTable(db, projectId, { parentId, filename: file.name, headers, rows, sourceHash }));
+  } else if (type === 'xlsx_rows') {
+    for (const sheet of await extractXlsxTables(bytes, file.name)) {
+      if (!sheet.headers) continue;
+      tables.set(sheet.sheetName, await storeTable(db, projectId, { parentId, filename: file.name, ...sheet, sourceHash }));
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Helper: csvMetadata for a row chunk, linked to its stored table
+ */
+function tableMetadata(chunk: TextChunk, tables: Map<string, DataTable>) {
+  const { rowStart, rowEnd, columns, sheetName } = chunk.metadata;
+  const csvMetadata = chunk.metadata.csvMetadata ||
+    (rowStart !== undefined && rowEnd !== undefined && columns ? { rowStart, rowEnd, columns } : undefined);
+  const table = tables.get(sheetName || '');
+  if (!csvMetadata || !table) return csvMetadata;
+
+  return {
+    ...csvMetadata,
+    tableId: table._id,
+    columnTypes: Object.fromEntries(table.columns.map((column) => [column.name, column.type])),
+  };
+}
+
 /**
  * Process and upload web content with chunking
  */
@@ -139,7 +376,8 @@ export async function processAndUploadWebContent(
   db: Db,
   projectId: string,
   url: string,
-  sessionId?: string
+  sessionId?: string,
+  options: IngestOptions = {}
 ): Promise<ChunkUploadResult> {
   try {
     // Validate and normalize URL
@@ -156,93 +394,726 @@ export async function processAndUploadWebContent(
     // Scrape website
     const scraped = await scrapeWebsite(normalizedUrl);
 
-    if (!scraped.success || !scraped.text || scraped.text.length < 50) {
-      return {
-        success: false,
-        insertedIds: [],
-        totalChunks: 0,
-        error: scraped.error || 'Could not extract content from website',
-      };
-    }
+    return await storeScrapedPage(db, projectId, normalizedUrl, scraped, sessionId, options);
+  } catch (error) {
+    return failedUploadResult(error);
+  }
+}
+
+/**
+ * Chunk a scraped page by its structure when available, falling back to plain text
+ */
+export function chunkScrapedPage(scraped: ScrapedContent): TextChunk[] {
+  return scraped.markdown
+    ? chunkMarkdown(scraped.markdown, scraped.title || 'web-page')
+    : chunkFileContent(scraped.text, scraped.title || 'web-page', 'text/plain');
+}
+
+/**
+ * SHA-256 identifying the content of a scraped page
+ */
+export function hashScrapedPage(scraped: ScrapedContent): string {
+  return hashContent(scraped.markdown || scraped.text);
+}
+
+/**
+ * Build the projectData document for one chunk of a scraped page
+ */
+export function buildWebChunkItem(
+  projectId: string | ObjectId,
+  url: string,
+  scraped: ScrapedContent,
+  chunk: TextChunk,
+  links: {
+    parentId: ObjectId;
+    sourceHash: string;
+    ingestionId?: ObjectId;
+    feed?: ProjectData['metadata']['feed'];
+  }
+) {
+  return {
+    projectId: new ObjectId(projectId),
+    type: 'web_chunk',
+    content: {
+      text: chunk.content,
+    },
+    metadata: {
+      filename: scraped.title || url,
+      mimeType: 'text/html',
+      size: scraped.text.length,
+      contentHash: hashContent(chunk.content),
+      sourceHash: links.sourceHash,
+      ...(links.ingestionId && { ingestionId: links.ingestionId }),
+      ...(links.feed && { feed: links.feed }),
+      chunkInfo: {
+        chunkIndex: chunk.chunkIndex,
+        totalChunks: chunk.totalChunks,
+        parentId: links.parentId,
+        sourceUrl: url,
+        originalFilename: scraped.title,
+        headingPath: chunk.metadata.headingPath,
+      },
+    },
+    analysis: {
+      description: scraped.metadata.description || '',
+      tags: ['web-content', scraped.metadata.author ? 'authored' : ''].filter(Boolean),
+      insights: [],
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * Helper: Chunk and store one scraped page as web_chunk items
+ */
+async function storeScrapedPage(
+  db: Db,
+  projectId: string,
+  url: string,
+  scraped: ScrapedContent,
+  sessionId: string | undefined,
+  options: IngestOptions
+): Promise<ChunkUploadResult> {
+  if (!scraped.success || !scraped.text || scraped.text.length < 50) {
+    return {
+      success: false,
+      insertedIds: [],
+      totalChunks: 0,
+      error: scraped.error || 'Could not extract content from website',
+    };
+  }
+
+  const chunks = chunkScrapedPage(scraped);
+
+  if (chunks.length === 0) {
+    return {
+      success: false,
+      insertedIds: [],
+      totalChunks: 0,
+      error: 'No content could be extracted from website',
+    };
+  }
+
+  const sourceHash = hashScrapedPage(scraped);
+  const duplicate = await checkDuplicate(db, projectId, sourceHash, options.duplicatePolicy);
+  if (duplicate.skip) {
+    return skippedDuplicateResult(duplicate.existingIds);
+  }
+
+  // Create projectData documents for each chunk
+  const parentId = new ObjectId();
+  const insertedIds: ObjectId[] = [];
 
-    // Chunk the content
-    const chunks = chunkFileContent(
-      scraped.text,
-      scraped.title || 'web-page',
-      'text/plain'
+  for (const chunk of chunks) {
+    const projectData = buildWebChunkItem(projectId, url, scraped, chunk, {
+      parentId,
+      sourceHash,
+      ingestionId: options.ingestionId,
+      feed: options.feed,
+    });
+
+    const result = await insertProjectData(db, projectData);
+    insertedIds.push(result.insertedId);
+  }
+
+  const jobIds = await enqueueIngestionJobs(
+    db,
+    projectId,
+    insertedIds.map((_id) => ({ _id, type: 'web_chunk' }))
+  );
+  const replacedIds = await replaceDuplicates(db, duplicate, insertedIds);
+
+  // Extract memories from chunks if enabled
+  let memoriesCreated = 0;
+  if (isMemoryEnabled() && sessionId) {
+    memoriesCreated = await extractMemoriesFromChunks(
+      db,
+      projectId,
+      chunks,
+      sessionId,
+      scraped.title || url,
+      'web'
     );
+  }
 
-    if (chunks.length === 0) {
+  return {
+    success: true,
+    insertedIds,
+    totalChunks: chunks.length,
+    memoriesCreated,
+    jobIds,
+    replacedIds,
+  };
+}
+
+/**
+ * Crawl a website and ingest every page as web_chunk items
+ * The crawl runs as a background job and is tracked as one ingestion record;
+ * memories are not extracted for crawled pages
+ * @returns ID of the ingestion to poll for progress
+ */
+export async function startWebsiteCrawl(
+  db: Db,
+  projectId: string,
+  url: string,
+  crawlOptions: WebsiteCrawlOptions = {},
+  options: IngestOptions = {}
+): Promise<ObjectId> {
+  const normalizedUrl = normalizeURL(url);
+  if (!validateURL(normalizedUrl)) {
+    throw new Error('Invalid URL format');
+  }
+
+  // The job reads the start URL and options back from the ingestion
+  const ingestion = await createIngestion(db, projectId, 'crawl', normalizedUrl, {
+    ...crawlOptions,
+    duplicatePolicy: options.duplicatePolicy || 'skip',
+  });
+  await enqueueJobs(db, projectId, [{ type: 'crawl', dataId: ingestion._id }]);
+
+  return ingestion._id;
+}
+
+/**
+ * Crawl job: crawl and store pages, recording progress on the ingestion
+ * Stops at the next page once the ingestion is cancelled. A crawl whose worker died starts over
+ * with fresh progress; pages it already stored are skipped as duplicates (unless keep-both).
+ */
+export async function runWebsiteCrawl(
+  db: Db,
+  ingestionId: string
+): Promise<{ status: 'completed' | 'cancelled' | 'failed' | 'not-running' }> {
+  // Cancelled (or deleted) before the job got to it
+  const ingestion = await restartIngestion(db, new ObjectId(ingestionId));
+  if (!ingestion) {
+    return { status: 'not-running' };
+  }
+
+  const projectId = ingestion.projectId.toString();
+  const url = ingestion.source;
+  const { duplicatePolicy, ...crawlOptions } = (ingestion.options || {}) as WebsiteCrawlOptions & IngestOptions;
+  const options: IngestOptions = { duplicatePolicy };
+  const controller = new AbortController();
+  const record = async (progress: IngestionProgress) => {
+    const running = await recordIngestionProgress(db, ingestion._id, progress);
+    if (!running) controller.abort();
+  };
+
+  try {
+    const summary = await crawlWebsite(url, {
+      ...crawlOptions,
+      signal: controller.signal,
+      onPage: async (page) => {
+        // A page still being fetched when the crawl was cancelled is not stored
+        if (await isIngestionCancelled(db, ingestion._id)) {
+          controller.abort();
+          return;
+        }
+
+        const result = await storeScrapedPage(db, projectId, page.url, page.scraped, undefined, {
+          ...options,
+          ingestionId: ingestion._id,
+        });
+
+        if (!result.success) {
+          await record({ failed: 1, error: { source: page.url, error: result.error || 'Failed to store page' } });
+        } else if (result.skipped) {
+          await record({ skipped: 1 });
+        } else {
+          await record({ succeeded: 1, items: result.insertedIds.length });
+        }
+      },
+      onError: async (pageUrl, error) => {
+        await record({ failed: 1, error: { source: pageUrl, error } });
+      },
+    });
+
+    const status = summary.stoppedBy === 'cancelled' ? 'cancelled' : 'completed';
+    await finishIngestion(db, ingestion._id, status, {
+      result: {
+        pagesVisited: summary.pagesVisited,
+        sitemapUrls: summary.sitemapUrls,
+        blockedByRobots: summary.blockedByRobots.length,
+        stoppedBy: summary.stoppedBy,
+      },
+    });
+    return { status };
+  } catch (error) {
+    await finishIngestion(db, ingestion._id, 'failed', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { status: 'failed' };
+  }
+}
+
+/**
+ * Process and upload an image file
+ * Bytes go to GridFS; analysis and embedding run in the background job queue
+ */
+export async function processAndUploadImageFile(
+  db: Db,
+  projectId: string,
+  file: File,
+  options: IngestOptions = {}
+): Promise<ChunkUploadResult> {
+  try {
+    const bytes = await file.arrayBuffer();
+    const sourceHash = hashContent(bytes);
+    const duplicate = await checkDuplicate(db, projectId, sourceHash, options.duplicatePolicy);
+    if (duplicate.skip) {
+      return skippedDuplicateResult(duplicate.existingIds);
+    }
+
+    const fileId = await storeFile(db, bytes, {
+      filename: file.name,
+      contentType: file.type || 'application/octet-stream',
+      projectId,
+      kind: 'image',
+    });
+
+    const imageData = {
+      projectId: new ObjectId(projectId),
+      type: 'image',
+      content: {
+        fileId,
+      },
+      metadata: {
+        filename: file.name,
+        mimeType: file.type,
+        size: file.size,
+        contentHash: sourceHash,
+        sourceHash,
+        ...ingestMetadata(options),
+      },
+      analysis: {
+        description: '',
+        tags: [],
+        insights: [],
+      },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const result = await insertProjectData(db, imageData);
+    const jobIds = await enqueueIngestionJobs(db, projectId, [{ _id: result.insertedId, type: 'image' }]);
+    const replacedIds = await replaceDuplicates(db, duplicate, [result.insertedId]);
+
+    return {
+      success: true,
+      insertedIds: [result.insertedId],
+      totalChunks: 1,
+      jobIds,
+      replacedIds,
+    };
+  } catch (error) {
+    return failedUploadResult(error);
+  }
+}
+
+/**
+ * Process and upload a PDF file
+ * Stores every page as an image item plus a text_chunk of its extracted text,
+ * linked by a shared parentId and page number. A failure part-way removes the pages already stored.
+ */
+export async function processAndUploadPDFFile(
+  db: Db,
+  projectId: string,
+  file: File,
+  sessionId?: string,
+  options: IngestOptions = {}
+): Promise<ChunkUploadResult> {
+  const parentId = new ObjectId();
+  const storedFileIds: ObjectId[] = [];
+  let imported = false;
+
+  try {
+    const bytes = await file.arrayBuffer();
+    const sourceHash = hashContent(bytes);
+    const duplicate = await checkDuplicate(db, projectId, sourceHash, options.duplicatePolicy);
+    if (duplicate.skip) {
+      return skippedDuplicateResult(duplicate.existingIds);
+    }
+
+    const extracted = await extractPDFPages(bytes);
+
+    if (extracted.pages.length === 0) {
       return {
         success: false,
         insertedIds: [],
         totalChunks: 0,
-        error: 'No content could be extracted from website',
+        error: 'PDF has no pages',
       };
     }
 
-    // Create projectData documents for each chunk
-    const parentId = new ObjectId();
+    const originalFileId = await storeFile(db, bytes, {
+      filename: file.name,
+      contentType: 'application/pdf',
+      projectId,
+      kind: 'original',
+    });
+    storedFileIds.push(originalFileId);
+
+    const baseName = file.name.replace(/\.pdf$/i, '');
     const insertedIds: ObjectId[] = [];
+    const insertedItems: Array<{ _id: ObjectId; type: string }> = [];
+    const textChunks: TextChunk[] = [];
 
-    for (const chunk of chunks) {
-      const projectData = {
+    for (const page of extracted.pages) {
+      const chunkInfo = {
+        chunkIndex: page.pageNumber - 1,
+        totalChunks: extracted.numPages,
+        parentId,
+        pageNumber: page.pageNumber,
+        originalFilename: file.name,
+      };
+
+      // Rendered page image
+      const imageBytes = Buffer.from(page.image.base64, 'base64');
+      const imageFilename = `${baseName}_page_${page.pageNumber}.jpg`;
+      const imageFileId = await storeFile(db, imageBytes, {
+        filename: imageFilename,
+        contentType: page.image.mimeType,
+        projectId,
+        kind: 'image',
+      });
+      storedFileIds.push(imageFileId);
+
+      const imageData = {
         projectId: new ObjectId(projectId),
-        type: 'web_chunk',
+        type: 'image',
         content: {
-          text: chunk.content,
+          fileId: imageFileId,
         },
         metadata: {
-          filename: scraped.title || url,
-          mimeType: 'text/html',
-          size: scraped.text.length,
-          chunkInfo: {
-            chunkIndex: chunk.chunkIndex,
-            totalChunks: chunk.totalChunks,
-            parentId,
-            sourceUrl: normalizedUrl,
-            originalFilename: scraped.title,
-          },
+          filename: imageFilename,
+          mimeType: page.image.mimeType,
+          size: page.image.sizeBytes,
+          contentHash: hashContent(imageBytes),
+          sourceHash,
+          originalFileId,
+          ...ingestMetadata(options),
+          chunkInfo,
         },
         analysis: {
-          description: scraped.metadata.description || '',
-          tags: ['web-content', scraped.metadata.author ? 'authored' : ''].filter(Boolean),
+          description: '',
+          tags: [],
           insights: [],
         },
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
-      const result = await db.collection('projectData').insertOne(projectData);
-      insertedIds.push(result.insertedId);
+      const imageResult = await insertProjectData(db, imageData);
+      insertedIds.push(imageResult.insertedId);
+      insertedItems.push({ _id: imageResult.insertedId, type: 'image' });
+
+      // Text layer of the same page (scanned pages may have none)
+      if (page.text.length === 0) {
+        continue;
+      }
+
+      const textData = {
+        projectId: new ObjectId(projectId),
+        type: 'text_chunk',
+        content: {
+          text: page.text,
+        },
+        metadata: {
+          filename: file.name,
+          mimeType: 'application/pdf',
+          size: file.size,
+          contentHash: hashContent(page.text),
+          sourceHash,
+          originalFileId,
+          ...ingestMetadata(options),
+          chunkInfo,
+        },
+        analysis: {
+          description: '',
+          tags: [],
+          insights: [],
+        },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const textResult = await insertProjectData(db, textData);
+      insertedIds.push(textResult.insertedId);
+      insertedItems.push({ _id: textResult.insertedId, type: 'text_chunk' });
+
+      textChunks.push({
+        content: page.text,
+        chunkIndex: page.pageNumber - 1,
+        totalChunks: extracted.numPages,
+        metadata: {
+          charStart: 0,
+          charEnd: page.text.length,
+          estimatedTokens: Math.ceil(page.text.length / 4),
+          type: 'pdf_page',
+          originalFilename: file.name,
+          sourceType: 'file',
+          pageNumber: page.pageNumber,
+        },
+      });
     }
 
-    // Extract memories from chunks if enabled
+    const jobIds = await enqueueIngestionJobs(db, projectId, insertedItems);
+    imported = true;
+
+    // The previous copy goes only once this one is stored
+    const replacedIds = await replaceDuplicates(db, duplicate, insertedIds);
+
+    // Extract memories from the text layer if enabled
     let memoriesCreated = 0;
-    if (isMemoryEnabled() && sessionId) {
+    if (isMemoryEnabled() && sessionId && textChunks.length > 0) {
       memoriesCreated = await extractMemoriesFromChunks(
         db,
         projectId,
-        chunks,
+        textChunks,
         sessionId,
-        scraped.title || url,
-        'web'
+        file.name
       );
     }
 
     return {
       success: true,
       insertedIds,
-      totalChunks: chunks.length,
+      totalChunks: insertedIds.length,
+      pageCount: extracted.numPages,
       memoriesCreated,
+      jobIds,
+      replacedIds,
     };
   } catch (error) {
+    if (!imported) {
+      await discardPartialImport(db, parentId, storedFileIds);
+    }
+    return failedUploadResult(error);
+  }
+}
+
+/**
+ * Helper: Remove the items, jobs, stored files and tables of a multi-item import that failed part-way
+ * Email attachments are found through the message they point back at
+ */
+async function discardPartialImport(db: Db, parentId: ObjectId, fileIds: ObjectId[]): Promise<void> {
+  try {
+    const items = await db.collection('projectData')
+      .find({ 'metadata.chunkInfo.parentId': parentId })
+      .project<{ _id: ObjectId }>({ _id: 1 })
+      .toArray();
+    const attachments = await db.collection('projectData')
+      .find({ 'metadata.attachmentOf': { $in: items.map((item) => item._id) } })
+      .project<{
+        _id: ObjectId;
+        content?: { fileId?: ObjectId };
+        metadata?: { originalFileId?: ObjectId; chunkInfo?: { parentId?: ObjectId } };
+      }>({
+        _id: 1,
+        'content.fileId': 1,
+        'metadata.originalFileId': 1,
+        'metadata.chunkInfo.parentId': 1,
+      })
+      .toArray();
+    const itemIds = [...items, ...attachments].map((item) => item._id);
+    const parentIds = [parentId];
+    for (const attachment of attachments) {
+      const attachmentParentId = attachment.metadata?.chunkInfo?.parentId;
+      if (attachmentParentId) parentIds.push(attachmentParentId);
+    }
+
+    await cancelItemJobs(db, itemIds);
+    await db.collection('projectData').deleteMany({ _id: { $in: itemIds } });
+    await deleteFiles(db, [...fileIds, ...referencedFileIds(attachments)]);
+    await deleteTablesOf(db, parentIds);
+  } catch (error) {
+    console.error(`Failed to clean up the partial import ${parentId}:`, error);
+  }
+}
+
+/**
+ * Process and upload an .eml or .mbox file
+ * Stores one text_chunk per message (more for long bodies) with sender, recipients, date,
+ * subject and thread id; attachments go through their own pipelines and point back at
+ * the message they came with. A failure part-way removes the messages and attachments already stored.
+ */
+export async function processAndUploadEmailFile(
+  db: Db,
+  projectId: string,
+  file: File,
+  sessionId?: string,
+  options: IngestOptions = {}
+): Promise<ChunkUploadResult> {
+  const parentId = new ObjectId();
+  const storedFileIds: ObjectId[] = [];
+  let imported = false;
+
+  try {
+    const format = getEmailFormat(file.name, file.type);
+    if (!format) {
+      throw new Error(`Unsupported email file: ${file.name}`);
+    }
+
+    const bytes = await file.arrayBuffer();
+    const sourceHash = hashContent(bytes);
+    const duplicate = await checkDuplicate(db, projectId, sourceHash, options.duplicatePolicy);
+    if (duplicate.skip) {
+      return skippedDuplicateResult(duplicate.existingIds);
+    }
+
+    const messages = await parseEmailFile(Buffer.from(bytes), format);
+    if (messages.length === 0) {
+      return {
+        success: false,
+        insertedIds: [],
+        totalChunks: 0,
+        error: 'No messages found in file',
+      };
+    }
+
+    const originalFileId = await storeFile(db, bytes, {
+      filename: file.name,
+      contentType: file.type || (format === 'mbox' ? 'application/mbox' : 'message/rfc822'),
+      projectId,
+      kind: 'original',
+    });
+    storedFileIds.push(originalFileId);
+
+    const messageChunks = messages.map((message) => chunkEmailMessage(message, file.name));
+    const totalChunks = messageChunks.reduce((sum, chunks) => sum + chunks.length, 0);
+
+    const insertedIds: ObjectId[] = [];
+    const textChunks: TextChunk[] = [];
+    const jobIds: ObjectId[] = [];
+    let chunkIndex = 0;
+    let attachmentCount = 0;
+
+    for (let m = 0; m < messages.length; m++) {
+      const message = messages[m];
+      const messageIds: ObjectId[] = [];
+
+      for (const chunk of messageChunks[m]) {
+        const messageData = {
+          projectId: new ObjectId(projectId),
+          type: 'text_chunk',
+          content: {
+            text: chunk.content,
+          },
+          metadata: {
+            filename: file.name,
+            mimeType: file.type || 'message/rfc822',
+            size: file.size,
+            contentHash: hashContent(chunk.content),
+            sourceHash,
+            originalFileId,
+            ...ingestMetadata(options),
+            email: {
+              messageId: message.messageId,
+              from: message.from,
+              to: message.to,
+              cc: message.cc,
+              date: message.date,
+              subject: message.subject,
+            },
+            chunkInfo: {
+              chunkIndex,
+              totalChunks,
+              parentId,
+              originalFilename: file.name,
+              threadId: message.threadId,
+              messageId: message.messageId,
+            },
+          },
+          analysis: {
+            description: '',
+            tags: [],
+            insights: [],
+          },
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        };
+
+        const result = await insertProjectData(db, messageData);
+        messageIds.push(result.insertedId);
+        textChunks.push({ ...chunk, chunkIndex, totalChunks });
+        chunkIndex++;
+      }
+
+      insertedIds.push(...messageIds);
+      jobIds.push(...await enqueueIngestionJobs(
+        db,
+        projectId,
+        messageIds.map((_id) => ({ _id, type: 'text_chunk' }))
+      ));
+
+      // Attachments are linked to the first item of their message, and listed on every item of it
+      const attachmentIds: ObjectId[] = [];
+      for (const attachment of message.attachments) {
+        const type = getIngestPipeline(attachment.filename);
+        // Inline images are mostly signatures and logos
+        if (!type || (attachment.inline && attachment.data.length < 10 * 1024)) continue;
+
+        const attachmentFile = new File([new Uint8Array(attachment.data)], attachment.filename, {
+          type: attachment.contentType || type.mimeType,
+        });
+        const upload = await processAndUploadByType(db, projectId, attachmentFile, undefined, {
+          duplicatePolicy: options.duplicatePolicy,
+          ingestionId: options.ingestionId,
+          folderPath: options.folderPath,
+          attachmentOf: messageIds[0],
+          connectorId: options.connectorId,
+        });
+
+        if (!upload.success) {
+          console.error(`Failed to ingest attachment ${attachment.filename}:`, upload.error);
+          continue;
+        }
+        attachmentIds.push(...(upload.skipped ? upload.duplicateOf || [] : upload.insertedIds));
+        insertedIds.push(...upload.insertedIds);
+        jobIds.push(...(upload.jobIds || []));
+        attachmentCount++;
+      }
+
+      if (attachmentIds.length > 0) {
+        await db.collection('projectData').updateMany(
+          { _id: { $in: messageIds } },
+          { $set: { 'metadata.email.attachmentIds': attachmentIds } }
+        );
+      }
+    }
+    imported = true;
+
+    // The previous copy goes only once this one is stored
+    const replacedIds = await replaceDuplicates(db, duplicate, insertedIds);
+
+    // Extract memories from the message bodies if enabled
+    let memoriesCreated = 0;
+    if (isMemoryEnabled() && sessionId) {
+      memoriesCreated = await extractMemoriesFromChunks(
+        db,
+        projectId,
+        textChunks,
+        sessionId,
+        file.name
+      );
+    }
+
     return {
-      success: false,
-      insertedIds: [],
-      totalChunks: 0,
-      error: error instanceof Error ? error.message : String(error),
+      success: true,
+      insertedIds,
+      totalChunks: insertedIds.length,
+      messageCount: messages.length,
+      attachmentCount,
+      memoriesCreated,
+      jobIds,
+      replacedIds,
     };
+  } catch (error) {
+    if (!imported) {
+      await discardPartialImport(db, parentId, storedFileIds);
+    }
+    return failedUploadResult(error);
   }
 }
 
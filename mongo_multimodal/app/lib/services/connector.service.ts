@@ -0,0 +1,559 @@
+/**
+ * Connector Service
+ * Folders and S3-compatible buckets registered on a project, imported once and then
+ * kept in sync: new and changed files are ingested, removed files are dropped
+ */
+
+import path from 'path';
+import { Db, ObjectId } from 'mongodb';
+import {
+  ConnectorSource,
+  MAX_SOURCE_FILE_BYTES,
+  createFolderSource,
+  createS3Source,
+  resolveFolderPath,
+} from '../connector-sources';
+import { getIngestPipeline, processAndUploadByType } from './chunking.service';
+import { createIngestion, finishIngestion, recordIngestionProgress } from './ingestion.service';
+import { cancelItemJobs, enqueueJobs } from './jobQueue.service';
+import { deleteFiles, referencedFileIds } from './fileStorage.service';
+import { deleteTables } from './table.service';
+import { checkFileContent, getUploadPolicy, isFileTypeAllowed } from './uploadValidation.service';
+import { Connector, ConnectorFile, ConnectorKind } from '../../types/models';
+
+const CONNECTORS_COLLECTION = 'connectors';
+const FILES_COLLECTION = 'connectorFiles';
+
+export const SYNC_INTERVAL_LIMITS = {
+  minHours: 1,
+  maxHours: 24 * 30,
+  defaultHours: 24,
+};
+
+export const CONNECTOR_KINDS: ConnectorKind[] = ['folder', 's3'];
+
+// Config keys accepted per kind; anything else in a request is dropped
+const CONFIG_KEYS: Record<ConnectorKind, string[]> = {
+  folder: ['path'],
+  s3: ['bucket', 'prefix', 'region', 'endpoint', 'accessKeyId', 'secretAccessKey'],
+};
+
+const REDACTED = '********';
+
+// A sync that hasn't recorded progress for this long is assumed to belong to a dead worker
+const STALE_SYNC_MS = 10 * 60 * 1000;
+
+/**
+ * Invalid connector kind or config, reported to the client as a 400
+ */
+export class ConnectorConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConnectorConfigError';
+  }
+}
+
+export interface RegisterConnectorInput {
+  kind: ConnectorKind;
+  name?: string;
+  config: Record<string, unknown>;
+  syncIntervalHours?: number;
+}
+
+export type SyncCounts = NonNullable<Connector['lastSync']>;
+
+export interface SyncResult extends SyncCounts {
+  status: 'completed' | 'cancelled' | 'missing' | 'busy';
+  ingestionId?: ObjectId;
+}
+
+/**
+ * Create the indexes used by the scheduler, the sync runner and the connectors endpoints
+ */
+export async function ensureConnectorIndexes(db: Db): Promise<void> {
+  const connectors = db.collection(CONNECTORS_COLLECTION);
+  await connectors.createIndex({ projectId: 1, createdAt: -1 });
+  await connectors.createIndex({ enabled: 1, nextSyncAt: 1 });
+
+  await db.collection(FILES_COLLECTION).createIndex({ connectorId: 1, path: 1 }, { unique: true });
+}
+
+/**
+ * Register a folder or bucket on a project; the initial import is queued immediately
+ * @throws ConnectorConfigError when the kind or config is invalid (e.g. a folder outside CONNECTOR_FOLDER_ROOTS)
+ */
+export async function registerConnector(
+  db: Db,
+  projectId: string,
+  input: RegisterConnectorInput
+): Promise<Connector> {
+  if (!CONNECTOR_KINDS.includes(input.kind)) {
+    throw new ConnectorConfigError(`kind must be one of: ${CONNECTOR_KINDS.join(', ')}`);
+  }
+
+  const config = normalizeConfig(input.kind, input.config);
+  const now = new Date();
+  const connector: Connector = {
+    _id: new ObjectId(),
+    projectId: new ObjectId(projectId),
+    kind: input.kind,
+    name: input.name?.trim() || defaultName(input.kind, config),
+    config,
+    syncIntervalHours: clampInterval(input.syncIntervalHours ?? SYNC_INTERVAL_LIMITS.defaultHours),
+    enabled: true,
+    nextSyncAt: now,
+    lastStatus: 'pending',
+    fileCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await db.collection<Connector>(CONNECTORS_COLLECTION).insertOne(connector);
+  await enqueueJobs(db, projectId, [{ type: 'sync', dataId: connector._id }]);
+
+  return connector;
+}
+
+/**
+ * List the connectors of a project
+ */
+export async function listConnectors(db: Db, projectId: string): Promise<Connector[]> {
+  return db.collection<Connector>(CONNECTORS_COLLECTION)
+    .find({ projectId: new ObjectId(projectId) })
+    .sort({ createdAt: -1 })
+    .toArray();
+}
+
+/**
+ * Fetch one connector of a project
+ */
+export async function getConnector(
+  db: Db,
+  projectId: string,
+  connectorId: string
+): Promise<Connector | null> {
+  if (!ObjectId.isValid(connectorId)) return null;
+
+  return db.collection<Connector>(CONNECTORS_COLLECTION).findOne({
+    _id: new ObjectId(connectorId),
+    projectId: new ObjectId(projectId),
+  });
+}
+
+/**
+ * Connector as returned by the API, with stored credentials masked
+ */
+export function redactConnector(connector: Connector): Connector {
+  if (!connector.config.secretAccessKey) return connector;
+  return { ...connector, config: { ...connector.config, secretAccessKey: REDACTED } };
+}
+
+/**
+ * Files tracked for a connector, most recently synced first
+ */
+export async function listConnectorFiles(
+  db: Db,
+  connectorId: ObjectId,
+  options: { status?: ConnectorFile['status']; limit?: number } = {}
+): Promise<ConnectorFile[]> {
+  const { status, limit = 100 } = options;
+
+  return db.collection<ConnectorFile>(FILES_COLLECTION)
+    .find({ connectorId, ...(status && { status }) })
+    .sort({ syncedAt: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+/**
+ * Rename a connector, change its sync interval or pause/resume it
+ */
+export async function updateConnector(
+  db: Db,
+  projectId: string,
+  connectorId: string,
+  changes: { name?: string; syncIntervalHours?: number; enabled?: boolean }
+): Promise<Connector | null> {
+  const connector = await getConnector(db, projectId, connectorId);
+  if (!connector) return null;
+
+  const syncIntervalHours = changes.syncIntervalHours !== undefined
+    ? clampInterval(changes.syncIntervalHours)
+    : connector.syncIntervalHours;
+
+  return db.collection<Connector>(CONNECTORS_COLLECTION).findOneAndUpdate(
+    { _id: connector._id },
+    {
+      $set: {
+        syncIntervalHours,
+        ...(changes.name?.trim() && { name: changes.name.trim() }),
+        ...(changes.enabled !== undefined && { enabled: changes.enabled }),
+        nextSyncAt: nextSyncAfter(connector.lastSyncAt || new Date(), syncIntervalHours),
+        updatedAt: new Date(),
+      },
+    },
+    { returnDocument: 'after' }
+  );
+}
+
+/**
+ * Remove a connector and its file tracking
+ * @param removeItems - Also delete the items imported from the source (kept by default)
+ */
+export async function deleteConnector(
+  db: Db,
+  projectId: string,
+  connectorId: string,
+  removeItems: boolean = false
+): Promise<boolean> {
+  const connector = await getConnector(db, projectId, connectorId);
+  if (!connector) return false;
+
+  await cancelItemJobs(db, [connector._id]);
+
+  if (removeItems) {
+    const files = await db.collection<ConnectorFile>(FILES_COLLECTION)
+      .find({ connectorId: connector._id })
+      .project<{ dataIds: ObjectId[] }>({ dataIds: 1 })
+      .toArray();
+    await deleteItems(db, files.flatMap((file) => file.dataIds));
+  }
+
+  await db.collection(FILES_COLLECTION).deleteMany({ connectorId: connector._id });
+  await db.collection(CONNECTORS_COLLECTION).deleteOne({ _id: connector._id });
+
+  return true;
+}
+
+/**
+ * Queue a sync now instead of waiting for the schedule
+ * @returns ID of the queued job, or null when one is already pending
+ */
+export async function requestSync(db: Db, connector: Connector): Promise<ObjectId | null> {
+  const [jobId] = await enqueueJobs(db, connector.projectId.toString(), [{ type: 'sync', dataId: connector._id }]);
+  return jobId || null;
+}
+
+/**
+ * Queue sync jobs for connectors whose interval has elapsed
+ * Each connector's next sync is pushed forward as it is queued, so concurrent workers don't double-queue
+ * @returns Number of syncs queued
+ */
+export async function scheduleDueSyncs(db: Db): Promise<number> {
+  const connectors = db.collection<Connector>(CONNECTORS_COLLECTION);
+  const now = new Date();
+  const due = await connectors
+    .find({ enabled: true, nextSyncAt: { $lte: now } })
+    .limit(100)
+    .toArray();
+
+  let queued = 0;
+  for (const connector of due) {
+    const claimed = await connectors.updateOne(
+      { _id: connector._id, nextSyncAt: connector.nextSyncAt },
+      { $set: { nextSyncAt: nextSyncAfter(now, connector.syncIntervalHours) } }
+    );
+    if (claimed.modifiedCount === 0) continue;
+
+    const jobIds = await enqueueJobs(db, connector.projectId.toString(), [{ type: 'sync', dataId: connector._id }]);
+    queued += jobIds.length;
+  }
+
+  return queued;
+}
+
+/**
+ * Whether any connector is waiting for scheduled syncs
+ */
+export async function hasScheduledConnectors(db: Db): Promise<boolean> {
+  const count = await db.collection(CONNECTORS_COLLECTION).countDocuments({ enabled: true }, { limit: 1 });
+  return count > 0;
+}
+
+/**
+ * Bring a project up to date with its source
+ * Files are compared to the last sync by version (ETag or mtime + size). New and changed files
+ * go through the pipeline for their type; a changed file's old items are removed only once the
+ * new version imported. Files gone from the source lose their items, unless the listing was
+ * cut short by a cancellation.
+ * Throws when the source can't be listed so the job is retried with backoff
+ */
+export async function syncConnector(db: Db, connectorId: string): Promise<SyncResult> {
+  const counts: SyncCounts = { added: 0, updated: 0, removed: 0, unchanged: 0, failed: 0, unsupported: 0 };
+  const connectors = db.collection<Connector>(CONNECTORS_COLLECTION);
+  const files = db.collection<ConnectorFile>(FILES_COLLECTION);
+
+  const existing = await connectors.findOne({ _id: new ObjectId(connectorId) });
+  if (!existing) {
+    return { status: 'missing', ...counts };
+  }
+
+  // Claim the connector so a long import isn't run twice when its job lock goes stale
+  const connector = await connectors.findOneAndUpdate(
+    {
+      _id: existing._id,
+      $or: [
+        { lastStatus: { $ne: 'syncing' } },
+        { updatedAt: { $lt: new Date(Date.now() - STALE_SYNC_MS) } },
+      ],
+    },
+    { $set: { lastStatus: 'syncing', updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  );
+  if (!connector) {
+    return { status: 'busy', ...counts };
+  }
+
+  const projectId = connector.projectId.toString();
+  const ingestion = await createIngestion(db, projectId, 'sync', connector.name, {
+    connectorId: connector._id,
+    kind: connector.kind,
+  });
+  await connectors.updateOne({ _id: connector._id }, { $set: { lastIngestionId: ingestion._id } });
+
+  const tracked = new Map<string, ConnectorFile>();
+  for (const file of await files.find({ connectorId: connector._id }).toArray()) {
+    tracked.set(file.path, file);
+  }
+
+  let cancelled = false;
+
+  try {
+    const policy = await getUploadPolicy(db, projectId);
+    const source = createSource(connector);
+    const seen = new Set<string>();
+
+    for await (const entry of source.listFiles()) {
+      seen.add(entry.path);
+      const previous = tracked.get(entry.path);
+      const filename = path.posix.basename(entry.path);
+      const type = getIngestPipeline(filename);
+
+      // Types the project doesn't accept are skipped like types no pipeline handles
+      if (!type || !isFileTypeAllowed(policy, filename)) {
+        counts.unsupported++;
+        continue;
+      }
+      if (previous?.status === 'imported' && previous.version === entry.version) {
+        counts.unchanged++;
+        if (!(await recordIngestionProgress(db, ingestion._id, { skipped: 1 }))) {
+          cancelled = true;
+          break;
+        }
+        continue;
+      }
+
+      const fileRecord = {
+        connectorId: connector._id,
+        projectId: connector.projectId,
+        path: entry.path,
+        version: entry.version,
+        size: entry.size,
+        syncedAt: new Date(),
+      };
+
+      let error: string | undefined;
+      let insertedIds: ObjectId[] = [];
+      try {
+        if (entry.size > MAX_SOURCE_FILE_BYTES) {
+          throw new Error(`File exceeds the ${MAX_SOURCE_FILE_BYTES / 1024 / 1024}MB limit`);
+        }
+        const data = await source.readFile(entry.path);
+        const { mimeType } = checkFileContent(policy, filename, data.byteLength, data);
+        const folderPath = path.posix.dirname(entry.path);
+        const upload = await processAndUploadByType(
+          db,
+          projectId,
+          new File([data], filename, { type: mimeType }),
+          undefined,
+          {
+            // Same content at two paths is two files of the source, each tracked on its own
+            duplicatePolicy: 'keep-both',
+            ingestionId: ingestion._id,
+            folderPath: folderPath === '.' ? undefined : folderPath,
+            connectorId: connector._id,
+          }
+        );
+        if (!upload.success) throw new Error(upload.error || 'Failed to process file');
+        insertedIds = upload.insertedIds;
+      } catch (fileError) {
+        error = fileError instanceof Error ? fileError.message : String(fileError);
+      }
+
+      if (error) {
+        // The previous version's items stay searchable until a newer version imports
+        counts.failed++;
+        await files.updateOne(
+          { connectorId: connector._id, path: entry.path },
+          {
+            $set: { ...fileRecord, status: 'failed', error },
+            $setOnInsert: { dataIds: [] },
+          },
+          { upsert: true }
+        );
+      } else {
+        if (previous) {
+          await deleteItems(db, previous.dataIds);
+          counts.updated++;
+        } else {
+          counts.added++;
+        }
+        await files.updateOne(
+          { connectorId: connector._id, path: entry.path },
+          { $set: { ...fileRecord, status: 'imported', dataIds: insertedIds }, $unset: { error: '' } },
+          { upsert: true }
+        );
+      }
+
+      await connectors.updateOne({ _id: connector._id }, { $set: { updatedAt: new Date() } });
+      const running = await recordIngestionProgress(db, ingestion._id, {
+        succeeded: error ? 0 : 1,
+        failed: error ? 1 : 0,
+        items: insertedIds.length,
+        ...(error && { error: { source: entry.path, error } }),
+      });
+      if (!running) {
+        cancelled = true;
+        break;
+      }
+    }
+
+    // Only a complete listing tells which files were removed
+    if (!cancelled) {
+      for (const [filePath, file] of tracked) {
+        if (seen.has(filePath)) continue;
+        await deleteItems(db, file.dataIds);
+        await files.deleteOne({ _id: file._id });
+        counts.removed++;
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const now = new Date();
+    await finishIngestion(db, ingestion._id, 'failed', { result: { ...counts }, error: message });
+    await connectors.updateOne(
+      { _id: connector._id },
+      { $set: { lastStatus: 'failed', lastError: message, lastSyncAt: now, updatedAt: now } }
+    );
+    throw error;
+  }
+
+  const now = new Date();
+  const fileCount = await files.countDocuments({ connectorId: connector._id, status: 'imported' });
+  await finishIngestion(db, ingestion._id, cancelled ? 'cancelled' : 'completed', { result: { ...counts } });
+  await connectors.updateOne(
+    { _id: connector._id },
+    {
+      $set: {
+        lastStatus: 'synced',
+        lastSync: counts,
+        lastSyncAt: now,
+        nextSyncAt: nextSyncAfter(now, connector.syncIntervalHours),
+        fileCount,
+        updatedAt: now,
+      },
+      $unset: { lastError: '' },
+    }
+  );
+
+  return { status: cancelled ? 'cancelled' : 'completed', ingestionId: ingestion._id, ...counts };
+}
+
+/**
+ * Helper: Open the source behind a connector
+ */
+function createSource(connector: Connector): ConnectorSource {
+  switch (connector.kind) {
+    case 'folder':
+      return createFolderSource({ path: connector.config.path });
+    case 's3':
+      return createS3Source({ ...connector.config, bucket: connector.config.bucket });
+    default:
+      throw new Error(`Unknown connector kind: ${connector.kind}`);
+  }
+}
+
+/**
+ * Helper: Keep the known config keys of a kind as trimmed strings and check the required ones
+ */
+function normalizeConfig(kind: ConnectorKind, input: Record<string, unknown>): Record<string, string> {
+  const config: Record<string, string> = {};
+  for (const key of CONFIG_KEYS[kind]) {
+    const value = input?.[key];
+    if (typeof value === 'string' && value.trim()) {
+      config[key] = value.trim();
+    }
+  }
+
+  if (kind === 'folder') {
+    if (!config.path) throw new ConnectorConfigError('config.path is required for folder connectors');
+    try {
+      config.path = resolveFolderPath(config.path);
+    } catch (error) {
+      throw new ConnectorConfigError(error instanceof Error ? error.message : String(error));
+    }
+  } else {
+    if (!config.bucket) throw new ConnectorConfigError('config.bucket is required for S3 connectors');
+    if (config.endpoint && !/^https?:\/\//.test(config.endpoint)) {
+      throw new ConnectorConfigError('config.endpoint must be an http(s) URL');
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Helper: "reports" for a folder, "s3://bucket/prefix" for a bucket
+ */
+function defaultName(kind: ConnectorKind, config: Record<string, string>): string {
+  return kind === 'folder'
+    ? path.basename(config.path) || config.path
+    : `s3://${config.bucket}/${config.prefix || ''}`;
+}
+
+/**
+ * Helper: Remove projectData items imported from a file, with their stored files, tables and queued jobs
+ */
+async function deleteItems(db: Db, dataIds: ObjectId[]): Promise<void> {
+  if (dataIds.length === 0) return;
+
+  const items = await db.collection('projectData')
+    .find({ _id: { $in: dataIds } })
+    .project<{
+      _id: ObjectId;
+      content?: { fileId?: ObjectId };
+      metadata?: { originalFileId?: ObjectId; chunkInfo?: { csvMetadata?: { tableId?: ObjectId } } };
+    }>({
+      _id: 1,
+      'content.fileId': 1,
+      'metadata.originalFileId': 1,
+      'metadata.chunkInfo.csvMetadata.tableId': 1,
+    })
+    .toArray();
+
+  const tableIds = new Map<string, ObjectId>();
+  for (const item of items) {
+    const tableId = item.metadata?.chunkInfo?.csvMetadata?.tableId;
+    if (tableId) tableIds.set(tableId.toString(), tableId);
+  }
+
+  await cancelItemJobs(db, dataIds);
+  await db.collection('projectData').deleteMany({ _id: { $in: dataIds } });
+  await deleteFiles(db, referencedFileIds(items));
+  await deleteTables(db, [...tableIds.values()]);
+}
+
+/**
+ * Helper: Keep the interval within the supported range
+ */
+function clampInterval(hours: number): number {
+  if (!Number.isFinite(hours)) return SYNC_INTERVAL_LIMITS.defaultHours;
+  return Math.min(SYNC_INTERVAL_LIMITS.maxHours, Math.max(SYNC_INTERVAL_LIMITS.minHours, hours));
+}
+
+/**
+ * Helper: When the next sync is due
+ */
+function nextSyncAfter(from: Date, intervalHours: number): Date {
+  return new Date(from.getTime() + intervalHours * 60 * 60 * 1000);
+}
@@ -0,0 +1,241 @@
+/**
+ * Deduplication Service
+ * SHA-256 content hashes for projectData items and duplicate handling at ingest time
+ */
+
+import { createHash } from 'crypto';
+import { Db, ObjectId } from 'mongodb';
+import { cancelItemJobs } from './jobQueue.service';
+import { deleteFiles, hydrateBinaryContent, referencedFileIds } from './fileStorage.service';
+import { deleteTables } from './table.service';
+
+export type DuplicatePolicy = 'skip' | 'replace' | 'keep-both';
+
+export const DUPLICATE_POLICIES: DuplicatePolicy[] = ['skip', 'replace', 'keep-both'];
+
+export interface DuplicateResolution {
+  skip: boolean; // true when the upload should not be ingested
+  existingIds: ObjectId[]; // items that already hold this content
+  existingFileIds: ObjectId[]; // GridFS files referenced by those items
+  existingTableIds: ObjectId[]; // CSV/XLSX tables built from those items
+  replace: boolean; // true when existing items should be removed once the new copy is stored
+}
+
+export interface DuplicateGroup {
+  contentHash: string;
+  count: number;
+  items: Array<{
+    id: string;
+    type: string;
+    filename: string;
+    parentId?: string;
+    embedded: boolean;
+    createdAt?: Date;
+  }>;
+}
+
+/**
+ * SHA-256 of raw bytes or UTF-8 text, as lowercase hex
+ */
+export function hashContent(data: ArrayBuffer | Uint8Array | string): string {
+  const hash = createHash('sha256');
+  if (typeof data === 'string') {
+    hash.update(data, 'utf8');
+  } else {
+    hash.update(data instanceof Uint8Array ? data : new Uint8Array(data));
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Hash the content a projectData item holds (decoded image bytes or text)
+ */
+export function hashItemContent(content?: { base64?: string; text?: string }): string | null {
+  if (content?.base64) {
+    return hashContent(Buffer.from(content.base64, 'base64'));
+  }
+  if (content?.text) {
+    return hashContent(content.text);
+  }
+  return null;
+}
+
+/**
+ * Parse a duplicate policy from request input, defaulting to 'skip'
+ */
+export function parseDuplicatePolicy(value: unknown): DuplicatePolicy {
+  return DUPLICATE_POLICIES.includes(value as DuplicatePolicy)
+    ? (value as DuplicatePolicy)
+    : 'skip';
+}
+
+/**
+ * Helper: Filter matching items ingested from the same source content
+ * Legacy items without a sourceHash are matched on their own contentHash
+ */
+function sourceHashFilter(projectId: string, sourceHash: string) {
+  return {
+    projectId: new ObjectId(projectId),
+    $or: [
+      { 'metadata.sourceHash': sourceHash },
+      { 'metadata.sourceHash': { $exists: false }, 'metadata.contentHash': sourceHash },
+    ],
+  };
+}
+
+/**
+ * Check whether a project already holds this source and decide what the policy implies
+ * Run before parsing so skipped uploads cost nothing; call replaceDuplicates only once
+ * the new content is stored, so a failed import never loses the previous copy
+ * @param sourceHash - SHA-256 of the uploaded file (or scraped page)
+ */
+export async function checkDuplicate(
+  db: Db,
+  projectId: string,
+  sourceHash: string,
+  policy: DuplicatePolicy = 'skip'
+): Promise<DuplicateResolution> {
+  const existing = await db.collection('projectData')
+    .find(sourceHashFilter(projectId, sourceHash))
+    .project<{
+      _id: ObjectId;
+      content?: { fileId?: ObjectId };
+      metadata?: { originalFileId?: ObjectId; chunkInfo?: { csvMetadata?: { tableId?: ObjectId } } };
+    }>({
+      _id: 1,
+      'content.fileId': 1,
+      'metadata.originalFileId': 1,
+      'metadata.chunkInfo.csvMetadata.tableId': 1,
+    })
+    .toArray();
+  const existingIds = existing.map((item) => item._id);
+  const tableIds = new Map<string, ObjectId>();
+  for (const item of existing) {
+    const tableId = item.metadata?.chunkInfo?.csvMetadata?.tableId;
+    if (tableId) tableIds.set(tableId.toString(), tableId);
+  }
+
+  return {
+    skip: existingIds.length > 0 && policy === 'skip',
+    existingIds,
+    existingFileIds: referencedFileIds(existing),
+    existingTableIds: [...tableIds.values()],
+    replace: existingIds.length > 0 && policy === 'replace',
+  };
+}
+
+/**
+ * Remove the previous copy of a replaced upload and any work still queued for it
+ * @param newIds - Items of the new copy, never removed
+ */
+export async function replaceDuplicates(
+  db: Db,
+  resolution: DuplicateResolution,
+  newIds: ObjectId[]
+): Promise<ObjectId[]> {
+  if (!resolution.replace) return [];
+
+  const keep = new Set(newIds.map((id) => id.toString()));
+  const replacedIds = resolution.existingIds.filter((id) => !keep.has(id.toString()));
+
+  await cancelItemJobs(db, replacedIds);
+  await db.collection('projectData').deleteMany({ _id: { $in: replacedIds } });
+  await deleteFiles(db, resolution.existingFileIds);
+  await deleteTables(db, resolution.existingTableIds);
+
+  return replacedIds;
+}
+
+/**
+ * Compute contentHash for items stored before hashing existed (npm run migrate:hashes)
+ * @param projectId - Limit the backfill to one project; all projects when omitted
+ * @returns Number of items updated
+ */
+export async function backfillContentHashes(db: Db, projectId?: string): Promise<number> {
+  const cursor = db.collection('projectData')
+    .find({
+      ...(projectId && { projectId: new ObjectId(projectId) }),
+      'metadata.contentHash': { $exists: false },
+    })
+    .project<{ _id: ObjectId; content?: { base64?: string; text?: string; fileId?: ObjectId } }>({ _id: 1, content: 1 });
+
+  let updated = 0;
+  for await (const stored of cursor) {
+    const item = await hydrateBinaryContent(db, stored);
+    const contentHash = hashItemContent(item?.content);
+    if (!item || !contentHash) continue;
+
+    await db.collection('projectData').updateOne(
+      { _id: item._id },
+      { $set: { 'metadata.contentHash': contentHash } }
+    );
+    updated++;
+  }
+
+  return updated;
+}
+
+/**
+ * Report groups of items in a project that hold identical content
+ * Read-only: legacy items without a hash are counted as unhashed, not compared
+ */
+export async function getDuplicateReport(
+  db: Db,
+  projectId: string
+): Promise<{ groups: DuplicateGroup[]; duplicateItems: number; unhashed: number }> {
+  const unhashed = await db.collection('projectData').countDocuments({
+    projectId: new ObjectId(projectId),
+    'metadata.contentHash': { $exists: false },
+  });
+
+  const groups = await db.collection('projectData').aggregate<{
+    _id: string;
+    count: number;
+    items: Array<{
+      _id: ObjectId;
+      type: string;
+      filename?: string;
+      parentId?: ObjectId;
+      embedded: boolean;
+      createdAt?: Date;
+    }>;
+  }>([
+    { $match: { projectId: new ObjectId(projectId), 'metadata.contentHash': { $exists: true } } },
+    { $sort: { createdAt: 1 } },
+    {
+      $group: {
+        _id: '$metadata.contentHash',
+        count: { $sum: 1 },
+        items: {
+          $push: {
+            _id: '$_id',
+            type: '$type',
+            filename: '$metadata.filename',
+            parentId: '$metadata.chunkInfo.parentId',
+            embedded: { $gt: [{ $size: { $ifNull: ['$embedding', []] } }, 0] },
+            createdAt: '$createdAt',
+          },
+        },
+      },
+    },
+    { $match: { count: { $gt: 1 } } },
+    { $sort: { count: -1 } },
+  ]).toArray();
+
+  return {
+    groups: groups.map((group) => ({
+      contentHash: group._id,
+      count: group.count,
+      items: group.items.map((item) => ({
+        id: item._id.toString(),
+        type: item.type,
+        filename: item.filename || 'Unknown',
+        parentId: item.parentId?.toString(),
+        embedded: item.embedded,
+        createdAt: item.createdAt,
+      })),
+    })),
+    duplicateItems: groups.reduce((sum, group) => sum + group.count - 1, 0),
+    unhashed,
+  };
+}
@@ -0,0 +1,609 @@
+/**
+ * Embedding Model Service
+ * Tracks which model stored vectors come from and moves them to a new one. Vectors live in
+ * one of two slots, each with its own vector index: a re-embedding migration fills the
+ * inactive slot in batches while search keeps using the active one, then cuts over.
+ */
+
+import { AnyBulkWriteOperation, Db, Document, ObjectId } from 'mongodb';
+import { hostname } from 'os';
+import {
+  EmbeddingModelSpec,
+  EmbeddingProvider,
+  createEmbeddingProvider,
+  embeddingModelId,
+  embeddingSpecFromEnv,
+  generateEmbeddings,
+} from '../embeddings';
+import { ProcessResult, processItemEmbeddings } from './projectData.service';
+import {
+  EmbeddingConfig,
+  EmbeddingMigration,
+  EmbeddingModelInfo,
+  EmbeddingSlot,
+} from '../../types/models';
+
+const CONFIG_COLLECTION = 'embeddingConfig';
+const MIGRATIONS_COLLECTION = 'embeddingMigrations';
+
+// Collections that store vectors; each has a vector index per slot
+export const VECTOR_COLLECTIONS = ['projectData', 'agentMemories'] as const;
+
+export type VectorCollection = (typeof VECTOR_COLLECTIONS)[number];
+
+const SLOTS: Record<EmbeddingSlot, { modelPath: string; index: string }> = {
+  embedding: { modelPath: 'embeddingModel', index: 'vector_index' },
+  embeddingAlt: { modelPath: 'embeddingAltModel', index: 'vector_index_alt' },
+};
+
+// Fields the vector searches of each collection filter on, besides the model id
+// (projectData: the search filters of paginatedVectorSearch)
+const FILTER_FIELDS: Record<VectorCollection, Record<string, unknown>> = {
+  projectData: {
+    projectId: { type: 'objectId' },
+    type: { type: 'token' },
+    createdAt: { type: 'date' },
+    metadata: { type: 'document', fields: { filename: { type: 'token' }, mimeType: { type: 'token' } } },
+    analysis: { type: 'document', fields: { tags: { type: 'token' } } },
+  },
+  agentMemories: {
+    projectId: { type: 'objectId' },
+    type: { type: 'token' },
+    expiresAt: { type: 'date' },
+  },
+};
+
+// Other processes pick up a cutover within this time
+export const ACTIVE_EMBEDDING_CACHE_MS = 30 * 1000;
+const MIGRATION_BATCH_SIZE = 64;
+// A running migration whose heartbeat is older than this may be resumed by another process
+const STALE_MIGRATION_MS = 5 * 60 * 1000;
+
+/**
+ * A model and the slot its vectors are stored in
+ */
+export interface EmbeddingTarget {
+  provider: EmbeddingProvider;
+  modelId: string;
+  slot: EmbeddingSlot; // field holding the vector
+  modelPath: string; // field holding its EmbeddingModelInfo
+  index: string; // vector index over the slot
+}
+
+export interface EmbeddingStatus {
+  active: { modelId: string; slot: EmbeddingSlot; spec: EmbeddingModelSpec };
+  configuredModelId: string; // from EMBEDDING_* in the environment; differs until a migration cuts over
+  migration: EmbeddingMigration | null; // the latest one
+}
+
+/**
+ * Error with the HTTP status the embedding endpoints should answer with
+ */
+export class EmbeddingMigrationError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'EmbeddingMigrationError';
+  }
+}
+
+let activeCache: { target: EmbeddingTarget; expiresAt: number } | null = null;
+
+/**
+ * Create the indexes used by embedding migrations
+ */
+export async function ensureEmbeddingIndexes(db: Db): Promise<void> {
+  await db.collection(MIGRATIONS_COLLECTION).createIndex({ status: 1, startedAt: -1 });
+}
+
+/**
+ * The model search queries and new vectors use, and the slot it is stored in
+ * On first use the model configured in the environment is pinned, and vectors stored
+ * before models were recorded are attributed to it. Changing EMBEDDING_* afterwards only
+ * sets the default target of the next migration.
+ */
+export async function getActiveEmbedding(db: Db): Promise<EmbeddingTarget> {
+  if (activeCache && activeCache.expiresAt > Date.now()) {
+    return activeCache.target;
+  }
+
+  const config = await loadActiveConfig(db);
+  const target = toTarget(config.spec, config.slot);
+  activeCache = { target, expiresAt: Date.now() + ACTIVE_EMBEDDING_CACHE_MS };
+  return target;
+}
+
+/**
+ * Fields to $set for a vector stored in the target's slot
+ */
+export function vectorFields(target: EmbeddingTarget, embedding: number[]): Record<string, unknown> {
+  const info: EmbeddingModelInfo = {
+    id: target.modelId,
+    dimensions: target.provider.dimensions,
+    embeddedAt: new Date(),
+  };
+  return { [target.slot]: embedding, [target.modelPath]: info };
+}
+
+/**
+ * $vectorSearch filter clause that keeps results to vectors from the target's model
+ */
+export function modelFilter(target: EmbeddingTarget): Record<string, string> {
+  return { [`${target.modelPath}.id`]: target.modelId };
+}
+
+/**
+ * The stored vector of a document in the target's slot, if it comes from the target's model
+ */
+export function storedVector(target: EmbeddingTarget, doc: Document | null): number[] | null {
+  const info = doc?.[target.modelPath] as EmbeddingModelInfo | undefined;
+  const vector = doc?.[target.slot];
+  return info?.id === target.modelId && Array.isArray(vector) ? vector : null;
+}
+
+/**
+ * Projection expression returning a document's vector from the target's model as `embedding`
+ * (omitted when it has none), for clients that only check whether an item is embedded
+ */
+export function embeddingProjection(target: EmbeddingTarget): Document {
+  return {
+    $cond: [{ $eq: [`$${target.modelPath}.id`, target.modelId] }, `$${target.slot}`, '$$REMOVE'],
+  };
+}
+
+/**
+ * Vector search index over a slot of a collection, with the fields its searches filter on
+ */
+export function vectorIndexDefinition(
+  collection: VectorCollection,
+  slot: EmbeddingSlot,
+  dimensions: number
+): { name: string; definition: Document } {
+  return {
+    name: SLOTS[slot].index,
+    definition: {
+      mappings: {
+        dynamic: false,
+        fields: {
+          [slot]: { type: 'knnVector', dimensions, similarity: 'cosine' },
+          [SLOTS[slot].modelPath]: { type: 'document', fields: { id: { type: 'token' } } },
+          ...FILTER_FIELDS[collection],
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Create a slot's vector index, or update it when its definition changed (e.g. new dimensions)
+ */
+export async function ensureVectorIndex(
+  db: Db,
+  collection: VectorCollection,
+  slot: EmbeddingSlot,
+  dimensions: number
+): Promise<'created' | 'updated' | 'unchanged'> {
+  const { name, definition } = vectorIndexDefinition(collection, slot, dimensions);
+  const [existing]: Document[] = await db.collection(collection).listSearchIndexes(name).toArray();
+
+  if (!existing) {
+    await db.collection(collection).createSearchIndex({ name, definition });
+    return 'created';
+  }
+  if (JSON.stringify(existing.latestDefinition) === JSON.stringify(definition)) {
+    return 'unchanged';
+  }
+  await db.collection(collection).updateSearchIndex(name, definition);
+  return 'updated';
+}
+
+/**
+ * The active model, the configured one and the latest migration
+ */
+export async function getEmbeddingStatus(db: Db): Promise<EmbeddingStatus> {
+  const config = await loadActiveConfig(db);
+  const migration = await db
+    .collection<EmbeddingMigration>(MIGRATIONS_COLLECTION)
+    .find()
+    .sort({ startedAt: -1 })
+    .limit(1)
+    .next();
+
+  return {
+    active: { modelId: config.modelId, slot: config.slot, spec: config.spec },
+    configuredModelId: embeddingModelId(createEmbeddingProvider(embeddingSpecFromEnv())),
+    migration,
+  };
+}
+
+/**
+ * Start re-embedding every stored vector with another model, into the inactive slot
+ * Creates the slot's vector indexes for the new dimensions. Starting a migration to the model
+ * of the one in progress returns that one, so an interrupted migration can be resumed.
+ * @param spec - Target model; the one configured in the environment when omitted
+ * @throws EmbeddingMigrationError (400 already active, 409 another migration in progress)
+ */
+export async function startEmbeddingMigration(
+  db: Db,
+  spec: EmbeddingModelSpec = embeddingSpecFromEnv()
+): Promise<EmbeddingMigration> {
+  const config = await loadActiveConfig(db);
+  const active = toTarget(config.spec, config.slot);
+  const target = toTarget(spec, otherSlot(active.slot));
+  if (target.modelId === active.modelId) {
+    throw new EmbeddingMigrationError(`${target.modelId} is already the active embedding model`, 400);
+  }
+
+  const migrations = db.collection<EmbeddingMigration>(MIGRATIONS_COLLECTION);
+  const current = await migrations.findOne({ status: { $in: ['running', 'ready'] } });
+  if (current) {
+    if (current.targetModelId === target.modelId) return current;
+    throw new EmbeddingMigrationError(
+      `A migration to ${current.targetModelId} is in progress; cancel it first`,
+      409
+    );
+  }
+
+  for (const collection of VECTOR_COLLECTIONS) {
+    await ensureVectorIndex(db, collection, target.slot, target.provider.dimensions);
+  }
+
+  let total = 0;
+  for (const collection of VECTOR_COLLECTIONS) {
+    total += await db.collection(collection).countDocuments(pendingFilter(active, target));
+  }
+
+  const now = new Date();
+  const migration: EmbeddingMigration = {
+    _id: new ObjectId(),
+    target: { ...spec, model: target.provider.model },
+    targetModelId: target.modelId,
+    fromModelId: active.modelId,
+    slot: target.slot,
+    status: 'running',
+    total,
+    processed: 0,
+    failed: 0,
+    startedAt: now,
+    updatedAt: now,
+  };
+  await migrations.insertOne(migration);
+  return migration;
+}
+
+/**
+ * Re-embed the vectors a migration still needs, in batches, recording progress after each
+ * Only one process works on a migration at a time; a migration left behind by a stopped
+ * process is picked up again once its heartbeat is stale. Items that fail are counted and
+ * skipped; they are tried again at cutover.
+ * @returns The migration as it stands afterwards: ready when every vector is done
+ * @throws EmbeddingMigrationError (404 unknown migration, 409 running in another process)
+ */
+export async function runEmbeddingMigration(
+  db: Db,
+  migrationId: string,
+  options: { onProgress?: (migration: EmbeddingMigration) => void; signal?: AbortSignal } = {}
+): Promise<EmbeddingMigration> {
+  const migrations = db.collection<EmbeddingMigration>(MIGRATIONS_COLLECTION);
+  const _id = toObjectId(migrationId);
+  const workerId = `${hostname()}:${process.pid}`;
+
+  const existing = await migrations.findOne({ _id });
+  if (!existing) {
+    throw new EmbeddingMigrationError('Migration not found', 404);
+  }
+  if (existing.status !== 'running') {
+    return existing;
+  }
+
+  const migration = await migrations.findOneAndUpdate(
+    {
+      _id,
+      status: 'running',
+      $or: [
+        { lockedBy: { $exists: false } },
+        { lockedBy: workerId },
+        { updatedAt: { $lt: new Date(Date.now() - STALE_MIGRATION_MS) } },
+      ],
+    },
+    { $set: { lockedBy: workerId, updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  );
+  if (!migration) {
+    throw new EmbeddingMigrationError('The migration is running in another process', 409);
+  }
+
+  const config = await loadActiveConfig(db);
+  const active = toTarget(config.spec, config.slot);
+  const target = toTarget(migration.target, migration.slot);
+
+  try {
+    for (const collection of VECTOR_COLLECTIONS) {
+      const finished = await reembedPending(db, collection, active, target, async (processed, failed, error) => {
+        const updated = await migrations.findOneAndUpdate(
+          { _id, status: 'running' },
+          {
+            $inc: { processed, failed },
+            $set: { updatedAt: new Date(), ...(error && { lastError: error }) },
+          },
+          { returnDocument: 'after' }
+        );
+        if (!updated) return false; // cancelled
+        options.onProgress?.(updated);
+        return !options.signal?.aborted;
+      });
+      if (!finished) break;
+    }
+
+    if (!options.signal?.aborted) {
+      await migrations.updateOne({ _id, status: 'running' }, { $set: { status: 'ready', updatedAt: new Date() } });
+    }
+  } catch (error) {
+    await migrations.updateOne(
+      { _id, status: 'running' },
+      { $set: { status: 'failed', lastError: error instanceof Error ? error.message : String(error), updatedAt: new Date() } }
+    );
+    throw error;
+  } finally {
+    await migrations.updateOne({ _id, lockedBy: workerId }, { $unset: { lockedBy: '' } });
+  }
+
+  return (await migrations.findOne({ _id }))!;
+}
+
+/**
+ * Switch search and new vectors to a ready migration's model
+ * Vectors stored since the migration finished are re-embedded first. The previous slot keeps
+ * its vectors and index until the next migration reuses it.
+ * @throws EmbeddingMigrationError (404 unknown, 409 not ready or its vector indexes still building)
+ */
+export async function cutoverEmbeddingMigration(db: Db, migrationId: string): Promise<EmbeddingMigration> {
+  const migrations = db.collection<EmbeddingMigration>(MIGRATIONS_COLLECTION);
+  const _id = toObjectId(migrationId);
+  const migration = await migrations.findOne({ _id });
+  if (!migration) {
+    throw new EmbeddingMigrationError('Migration not found', 404);
+  }
+  if (migration.status !== 'ready') {
+    throw new EmbeddingMigrationError(
+      `Migration is ${migration.status} (${migration.processed}/${migration.total} vectors), not ready for cutover`,
+      409
+    );
+  }
+
+  const target = toTarget(migration.target, migration.slot);
+  for (const collection of VECTOR_COLLECTIONS) {
+    if (!(await isVectorIndexQueryable(db, collection, target.index))) {
+      throw new EmbeddingMigrationError(`The ${target.index} index on ${collection} is still building`, 409);
+    }
+  }
+
+  const config = await loadActiveConfig(db);
+  const active = toTarget(config.spec, config.slot);
+  for (const collection of VECTOR_COLLECTIONS) {
+    await reembedPending(db, collection, active, target, async (_processed, failed) => {
+      if (failed > 0) await migrations.updateOne({ _id }, { $inc: { failed } });
+      return true;
+    });
+  }
+
+  const now = new Date();
+  await db.collection<EmbeddingConfig>(CONFIG_COLLECTION).updateOne(
+    { _id: 'active' },
+    { $set: { spec: migration.target, modelId: migration.targetModelId, slot: migration.slot, updatedAt: now } }
+  );
+  await migrations.updateOne({ _id }, { $set: { status: 'completed', completedAt: now, updatedAt: now } });
+  activeCache = null;
+
+  return (await migrations.findOne({ _id }))!;
+}
+
+/**
+ * Re-embed vectors that other processes stored with the previous model around a cutover
+ * (they see it up to ACTIVE_EMBEDDING_CACHE_MS late)
+ * @returns Number of vectors re-embedded
+ */
+export async function catchUpEmbeddings(db: Db): Promise<number> {
+  const config = await loadActiveConfig(db);
+  const active = toTarget(config.spec, config.slot);
+  const previous = { ...active, slot: otherSlot(active.slot), modelPath: SLOTS[otherSlot(active.slot)].modelPath };
+
+  let count = 0;
+  for (const collection of VECTOR_COLLECTIONS) {
+    await reembedPending(db, collection, previous, active, async (processed) => {
+      count += processed;
+      return true;
+    });
+  }
+  return count;
+}
+
+/**
+ * Cancel a migration that has not cut over; vectors already written stay in the inactive slot
+ * @returns false when there is no such running or ready migration
+ */
+export async function cancelEmbeddingMigration(db: Db, migrationId: string): Promise<boolean> {
+  const now = new Date();
+  const result = await db.collection<EmbeddingMigration>(MIGRATIONS_COLLECTION).updateOne(
+    { _id: toObjectId(migrationId), status: { $in: ['running', 'ready'] } },
+    { $set: { status: 'cancelled', updatedAt: now, completedAt: now } }
+  );
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Helper: The active model record, pinning the configured model on first use
+ */
+async function loadActiveConfig(db: Db): Promise<EmbeddingConfig> {
+  const configs = db.collection<EmbeddingConfig>(CONFIG_COLLECTION);
+  const existing = await configs.findOne({ _id: 'active' });
+  if (existing) return existing;
+
+  const spec = embeddingSpecFromEnv();
+  const provider = createEmbeddingProvider(spec);
+  const result = await configs.findOneAndUpdate(
+    { _id: 'active' },
+    {
+      $setOnInsert: {
+        spec: { ...spec, model: provider.model },
+        modelId: embeddingModelId(provider),
+        slot: 'embedding',
+        updatedAt: new Date(),
+      },
+    },
+    { upsert: true, returnDocument: 'after', includeResultMetadata: true }
+  );
+  const config = result.value!;
+
+  if (!result.lastErrorObject?.updatedExisting) {
+    await attributeUnversionedVectors(db, config, provider.dimensions);
+  }
+  return config;
+}
+
+/**
+ * Helper: Record the pinned model on vectors stored before models were recorded
+ * Only vectors of the model's length are attributed; others stay out of search until re-embedded
+ */
+async function attributeUnversionedVectors(db: Db, config: EmbeddingConfig, dimensions: number): Promise<void> {
+  const { modelPath } = SLOTS[config.slot];
+  for (const collection of VECTOR_COLLECTIONS) {
+    await db.collection(collection).updateMany(
+      {
+        [config.slot]: { $type: 'array' },
+        [modelPath]: { $exists: false },
+        $expr: {
+          $eq: [{ $cond: [{ $isArray: `$${config.slot}` }, { $size: `$${config.slot}` }, 0] }, dimensions],
+        },
+      },
+      [
+        {
+          $set: {
+            [modelPath]: {
+              id: config.modelId,
+              dimensions,
+              embeddedAt: { $ifNull: ['$processedAt', '$createdAt'] },
+            },
+          },
+        },
+      ]
+    );
+  }
+}
+
+/**
+ * Helper: Documents with a vector in the source slot but none from the target model
+ */
+function pendingFilter(source: EmbeddingTarget, target: EmbeddingTarget): Document {
+  return {
+    [source.slot]: { $exists: true },
+    [`${target.modelPath}.id`]: { $ne: target.modelId },
+  };
+}
+
+/**
+ * Helper: Embed a collection's pending documents with the target model, a batch at a time
+ * @param record - Called after each batch with its counts; returning false stops the pass
+ * @returns false when record stopped the pass
+ */
+async function reembedPending(
+  db: Db,
+  collection: VectorCollection,
+  source: EmbeddingTarget,
+  target: EmbeddingTarget,
+  record: (processed: number, failed: number, error?: string) => Promise<boolean>
+): Promise<boolean> {
+  let lastId: ObjectId | undefined;
+
+  for (;;) {
+    const batch = await db
+      .collection(collection)
+      .find({ ...pendingFilter(source, target), ...(lastId && { _id: { $gt: lastId } }) })
+      .sort({ _id: 1 })
+      .limit(MIGRATION_BATCH_SIZE)
+      .project<{ _id: ObjectId; content?: string }>(collection === 'agentMemories' ? { content: 1 } : { _id: 1 })
+      .toArray();
+    if (batch.length === 0) return true;
+    lastId = batch[batch.length - 1]._id;
+
+    const results = collection === 'projectData'
+      ? await processItemEmbeddings(db, batch.map((doc) => doc._id.toString()), { target })
+      : await embedMemories(db, batch, target);
+
+    const failures = results.filter((result) => !result.success);
+    if (!(await record(results.length - failures.length, failures.length, failures[0]?.error))) {
+      return false;
+    }
+  }
+}
+
+/**
+ * Helper: Embed agent memories (their text content) into the target's slot
+ */
+async function embedMemories(
+  db: Db,
+  memories: Array<{ _id: ObjectId; content?: string }>,
+  target: EmbeddingTarget
+): Promise<ProcessResult[]> {
+  const embedded = await generateEmbeddings(
+    memories.map((memory) => ({ text: memory.content })),
+    'document',
+    { provider: target.provider }
+  );
+
+  const updates: AnyBulkWriteOperation[] = [];
+  const results = embedded.map(({ embedding, error }, i): ProcessResult => {
+    if (!embedding) return { success: false, error: error || 'Embedding failed' };
+    updates.push({
+      updateOne: { filter: { _id: memories[i]._id }, update: { $set: vectorFields(target, embedding) } },
+    });
+    return { success: true, embeddingGenerated: true };
+  });
+
+  if (updates.length > 0) {
+    await db.collection('agentMemories').bulkWrite(updates, { ordered: false });
+  }
+  return results;
+}
+
+/**
+ * Helper: Whether a search index has finished building
+ */
+async function isVectorIndexQueryable(db: Db, collection: VectorCollection, index: string): Promise<boolean> {
+  const [existing]: Document[] = await db.collection(collection).listSearchIndexes(index).toArray();
+  return existing?.queryable === true;
+}
+
+/**
+ * Helper: Provider and storage fields for a model in a slot
+ */
+function toTarget(spec: EmbeddingModelSpec, slot: EmbeddingSlot): EmbeddingTarget {
+  const provider = createEmbeddingProvider(spec);
+  return {
+    provider,
+    modelId: embeddingModelId(provider),
+    slot,
+    modelPath: SLOTS[slot].modelPath,
+    index: SLOTS[slot].index,
+  };
+}
+
+/**
+ * Helper: The slot a migration writes to
+ */
+function otherSlot(slot: EmbeddingSlot): EmbeddingSlot {
+  return slot === 'embedding' ? 'embeddingAlt' : 'embedding';
+}
+
+/**
+ * Helper: Parse a migration id
+ * @throws EmbeddingMigrationError (404) for malformed ids
+ */
+function toObjectId(id: string): ObjectId {
+  if (!ObjectId.isValid(id)) {
+    throw new EmbeddingMigrationError('Migration not found', 404);
+  }
+  return new ObjectId(id);
+}
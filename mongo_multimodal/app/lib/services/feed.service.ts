@@ -0,0 +1,446 @@
+/**
+ * Feed Service
+ * RSS/Atom subscriptions per project: new entries are scraped into web_chunk items,
+ * deduplicated by GUID across all of the project's feeds
+ */
+
+import { Db, ObjectId } from 'mongodb';
+import { fetchFeed, FeedEntry } from '../feed-parser';
+import { normalizeURL, validateURL } from '../web-scraper';
+import { processAndUploadWebContent } from './chunking.service';
+import { cancelItemJobs, enqueueJobs } from './jobQueue.service';
+import { FeedEntryRecord, FeedSubscription } from '../../types/models';
+
+const FEEDS_COLLECTION = 'feedSubscriptions';
+const ENTRIES_COLLECTION = 'feedEntries';
+
+export const POLL_INTERVAL_LIMITS = {
+  minHours: 1,
+  maxHours: 24 * 7,
+  defaultHours: 6,
+};
+
+// Entries scraped per poll, newest first; a first poll of a long feed only takes the latest ones
+const MAX_ENTRIES_PER_POLL = 20;
+// Failed entries (paywalls, timeouts) are retried on later polls this many times in total
+const MAX_ENTRY_ATTEMPTS = 3;
+
+/**
+ * Feed URL that can't be fetched or isn't RSS/Atom, reported to the client as a 400
+ */
+export class FeedSubscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeedSubscriptionError';
+  }
+}
+
+export interface PollResult {
+  status: 'unchanged' | 'updated' | 'missing';
+  ingested: number;
+  duplicates: number; // entries whose page was already in the project
+  failed: number;
+}
+
+export interface FeedEntryQuery {
+  since?: Date;
+  by?: 'ingested' | 'published'; // which date `since` applies to (default ingested)
+  subscriptionId?: ObjectId;
+  limit?: number;
+}
+
+/**
+ * Create the indexes used by the scheduler, GUID deduplication and the feeds endpoints
+ */
+export async function ensureFeedIndexes(db: Db): Promise<void> {
+  const feeds = db.collection(FEEDS_COLLECTION);
+  await feeds.createIndex({ projectId: 1, url: 1 }, { unique: true });
+  await feeds.createIndex({ enabled: 1, nextPollAt: 1 });
+
+  const entries = db.collection(ENTRIES_COLLECTION);
+  await entries.createIndex({ projectId: 1, guid: 1 }, { unique: true });
+  await entries.createIndex({ projectId: 1, ingestedAt: -1 });
+  await entries.createIndex({ projectId: 1, publishedAt: -1 });
+  await entries.createIndex({ subscriptionId: 1, ingestedAt: -1 });
+}
+
+/**
+ * Subscribe a project to a feed, or update the interval of an existing subscription
+ * The feed is fetched once to check it parses; the first poll is queued immediately
+ * @throws FeedSubscriptionError when the URL is invalid or doesn't serve RSS/Atom
+ */
+export async function subscribeFeed(
+  db: Db,
+  projectId: string,
+  url: string,
+  pollIntervalHours: number = POLL_INTERVAL_LIMITS.defaultHours
+): Promise<FeedSubscription> {
+  const normalizedUrl = normalizeURL(url.trim());
+  if (!validateURL(normalizedUrl)) {
+    throw new FeedSubscriptionError('Invalid URL format');
+  }
+
+  let title: string;
+  let siteUrl: string | undefined;
+  try {
+    const fetched = await fetchFeed(normalizedUrl);
+    if (fetched.status !== 'ok') throw new Error('Empty response');
+    title = fetched.feed.title || normalizedUrl;
+    siteUrl = fetched.feed.siteUrl;
+  } catch (error) {
+    throw new FeedSubscriptionError(
+      `Could not read feed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const now = new Date();
+  const subscription = await db.collection<FeedSubscription>(FEEDS_COLLECTION).findOneAndUpdate(
+    { projectId: new ObjectId(projectId), url: normalizedUrl },
+    {
+      $set: {
+        title,
+        ...(siteUrl && { siteUrl }),
+        pollIntervalHours: clampInterval(pollIntervalHours),
+        enabled: true,
+        updatedAt: now,
+      },
+      $setOnInsert: {
+        nextPollAt: now,
+        lastStatus: 'pending',
+        entryCount: 0,
+        createdAt: now,
+      },
+    },
+    { upsert: true, returnDocument: 'after' }
+  );
+
+  if (!subscription) {
+    throw new Error('Failed to subscribe to feed');
+  }
+
+  if (subscription.lastStatus === 'pending') {
+    await enqueueJobs(db, projectId, [{ type: 'poll', dataId: subscription._id }]);
+  }
+
+  return subscription;
+}
+
+/**
+ * List the feed subscriptions of a project
+ */
+export async function listFeeds(db: Db, projectId: string): Promise<FeedSubscription[]> {
+  return db.collection<FeedSubscription>(FEEDS_COLLECTION)
+    .find({ projectId: new ObjectId(projectId) })
+    .sort({ createdAt: -1 })
+    .toArray();
+}
+
+/**
+ * Fetch one feed subscription of a project
+ */
+export async function getFeed(
+  db: Db,
+  projectId: string,
+  feedId: string
+): Promise<FeedSubscription | null> {
+  if (!ObjectId.isValid(feedId)) return null;
+
+  return db.collection<FeedSubscription>(FEEDS_COLLECTION).findOne({
+    _id: new ObjectId(feedId),
+    projectId: new ObjectId(projectId),
+  });
+}
+
+/**
+ * Change the poll interval or pause/resume a feed subscription
+ */
+export async function updateFeed(
+  db: Db,
+  projectId: string,
+  feedId: string,
+  changes: { pollIntervalHours?: number; enabled?: boolean }
+): Promise<FeedSubscription | null> {
+  const feed = await getFeed(db, projectId, feedId);
+  if (!feed) return null;
+
+  const pollIntervalHours = changes.pollIntervalHours !== undefined
+    ? clampInterval(changes.pollIntervalHours)
+    : feed.pollIntervalHours;
+
+  return db.collection<FeedSubscription>(FEEDS_COLLECTION).findOneAndUpdate(
+    { _id: feed._id },
+    {
+      $set: {
+        pollIntervalHours,
+        ...(changes.enabled !== undefined && { enabled: changes.enabled }),
+        nextPollAt: nextPollAfter(feed.lastPolledAt || new Date(), pollIntervalHours),
+        updatedAt: new Date(),
+      },
+    },
+    { returnDocument: 'after' }
+  );
+}
+
+/**
+ * Unsubscribe from a feed
+ * Ingested articles are kept, along with their entry records so they aren't ingested again
+ * if the feed is re-added
+ */
+export async function deleteFeed(db: Db, projectId: string, feedId: string): Promise<boolean> {
+  const feed = await getFeed(db, projectId, feedId);
+  if (!feed) return false;
+
+  await cancelItemJobs(db, [feed._id]);
+  await db.collection(FEEDS_COLLECTION).deleteOne({ _id: feed._id });
+
+  return true;
+}
+
+/**
+ * Queue a poll now instead of waiting for the schedule
+ * @returns ID of the queued job, or null when one is already pending
+ */
+export async function requestPoll(db: Db, feed: FeedSubscription): Promise<ObjectId | null> {
+  const [jobId] = await enqueueJobs(db, feed.projectId.toString(), [{ type: 'poll', dataId: feed._id }]);
+  return jobId || null;
+}
+
+/**
+ * Queue poll jobs for feeds whose interval has elapsed
+ * Each feed's next poll is pushed forward as it is queued, so concurrent workers don't double-queue
+ * @returns Number of polls queued
+ */
+export async function scheduleDuePolls(db: Db): Promise<number> {
+  const feeds = db.collection<FeedSubscription>(FEEDS_COLLECTION);
+  const now = new Date();
+  const due = await feeds
+    .find({ enabled: true, nextPollAt: { $lte: now } })
+    .limit(100)
+    .toArray();
+
+  let queued = 0;
+  for (const feed of due) {
+    const claimed = await feeds.updateOne(
+      { _id: feed._id, nextPollAt: feed.nextPollAt },
+      { $set: { nextPollAt: nextPollAfter(now, feed.pollIntervalHours) } }
+    );
+    if (claimed.modifiedCount === 0) continue;
+
+    const jobIds = await enqueueJobs(db, feed.projectId.toString(), [{ type: 'poll', dataId: feed._id }]);
+    queued += jobIds.length;
+  }
+
+  return queued;
+}
+
+/**
+ * Whether any feed is waiting for scheduled polls
+ */
+export async function hasScheduledFeeds(db: Db): Promise<boolean> {
+  const count = await db.collection(FEEDS_COLLECTION).countDocuments({ enabled: true }, { limit: 1 });
+  return count > 0;
+}
+
+/**
+ * Fetch a feed and ingest the entries the project hasn't seen
+ * Entries are matched by GUID across all of the project's feeds. Each new entry's page is scraped
+ * through the web pipeline, and its chunks keep the entry's title and publish date in metadata.feed.
+ * The feed's ETag/Last-Modified are kept only once no entry is waiting, so the next poll refetches it.
+ * Throws when the feed can't be fetched so the job is retried with backoff
+ */
+export async function pollFeed(db: Db, feedId: string): Promise<PollResult> {
+  const result: PollResult = { status: 'unchanged', ingested: 0, duplicates: 0, failed: 0 };
+  const feeds = db.collection<FeedSubscription>(FEEDS_COLLECTION);
+  const entries = db.collection<FeedEntryRecord>(ENTRIES_COLLECTION);
+
+  const feed = await feeds.findOne({ _id: new ObjectId(feedId) });
+  if (!feed) {
+    return { ...result, status: 'missing' };
+  }
+
+  const now = new Date();
+  let fetched;
+  try {
+    fetched = await fetchFeed(feed.url, { etag: feed.etag, lastModified: feed.lastModified });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await feeds.updateOne(
+      { _id: feed._id },
+      { $set: { lastStatus: 'failed', lastError: message, lastPolledAt: now, updatedAt: now } }
+    );
+    throw error;
+  }
+
+  if (fetched.status === 'not-modified') {
+    await feeds.updateOne(
+      { _id: feed._id },
+      {
+        $set: {
+          lastStatus: 'unchanged',
+          lastPolledAt: now,
+          nextPollAt: nextPollAfter(now, feed.pollIntervalHours),
+          updatedAt: now,
+        },
+        $unset: { lastError: '' },
+      }
+    );
+    return result;
+  }
+
+  const { pending, heldBack } = await selectPendingEntries(db, feed, fetched.feed.entries);
+  const feedTitle = fetched.feed.title || feed.title;
+  // Entries a later poll still has to ingest or retry
+  let leftOver = heldBack;
+
+  for (const { entry, attempts } of pending) {
+    const upload = await processAndUploadWebContent(db, feed.projectId.toString(), entry.url, undefined, {
+      duplicatePolicy: 'skip',
+      feed: {
+        subscriptionId: feed._id,
+        feedTitle,
+        guid: entry.guid,
+        title: entry.title,
+        ...(entry.publishedAt && { publishedAt: entry.publishedAt }),
+      },
+    });
+
+    const status = !upload.success ? 'failed' : upload.skipped ? 'duplicate' : 'ingested';
+    result[status === 'ingested' ? 'ingested' : status === 'duplicate' ? 'duplicates' : 'failed']++;
+    if (status === 'failed' && attempts + 1 < MAX_ENTRY_ATTEMPTS) leftOver++;
+
+    await entries.updateOne(
+      { projectId: feed.projectId, guid: entry.guid },
+      {
+        $set: {
+          subscriptionId: feed._id,
+          url: entry.url,
+          title: entry.title,
+          ...(entry.author && { author: entry.author }),
+          ...(entry.publishedAt && { publishedAt: entry.publishedAt }),
+          status,
+          dataIds: upload.skipped ? upload.duplicateOf || [] : upload.insertedIds,
+          attempts: attempts + 1,
+          ingestedAt: new Date(),
+          ...(upload.error && { error: upload.error }),
+        },
+        ...(!upload.error && { $unset: { error: '' } }),
+      },
+      { upsert: true }
+    );
+  }
+
+  const updated = result.ingested > 0;
+  // A conditional request would answer 304 and strand the left-over entries until the feed changes
+  const validators = leftOver === 0
+    ? { ...(fetched.etag && { etag: fetched.etag }), ...(fetched.lastModified && { lastModified: fetched.lastModified }) }
+    : {};
+  await feeds.updateOne(
+    { _id: feed._id },
+    {
+      $set: {
+        title: feedTitle,
+        ...(fetched.feed.siteUrl && { siteUrl: fetched.feed.siteUrl }),
+        ...validators,
+        lastStatus: updated ? 'updated' : 'unchanged',
+        lastPolledAt: now,
+        ...(updated && { lastNewEntryAt: now }),
+        nextPollAt: nextPollAfter(now, feed.pollIntervalHours),
+        updatedAt: now,
+      },
+      $inc: { entryCount: result.ingested },
+      $unset: { lastError: '', ...(leftOver > 0 && { etag: '', lastModified: '' }) },
+    }
+  );
+
+  return { ...result, status: updated ? 'updated' : 'unchanged' };
+}
+
+/**
+ * Entries recorded for a project's feeds, newest first
+ * Used for "items added from feeds this week" (by ingestion date) or "published this week"
+ */
+export async function listFeedEntries(
+  db: Db,
+  projectId: string,
+  query: FeedEntryQuery = {}
+): Promise<Array<FeedEntryRecord & { feedTitle?: string }>> {
+  const { since, by = 'ingested', subscriptionId, limit = 50 } = query;
+  const dateField = by === 'published' ? 'publishedAt' : 'ingestedAt';
+
+  const records = await db.collection<FeedEntryRecord>(ENTRIES_COLLECTION)
+    .find({
+      projectId: new ObjectId(projectId),
+      status: { $ne: 'failed' },
+      ...(subscriptionId && { subscriptionId }),
+      ...(since && { [dateField]: { $gte: since } }),
+    })
+    .sort({ [dateField]: -1 })
+    .limit(Math.min(limit, 200))
+    .toArray();
+
+  const feedIds = [...new Set(records.map((record) => record.subscriptionId.toString()))];
+  const feeds = await db.collection<FeedSubscription>(FEEDS_COLLECTION)
+    .find({ _id: { $in: feedIds.map((id) => new ObjectId(id)) } })
+    .project<{ _id: ObjectId; title: string }>({ title: 1 })
+    .toArray();
+  const titles = new Map(feeds.map((feed) => [feed._id.toString(), feed.title]));
+
+  return records.map((record) => ({ ...record, feedTitle: titles.get(record.subscriptionId.toString()) }));
+}
+
+/**
+ * Helper: Entries of a fetched feed that should be scraped now, oldest first
+ * New GUIDs are taken, plus this feed's failed entries that haven't used up their attempts
+ * @returns Up to MAX_ENTRIES_PER_POLL entries, and how many more are waiting for a later poll
+ */
+async function selectPendingEntries(
+  db: Db,
+  feed: FeedSubscription,
+  fetchedEntries: FeedEntry[]
+): Promise<{ pending: Array<{ entry: FeedEntry; attempts: number }>; heldBack: number }> {
+  const withUrl = fetchedEntries.filter((entry) => entry.url);
+  const known = await db.collection<FeedEntryRecord>(ENTRIES_COLLECTION)
+    .find({ projectId: feed.projectId, guid: { $in: withUrl.map((entry) => entry.guid) } })
+    .project<{ guid: string; status: FeedEntryRecord['status']; attempts: number }>({
+      guid: 1,
+      status: 1,
+      attempts: 1,
+    })
+    .toArray();
+  const knownByGuid = new Map(known.map((record) => [record.guid, record]));
+
+  const pending: Array<{ entry: FeedEntry; attempts: number }> = [];
+  const seen = new Set<string>();
+  for (const entry of withUrl) {
+    if (seen.has(entry.guid)) continue;
+    seen.add(entry.guid);
+
+    const record = knownByGuid.get(entry.guid);
+    if (!record) {
+      pending.push({ entry, attempts: 0 });
+    } else if (record.status === 'failed' && record.attempts < MAX_ENTRY_ATTEMPTS) {
+      pending.push({ entry, attempts: record.attempts });
+    }
+  }
+
+  const selected = pending
+    .sort((a, b) => (b.entry.publishedAt?.getTime() || 0) - (a.entry.publishedAt?.getTime() || 0))
+    .slice(0, MAX_ENTRIES_PER_POLL)
+    .reverse();
+  return { pending: selected, heldBack: pending.length - selected.length };
+}
+
+/**
+ * Helper: Keep the interval within the supported range
+ */
+function clampInterval(hours: number): number {
+  if (!Number.isFinite(hours)) return POLL_INTERVAL_LIMITS.defaultHours;
+  return Math.min(POLL_INTERVAL_LIMITS.maxHours, Math.max(POLL_INTERVAL_LIMITS.minHours, hours));
+}
+
+/**
+ * Helper: When the next poll is due
+ */
+function nextPollAfter(from: Date, intervalHours: number): Date {
+  return new Date(from.getTime() + intervalHours * 60 * 60 * 1000);
+}
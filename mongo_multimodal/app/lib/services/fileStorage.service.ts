@@ -0,0 +1,151 @@
+/**
+ * File Storage Service
+ * Keeps image and original-file bytes in GridFS instead of inline base64 on projectData
+ */
+
+import { Db, Document, GridFSBucket, ObjectId } from 'mongodb';
+import { Readable } from 'stream';
+
+const BUCKET_NAME = 'projectFiles';
+
+export type StoredFileKind = 'image' | 'original';
+
+export interface StoreFileInput {
+  filename: string;
+  contentType: string;
+  projectId: string | ObjectId;
+  kind: StoredFileKind;
+}
+
+export interface StoredFileInfo {
+  _id: ObjectId;
+  length: number;
+  filename: string;
+  metadata?: {
+    projectId?: ObjectId;
+    contentType?: string;
+    kind?: StoredFileKind;
+  };
+}
+
+/**
+ * Helper: GridFS bucket for project files
+ */
+function getBucket(db: Db): GridFSBucket {
+  return new GridFSBucket(db, { bucketName: BUCKET_NAME });
+}
+
+/**
+ * Upload bytes to GridFS
+ * @returns ID of the stored file, to be kept as a pointer on projectData
+ */
+export async function storeFile(
+  db: Db,
+  data: ArrayBuffer | Uint8Array,
+  input: StoreFileInput
+): Promise<ObjectId> {
+  const bucket = getBucket(db);
+  const fileId = new ObjectId();
+  const buffer = Buffer.from(data instanceof Uint8Array ? data : new Uint8Array(data));
+
+  await new Promise<void>((resolve, reject) => {
+    const upload = bucket.openUploadStreamWithId(fileId, input.filename, {
+      metadata: {
+        projectId: new ObjectId(input.projectId),
+        contentType: input.contentType,
+        kind: input.kind,
+      },
+    });
+    upload.once('finish', () => resolve());
+    upload.once('error', reject);
+    upload.end(buffer);
+  });
+
+  return fileId;
+}
+
+/**
+ * Look up a stored file's size and metadata
+ */
+export async function getFileInfo(db: Db, fileId: ObjectId): Promise<StoredFileInfo | null> {
+  const files = await getBucket(db).find({ _id: fileId }).limit(1).toArray();
+  return (files[0] as StoredFileInfo | undefined) || null;
+}
+
+/**
+ * Read a whole stored file into memory
+ */
+export async function readFile(db: Db, fileId: ObjectId): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of getBucket(db).openDownloadStream(fileId)) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Open a stored file as a stream, optionally limited to a byte range
+ * @param range - Inclusive start, exclusive end
+ */
+export function openFileStream(
+  db: Db,
+  fileId: ObjectId,
+  range?: { start: number; end: number }
+): Readable {
+  return getBucket(db).openDownloadStream(fileId, range);
+}
+
+/**
+ * Delete stored files, ignoring ones that are already gone
+ */
+export async function deleteFiles(db: Db, fileIds: ObjectId[]): Promise<void> {
+  const bucket = getBucket(db);
+  const unique = Array.from(new Set(fileIds.map((id) => id.toString())));
+
+  for (const id of unique) {
+    try {
+      await bucket.delete(new ObjectId(id));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!message.includes('File not found')) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Collect the GridFS files referenced by projectData items
+ */
+export function referencedFileIds(
+  items: Array<{ content?: { fileId?: ObjectId }; metadata?: { originalFileId?: ObjectId } }>
+): ObjectId[] {
+  const ids: ObjectId[] = [];
+  for (const item of items) {
+    if (item.content?.fileId) ids.push(item.content.fileId);
+    if (item.metadata?.originalFileId) ids.push(item.metadata.originalFileId);
+  }
+  return ids;
+}
+
+/**
+ * Fill content.base64 from GridFS for code that needs the image bytes in memory
+ * Items that still store base64 inline are returned unchanged
+ */
+export async function hydrateBinaryContent<T extends Document>(db: Db, item: T): Promise<T>;
+export async function hydrateBinaryContent<T extends Document>(db: Db, item: T | null): Promise<T | null>;
+export async function hydrateBinaryContent<T extends Document>(
+  db: Db,
+  item: T | null
+): Promise<T | null> {
+  const content = item?.content as { base64?: string; fileId?: ObjectId } | undefined;
+  if (!item || !content?.fileId || content.base64) {
+    return item;
+  }
+
+  const bytes = await readFile(db, content.fileId);
+  return {
+    ...item,
+    content: { ...content, base64: bytes.toString('base64') },
+  };
+}
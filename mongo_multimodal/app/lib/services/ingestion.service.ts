@@ -0,0 +1,203 @@
+/**
+ * Ingestion Service
+ * Tracks long-running ingestions that span many sources (e.g. website crawls) as one record
+ */
+
+import { Db, ObjectId } from 'mongodb';
+import { Ingestion, IngestionKind, IngestionStatus } from '../../types/models';
+
+const INGESTIONS_COLLECTION = 'ingestions';
+
+// Only the most recent failures are kept on the record
+const MAX_RECORDED_ERRORS = 50;
+
+export interface IngestionProgress {
+  succeeded?: number;
+  skipped?: number;
+  failed?: number;
+  items?: number;
+  error?: { source: string; error: string };
+}
+
+/**
+ * Create the indexes used by the ingestions endpoints
+ */
+export async function ensureIngestionIndexes(db: Db): Promise<void> {
+  await db.collection(INGESTIONS_COLLECTION).createIndex({ projectId: 1, createdAt: -1 });
+}
+
+/**
+ * Start tracking a new ingestion
+ */
+export async function createIngestion(
+  db: Db,
+  projectId: string,
+  kind: IngestionKind,
+  source: string,
+  options?: Record<string, unknown>
+): Promise<Ingestion> {
+  const now = new Date();
+  const ingestion: Ingestion = {
+    _id: new ObjectId(),
+    projectId: new ObjectId(projectId),
+    kind,
+    source,
+    options,
+    status: 'running',
+    progress: { processed: 0, succeeded: 0, skipped: 0, failed: 0, items: 0 },
+    errors: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await db.collection<Ingestion>(INGESTIONS_COLLECTION).insertOne(ingestion);
+  return ingestion;
+}
+
+/**
+ * Start (or start over) the runner of an ingestion: progress and errors are reset
+ * @returns The ingestion, or null when it is no longer running
+ */
+export async function restartIngestion(db: Db, ingestionId: ObjectId): Promise<Ingestion | null> {
+  return db.collection<Ingestion>(INGESTIONS_COLLECTION).findOneAndUpdate(
+    { _id: ingestionId, status: 'running' },
+    {
+      $set: {
+        progress: { processed: 0, succeeded: 0, skipped: 0, failed: 0, items: 0 },
+        errors: [],
+        updatedAt: new Date(),
+      },
+    },
+    { returnDocument: 'after' }
+  );
+}
+
+/**
+ * Record the outcome of one source within an ingestion
+ * @returns false when the ingestion is no longer running (cancelled), so callers can stop
+ */
+export async function recordIngestionProgress(
+  db: Db,
+  ingestionId: ObjectId,
+  progress: IngestionProgress
+): Promise<boolean> {
+  const { succeeded = 0, skipped = 0, failed = 0, items = 0, error } = progress;
+
+  const result = await db.collection<Ingestion>(INGESTIONS_COLLECTION).updateOne(
+    { _id: ingestionId, status: 'running' },
+    {
+      $inc: {
+        'progress.processed': succeeded + skipped + failed,
+        'progress.succeeded': succeeded,
+        'progress.skipped': skipped,
+        'progress.failed': failed,
+        'progress.items': items,
+      },
+      $set: { updatedAt: new Date() },
+      ...(error && { $push: { errors: { $each: [error], $slice: -MAX_RECORDED_ERRORS } } }),
+    }
+  );
+
+  return result.matchedCount > 0;
+}
+
+/**
+ * Mark a running ingestion as finished; a cancelled ingestion stays cancelled
+ */
+export async function finishIngestion(
+  db: Db,
+  ingestionId: ObjectId,
+  status: Exclude<IngestionStatus, 'running'>,
+  details: { result?: Record<string, unknown>; error?: string } = {}
+): Promise<void> {
+  const now = new Date();
+  await db.collection<Ingestion>(INGESTIONS_COLLECTION).updateOne(
+    { _id: ingestionId, status: 'running' },
+    {
+      $set: {
+        status,
+        updatedAt: now,
+        completedAt: now,
+        ...(details.result && { result: details.result }),
+        ...(details.error && { error: details.error }),
+      },
+    }
+  );
+
+  // Keep the summary on cancelled ingestions too
+  if (details.result) {
+    await db.collection<Ingestion>(INGESTIONS_COLLECTION).updateOne(
+      { _id: ingestionId, status: 'cancelled', result: { $exists: false } },
+      { $set: { result: details.result, updatedAt: now } }
+    );
+  }
+}
+
+/**
+ * Whether an ingestion has been cancelled
+ */
+export async function isIngestionCancelled(db: Db, ingestionId: ObjectId): Promise<boolean> {
+  const count = await db.collection<Ingestion>(INGESTIONS_COLLECTION).countDocuments(
+    { _id: ingestionId, status: 'cancelled' },
+    { limit: 1 }
+  );
+  return count > 0;
+}
+
+/**
+ * Fetch one ingestion of a project
+ */
+export async function getIngestion(
+  db: Db,
+  projectId: string,
+  ingestionId: string
+): Promise<Ingestion | null> {
+  if (!ObjectId.isValid(ingestionId)) return null;
+
+  return db.collection<Ingestion>(INGESTIONS_COLLECTION).findOne({
+    _id: new ObjectId(ingestionId),
+    projectId: new ObjectId(projectId),
+  });
+}
+
+/**
+ * List ingestions for a project, newest first
+ */
+export async function listIngestions(
+  db: Db,
+  projectId: string,
+  options: { kind?: IngestionKind; status?: IngestionStatus; limit?: number } = {}
+): Promise<Ingestion[]> {
+  const { kind, status, limit = 20 } = options;
+
+  return db.collection<Ingestion>(INGESTIONS_COLLECTION)
+    .find({
+      projectId: new ObjectId(projectId),
+      ...(kind && { kind }),
+      ...(status && { status }),
+    })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+/**
+ * Cancel a running ingestion; the runner stops before its next source
+ * Items already stored are kept
+ * @returns false when the ingestion was not running
+ */
+export async function cancelIngestion(
+  db: Db,
+  projectId: string,
+  ingestionId: string
+): Promise<boolean> {
+  if (!ObjectId.isValid(ingestionId)) return false;
+
+  const now = new Date();
+  const result = await db.collection<Ingestion>(INGESTIONS_COLLECTION).updateOne(
+    { _id: new ObjectId(ingestionId), projectId: new ObjectId(projectId), status: 'running' },
+    { $set: { status: 'cancelled', updatedAt: now, completedAt: now } }
+  );
+
+  return result.modifiedCount > 0;
+}
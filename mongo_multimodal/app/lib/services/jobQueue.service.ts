@@ -0,0 +1,506 @@
+/**
+ * Job Queue Service
+ * MongoDB-backed background jobs for analysis and embedding of uploaded data,
+ * website crawls, imports of resumable uploads, scheduled refreshes of web sources, syncs of folder/S3 connectors and feed polls
+ */
+
+import { Db, Filter, ObjectId } from 'mongodb';
+import { hostname } from 'os';
+import { analyzeImageItem, processItemEmbeddings } from './projectData.service';
+import { hasScheduledWebSources, refreshWebSource, scheduleDueRefreshes } from './webSource.service';
+import { hasScheduledConnectors, scheduleDueSyncs, syncConnector } from './connector.service';
+import { hasScheduledFeeds, pollFeed, scheduleDuePolls } from './feed.service';
+import { runWebsiteCrawl } from './chunking.service';
+import { finishIngestion } from './ingestion.service';
+import { failUploadImport, runUploadImport } from './resumableUpload.service';
+import { Job, JobStatus, JobType } from '../../types/models';
+
+const JOBS_COLLECTION = 'jobs';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+// A running job whose lock is older than this is assumed to belong to a dead worker
+const STALE_LOCK_MS = 10 * 60 * 1000;
+// How often a worker renews the locks of the jobs it is running
+const LOCK_HEARTBEAT_MS = 60 * 1000;
+// How often an idle worker looks for web sources, connectors and feeds that are due
+const REFRESH_SCHEDULE_INTERVAL_MS = 60 * 1000;
+// Embed jobs claimed together, so their items share batched embedding requests
+const EMBED_BATCH_JOBS = 64;
+
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'running'];
+
+export interface EnqueueJobInput {
+  type: JobType;
+  dataId: string | ObjectId;
+  maxAttempts?: number;
+}
+
+export interface WorkerOptions {
+  workerId?: string;
+  pollIntervalMs?: number;
+  stopWhenIdle?: boolean; // return once the queue is empty instead of polling forever
+  signal?: AbortSignal;
+}
+
+type JobHandler = (db: Db, job: Job) => Promise<Record<string, unknown>>;
+
+/**
+ * Work performed for each job type. Handlers throw to signal a failed attempt.
+ */
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  analyze: async (db, job) => {
+    const analysis = await analyzeImageItem(db, job.dataId.toString());
+    return { tags: analysis.tags.length, insights: analysis.insights.length };
+  },
+  embed: async (db, job) => {
+    const [result] = await processItemEmbeddings(db, [job.dataId.toString()]);
+    if (!result.success) {
+      throw new Error(result.error || 'Embedding failed');
+    }
+    return { embeddingGenerated: !!result.embeddingGenerated };
+  },
+  refresh: async (db, job) => {
+    const result = await refreshWebSource(db, job.dataId.toString());
+    return { ...result };
+  },
+  sync: async (db, job) => {
+    const result = await syncConnector(db, job.dataId.toString());
+    return { ...result };
+  },
+  poll: async (db, job) => {
+    const result = await pollFeed(db, job.dataId.toString());
+    return { ...result };
+  },
+  crawl: async (db, job) => {
+    const result = await runWebsiteCrawl(db, job.dataId.toString());
+    return { ...result };
+  },
+  import: async (db, job) => {
+    const result = await runUploadImport(db, job.dataId.toString());
+    return { ...result };
+  },
+};
+
+/**
+ * Cleanup for jobs that failed for good, including ones whose worker died on every attempt
+ */
+const JOB_FAILURE_HANDLERS: Partial<Record<JobType, (db: Db, job: Job, message: string) => Promise<void>>> = {
+  // Otherwise the crawl's ingestion would show as running forever
+  crawl: (db, job, message) => finishIngestion(db, job.dataId, 'failed', { error: message }),
+  // Otherwise the upload would stay 'processing' and could never be completed again
+  import: (db, job, message) => failUploadImport(db, job.dataId, message),
+};
+
+/**
+ * Create the indexes used by workers and the jobs endpoint
+ */
+export async function ensureJobIndexes(db: Db): Promise<void> {
+  const jobs = db.collection(JOBS_COLLECTION);
+  await jobs.createIndex({ status: 1, runAt: 1 });
+  await jobs.createIndex({ projectId: 1, createdAt: -1 });
+  await jobs.createIndex({ dataId: 1, type: 1, status: 1 });
+}
+
+/**
+ * Enqueue jobs for a project
+ * Items that already have an active job of the same type are not queued twice
+ * @returns IDs of the newly created jobs
+ */
+export async function enqueueJobs(
+  db: Db,
+  projectId: string,
+  inputs: EnqueueJobInput[]
+): Promise<ObjectId[]> {
+  if (inputs.length === 0) return [];
+
+  const jobs = db.collection<Job>(JOBS_COLLECTION);
+  const active = await jobs
+    .find({
+      dataId: { $in: inputs.map((input) => new ObjectId(input.dataId)) },
+      status: { $in: ACTIVE_STATUSES },
+    })
+    .project<{ dataId: ObjectId; type: JobType }>({ dataId: 1, type: 1 })
+    .toArray();
+  const activeKeys = new Set(active.map((job) => `${job.type}:${job.dataId.toString()}`));
+
+  const now = new Date();
+  const docs: Job[] = [];
+  for (const input of inputs) {
+    const dataId = new ObjectId(input.dataId);
+    const key = `${input.type}:${dataId.toString()}`;
+    if (activeKeys.has(key)) continue;
+    activeKeys.add(key);
+
+    docs.push({
+      _id: new ObjectId(),
+      projectId: new ObjectId(projectId),
+      type: input.type,
+      dataId,
+      status: 'queued',
+      attempts: 0,
+      maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      runAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  if (docs.length === 0) return [];
+
+  await jobs.insertMany(docs);
+  ensureInlineWorker(db);
+
+  return docs.map((doc) => doc._id);
+}
+
+/**
+ * Enqueue the standard post-upload work for new projectData items:
+ * analysis for images and embedding for everything
+ */
+export async function enqueueIngestionJobs(
+  db: Db,
+  projectId: string,
+  items: Array<{ _id: ObjectId | string; type: string }>
+): Promise<ObjectId[]> {
+  const inputs: EnqueueJobInput[] = [];
+  for (const item of items) {
+    if (item.type === 'image') {
+      inputs.push({ type: 'analyze', dataId: item._id });
+    }
+    inputs.push({ type: 'embed', dataId: item._id });
+  }
+  return enqueueJobs(db, projectId, inputs);
+}
+
+/**
+ * List jobs for a project, newest first, with per-status counts
+ * Counts cover every job of the requested type, not just the listed ones
+ */
+export async function listJobs(
+  db: Db,
+  projectId: string,
+  options: { status?: JobStatus; type?: JobType; limit?: number } = {}
+): Promise<{ jobs: Job[]; counts: Record<JobStatus, number> }> {
+  const { status, type, limit = 50 } = options;
+  const jobs = db.collection<Job>(JOBS_COLLECTION);
+  const projectFilter = { projectId: new ObjectId(projectId) };
+
+  const [items, grouped] = await Promise.all([
+    jobs
+      .find({
+        ...projectFilter,
+        ...(status && { status }),
+        ...(type && { type }),
+      })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .toArray(),
+    jobs
+      .aggregate<{ _id: JobStatus; count: number }>([
+        { $match: { ...projectFilter, ...(type && { type }) } },
+        { $group: { _id: '$status', count: { $sum: 1 } } },
+      ])
+      .toArray(),
+  ]);
+
+  const counts: Record<JobStatus, number> = {
+    queued: 0,
+    running: 0,
+    completed: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+  for (const group of grouped) {
+    counts[group._id] = group.count;
+  }
+
+  return { jobs: items, counts };
+}
+
+/**
+ * Cancel queued or running jobs for a project
+ * A running job finishes its current attempt, but its result is discarded
+ * @param jobIds - Specific jobs to cancel; all active jobs when omitted
+ * @returns Number of jobs cancelled
+ */
+export async function cancelJobs(
+  db: Db,
+  projectId: string,
+  jobIds?: string[]
+): Promise<number> {
+  const filter = {
+    projectId: new ObjectId(projectId),
+    status: { $in: ACTIVE_STATUSES },
+    ...(jobIds && {
+      _id: {
+        $in: jobIds
+          .filter((id) => ObjectId.isValid(id))
+          .map((id) => new ObjectId(id)),
+      },
+    }),
+  };
+
+  const now = new Date();
+  const result = await db.collection<Job>(JOBS_COLLECTION).updateMany(filter, {
+    $set: { status: 'cancelled', updatedAt: now, completedAt: now },
+    $unset: { lockedBy: '', lockedAt: '' },
+  });
+
+  return result.modifiedCount;
+}
+
+/**
+ * Cancel active jobs for projectData items that are being removed
+ */
+export async function cancelItemJobs(db: Db, dataIds: ObjectId[]): Promise<number> {
+  if (dataIds.length === 0) return 0;
+
+  const now = new Date();
+  const result = await db.collection<Job>(JOBS_COLLECTION).updateMany(
+    { dataId: { $in: dataIds }, status: { $in: ACTIVE_STATUSES } },
+    {
+      $set: { status: 'cancelled', updatedAt: now, completedAt: now },
+      $unset: { lockedBy: '', lockedAt: '' },
+    }
+  );
+
+  return result.modifiedCount;
+}
+
+/**
+ * Atomically claim the next job that is ready to run
+ * Also reclaims running jobs whose worker stopped renewing its lock, while they have attempts
+ * left; the others are marked failed
+ * @param type - Only claim jobs of this type
+ */
+export async function claimNextJob(db: Db, workerId: string, type?: JobType): Promise<Job | null> {
+  const now = new Date();
+  const staleLock = { status: 'running' as JobStatus, lockedAt: { $lt: new Date(now.getTime() - STALE_LOCK_MS) } };
+
+  await failAbandonedJobs(db, staleLock);
+
+  return db.collection<Job>(JOBS_COLLECTION).findOneAndUpdate(
+    {
+      ...(type && { type }),
+      $or: [
+        { status: 'queued', runAt: { $lte: now } },
+        { ...staleLock, $expr: { $lt: ['$attempts', '$maxAttempts'] } },
+      ],
+    },
+    {
+      $set: { status: 'running', lockedBy: workerId, lockedAt: now, updatedAt: now },
+      $inc: { attempts: 1 },
+    },
+    { sort: { runAt: 1 }, returnDocument: 'after' }
+  );
+}
+
+/**
+ * Run a claimed job and record its outcome
+ * Failed attempts are retried with exponential backoff until maxAttempts
+ */
+export async function runJob(db: Db, job: Job): Promise<JobStatus> {
+  try {
+    const handler = JOB_HANDLERS[job.type];
+    if (!handler) {
+      throw new Error(`Unknown job type: ${job.type}`);
+    }
+
+    const result = await handler(db, job);
+    return await completeJob(db, job, result);
+  } catch (error) {
+    return failJob(db, job, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Run claimed embed jobs together: their items are embedded in batched requests,
+ * and each job records its own item's outcome
+ * @returns Final status of each job, in order
+ */
+export async function runEmbedJobs(db: Db, embedJobs: Job[]): Promise<JobStatus[]> {
+  let results: Awaited<ReturnType<typeof processItemEmbeddings>>;
+  try {
+    results = await processItemEmbeddings(db, embedJobs.map((job) => job.dataId.toString()));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return Promise.all(embedJobs.map((job) => failJob(db, job, message)));
+  }
+
+  return Promise.all(embedJobs.map((job, i) =>
+    results[i].success
+      ? completeJob(db, job, { embeddingGenerated: !!results[i].embeddingGenerated })
+      : failJob(db, job, results[i].error || 'Embedding failed')
+  ));
+}
+
+/**
+ * Worker loop: claim and run jobs one at a time until stopped
+ * @returns Number of jobs processed
+ */
+export async function runWorker(db: Db, options: WorkerOptions = {}): Promise<number> {
+  const {
+    workerId = `${hostname()}:${process.pid}:${new ObjectId().toString()}`,
+    pollIntervalMs = 2000,
+    stopWhenIdle = false,
+    signal,
+  } = options;
+
+  let processed = 0;
+  let lastRefreshScheduling = 0;
+
+  while (!signal?.aborted) {
+    const job = await claimNextJob(db, workerId);
+
+    if (!job) {
+      if (Date.now() - lastRefreshScheduling >= REFRESH_SCHEDULE_INTERVAL_MS) {
+        lastRefreshScheduling = Date.now();
+        const queued = await scheduleDueRefreshes(db) + await scheduleDueSyncs(db) + await scheduleDuePolls(db);
+        if (queued > 0) continue;
+      }
+
+      // Stay around for retries waiting out their backoff and for scheduled refreshes, syncs and polls
+      if (
+        stopWhenIdle &&
+        !(await hasQueuedJobs(db)) &&
+        !(await hasScheduledWebSources(db)) &&
+        !(await hasScheduledConnectors(db)) &&
+        !(await hasScheduledFeeds(db))
+      ) break;
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+      continue;
+    }
+
+    // Queued embed jobs go along with this one, up to a batch
+    const claimed = [job];
+    while (job.type === 'embed' && claimed.length < EMBED_BATCH_JOBS) {
+      const next = await claimNextJob(db, workerId, 'embed');
+      if (!next) break;
+      claimed.push(next);
+    }
+
+    const statuses = await withLockHeartbeat(db, workerId, claimed, async () =>
+      job.type === 'embed' ? runEmbedJobs(db, claimed) : [await runJob(db, job)]
+    );
+    claimed.forEach((claimedJob, i) => {
+      console.log(`[Jobs] ${claimedJob.type} job ${claimedJob._id} for item ${claimedJob.dataId} -> ${statuses[i]}`);
+    });
+    processed += claimed.length;
+  }
+
+  return processed;
+}
+
+/**
+ * Helper: Record a successful attempt, unless the job was cancelled meanwhile
+ */
+async function completeJob(db: Db, job: Job, result: Record<string, unknown>): Promise<JobStatus> {
+  const now = new Date();
+  const update = await db.collection<Job>(JOBS_COLLECTION).updateOne(ownLockFilter(job), {
+    $set: { status: 'completed', result, updatedAt: now, completedAt: now },
+    $unset: { lockedBy: '', lockedAt: '', lastError: '' },
+  });
+  return update.modifiedCount > 0 ? 'completed' : 'cancelled';
+}
+
+/**
+ * Helper: Record a failed attempt; it is retried with exponential backoff until maxAttempts
+ */
+async function failJob(db: Db, job: Job, message: string): Promise<JobStatus> {
+  const now = new Date();
+  const retry = job.attempts < job.maxAttempts;
+  const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (job.attempts - 1), MAX_BACKOFF_MS);
+
+  console.error(`[Jobs] ${job.type} job ${job._id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, message);
+
+  const update = await db.collection<Job>(JOBS_COLLECTION).updateOne(ownLockFilter(job), {
+    $set: retry
+      ? { status: 'queued', runAt: new Date(now.getTime() + backoff), lastError: message, updatedAt: now }
+      : { status: 'failed', lastError: message, updatedAt: now, completedAt: now },
+    $unset: { lockedBy: '', lockedAt: '' },
+  });
+  if (update.modifiedCount === 0) return 'cancelled';
+  if (!retry) await JOB_FAILURE_HANDLERS[job.type]?.(db, job, message);
+  return retry ? 'queued' : 'failed';
+}
+
+/**
+ * Helper: Fail stale running jobs that have used up their attempts
+ * A job that keeps taking its worker down would otherwise be reclaimed forever
+ */
+async function failAbandonedJobs(db: Db, staleLock: Filter<Job>): Promise<void> {
+  const jobs = db.collection<Job>(JOBS_COLLECTION);
+  const abandoned = await jobs.find({ ...staleLock, $expr: { $gte: ['$attempts', '$maxAttempts'] } }).toArray();
+  const message = 'Worker stopped responding while running the job';
+
+  for (const job of abandoned) {
+    const now = new Date();
+    const update = await jobs.updateOne(
+      { _id: job._id, ...staleLock },
+      {
+        $set: { status: 'failed', lastError: message, updatedAt: now, completedAt: now },
+        $unset: { lockedBy: '', lockedAt: '' },
+      }
+    );
+    if (update.modifiedCount > 0) {
+      console.error(`[Jobs] ${job.type} job ${job._id} abandoned after ${job.attempts} attempts`);
+      await JOB_FAILURE_HANDLERS[job.type]?.(db, job, message);
+    }
+  }
+}
+
+/**
+ * Helper: Only the worker holding the lock may record an outcome (cancellation releases it)
+ */
+function ownLockFilter(job: Job) {
+  return { _id: job._id, status: 'running' as JobStatus, lockedBy: job.lockedBy };
+}
+
+/**
+ * Helper: Renew the locks of claimed jobs while they run, so long runs aren't reclaimed as stale
+ */
+async function withLockHeartbeat<T>(db: Db, workerId: string, jobs: Job[], run: () => Promise<T>): Promise<T> {
+  const heartbeat = setInterval(() => {
+    db.collection<Job>(JOBS_COLLECTION)
+      .updateMany(
+        { _id: { $in: jobs.map((job) => job._id) }, status: 'running', lockedBy: workerId },
+        { $set: { lockedAt: new Date() } }
+      )
+      .catch((error) => console.warn('[Jobs] Failed to renew job locks:', error));
+  }, LOCK_HEARTBEAT_MS);
+
+  try {
+    return await run();
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Helper: Whether any job is still waiting to run
+ */
+async function hasQueuedJobs(db: Db): Promise<boolean> {
+  const count = await db.collection<Job>(JOBS_COLLECTION).countDocuments({ status: 'queued' }, { limit: 1 });
+  return count > 0;
+}
+
+let inlineWorker: Promise<number> | null = null;
+
+/**
+ * Drain the queue inside the current server process
+ * Disabled with JOB_WORKER=external when a dedicated worker (npm run worker) is running
+ */
+export function ensureInlineWorker(db: Db): void {
+  if (process.env.JOB_WORKER === 'external' || inlineWorker) return;
+
+  inlineWorker = runWorker(db, { stopWhenIdle: true })
+    .catch((error) => {
+      console.error('[Jobs] Inline worker stopped:', error);
+      return 0;
+    })
+    .finally(() => {
+      inlineWorker = null;
+    });
+}
@@ -4,7 +4,8 @@
  */
 
 import { Db, ObjectId } from 'mongodb';
-import { generateMultimodalEmbedding } from '../voyageai';
+import { generateMultimodalEmbedding } from '../embeddings';
+import { getActiveEmbedding, modelFilter, vectorFields } from './embeddingModel.service';
 import {
   AgentMemory,
   MemoryType,
@@ -23,7 +24,8 @@ export async function storeMemory(
 ): Promise<ObjectId | null> {
   try {
     // Generate embedding for the memory content
-    const embedding = await generateMultimodalEmbedding({ text: input.content }, 'document');
+    const active = await getActiveEmbedding(db);
+    const embedding = await generateMultimodalEmbedding({ text: input.content }, 'document', active.provider);
 
     // Check for similar existing memories for enrichment
     const existingMemories = await db
@@ -32,13 +34,14 @@ export async function storeMemory(
         {
           $vectorSearch: {
             queryVector: embedding,
-            path: 'embedding',
+            path: active.slot,
             numCandidates: 10,
             limit: 5,
-            index: 'vector_index',
+            index: active.index,
             filter: {
               projectId: new ObjectId(input.projectId),
               type: input.type,
+              ...modelFilter(active),
               $or: [
                 { expiresAt: { $exists: false } },
                 { expiresAt: { $gt: new Date() } },
@@ -92,7 +95,7 @@ export async function storeMemory(
       userId: input.userId,
       type: input.type,
       content: input.content,
-      embedding,
+      ...vectorFields(active, embedding),
       metadata: {
         source: input.source,
         confidence: input.confidence || 0.8,
@@ -123,7 +126,8 @@ export async function retrieveMemories(
 ): Promise<MemorySearchResult[]> {
   try {
     // Generate embedding for the query
-    const queryEmbedding = await generateMultimodalEmbedding({ text: input.query }, 'query');
+    const active = await getActiveEmbedding(db);
+    const queryEmbedding = await generateMultimodalEmbedding({ text: input.query }, 'query', active.provider);
 
     const limit = input.limit || 5;
     const minConfidence = input.minConfidence || 0.5;
@@ -131,6 +135,7 @@ export async function retrieveMemories(
     // Build filter
     const filter: any = {
       projectId: new ObjectId(input.projectId),
+      ...modelFilter(active),
     };
 
     if (input.type) {
@@ -150,10 +155,10 @@ export async function retrieveMemories(
         {
           $vectorSearch: {
             queryVector: queryEmbedding,
-            path: 'embedding',
+            path: active.slot,
             numCandidates: limit * 10,
             limit: limit * 2,
-            index: 'vector_index',
+            index: active.index,
             filter,
           },
         },
@@ -444,9 +449,10 @@ export async function extractMemoriesFromChunk(
     const factSnippet = chunkContent.substring(0, 300).trim();
 
     // Search for similar existing memories
+    const active = await getActiveEmbedding(db);
     let queryEmbedding: number[] = [];
     try {
-      queryEmbedding = await generateMultimodalEmbedding({ text: factSnippet }, 'query');
+      queryEmbedding = await generateMultimodalEmbedding({ text: factSnippet }, 'query', active.provider);
     } catch (error) {
       console.warn('Could not generate embedding for memory search:', error);
       // Continue without similarity search
@@ -460,13 +466,14 @@ export async function extractMemoriesFromChunk(
           {
             $vectorSearch: {
               queryVector: queryEmbedding,
-              path: 'embedding',
+              path: active.slot,
               numCandidates: 10,
               limit: 5,
-              index: 'vector_index',
+              index: active.index,
               filter: {
                 projectId: new ObjectId(projectId),
-                type: 'fact'
+                type: 'fact',
+                ...modelFilter(active)
               }
             }
           },
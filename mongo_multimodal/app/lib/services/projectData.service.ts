@@ -3,11 +3,19 @@
  * Eliminates duplication across API routes
  */
 
-import { Db, ObjectId } from 'mongodb';
+import { AnyBulkWriteOperation, Db, Document, ObjectId, WithId } from 'mongodb';
 import { anthropic } from '@ai-sdk/anthropic';
 import { openai } from '@ai-sdk/openai';
 import { streamText } from 'ai';
-import { generateMultimodalEmbedding } from '../voyageai';
+import { EmbeddingBatchOptions, EmbeddingInput, EmbeddingProvider, generateEmbeddings } from '../embeddings';
+import { isOcrEnabled, recognizeImageText } from '../ocr';
+import { enqueueJobs } from './jobQueue.service';
+import { EmbeddingTarget, getActiveEmbedding, storedVector, vectorFields } from './embeddingModel.service';
+import { hydrateBinaryContent } from './fileStorage.service';
+import { ProjectData } from '../../types/models';
+
+// Recognized text beyond this is left out of the embedding input (it stays on the item)
+const MAX_OCR_EMBED_CHARS = 8000;
 
 export interface AnalysisResult {
   description: string;
@@ -16,6 +24,10 @@ export interface AnalysisResult {
   facets: Record<string, unknown>;
 }
 
+export interface ItemEmbeddingOptions extends Omit<EmbeddingBatchOptions, 'provider'> {
+  target?: EmbeddingTarget; // model and slot to embed into; the active one by default
+}
+
 export interface ProcessResult {
   success: boolean;
   error?: string;
@@ -49,7 +61,10 @@ export async function analyzeImageItem(
   db: Db,
   itemId: string
 ): Promise<AnalysisResult> {
-  const item = await db.collection('projectData').findOne({ _id: new ObjectId(itemId) });
+  const item = await hydrateBinaryContent(
+    db,
+    await db.collection('projectData').findOne({ _id: new ObjectId(itemId) })
+  );
 
   if (!item || item.type !== 'image' || !item.content?.base64) {
     throw new Error('Image not found or invalid');
@@ -130,46 +145,154 @@ export async function processItemEmbedding(
   db: Db,
   itemId: string
 ): Promise<ProcessResult> {
-  try {
-    const data = await db.collection('projectData').findOne({ _id: new ObjectId(itemId) });
+  const [result] = await processItemEmbeddings(db, [itemId]);
+  return result;
+}
 
-    if (!data) {
-      return { success: false, error: 'Data not found' };
-    }
+/**
+ * Generate embeddings for many items in batched requests to the embedding provider
+ * @param db - MongoDB database instance
+ * @param itemIds - IDs of the projectData items to process
+ * @param options - Progress callback, called after each request, and the model to embed with
+ *   (re-embedding migrations fill the inactive slot; items keep their processedAt)
+ * @returns One result per item ID, in order; a failed item doesn't fail the others
+ */
+export async function processItemEmbeddings(
+  db: Db,
+  itemIds: string[],
+  options: ItemEmbeddingOptions = {}
+): Promise<ProcessResult[]> {
+  const target = options.target || await getActiveEmbedding(db);
+  const results: ProcessResult[] = new Array(itemIds.length);
+  const items = await db.collection('projectData')
+    .find({ _id: { $in: itemIds.filter((id) => ObjectId.isValid(id)).map((id) => new ObjectId(id)) } })
+    .toArray();
+  const itemsById = new Map(items.map((item) => [item._id.toString(), item]));
+
+  const inputs: EmbeddingInput[] = [];
+  const positions: number[] = [];
+  for (const [position, itemId] of itemIds.entries()) {
+    try {
+      const data = await hydrateBinaryContent(db, itemsById.get(itemId) || null);
+      if (!data) {
+        results[position] = { success: false, error: 'Data not found' };
+        continue;
+      }
 
-    const content = data?.content || {};
-    if (!content.base64 && !content.text) {
-      return { success: false, error: 'No content to embed' };
+      const input = await buildEmbeddingInput(db, data, target.provider);
+      if (!input) {
+        results[position] = { success: false, error: 'No content to embed' };
+        continue;
+      }
+      inputs.push(input);
+      positions.push(position);
+    } catch (error) {
+      results[position] = { success: false, error: error instanceof Error ? error.message : String(error) };
     }
+  }
+
+  const embedded = await generateEmbeddings(inputs, 'document', {
+    provider: target.provider,
+    onProgress: options.onProgress,
+  });
 
-    // Generate embedding
-    const embedding = await generateMultimodalEmbedding({
-      text: content.text,
-      base64: content.base64,
+  // Update the documents with their embeddings
+  const now = new Date();
+  const updates: AnyBulkWriteOperation[] = [];
+  embedded.forEach(({ embedding, error }, index) => {
+    const position = positions[index];
+    if (!embedding) {
+      results[position] = { success: false, error: error || 'Embedding failed' };
+      return;
+    }
+    updates.push({
+      updateOne: {
+        filter: { _id: new ObjectId(itemIds[position]) },
+        update: {
+          $set: {
+            ...vectorFields(target, embedding),
+            ...(!options.target && { processedAt: now }),
+            updatedAt: now,
+          },
+        },
+      },
     });
+    results[position] = { success: true, embeddingGenerated: true };
+  });
 
-    // Update the document with the embedding
-    await db.collection('projectData').updateOne(
-      { _id: new ObjectId(itemId) },
-      {
-        $set: {
-          embedding,
-          processedAt: new Date(),
-          updatedAt: new Date()
-        }
-      }
-    );
+  if (updates.length > 0) {
+    await db.collection('projectData').bulkWrite(updates, { ordered: false });
+  }
 
-    return {
-      success: true,
-      embeddingGenerated: !!(embedding && Array.isArray(embedding) && embedding.length > 0)
-    };
+  return results;
+}
+
+/**
+ * Helper: What to embed for an item (with its binary content loaded)
+ * Runs OCR on images that haven't been through it yet
+ * @returns null when the item has nothing to embed
+ */
+async function buildEmbeddingInput(
+  db: Db,
+  data: WithId<Document>,
+  provider: EmbeddingProvider
+): Promise<EmbeddingInput | null> {
+  const content = data.content || {};
+  if (!content.base64 && !content.text) {
+    return null;
+  }
+
+  // Images are embedded together with the text printed in them
+  let ocrText: string | undefined;
+  if (data.type === 'image' && content.base64 && isOcrEnabled()) {
+    const ocr = data.ocr || await recognizeItemText(db, data._id, content.base64);
+    ocrText = ocr.text ? ocr.text.slice(0, MAX_OCR_EMBED_CHARS) : undefined;
+  }
+
+  // Text-only embedding models see an image through its description and the text printed in it
+  const text = provider.supportsImages
+    ? content.text || ocrText
+    : [content.text || data.analysis?.description, ocrText].filter(Boolean).join('\n');
+
+  return { text: text || undefined, base64: content.base64 };
+}
+
+/**
+ * Run OCR on an image item and store the text and word bounding boxes on it
+ * A failed recognition is stored with its error so the item is still embedded from its pixels
+ * @param db - MongoDB database instance
+ * @param itemId - ID of the image item
+ * @param base64 - Image bytes of the item
+ * @returns The stored OCR result
+ */
+export async function recognizeItemText(
+  db: Db,
+  itemId: ObjectId,
+  base64: string
+): Promise<NonNullable<ProjectData['ocr']>> {
+  let ocr: NonNullable<ProjectData['ocr']>;
+  try {
+    ocr = { ...(await recognizeImageText(Buffer.from(base64, 'base64'))), processedAt: new Date() };
   } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error)
+    console.error(`OCR failed for item ${itemId.toString()}:`, error);
+    ocr = {
+      text: '',
+      words: [],
+      confidence: 0,
+      language: '',
+      width: 0,
+      height: 0,
+      processedAt: new Date(),
+      error: error instanceof Error ? error.message : String(error),
     };
   }
+
+  await db.collection('projectData').updateOne(
+    { _id: itemId },
+    { $set: { ocr, updatedAt: new Date() } }
+  );
+
+  return ocr;
 }
 
 /**
@@ -193,6 +316,8 @@ export async function bulkAnalyzeImages(
     .project({ _id: 1 })
     .toArray();
 
+  await enqueueJobs(db, projectId, items.map(i => ({ type: 'analyze' as const, dataId: i._id })));
+
   return items.map(i => i._id.toString());
 }
 
@@ -201,40 +326,32 @@ export async function bulkAnalyzeImages(
  * @param db - MongoDB database instance
  * @param projectId - Project ID to filter items
  * @param itemIds - Array of item IDs to process
- * @returns Array of results for each item
+ * @returns Array of item IDs that were successfully queued for embedding
  */
 export async function bulkProcessEmbeddings(
   db: Db,
   projectId: string,
   itemIds: string[]
-): Promise<Array<{ id: string; success: boolean; error?: string }>> {
+): Promise<string[]> {
   const objectIds = itemIds
     .filter((id: string) => ObjectId.isValid(id))
     .map((id: string) => new ObjectId(id));
 
   const items = await db.collection('projectData')
     .find({ _id: { $in: objectIds }, projectId: new ObjectId(projectId) })
+    .project({ _id: 1 })
     .toArray();
 
-  const results: Array<{ id: string; success: boolean; error?: string }> = [];
-
-  for (const item of items) {
-    const result = await processItemEmbedding(db, item._id.toString());
-    results.push({
-      id: item._id.toString(),
-      success: result.success,
-      error: result.error
-    });
-  }
+  await enqueueJobs(db, projectId, items.map(i => ({ type: 'embed' as const, dataId: i._id })));
 
-  return results;
+  return items.map(i => i._id.toString());
 }
 
 /**
- * Get content for a specific item (used for lazy loading)
+ * Get a specific item without its binary content (used by the preview modal)
  * @param db - MongoDB database instance
  * @param itemId - ID of the item
- * @returns Content object (text or base64)
+ * @returns Item with text content and a URL for its binary content
  */
 export async function getItemContent(
   db: Db,
@@ -244,23 +361,28 @@ export async function getItemContent(
     throw new Error('Invalid ID format');
   }
 
-  const item = await db.collection('projectData').findOne({
-    _id: new ObjectId(itemId)
-  });
+  const active = await getActiveEmbedding(db);
+  const item = await db.collection('projectData').findOne(
+    { _id: new ObjectId(itemId) },
+    { projection: { 'content.base64': 0 } }
+  );
 
   if (!item) {
     throw new Error('Item not found');
   }
 
-  // Return the full item with all properties for the preview modal
+  // Return the full item for the preview modal; binary bytes are served
+  // separately by /api/projects/data/[id]/content
   return {
     _id: item._id.toString(),
     projectId: item.projectId?.toString() || '',
     type: item.type,
-    content: item.content,
+    content: { text: item.content?.text },
+    contentUrl: `/api/projects/data/${item._id.toString()}/content`,
     metadata: item.metadata,
     analysis: item.analysis,
-    embedding: item.embedding,
+    ocr: item.ocr,
+    embedding: storedVector(active, item) || undefined,
     createdAt: item.createdAt,
     updatedAt: item.updatedAt
   };
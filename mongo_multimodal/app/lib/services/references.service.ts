@@ -207,6 +207,41 @@ export function extractReferencesFromToolResults(
           break;
         }
 
+        case 'webPageChanges': {
+          const output = execution.output;
+          if (output?.url) {
+            references.push({
+              type: 'web',
+              url: output.url,
+              title: output.title || output.url,
+              usedInStep: execution.step,
+              toolCall: 'webPageChanges',
+            });
+          }
+          break;
+        }
+
+        case 'feedItems': {
+          // feedItems returns its result as a JSON string
+          let output = execution.output;
+          if (typeof output === 'string') {
+            try { output = JSON.parse(output); } catch { output = null; }
+          }
+          const entries = output?.entries || [];
+          for (const entry of entries) {
+            if (entry.url) {
+              references.push({
+                type: 'web',
+                url: entry.url,
+                title: entry.title || entry.url,
+                usedInStep: execution.step,
+                toolCall: 'feedItems',
+              });
+            }
+          }
+          break;
+        }
+
         case 'sendEmail': {
           const input = execution.input;
           if (input?.to) {
@@ -0,0 +1,489 @@
+/**
+ * Resumable Upload Service
+ * Receives large files in checksummed parts across many requests, so a dropped
+ * connection only costs the part in flight, then imports the assembled file in a background job
+ */
+
+import { createHash } from 'crypto';
+import { Binary, Db, ObjectId } from 'mongodb';
+import { UploadPart, UploadSession } from '../../types/models';
+import { processAndUploadByType } from './chunking.service';
+import { importZipArchive } from './archiveImport.service';
+import { parseDuplicatePolicy } from './dedup.service';
+import { FileValidationError, checkFileContent, checkFileMetadata, getUploadPolicy } from './uploadValidation.service';
+import { enqueueJobs } from './jobQueue.service';
+
+const SESSIONS_COLLECTION = 'uploadSessions';
+const PARTS_COLLECTION = 'uploadParts';
+
+export const UPLOAD_LIMITS = {
+  maxArchiveBytes: 2 * 1024 * 1024 * 1024, // ZIP archives are streamed part by part
+  maxFileBytes: 512 * 1024 * 1024, // other files are assembled in memory for processing
+  defaultPartBytes: 8 * 1024 * 1024,
+  minPartBytes: 1024 * 1024,
+  maxPartBytes: 15 * 1024 * 1024, // parts are stored as single documents (16MB limit)
+  sessionTtlHours: 24, // extended on every part
+};
+
+/**
+ * Error with the HTTP status the upload endpoints should answer with
+ */
+export class UploadError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export interface UploadSessionState {
+  uploadId: string;
+  filename: string;
+  size: number;
+  partSize: number;
+  totalParts: number;
+  status: UploadSession['status'];
+  receivedParts: number[]; // part numbers already stored, so clients only send the rest
+  receivedBytes: number;
+  expiresAt: Date;
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * Create the indexes used by resumable uploads (TTL indexes clean up abandoned ones)
+ */
+export async function ensureUploadIndexes(db: Db): Promise<void> {
+  await db.collection(SESSIONS_COLLECTION).createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  await db.collection(PARTS_COLLECTION).createIndex({ uploadId: 1, partNumber: 1 }, { unique: true });
+  await db.collection(PARTS_COLLECTION).createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+}
+
+/**
+ * Start a resumable upload
+ * @throws FileValidationError for types and sizes the project does not accept, UploadError (400) for bad input
+ */
+export async function createUploadSession(
+  db: Db,
+  projectId: string,
+  input: {
+    filename: string;
+    contentType?: string;
+    size: number;
+    partSize?: number;
+    sha256?: string;
+    duplicatePolicy?: unknown;
+    sessionId?: string;
+  }
+): Promise<UploadSessionState> {
+  if (!Number.isInteger(input.size) || input.size <= 0) {
+    throw new UploadError('size must be a positive number of bytes', 400);
+  }
+
+  // Reject disallowed types and sizes before any part is sent; the content is checked on completion
+  const archive = isZipUpload(input.filename, input.contentType);
+  checkFileMetadata(await getUploadPolicy(db, projectId), input.filename, input.size, {
+    maxBytes: archive ? UPLOAD_LIMITS.maxArchiveBytes : UPLOAD_LIMITS.maxFileBytes,
+    ...(archive && { category: 'archive' as const }),
+  });
+
+  if (input.sha256 !== undefined && !/^[0-9a-f]{64}$/i.test(input.sha256)) {
+    throw new UploadError('sha256 must be a hex SHA-256 digest', 400);
+  }
+
+  const partSize = Math.min(
+    Math.max(Math.floor(input.partSize || UPLOAD_LIMITS.defaultPartBytes), UPLOAD_LIMITS.minPartBytes),
+    UPLOAD_LIMITS.maxPartBytes
+  );
+
+  const now = new Date();
+  const session: UploadSession = {
+    _id: new ObjectId(),
+    projectId: new ObjectId(projectId),
+    filename: input.filename,
+    contentType: input.contentType || 'application/octet-stream',
+    size: input.size,
+    partSize,
+    totalParts: Math.ceil(input.size / partSize),
+    ...(input.sha256 && { sha256: input.sha256.toLowerCase() }),
+    options: {
+      duplicatePolicy: parseDuplicatePolicy(input.duplicatePolicy),
+      ...(input.sessionId && { sessionId: input.sessionId }),
+    },
+    status: 'uploading',
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: expiryFrom(now),
+  };
+
+  await db.collection<UploadSession>(SESSIONS_COLLECTION).insertOne(session);
+  return toState(session, []);
+}
+
+/**
+ * Look up an upload and the parts received so far (used to resume)
+ */
+export async function getUploadSession(
+  db: Db,
+  projectId: string,
+  uploadId: string
+): Promise<UploadSessionState | null> {
+  const session = await findSession(db, projectId, uploadId);
+  if (!session) return null;
+  return toState(session, await listParts(db, session._id));
+}
+
+/**
+ * Store one part after checking its size and SHA-256
+ * The upload, part number and declared length are checked before the body is read, so an
+ * oversized or unwanted body is never buffered.
+ * Sending a part again replaces it, so retries after a dropped connection are safe
+ * @param part - The declared Content-Length and a reader for the body
+ * @throws UploadError (400 bad part, 404 unknown upload, 409 no longer accepting parts,
+ *   411 no Content-Length, 413 part larger than the part size)
+ */
+export async function storeUploadPart(
+  db: Db,
+  projectId: string,
+  uploadId: string,
+  partNumber: number,
+  part: { contentLength: number | null; read: () => Promise<Uint8Array> },
+  sha256: string | null
+): Promise<UploadSessionState> {
+  const session = await findSession(db, projectId, uploadId);
+  if (!session) {
+    throw new UploadError('Upload not found or expired', 404);
+  }
+  if (session.status !== 'uploading') {
+    throw new UploadError(`Upload is ${session.status}`, 409);
+  }
+
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > session.totalParts) {
+    throw new UploadError(`Part number must be between 1 and ${session.totalParts}`, 400);
+  }
+
+  const expectedSize = partNumber < session.totalParts
+    ? session.partSize
+    : session.size - session.partSize * (session.totalParts - 1);
+  if (part.contentLength === null || !Number.isInteger(part.contentLength)) {
+    throw new UploadError('Content-Length header is required', 411);
+  }
+  if (part.contentLength > session.partSize) {
+    throw new UploadError(`Part ${partNumber} is larger than the part size (${session.partSize} bytes)`, 413);
+  }
+  if (part.contentLength !== expectedSize) {
+    throw new UploadError(`Part ${partNumber} has ${part.contentLength} bytes, expected ${expectedSize}`, 400);
+  }
+
+  const data = await part.read();
+  if (data.byteLength !== expectedSize) {
+    throw new UploadError(`Part ${partNumber} has ${data.byteLength} bytes, expected ${expectedSize}`, 400);
+  }
+
+  if (!sha256) {
+    throw new UploadError('Missing part checksum (X-Part-Sha256 header)', 400);
+  }
+  const actual = createHash('sha256').update(data).digest('hex');
+  if (actual !== sha256.toLowerCase()) {
+    throw new UploadError(`Checksum mismatch for part ${partNumber}`, 400);
+  }
+
+  const expiresAt = expiryFrom(new Date());
+  await db.collection<UploadPart>(PARTS_COLLECTION).updateOne(
+    { uploadId: session._id, partNumber },
+    {
+      $set: { data: new Binary(data), size: data.byteLength, sha256: actual, expiresAt },
+      $setOnInsert: { _id: new ObjectId() },
+    },
+    { upsert: true }
+  );
+
+  await db.collection<UploadSession>(SESSIONS_COLLECTION).updateOne(
+    { _id: session._id },
+    { $set: { updatedAt: new Date(), expiresAt } }
+  );
+
+  return toState({ ...session, expiresAt }, await listParts(db, session._id));
+}
+
+/**
+ * Queue the import of a fully received upload
+ * The session is 'processing' until the import job finishes; poll getUploadSession for the result.
+ * Completing an upload again returns its current state, so the client can retry when the response
+ * was lost
+ * @throws UploadError (400 missing parts, 404 unknown upload)
+ */
+export async function completeUpload(
+  db: Db,
+  projectId: string,
+  uploadId: string
+): Promise<UploadSessionState> {
+  const sessions = db.collection<UploadSession>(SESSIONS_COLLECTION);
+  const existing = await findSession(db, projectId, uploadId);
+  if (!existing) {
+    throw new UploadError('Upload not found or expired', 404);
+  }
+  if (existing.status !== 'uploading') {
+    return toState(existing, []);
+  }
+
+  const parts = await listParts(db, existing._id);
+  const missing = missingParts(existing, parts);
+  if (missing.length > 0) {
+    throw new UploadError(`Missing parts: ${formatPartList(missing)}`, 400);
+  }
+
+  // Claim the upload so a second complete request cannot import it twice; the parts must
+  // outlive the import
+  const now = new Date();
+  const session = await sessions.findOneAndUpdate(
+    { _id: existing._id, status: 'uploading' },
+    { $set: { status: 'processing', updatedAt: now, expiresAt: expiryFrom(now) } },
+    { returnDocument: 'after' }
+  );
+  if (!session) {
+    return toState((await findSession(db, projectId, uploadId)) || existing, []);
+  }
+  await db.collection<UploadPart>(PARTS_COLLECTION).updateMany(
+    { uploadId: session._id },
+    { $set: { expiresAt: session.expiresAt } }
+  );
+
+  await enqueueJobs(db, projectId, [{ type: 'import', dataId: session._id }]);
+  return toState(session, parts);
+}
+
+/**
+ * Import job: check the assembled file and run it through the ZIP import or its file pipeline
+ * Rejected files fail the upload; other errors are thrown so the job is retried
+ * (see failUploadImport for the last attempt)
+ */
+export async function runUploadImport(
+  db: Db,
+  uploadId: string
+): Promise<{ status: UploadSession['status'] }> {
+  const sessions = db.collection<UploadSession>(SESSIONS_COLLECTION);
+  const session = await sessions.findOne({ _id: new ObjectId(uploadId) });
+  if (!session || session.status !== 'processing') {
+    return { status: session?.status || 'failed' };
+  }
+
+  try {
+    if (session.sha256) {
+      const hash = createHash('sha256');
+      for await (const chunk of readParts(db, session._id)) {
+        hash.update(chunk);
+      }
+      if (hash.digest('hex') !== session.sha256) {
+        throw new UploadError('File checksum does not match the declared sha256', 400);
+      }
+    }
+
+    const result = await importUpload(db, session.projectId.toString(), session);
+    await sessions.updateOne(
+      { _id: session._id, status: 'processing' },
+      { $set: { status: 'completed', result, updatedAt: new Date() } }
+    );
+    await db.collection(PARTS_COLLECTION).deleteMany({ uploadId: session._id });
+    return { status: 'completed' };
+  } catch (error) {
+    if (!(error instanceof UploadError || error instanceof FileValidationError)) {
+      throw error;
+    }
+    await failUploadImport(db, session._id, error.message);
+    return { status: 'failed' };
+  }
+}
+
+/**
+ * Mark an upload whose import failed for good, and drop its parts
+ */
+export async function failUploadImport(db: Db, uploadId: ObjectId, message: string): Promise<void> {
+  await db.collection<UploadSession>(SESSIONS_COLLECTION).updateOne(
+    { _id: uploadId, status: 'processing' },
+    { $set: { status: 'failed', error: message, updatedAt: new Date() } }
+  );
+  await db.collection(PARTS_COLLECTION).deleteMany({ uploadId });
+}
+
+/**
+ * Abort an upload and drop its stored parts
+ * @returns false when the upload does not exist
+ */
+export async function abortUpload(db: Db, projectId: string, uploadId: string): Promise<boolean> {
+  const session = await findSession(db, projectId, uploadId);
+  if (!session) return false;
+
+  await db.collection(PARTS_COLLECTION).deleteMany({ uploadId: session._id });
+  await db.collection(SESSIONS_COLLECTION).deleteOne({ _id: session._id });
+  return true;
+}
+
+/**
+ * Helper: Run the assembled file through the ZIP import or its file pipeline
+ * @returns the response body of the matching single-request upload endpoint
+ */
+async function importUpload(db: Db, projectId: string, session: UploadSession): Promise<Record<string, unknown>> {
+  const options = { duplicatePolicy: parseDuplicatePolicy(session.options.duplicatePolicy) };
+
+  if (isZipUpload(session.filename, session.contentType)) {
+    const archive = await importZipArchive(db, projectId, session.filename, partsStream(db, session._id), options);
+    return {
+      archive: {
+        ingestionId: archive.ingestionId.toString(),
+        status: archive.status,
+        counts: archive.counts,
+        itemsCreated: archive.itemsCreated,
+        entries: archive.entries,
+      },
+      ...(archive.error && { error: archive.error }),
+    };
+  }
+
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of readParts(db, session._id)) {
+    chunks.push(chunk);
+  }
+  // The first part is at least minPartBytes, so it holds the whole header to sniff
+  const { mimeType } = checkFileContent(
+    await getUploadPolicy(db, projectId),
+    session.filename,
+    session.size,
+    chunks[0] || new Uint8Array()
+  );
+  const file = new File(chunks, session.filename, { type: mimeType });
+
+  const result = await processAndUploadByType(db, projectId, file, session.options.sessionId, options);
+  if (!result.success) {
+    throw new UploadError(result.error || 'Failed to process file', 422);
+  }
+
+  return {
+    success: true,
+    skipped: !!result.skipped,
+    duplicateOf: (result.duplicateOf || []).map((id) => id.toString()),
+    chunkCount: result.totalChunks,
+    pageCount: result.pageCount,
+    messageCount: result.messageCount,
+    attachmentCount: result.attachmentCount,
+    dataIds: result.insertedIds.map((id) => id.toString()),
+    jobIds: (result.jobIds || []).map((id) => id.toString()),
+    memoriesCreated: result.memoriesCreated || 0,
+    replacedIds: (result.replacedIds || []).map((id) => id.toString()),
+  };
+}
+
+/**
+ * Helper: Find an upload of the project, or null for unknown or malformed ids
+ */
+async function findSession(db: Db, projectId: string, uploadId: string): Promise<UploadSession | null> {
+  if (!ObjectId.isValid(uploadId)) return null;
+  return db.collection<UploadSession>(SESSIONS_COLLECTION).findOne({
+    _id: new ObjectId(uploadId),
+    projectId: new ObjectId(projectId),
+  });
+}
+
+/**
+ * Helper: Received parts without their bytes
+ */
+async function listParts(db: Db, uploadId: ObjectId): Promise<Array<{ partNumber: number; size: number }>> {
+  return db.collection<UploadPart>(PARTS_COLLECTION)
+    .find({ uploadId })
+    .project<{ partNumber: number; size: number }>({ _id: 0, partNumber: 1, size: 1 })
+    .sort({ partNumber: 1 })
+    .toArray();
+}
+
+/**
+ * Helper: Read the stored parts in order, one document at a time
+ */
+async function* readParts(db: Db, uploadId: ObjectId): AsyncGenerator<Uint8Array> {
+  const cursor = db.collection<UploadPart>(PARTS_COLLECTION)
+    .find({ uploadId })
+    .sort({ partNumber: 1 })
+    .batchSize(1);
+
+  for await (const part of cursor) {
+    yield part.data.buffer;
+  }
+}
+
+/**
+ * Helper: The stored parts as a web stream, for the streaming ZIP reader
+ */
+function partsStream(db: Db, uploadId: ObjectId): ReadableStream<Uint8Array> {
+  const parts = readParts(db, uploadId);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await parts.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel() {
+      await parts.return(undefined);
+    },
+  });
+}
+
+/**
+ * Helper: Part numbers not received yet
+ */
+function missingParts(session: UploadSession, parts: Array<{ partNumber: number }>): number[] {
+  const received = new Set(parts.map((part) => part.partNumber));
+  return Array.from({ length: session.totalParts }, (_, i) => i + 1).filter((n) => !received.has(n));
+}
+
+/**
+ * Helper: "1-3, 7" style list of part numbers
+ */
+function formatPartList(numbers: number[]): string {
+  const ranges: string[] = [];
+  for (let i = 0; i < numbers.length; i++) {
+    const start = numbers[i];
+    while (i + 1 < numbers.length && numbers[i + 1] === numbers[i] + 1) i++;
+    ranges.push(start === numbers[i] ? `${start}` : `${start}-${numbers[i]}`);
+  }
+  return ranges.join(', ');
+}
+
+/**
+ * Helper: Client view of an upload
+ */
+function toState(session: UploadSession, parts: Array<{ partNumber: number; size: number }>): UploadSessionState {
+  return {
+    uploadId: session._id.toString(),
+    filename: session.filename,
+    size: session.size,
+    partSize: session.partSize,
+    totalParts: session.totalParts,
+    status: session.status,
+    receivedParts: parts.map((part) => part.partNumber),
+    receivedBytes: session.status === 'completed'
+      ? session.size
+      : parts.reduce((sum, part) => sum + part.size, 0),
+    expiresAt: session.expiresAt,
+    ...(session.result && { result: session.result }),
+    ...(session.error && { error: session.error }),
+  };
+}
+
+/**
+ * Helper: Expiry for a session touched at the given time
+ */
+function expiryFrom(date: Date): Date {
+  return new Date(date.getTime() + UPLOAD_LIMITS.sessionTtlHours * 60 * 60 * 1000);
+}
+
+/**
+ * Helper: ZIP archives go to the archive import instead of a file pipeline
+ */
+function isZipUpload(filename: string, contentType?: string): boolean {
+  return (
+    contentType === 'application/zip' ||
+    contentType === 'application/x-zip-compressed' ||
+    filename.toLowerCase().endsWith('.zip')
+  );
+}
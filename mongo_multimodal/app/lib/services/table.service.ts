@@ -0,0 +1,383 @@
+/**
+ * Table Service
+ * Stores CSV/XLSX rows as typed documents next to their text chunks and answers
+ * structured queries (filters, group-bys, aggregates) over them with Mongo aggregations
+ */
+
+import { Db, Document, ObjectId } from 'mongodb';
+import { DataTable, TableRow } from '../../types/models';
+import { ColumnType, TableColumn, coerceValue, inferTableSchema } from '../table-schema';
+
+const TABLES_COLLECTION = 'tables';
+const TABLE_ROWS_COLLECTION = 'tableRows';
+
+const INSERT_BATCH_SIZE = 1000;
+
+export const TABLE_QUERY_LIMITS = {
+  defaultLimit: 50,
+  maxLimit: 500,
+};
+
+export type TableFilterOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'contains' | 'isNull' | 'notNull';
+
+export type TableAggregateFunction = 'count' | 'countDistinct' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface TableFilter {
+  column: string;
+  op: TableFilterOperator;
+  value?: unknown; // an array for 'in'; ignored for isNull/notNull
+}
+
+export interface TableAggregate {
+  fn: TableAggregateFunction;
+  column?: string; // not needed for count
+  as?: string; // output field name, defaults to e.g. "sum_amount"
+}
+
+export interface TableQuery {
+  table: string; // table id or filename (case-insensitive)
+  sheet?: string; // XLSX sheet name when the file has several
+  filters?: TableFilter[];
+  groupBy?: string[];
+  aggregates?: TableAggregate[];
+  columns?: string[]; // columns to return when not aggregating (default: all)
+  sort?: { by: string; direction?: 'asc' | 'desc' }; // a column, group-by column or aggregate name
+  limit?: number;
+}
+
+// A field of the result rows: where the pipeline puts it, and what the caller sees
+interface TableOutput {
+  key: string;
+  name: string;
+}
+
+export interface TableQueryResult {
+  table: { id: string; filename: string; sheetName?: string; rowCount: number };
+  matchedRows: number; // rows passing the filters
+  rows: Array<Record<string, unknown>>;
+  truncated: boolean; // more rows or groups than the limit
+}
+
+/**
+ * Create the indexes used by table lookups and queries
+ */
+export async function ensureTableIndexes(db: Db): Promise<void> {
+  await db.collection(TABLES_COLLECTION).createIndex({ projectId: 1, filename: 1 });
+  await db.collection(TABLE_ROWS_COLLECTION).createIndex({ tableId: 1, rowNumber: 1 });
+}
+
+/**
+ * Infer a schema for parsed rows and store them as a queryable table
+ */
+export async function storeTable(
+  db: Db,
+  projectId: string,
+  table: {
+    parentId: ObjectId;
+    filename: string;
+    sheetName?: string;
+    headers: string[];
+    rows: string[][];
+    sourceHash: string;
+  }
+): Promise<DataTable> {
+  const columns = inferTableSchema(table.headers, table.rows);
+
+  const dataTable: DataTable = {
+    _id: new ObjectId(),
+    projectId: new ObjectId(projectId),
+    parentId: table.parentId,
+    filename: table.filename,
+    ...(table.sheetName && { sheetName: table.sheetName }),
+    columns,
+    rowCount: table.rows.length,
+    sourceHash: table.sourceHash,
+    createdAt: new Date(),
+  };
+  await db.collection<DataTable>(TABLES_COLLECTION).insertOne(dataTable);
+
+  for (let start = 0; start < table.rows.length; start += INSERT_BATCH_SIZE) {
+    const batch: TableRow[] = table.rows.slice(start, start + INSERT_BATCH_SIZE).map((row, i) => ({
+      _id: new ObjectId(),
+      tableId: dataTable._id,
+      projectId: dataTable.projectId,
+      rowNumber: start + i + 1,
+      values: Object.fromEntries(columns.map((column, c) => [column.key, coerceValue(row[c], column.type)])),
+    }));
+    await db.collection<TableRow>(TABLE_ROWS_COLLECTION).insertMany(batch);
+  }
+
+  return dataTable;
+}
+
+/**
+ * List the tables of a project with their schemas
+ */
+export async function listTables(db: Db, projectId: string): Promise<DataTable[]> {
+  return db.collection<DataTable>(TABLES_COLLECTION)
+    .find({ projectId: new ObjectId(projectId) })
+    .sort({ filename: 1, sheetName: 1 })
+    .toArray();
+}
+
+/**
+ * Delete tables and their rows (when the items they came from are replaced)
+ */
+export async function deleteTables(db: Db, tableIds: ObjectId[]): Promise<void> {
+  if (tableIds.length === 0) return;
+  await db.collection(TABLE_ROWS_COLLECTION).deleteMany({ tableId: { $in: tableIds } });
+  await db.collection(TABLES_COLLECTION).deleteMany({ _id: { $in: tableIds } });
+}
+
+/**
+ * Delete the tables built for the given parentIds (when an upload fails part-way)
+ */
+export async function deleteTablesOf(db: Db, parentIds: ObjectId[]): Promise<void> {
+  const tables = await db.collection<DataTable>(TABLES_COLLECTION)
+    .find({ parentId: { $in: parentIds } })
+    .project<{ _id: ObjectId }>({ _id: 1 })
+    .toArray();
+  await deleteTables(db, tables.map((table) => table._id));
+}
+
+/**
+ * Run a structured query over a stored table
+ * Without aggregates or groupBy the matching rows are returned; otherwise one row per group
+ * @throws Error naming the available tables or columns when a reference does not match
+ */
+export async function queryTable(db: Db, projectId: string, query: TableQuery): Promise<TableQueryResult> {
+  const table = await resolveTable(db, projectId, query.table, query.sheet);
+  const limit = Math.min(Math.max(Math.floor(query.limit || TABLE_QUERY_LIMITS.defaultLimit), 1), TABLE_QUERY_LIMITS.maxLimit);
+
+  // Filters on the same column all apply (e.g. a date range from gte and lt)
+  const conditions = (query.filters || []).map((filter) => {
+    const column = findColumn(table, filter.column);
+    return { [`values.${column.key}`]: buildCondition(column, filter) };
+  });
+  const match: Document = { tableId: table._id, ...(conditions.length > 0 && { $and: conditions }) };
+
+  const aggregating = (query.groupBy?.length || 0) > 0 || (query.aggregates?.length || 0) > 0;
+  const pipeline: Document[] = [{ $match: match }];
+  // Results are projected onto safe field names (headers may contain "." or "$") and renamed at the end
+  const outputs: TableOutput[] = [];
+
+  if (aggregating) {
+    const groupColumns = (query.groupBy || []).map((name) => findColumn(table, name));
+    const aggregates = query.aggregates?.length ? query.aggregates : [{ fn: 'count' as const }];
+
+    const group: Document = {
+      _id: Object.fromEntries(groupColumns.map((column) => [column.key, `$values.${column.key}`])),
+    };
+    const project: Document = { _id: 0 };
+    for (const column of groupColumns) {
+      project[column.key] = `$_id.${column.key}`;
+      outputs.push({ key: column.key, name: column.name });
+    }
+
+    aggregates.forEach((aggregate, index) => {
+      const column = aggregate.column ? findColumn(table, aggregate.column) : undefined;
+      const name = aggregate.as || (column ? `${aggregate.fn}_${column.name}` : aggregate.fn);
+      const field = `a${index}`;
+
+      if (aggregate.fn !== 'count' && !column) {
+        throw new Error(`${aggregate.fn} needs a column`);
+      }
+      if ((aggregate.fn === 'sum' || aggregate.fn === 'avg') && column!.type !== 'number') {
+        throw new Error(`${aggregate.fn} needs a number column, but "${column!.name}" is ${column!.type}`);
+      }
+
+      switch (aggregate.fn) {
+        case 'count':
+          // count(column) skips empty cells, like SQL
+          group[field] = column
+            ? { $sum: { $cond: [{ $eq: [{ $ifNull: [`$values.${column.key}`, null] }, null] }, 0, 1] } }
+            : { $sum: 1 };
+          project[field] = `$${field}`;
+          break;
+        case 'countDistinct':
+          group[field] = { $addToSet: `$values.${column!.key}` };
+          project[field] = { $size: { $setDifference: [`$${field}`, [null]] } };
+          break;
+        default:
+          group[field] = { [`$${aggregate.fn}`]: `$values.${column!.key}` };
+          project[field] = `$${field}`;
+      }
+      outputs.push({ key: field, name });
+    });
+
+    pipeline.push({ $group: group }, { $project: project });
+
+    if (query.sort) {
+      const sortOutput = outputs.find((output) => output.name === query.sort!.by);
+      if (!sortOutput) {
+        throw new Error(`Cannot sort by "${query.sort.by}". Sort by one of: ${outputs.map((output) => output.name).join(', ')}`);
+      }
+      pipeline.push({ $sort: { [sortOutput.key]: query.sort.direction === 'asc' ? 1 : -1 } });
+    } else if (groupColumns.length > 0) {
+      pipeline.push({ $sort: Object.fromEntries(groupColumns.map((column) => [column.key, 1])) });
+    }
+  } else {
+    const columns = query.columns?.length ? query.columns.map((name) => findColumn(table, name)) : table.columns;
+
+    const sortColumn = query.sort ? findColumn(table, query.sort.by) : null;
+    pipeline.push({
+      $sort: sortColumn
+        ? { [`values.${sortColumn.key}`]: query.sort!.direction === 'desc' ? -1 : 1, rowNumber: 1 }
+        : { rowNumber: 1 },
+    });
+    pipeline.push({
+      $project: {
+        _id: 0,
+        rowNumber: 1,
+        ...Object.fromEntries(columns.map((column) => [column.key, `$values.${column.key}`])),
+      },
+    });
+    outputs.push({ key: 'rowNumber', name: 'rowNumber' }, ...columns.map((column) => ({ key: column.key, name: column.name })));
+  }
+
+  const [result] = await db.collection(TABLE_ROWS_COLLECTION)
+    .aggregate<{ rows: Array<Record<string, unknown>>; matched: Array<{ n: number }> }>([
+      { $match: match },
+      {
+        $facet: {
+          rows: [...pipeline.slice(1), { $limit: limit + 1 }],
+          matched: [{ $count: 'n' }],
+        },
+      },
+    ])
+    .toArray();
+
+  const rows = result?.rows || [];
+  return {
+    table: {
+      id: table._id.toString(),
+      filename: table.filename,
+      ...(table.sheetName && { sheetName: table.sheetName }),
+      rowCount: table.rowCount,
+    },
+    matchedRows: result?.matched[0]?.n || 0,
+    rows: rows.slice(0, limit).map((row) => formatRow(row, outputs)),
+    truncated: rows.length > limit,
+  };
+}
+
+/**
+ * Helper: Find a table by id or filename (and sheet), listing the project's tables when none matches
+ */
+async function resolveTable(db: Db, projectId: string, reference: string, sheet?: string): Promise<DataTable> {
+  const tables = await listTables(db, projectId);
+  const wanted = reference.trim().toLowerCase();
+
+  const candidates = tables.filter((table) =>
+    table._id.toString() === reference.trim() || table.filename.toLowerCase() === wanted
+  );
+  const matches = sheet
+    ? candidates.filter((table) => table.sheetName?.toLowerCase() === sheet.trim().toLowerCase())
+    : candidates;
+
+  if (matches.length === 1) return matches[0];
+
+  if (matches.length > 1) {
+    const sheets = matches.map((table) => table.sheetName).filter(Boolean).join(', ');
+    throw new Error(`"${reference}" has several sheets; pass one of: ${sheets}`);
+  }
+
+  const available = tables.length > 0
+    ? tables.map((table) => (table.sheetName ? `${table.filename} (sheet ${table.sheetName})` : table.filename)).join(', ')
+    : 'none';
+  throw new Error(`No table "${reference}"${sheet ? ` with sheet "${sheet}"` : ''}. Available tables: ${available}`);
+}
+
+/**
+ * Helper: Find a column by name (case-insensitive)
+ */
+function findColumn(table: DataTable, name: string): TableColumn {
+  const wanted = name.trim().toLowerCase();
+  const column = table.columns.find((c) => c.name.toLowerCase() === wanted);
+  if (!column) {
+    throw new Error(`No column "${name}" in ${table.filename}. Columns: ${table.columns.map((c) => c.name).join(', ')}`);
+  }
+  return column;
+}
+
+/**
+ * Helper: Translate one filter into a condition on the column's stored values
+ */
+function buildCondition(column: TableColumn, filter: TableFilter): Document {
+  const coerce = (value: unknown) => {
+    const coerced = coerceValue(value, column.type);
+    if (coerced === null) {
+      throw new Error(`"${String(value)}" is not a valid ${column.type} for column "${column.name}"`);
+    }
+    return coerced;
+  };
+
+  switch (filter.op) {
+    case 'isNull':
+      return { $eq: null };
+    case 'notNull':
+      return { $ne: null };
+    case 'in': {
+      const values = Array.isArray(filter.value) ? filter.value : [filter.value];
+      return { $in: values.map(coerce) };
+    }
+    case 'contains':
+      if (column.type !== 'string') {
+        throw new Error(`contains needs a text column, but "${column.name}" is ${column.type}`);
+      }
+      return { $regex: escapeRegex(String(filter.value ?? '')), $options: 'i' };
+    case 'eq':
+      // Text matches ignore case, as people rarely know the exact casing
+      return column.type === 'string'
+        ? { $regex: `^${escapeRegex(String(filter.value ?? ''))}$`, $options: 'i' }
+        : { $eq: coerce(filter.value) };
+    case 'ne':
+      return { $ne: coerce(filter.value) };
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      if (!isOrderedType(column.type)) {
+        throw new Error(`${filter.op} needs a number, date or text column, but "${column.name}" is ${column.type}`);
+      }
+      return { [`$${filter.op}`]: coerce(filter.value) };
+    default:
+      throw new Error(`Unknown filter operator "${String(filter.op)}"`);
+  }
+}
+
+/**
+ * Helper: Column types that can be compared with gt/lt
+ */
+function isOrderedType(type: ColumnType): boolean {
+  return type === 'number' || type === 'date' || type === 'string';
+}
+
+/**
+ * Helper: A result row keyed by header and aggregate names, with dates as ISO strings and
+ * rounded averages, so results read well in JSON
+ */
+function formatRow(row: Record<string, unknown>, outputs: TableOutput[]): Record<string, unknown> {
+  return Object.fromEntries(
+    outputs
+      .filter(({ key }) => key in row)
+      .map(({ key, name }) => {
+        const value = row[key];
+        return [
+          name,
+          value instanceof Date
+            ? value.toISOString()
+            : typeof value === 'number' && !Number.isInteger(value)
+              ? Math.round(value * 1e6) / 1e6
+              : value,
+        ];
+      })
+  );
+}
+
+/**
+ * Helper: Escape a string for use inside a regular expression
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,283 @@
+/**
+ * Upload Validation Service
+ * Checks shared by every ingestion route: the real file type from its magic bytes and
+ * the project's allowed types and size limits, reported as structured per-file errors
+ */
+
+import { Db, ObjectId } from 'mongodb';
+import { isOfficeFile } from '../office-parser';
+import {
+  CATEGORY_FORMATS,
+  FileCategory,
+  SNIFF_BYTES,
+  SniffedFormat,
+  describeFormat,
+  formatMimeType,
+  sniffFormat,
+} from '../file-types';
+import { getIngestPipeline } from './chunking.service';
+import { Project, UploadPolicy } from '../../types/models';
+
+export type FileValidationCode =
+  | 'empty_file'
+  | 'unsupported_type' // not a type the app, or this endpoint, can ingest
+  | 'type_not_allowed' // excluded by the project's upload policy
+  | 'type_mismatch' // content does not match the file extension
+  | 'file_too_large';
+
+export interface FileValidationDetails {
+  filename: string;
+  category?: FileCategory;
+  detectedType?: string; // what the content turned out to be, e.g. "a PNG image"
+  allowedTypes?: FileCategory[];
+  maxBytes?: number;
+}
+
+export interface FileCheckOptions {
+  accept?: FileCategory[]; // categories the endpoint handles; every category when omitted
+  category?: FileCategory; // known from elsewhere (e.g. a ZIP Content-Type) instead of the extension
+  maxBytes?: number; // the endpoint's own size limit, on top of the project's
+}
+
+const STATUS_BY_CODE: Record<FileValidationCode, number> = {
+  empty_file: 400,
+  unsupported_type: 415,
+  type_not_allowed: 415,
+  type_mismatch: 415,
+  file_too_large: 413,
+};
+
+const CATEGORY_LABELS: Record<FileCategory, string> = {
+  image: 'image',
+  pdf: 'PDF',
+  text: 'text',
+  office: 'Office',
+  email: 'email',
+  archive: 'ZIP archive',
+};
+
+/**
+ * A file rejected before ingestion, with the HTTP status the upload endpoints answer with
+ */
+export class FileValidationError extends Error {
+  public status: number;
+
+  constructor(
+    message: string,
+    public code: FileValidationCode,
+    public details: FileValidationDetails
+  ) {
+    super(message);
+    this.name = 'FileValidationError';
+    this.status = STATUS_BY_CODE[code];
+  }
+
+  /**
+   * Error body of the upload endpoints: { error, code, filename, ...details }
+   */
+  toResponseBody(): { error: string; code: FileValidationCode } & FileValidationDetails {
+    return { error: this.message, code: this.code, ...this.details };
+  }
+}
+
+/**
+ * Load a project's upload policy (no restrictions when the project has none)
+ */
+export async function getUploadPolicy(db: Db, projectId: string): Promise<UploadPolicy> {
+  const project = await db.collection<Project>('projects').findOne(
+    { _id: new ObjectId(projectId) },
+    { projection: { uploadPolicy: 1 } }
+  );
+  return project?.uploadPolicy || {};
+}
+
+/**
+ * Category of a file by its extension
+ * @returns null for extensions no pipeline handles
+ */
+export function getFileCategory(filename: string): FileCategory | null {
+  if (/\.zip$/i.test(filename)) return 'archive';
+  const type = getIngestPipeline(filename);
+  if (!type) return null;
+  if (type.pipeline === 'text') return isOfficeFile(filename, '') ? 'office' : 'text';
+  return type.pipeline;
+}
+
+/**
+ * Whether the project accepts files with this name at all
+ */
+export function isFileTypeAllowed(policy: UploadPolicy, filename: string): boolean {
+  const category = getFileCategory(filename);
+  return !!category && (!policy.allowedTypes || policy.allowedTypes.includes(category));
+}
+
+/**
+ * Check a file's name and size before its content is available (e.g. when a resumable upload starts)
+ * @param size - null when not known yet (streamed request bodies without a Content-Length)
+ * @throws FileValidationError
+ */
+export function checkFileMetadata(
+  policy: UploadPolicy,
+  filename: string,
+  size: number | null,
+  options: FileCheckOptions = {}
+): FileCategory {
+  if (size === 0) {
+    throw new FileValidationError('File is empty', 'empty_file', { filename });
+  }
+
+  const category = options.category || getFileCategory(filename);
+  if (!category) {
+    throw new FileValidationError(`Unsupported file type: ${filename}`, 'unsupported_type', {
+      filename,
+      allowedTypes: options.accept,
+    });
+  }
+
+  checkCategory(policy, filename, category, options);
+  if (size !== null) checkSize(policy, filename, category, size, options);
+  return category;
+}
+
+/**
+ * Check a file against its first bytes (see SNIFF_BYTES) and the project's policy
+ * A file without a known extension is accepted by its content (e.g. a pasted screenshot)
+ * @returns the file's category and the MIME type its content shows
+ * @throws FileValidationError
+ */
+export function checkFileContent(
+  policy: UploadPolicy,
+  filename: string,
+  size: number,
+  header: Uint8Array,
+  options: FileCheckOptions = {}
+): { category: FileCategory; mimeType: string } {
+  if (size === 0) {
+    throw new FileValidationError('File is empty', 'empty_file', { filename });
+  }
+
+  const format = sniffFormat(header.subarray(0, SNIFF_BYTES));
+  const category = options.category || getFileCategory(filename) || categoryOfFormat(format);
+  if (!category) {
+    throw new FileValidationError(`Unsupported file type: ${filename}`, 'unsupported_type', {
+      filename,
+      detectedType: describeFormat(format),
+      allowedTypes: options.accept,
+    });
+  }
+
+  checkCategory(policy, filename, category, options);
+  checkSize(policy, filename, category, size, options);
+
+  if (!CATEGORY_FORMATS[category].includes(format)) {
+    throw new FileValidationError(
+      `${filename} is ${describeFormat(format)}, not a valid ${CATEGORY_LABELS[category]} file`,
+      'type_mismatch',
+      { filename, category, detectedType: describeFormat(format) }
+    );
+  }
+
+  // Images keep the format they really are; other types take the MIME type of their extension
+  const mimeType = category === 'image' || category === 'pdf'
+    ? formatMimeType(format)!
+    : getIngestPipeline(filename)?.mimeType || formatMimeType(format) || 'application/octet-stream';
+
+  return { category, mimeType };
+}
+
+/**
+ * Validate an uploaded file against its content and the project's upload policy
+ * @returns the file, retyped with the MIME type its content shows, and its category
+ * @throws FileValidationError
+ */
+export async function validateUploadFile(
+  db: Db,
+  projectId: string,
+  file: File,
+  options: FileCheckOptions = {}
+): Promise<{ file: File; category: FileCategory }> {
+  const policy = await getUploadPolicy(db, projectId);
+  const header = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  const { category, mimeType } = checkFileContent(policy, file.name, file.size, header, options);
+
+  return {
+    file: file.type === mimeType
+      ? file
+      : new File([file], file.name, { type: mimeType, lastModified: file.lastModified }),
+    category,
+  };
+}
+
+/**
+ * Helper: Reject categories the endpoint or the project does not take
+ */
+function checkCategory(
+  policy: UploadPolicy,
+  filename: string,
+  category: FileCategory,
+  options: FileCheckOptions
+): void {
+  if (options.accept && !options.accept.includes(category)) {
+    throw new FileValidationError(
+      `Invalid file type. Expected ${options.accept.map((c) => CATEGORY_LABELS[c]).join(' or ')} files`,
+      'unsupported_type',
+      { filename, category, allowedTypes: options.accept }
+    );
+  }
+
+  if (policy.allowedTypes && !policy.allowedTypes.includes(category)) {
+    throw new FileValidationError(
+      `${capitalize(CATEGORY_LABELS[category])} files are not allowed in this project`,
+      'type_not_allowed',
+      { filename, category, allowedTypes: policy.allowedTypes }
+    );
+  }
+}
+
+/**
+ * Helper: Reject files over the smallest of the endpoint, project and per-type limits
+ */
+function checkSize(
+  policy: UploadPolicy,
+  filename: string,
+  category: FileCategory,
+  size: number,
+  options: FileCheckOptions
+): void {
+  const limits = [options.maxBytes, policy.maxFileBytes, policy.maxBytesByType?.[category]]
+    .filter((limit): limit is number => typeof limit === 'number');
+  if (limits.length === 0) return;
+
+  const maxBytes = Math.min(...limits);
+  if (size > maxBytes) {
+    throw new FileValidationError(
+      `File size exceeds the ${formatMB(maxBytes)} limit for ${CATEGORY_LABELS[category]} files`,
+      'file_too_large',
+      { filename, category, maxBytes }
+    );
+  }
+}
+
+/**
+ * Helper: Category for a file without a known extension, from its content
+ */
+function categoryOfFormat(format: SniffedFormat): FileCategory | null {
+  for (const category of ['image', 'pdf', 'text'] as const) {
+    if (CATEGORY_FORMATS[category].includes(format)) return category;
+  }
+  return null;
+}
+
+/**
+ * Helper: "20MB", or "512KB" for small limits
+ */
+function formatMB(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / 1024 / 1024)}MB` : `${Math.round(bytes / 1024)}KB`;
+}
+
+/**
+ * Helper: Upper-case the first letter
+ */
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
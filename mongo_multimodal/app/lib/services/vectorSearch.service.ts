@@ -3,15 +3,67 @@
  * Consolidates all vector search operations with consistent configuration
  */
 
-import { Db, ObjectId } from 'mongodb';
-import { generateMultimodalEmbedding } from '../voyageai';
+import { Db, Document, ObjectId } from 'mongodb';
+import { EmbeddingInput, generateMultimodalEmbedding } from '../embeddings';
 import { generateLLMResponse } from '../claude';
+import { hydrateBinaryContent } from './fileStorage.service';
+import { getActiveEmbedding, modelFilter } from './embeddingModel.service';
+import { getReranker, rerankDocuments } from '../rerankers';
 
 export interface VectorSearchConfig {
   limit: number;
   numCandidates: number;
   similarityThreshold: number;
   exact?: boolean;
+  fusion?: FusionWeights; // hybrid searches: how keyword and vector rankings are combined
+  rerank?: RerankConfig; // rescore the top hits when a reranker is configured (RERANK_PROVIDER)
+}
+
+// Second stage: the top hits are rescored by the reranker and reordered by that score
+export interface RerankConfig {
+  candidates: number; // hits rescored; searches over-fetch up to this many
+}
+
+// Reciprocal rank fusion: a hit scores weight / (k + rank) in each ranking it appears in
+export interface FusionWeights {
+  vector: number;
+  keyword: number;
+  k: number; // higher values flatten the advantage of top ranks
+}
+
+export type MatchSource = 'keyword' | 'vector' | 'both';
+
+// Text and an image embedded together as one query, e.g. a photo and "but at night"
+export interface CombinedQuery {
+  text?: string;
+  image?: string; // base64 image bytes
+}
+
+// A string is the query text or image bytes, depending on the query type
+export type SearchQuery = string | CombinedQuery;
+
+// Restrict a project search; values within a field are alternatives, fields combine
+export interface SearchFilters {
+  types?: Array<'image' | 'document' | 'text_chunk' | 'web_chunk'>;
+  tags?: string[]; // items with any of these tags
+  filenames?: string[]; // source files (chunks carry their file's name)
+  mimeTypes?: string[];
+  createdFrom?: Date;
+  createdTo?: Date;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Counts over every hit of a search (not just the page), for narrowing it down
+export interface SearchFacets {
+  types: FacetCount[];
+  mimeTypes: FacetCount[];
+  tags: FacetCount[]; // the most common FACET_LIMIT
+  filenames: FacetCount[]; // the most common FACET_LIMIT
+  createdRange: { from: Date; to: Date } | null;
 }
 
 export interface SearchResult {
@@ -22,6 +74,14 @@ export interface SearchResult {
   analysis: { description: string; tags: string[]; insights: string[] };
   createdAt: string;
   score: number;
+  // Hybrid search only
+  source?: MatchSource; // which ranking(s) the hit came from
+  vectorScore?: number; // similarity to the query embedding
+  keywordScore?: number; // full-text relevance
+  fusedScore?: number; // reciprocal rank fusion score the results are sorted by
+  // Reranked searches only: relevance judged by the reranker, which the results are sorted by
+  // (score stays the retrieval score)
+  rerankScore?: number;
 }
 
 export interface PaginatedSearchResult {
@@ -31,6 +91,95 @@ export interface PaginatedSearchResult {
   limit: number;
   totalPages: number;
   timeTaken: number;
+  facets?: SearchFacets;
+}
+
+// Atlas Search full-text index over projectData, see ensureTextSearchIndex
+export const TEXT_INDEX_NAME = 'text_index';
+// Fields keyword search matches the query against
+const TEXT_SEARCH_PATHS = ['content.text', 'metadata.filename', 'analysis.description', 'analysis.tags', 'ocr.text'];
+// Exact identifier matches (part numbers, versions, file names) outrank word matches
+const IDENTIFIER_BOOST = 3;
+// Values listed for facets with many distinct values
+const FACET_LIMIT = 20;
+// Text of a hit the reranker reads (characters)
+const MAX_RERANK_TEXT = 4000;
+
+/**
+ * Create the full-text search index, or update it when its definition changed
+ * Text fields are indexed twice: as words, and as whole identifiers such as "PN-4432" or
+ * "report_v2.pdf" (split on whitespace and punctuation other than - _ . /)
+ */
+export async function ensureTextSearchIndex(db: Db): Promise<'created' | 'updated' | 'unchanged'> {
+  const textField = {
+    type: 'string',
+    analyzer: 'lucene.standard',
+    multi: { identifiers: { type: 'string', analyzer: 'identifiers' } },
+  };
+  const definition = {
+    analyzers: [
+      {
+        name: 'identifiers',
+        tokenizer: { type: 'regexSplit', pattern: '[^\\p{L}\\p{N}_./-]+' },
+        tokenFilters: [
+          { type: 'regex', pattern: '^[_./-]+|[_./-]+$', replacement: '', matches: 'all' },
+          { type: 'lowercase' },
+        ],
+      },
+    ],
+    mappings: {
+      dynamic: false,
+      fields: {
+        // Search filters
+        projectId: { type: 'objectId' },
+        type: { type: 'token' },
+        createdAt: { type: 'date' },
+        // Searched text; file names and tags are also filters
+        content: { type: 'document', fields: { text: textField } },
+        metadata: {
+          type: 'document',
+          fields: { filename: [textField, { type: 'token' }], mimeType: { type: 'token' } },
+        },
+        analysis: {
+          type: 'document',
+          fields: { description: textField, tags: [textField, { type: 'token' }] },
+        },
+        ocr: { type: 'document', fields: { text: textField } },
+      },
+    },
+  };
+
+  const collection = db.collection('projectData');
+  const [existing]: Document[] = await collection.listSearchIndexes(TEXT_INDEX_NAME).toArray();
+  if (!existing) {
+    await collection.createSearchIndex({ name: TEXT_INDEX_NAME, definition });
+    return 'created';
+  }
+  if (JSON.stringify(existing.latestDefinition) === JSON.stringify(definition)) {
+    return 'unchanged';
+  }
+  await collection.updateSearchIndex(TEXT_INDEX_NAME, definition);
+  return 'updated';
+}
+
+/**
+ * Fusion weights from SEARCH_VECTOR_WEIGHT, SEARCH_KEYWORD_WEIGHT and SEARCH_RRF_K
+ * (defaults 1, 1 and 60), with per-request overrides
+ * @throws Error for negative weights or both weights zero
+ */
+export function getFusionWeights(overrides: Partial<FusionWeights> = {}): FusionWeights {
+  const weights = {
+    vector: overrides.vector ?? envNumber('SEARCH_VECTOR_WEIGHT', 1),
+    keyword: overrides.keyword ?? envNumber('SEARCH_KEYWORD_WEIGHT', 1),
+    k: overrides.k ?? envNumber('SEARCH_RRF_K', 60),
+  };
+  if (weights.vector < 0 || weights.keyword < 0 || weights.k < 0) {
+    throw new Error('Fusion weights must not be negative');
+  }
+  if (weights.vector === 0 && weights.keyword === 0) {
+    throw new Error('At least one fusion weight must be positive');
+  }
+  return weights;
 }
 
 /**
@@ -43,24 +192,29 @@ function getSearchConfig(
   switch (searchType) {
     case 'paginated':
       return {
-        limit: 200, // Fetch more for pagination
+        limit: 200, // Fetch more for pagination (per ranking in hybrid search)
         numCandidates: 800, // 4x limit for good recall
         similarityThreshold: 0.3,
-        exact: false
+        exact: false,
+        fusion: getFusionWeights(),
+        rerank: { candidates: 50 } // The first pages
       };
     case 'analysis':
       return {
         limit: isProjectSpecific ? 2 : 10,
         numCandidates: isProjectSpecific ? 150 : 300,
         similarityThreshold: 0.2,
-        exact: false
+        exact: false,
+        rerank: { candidates: isProjectSpecific ? 20 : 40 }
       };
     case 'agent':
       return {
-        limit: 2,
+        limit: 20, // The agent reads at most 10 hits per call
         numCandidates: 150,
         similarityThreshold: 0.6,
-        exact: false
+        exact: false,
+        fusion: getFusionWeights(),
+        rerank: { candidates: 20 }
       };
   }
 }
@@ -68,36 +222,41 @@ function getSearchConfig(
 /**
  * Unified vector search function
  * Performs MongoDB Atlas vector search with configurable parameters
+ * With searchConfig.rerank and a reranker configured, text queries fetch that many hits above the
+ * threshold and return the best `limit` of them by rerank score
+ * @param queryType - How to read a string query; combined queries carry their own parts
  */
 export async function performVectorSearch(
   db: Db,
-  query: string,
+  query: SearchQuery,
   queryType: 'text' | 'image',
   searchConfig: VectorSearchConfig,
   projectId?: string
 ): Promise<SearchResult[]> {
-  // Generate query embedding
+  // Generate query embedding with the model the stored vectors come from
+  const active = await getActiveEmbedding(db);
   const queryEmbedding = await generateMultimodalEmbedding(
-    {
-      text: queryType === 'text' ? query : undefined,
-      base64: queryType === 'image' ? query : undefined
-    },
-    'query'
+    toEmbeddingInput(query, queryType),
+    'query',
+    active.provider
   );
+  const rerankQuery = searchConfig.rerank && rerankQueryText(query, queryType);
+  const limit = rerankQuery ? Math.max(searchConfig.limit, searchConfig.rerank!.candidates) : searchConfig.limit;
 
   // Build aggregation pipeline
   const pipeline: any[] = [
     {
       $vectorSearch: {
-        index: 'vector_index',
-        path: 'embedding',
+        index: active.index,
+        path: active.slot,
         queryVector: queryEmbedding,
         exact: searchConfig.exact || false,
-        limit: searchConfig.limit,
-        numCandidates: searchConfig.numCandidates,
-        ...(projectId && {
-          filter: { projectId: new ObjectId(projectId) }
-        })
+        limit,
+        numCandidates: Math.max(searchConfig.numCandidates, limit),
+        filter: {
+          ...modelFilter(active),
+          ...(projectId && { projectId: new ObjectId(projectId) })
+        }
       }
     },
     {
@@ -127,114 +286,355 @@ export async function performVectorSearch(
     .aggregate(pipeline)
     .toArray() as SearchResult[];
 
+  if (rerankQuery) {
+    return (await rerankResults(rerankQuery, results)).slice(0, searchConfig.limit);
+  }
   return results;
 }
 
 /**
- * Paginated vector search with text boosting
- * Used for Search Mode in the UI
+ * Paginated hybrid search: vector and full-text rankings merged by reciprocal rank fusion
+ * Used for Search Mode in the UI. Queries with an image only have the vector ranking (the text
+ * of a combined query describes the image rather than words to find).
+ * With a reranker configured, the top rerank.candidates hits of text queries are reordered by
+ * rerank score; pages beyond them keep the fused order.
+ * @param options - Filters applied inside both searches, fusion weights overriding the
+ *   configured ones (a zero weight skips that ranking), and the search context whose
+ *   settings apply ('agent' for the agent's search tool)
+ * @returns The page of results, with facet counts over all of them
+ * @throws Error for invalid fusion weights
  */
 export async function paginatedVectorSearch(
   db: Db,
   projectId: string,
-  query: string,
+  query: SearchQuery,
   type: 'text' | 'image',
   page: number,
-  limit: number
+  limit: number,
+  options: { weights?: Partial<FusionWeights>; filters?: SearchFilters; context?: 'paginated' | 'agent' } = {}
 ): Promise<PaginatedSearchResult> {
   const startTime = Date.now();
-  const config = getSearchConfig('paginated');
+  const config = getSearchConfig(options.context || 'paginated');
+  const fusion = options.weights ? getFusionWeights(options.weights) : config.fusion!;
+  const useVector = fusion.vector > 0;
+  const input = toEmbeddingInput(query, type);
+  const keywords = input.base64 ? '' : (input.text || '').trim();
+  const useKeyword = fusion.keyword > 0 && keywords.length > 0;
+  const rerankQuery = config.rerank && rerankQueryText(query, type);
+  if (!useVector && !useKeyword) {
+    throw new Error('Keyword search needs a text-only query; use a positive vector weight');
+  }
 
-  // Generate query embedding
-  const queryEmbedding = await generateMultimodalEmbedding(
-    { text: type === 'text' ? query : undefined, base64: type === 'image' ? query : undefined },
-    'query'
-  );
+  const branches: Document[][] = [];
 
-  // Tokenize query for text boosting
-  const tokens = (query || '')
-    .toLowerCase()
-    .split(/[^a-z0-9]+/)
-    .filter(t => t.length >= 3);
-
-  const textBoostExpressions = tokens.map((t) => ({
-    $cond: [
-      { $regexMatch: { input: '$analysis.description', regex: t, options: 'i' } },
-      0.05,
-      0,
-    ],
-  }));
+  if (useVector) {
+    // Generate query embedding with the model the stored vectors come from
+    const active = await getActiveEmbedding(db);
+    const queryEmbedding = await generateMultimodalEmbedding(
+      input,
+      'query',
+      active.provider
+    );
+
+    branches.push([
+      {
+        $vectorSearch: {
+          index: active.index,
+          path: active.slot,
+          queryVector: queryEmbedding,
+          filter: {
+            projectId: new ObjectId(projectId),
+            ...modelFilter(active),
+            ...filterQuery(options.filters),
+          },
+          limit: config.limit,
+          numCandidates: config.numCandidates,
+        },
+      },
+      { $project: { _id: 1, score: { $meta: 'vectorSearchScore' } } },
+      { $match: { score: { $gte: config.similarityThreshold } } },
+      ...rankStages('vector', fusion),
+    ]);
+  }
+
+  if (useKeyword) {
+    branches.push([
+      {
+        $search: {
+          index: TEXT_INDEX_NAME,
+          compound: {
+            filter: [
+              { equals: { path: 'projectId', value: new ObjectId(projectId) } },
+              ...filterClauses(options.filters),
+            ],
+            should: [
+              { text: { query: keywords, path: TEXT_SEARCH_PATHS } },
+              {
+                text: {
+                  query: keywords,
+                  path: TEXT_SEARCH_PATHS.map((path) => ({ value: path, multi: 'identifiers' })),
+                  score: { boost: { value: IDENTIFIER_BOOST } },
+                },
+              },
+            ],
+            minimumShouldMatch: 1,
+          },
+        },
+      },
+      { $limit: config.limit },
+      { $project: { _id: 1, score: { $meta: 'searchScore' } } },
+      ...rankStages('keyword', fusion),
+    ]);
+  }
 
-  const facetPipeline: any[] = [
+  // Positions on the page, and which of them the reranked candidates fill
+  const start = Math.max(0, (page - 1) * limit);
+  const end = start + limit;
+  const rerankWindow = rerankQuery ? config.rerank!.candidates : 0;
+  const pageFrom = Math.max(start, rerankWindow);
+  const itemStages: Document[] = [
     {
-      $vectorSearch: {
-        index: 'vector_index',
-        path: 'embedding',
-        queryVector: queryEmbedding,
-        filter: { projectId: new ObjectId(projectId) },
-        limit: config.limit,
-        numCandidates: config.numCandidates,
+      $lookup: {
+        from: 'projectData',
+        localField: '_id',
+        foreignField: '_id',
+        pipeline: [{ $project: { _id: 1, type: 1, content: 1, metadata: 1, analysis: 1, createdAt: 1 } }],
+        as: 'item',
       },
     },
+    { $unwind: '$item' },
+    { $replaceRoot: { newRoot: { $mergeObjects: ['$item', '$$ROOT'] } } },
+    { $project: { item: 0, facetFields: 0 } },
+  ];
+
+  // The first ranking runs on the collection, the other is unioned in; hits found by both merge
+  const [first, second] = branches;
+  const facetPipeline: Document[] = [
+    ...first,
+    ...(second ? [{ $unionWith: { coll: 'projectData', pipeline: second } }] : []),
     {
-      $project: {
-        _id: 1,
-        type: 1,
-        content: 1,
-        metadata: 1,
-        analysis: 1,
-        createdAt: 1,
-        score: { $meta: 'vectorSearchScore' },
+      $group: {
+        _id: '$_id',
+        vectorScore: { $max: '$vectorScore' },
+        keywordScore: { $max: '$keywordScore' },
+        fusedScore: { $sum: '$fusedScore' },
       },
     },
-    { $match: { score: { $gte: config.similarityThreshold } } },
-    ...(tokens.length > 0
-      ? [{
-          $addFields: {
-            textBoost: { $sum: textBoostExpressions },
-            finalScore: { $add: ['$score', { $sum: textBoostExpressions }] },
+    {
+      $addFields: {
+        source: {
+          $switch: {
+            branches: [
+              { case: { $and: [{ $gt: ['$vectorScore', null] }, { $gt: ['$keywordScore', null] }] }, then: 'both' },
+              { case: { $gt: ['$vectorScore', null] }, then: 'vector' },
+            ],
+            default: 'keyword',
           },
-        }]
-      : []),
-    { $sort: tokens.length > 0 ? { finalScore: -1 } : { score: -1 } },
+        },
+      },
+    },
+    { $sort: { fusedScore: -1, _id: 1 } },
+    // Fields the facets count
+    {
+      $lookup: {
+        from: 'projectData',
+        localField: '_id',
+        foreignField: '_id',
+        pipeline: [{ $project: { type: 1, 'metadata.filename': 1, 'metadata.mimeType': 1, 'analysis.tags': 1, createdAt: 1 } }],
+        as: 'facetFields',
+      },
+    },
+    { $unwind: '$facetFields' },
     {
       $facet: {
-        paginated: [
-          { $skip: Math.max(0, (page - 1) * limit) },
-          { $limit: limit },
-        ],
+        // Reranked hits come first, then the rest of the page in fused order
+        ...(rerankWindow > start && { candidates: [{ $limit: rerankWindow }, ...itemStages] }),
+        ...(end > pageFrom && { paginated: [{ $skip: pageFrom }, { $limit: end - pageFrom }, ...itemStages] }),
         total: [{ $count: 'total' }],
+        types: [{ $sortByCount: '$facetFields.type' }],
+        mimeTypes: [{ $sortByCount: '$facetFields.metadata.mimeType' }],
+        tags: [
+          { $unwind: '$facetFields.analysis.tags' },
+          { $sortByCount: '$facetFields.analysis.tags' },
+          { $limit: FACET_LIMIT },
+        ],
+        filenames: [{ $sortByCount: '$facetFields.metadata.filename' }, { $limit: FACET_LIMIT }],
+        createdRange: [
+          { $group: { _id: null, from: { $min: '$facetFields.createdAt' }, to: { $max: '$facetFields.createdAt' } } },
+        ],
       },
     },
   ];
 
   const facetResult = await db.collection('projectData').aggregate(facetPipeline).toArray();
-  const facet = facetResult[0] || { paginated: [], total: [] };
-  const results: SearchResult[] = facet.paginated;
+  const facet = facetResult[0] || { total: [] };
+  let results: SearchResult[] = facet.paginated || [];
+  if (facet.candidates) {
+    const reranked = await rerankResults(rerankQuery as string, facet.candidates);
+    results = [...reranked.slice(start, end), ...results];
+  }
   const total = facet.total?.[0]?.total || 0;
 
+  // Shown as a percentage: the fused score relative to ranking first in every list used
+  const bestScore = ((useVector ? fusion.vector : 0) + (useKeyword ? fusion.keyword : 0)) / (fusion.k + 1);
+
   const endTime = Date.now();
 
   return {
     results: results.map(result => ({
       ...result,
       content: result.type === 'image' ? { base64: undefined } : { text: result.content?.text },
+      score: Math.min(1, (result.fusedScore || 0) / bestScore),
     })),
     total,
     page,
     limit,
     totalPages: Math.ceil(total / limit),
     timeTaken: endTime - startTime,
+    facets: {
+      types: facetCounts(facet.types),
+      mimeTypes: facetCounts(facet.mimeTypes),
+      tags: facetCounts(facet.tags),
+      filenames: facetCounts(facet.filenames),
+      createdRange: facet.createdRange?.[0]
+        ? { from: facet.createdRange[0].from, to: facet.createdRange[0].to }
+        : null,
+    },
   };
 }
 
+/**
+ * Helper: What to embed for a query
+ */
+function toEmbeddingInput(query: SearchQuery, queryType: 'text' | 'image'): EmbeddingInput {
+  if (typeof query !== 'string') {
+    return { text: query.text?.trim() || undefined, base64: query.image || undefined };
+  }
+  return queryType === 'image' ? { base64: query } : { text: query };
+}
+
+/**
+ * Helper: The text to rerank by, when reranking is on and applies to the query
+ * Rerankers read text, so queries with an image keep their retrieval order
+ */
+function rerankQueryText(query: SearchQuery, queryType: 'text' | 'image'): string | undefined {
+  const input = toEmbeddingInput(query, queryType);
+  return !input.base64 && input.text?.trim() && getReranker() ? input.text.trim() : undefined;
+}
+
+/**
+ * Helper: Rescore hits with the reranker and sort them by rerank score (ties keep their order)
+ * When the reranker fails, the hits are returned as they were so the search still answers
+ */
+async function rerankResults(query: string, results: SearchResult[]): Promise<SearchResult[]> {
+  if (results.length === 0) return results;
+  try {
+    const scores = await rerankDocuments(query, results.map(rerankText));
+    return results
+      .map((result, i) => ({ ...result, rerankScore: scores[i] }))
+      .sort((a, b) => b.rerankScore - a.rerankScore);
+  } catch (error) {
+    console.warn('[Search] Reranking failed, keeping the retrieval order:', error);
+    return results;
+  }
+}
+
+/**
+ * Helper: What the reranker reads of a hit: its file name, analysis and text (never image bytes)
+ */
+function rerankText(result: SearchResult): string {
+  return [
+    result.metadata?.filename,
+    result.analysis?.description,
+    result.analysis?.tags?.join(', '),
+    result.content?.text,
+  ]
+    .filter(Boolean)
+    .join('\n')
+    .slice(0, MAX_RERANK_TEXT);
+}
+
+/**
+ * Helper: Search filters as a $vectorSearch filter (MQL)
+ */
+function filterQuery(filters: SearchFilters = {}): Document {
+  const query: Document = {};
+  if (filters.types?.length) query.type = { $in: filters.types };
+  if (filters.tags?.length) query['analysis.tags'] = { $in: filters.tags };
+  if (filters.filenames?.length) query['metadata.filename'] = { $in: filters.filenames };
+  if (filters.mimeTypes?.length) query['metadata.mimeType'] = { $in: filters.mimeTypes };
+  if (filters.createdFrom || filters.createdTo) {
+    query.createdAt = {
+      ...(filters.createdFrom && { $gte: filters.createdFrom }),
+      ...(filters.createdTo && { $lte: filters.createdTo }),
+    };
+  }
+  return query;
+}
+
+/**
+ * Helper: Search filters as Atlas Search compound filter clauses
+ */
+function filterClauses(filters: SearchFilters = {}): Document[] {
+  const clauses: Document[] = [];
+  if (filters.types?.length) clauses.push({ in: { path: 'type', value: filters.types } });
+  if (filters.tags?.length) clauses.push({ in: { path: 'analysis.tags', value: filters.tags } });
+  if (filters.filenames?.length) clauses.push({ in: { path: 'metadata.filename', value: filters.filenames } });
+  if (filters.mimeTypes?.length) clauses.push({ in: { path: 'metadata.mimeType', value: filters.mimeTypes } });
+  if (filters.createdFrom || filters.createdTo) {
+    clauses.push({
+      range: {
+        path: 'createdAt',
+        ...(filters.createdFrom && { gte: filters.createdFrom }),
+        ...(filters.createdTo && { lte: filters.createdTo }),
+      },
+    });
+  }
+  return clauses;
+}
+
+/**
+ * Helper: $sortByCount output as facet counts (items without the field are left out)
+ */
+function facetCounts(buckets: Array<{ _id: unknown; count: number }> = []): FacetCount[] {
+  return buckets
+    .filter((bucket) => bucket._id !== null && bucket._id !== undefined && bucket._id !== '')
+    .map((bucket) => ({ value: String(bucket._id), count: bucket.count }));
+}
+
+/**
+ * Helper: Rank a search's hits (already sorted by score) and give each its fusion score
+ * Produces { _id, vectorScore | keywordScore, fusedScore }
+ */
+function rankStages(ranking: 'vector' | 'keyword', fusion: FusionWeights): Document[] {
+  return [
+    { $group: { _id: null, hits: { $push: '$$ROOT' } } },
+    { $unwind: { path: '$hits', includeArrayIndex: 'rank' } },
+    {
+      $project: {
+        _id: '$hits._id',
+        [`${ranking}Score`]: '$hits.score',
+        fusedScore: { $divide: [fusion[ranking], { $add: [fusion.k, '$rank', 1] }] },
+      },
+    },
+  ];
+}
+
+/**
+ * Helper: Numeric environment variable, or the fallback when unset or not a number
+ */
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+}
+
 /**
  * Vector search with LLM analysis
  * Used for legacy search mode with AI synthesis
  */
 export async function vectorSearchWithAnalysis(
   db: Db,
-  query: string,
+  query: SearchQuery,
   queryType: 'text' | 'image',
   projectId?: string,
   provider?: 'claude' | 'openai'
@@ -263,7 +663,9 @@ export async function vectorSearchWithAnalysis(
 
   // Generate LLM analysis
   const selectedProvider = provider || (process.env.LLM_FOR_ANALYSIS as 'claude' | 'openai') || 'claude';
-  const searchResults = results.map(result => ({
+  // Images stored in GridFS are loaded so the LLM can see them
+  const hydratedResults = await Promise.all(results.map(result => hydrateBinaryContent(db, result)));
+  const searchResults = hydratedResults.map(result => ({
     _id: result._id.toString(),
     type: result.type,
     content: result.content || { text: undefined, base64: undefined },
@@ -273,7 +675,8 @@ export async function vectorSearchWithAnalysis(
     score: result.score
   }));
 
-  const llmResponse = await generateLLMResponse(selectedProvider, query, searchResults, projectContext);
+  const question = typeof query === 'string' ? query : query.text || '';
+  const llmResponse = await generateLLMResponse(selectedProvider, question, searchResults, projectContext);
 
   return { results, analysis: llmResponse };
 }
@@ -0,0 +1,520 @@
+/**
+ * Web Source Service
+ * Web pages registered for scheduled re-scraping, with chunk-level change detection
+ * and a version history per page
+ */
+
+import { Db, ObjectId } from 'mongodb';
+import { scrapeWebsite, normalizeURL, validateURL } from '../web-scraper';
+import { chunkMarkdown, TextChunk } from '../text-chunker';
+import { buildWebChunkItem, chunkScrapedPage, hashScrapedPage } from './chunking.service';
+import { cancelItemJobs, enqueueIngestionJobs, enqueueJobs } from './jobQueue.service';
+import { hashContent } from './dedup.service';
+import { assertValidProjectData } from '../validations';
+import { WebSource, WebSourceVersion } from '../../types/models';
+
+const SOURCES_COLLECTION = 'webSources';
+const VERSIONS_COLLECTION = 'webSourceVersions';
+
+export const REFRESH_INTERVAL_LIMITS = {
+  minHours: 1,
+  maxHours: 24 * 90,
+  defaultHours: 24,
+};
+
+// Sections returned per side when diffing two versions
+const MAX_DIFF_SECTIONS = 10;
+const DIFF_EXCERPT_CHARS = 400;
+
+export interface RefreshResult {
+  status: 'unchanged' | 'updated' | 'missing';
+  version?: number;
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface SectionChange {
+  section: string; // heading path, or chunk position when the page has no headings
+  before?: string;
+  after?: string;
+}
+
+export interface PageChanges {
+  url: string;
+  title?: string;
+  from: { version: number; fetchedAt: Date };
+  to: { version: number; fetchedAt: Date };
+  history: Array<{ version: number; fetchedAt: Date; changes: WebSourceVersion['changes'] }>;
+  added: SectionChange[];
+  removed: SectionChange[];
+  modified: SectionChange[];
+  lastCheckedAt?: Date;
+}
+
+/**
+ * Create the indexes used by the scheduler and the web sources endpoints
+ */
+export async function ensureWebSourceIndexes(db: Db): Promise<void> {
+  const sources = db.collection(SOURCES_COLLECTION);
+  await sources.createIndex({ projectId: 1, url: 1 }, { unique: true });
+  await sources.createIndex({ enabled: 1, nextRefreshAt: 1 });
+
+  await db.collection(VERSIONS_COLLECTION).createIndex({ sourceId: 1, version: -1 });
+}
+
+/**
+ * Register a page for scheduled refreshes, or update the interval of an existing one
+ * The first refresh is queued immediately; it links items already ingested from the URL
+ */
+export async function registerWebSource(
+  db: Db,
+  projectId: string,
+  url: string,
+  refreshIntervalHours: number = REFRESH_INTERVAL_LIMITS.defaultHours
+): Promise<WebSource> {
+  const normalizedUrl = normalizeURL(url);
+  if (!validateURL(normalizedUrl)) {
+    throw new Error('Invalid URL format');
+  }
+
+  const now = new Date();
+  const source = await db.collection<WebSource>(SOURCES_COLLECTION).findOneAndUpdate(
+    { projectId: new ObjectId(projectId), url: normalizedUrl },
+    {
+      $set: {
+        refreshIntervalHours: clampInterval(refreshIntervalHours),
+        enabled: true,
+        updatedAt: now,
+      },
+      $setOnInsert: {
+        nextRefreshAt: now,
+        lastStatus: 'pending',
+        version: 0,
+        createdAt: now,
+      },
+    },
+    { upsert: true, returnDocument: 'after' }
+  );
+
+  if (!source) {
+    throw new Error('Failed to register web source');
+  }
+
+  if (source.version === 0) {
+    await enqueueJobs(db, projectId, [{ type: 'refresh', dataId: source._id }]);
+  }
+
+  return source;
+}
+
+/**
+ * List the web sources of a project
+ */
+export async function listWebSources(db: Db, projectId: string): Promise<WebSource[]> {
+  return db.collection<WebSource>(SOURCES_COLLECTION)
+    .find({ projectId: new ObjectId(projectId) })
+    .sort({ createdAt: -1 })
+    .toArray();
+}
+
+/**
+ * Fetch one web source of a project
+ */
+export async function getWebSource(
+  db: Db,
+  projectId: string,
+  sourceId: string
+): Promise<WebSource | null> {
+  if (!ObjectId.isValid(sourceId)) return null;
+
+  return db.collection<WebSource>(SOURCES_COLLECTION).findOne({
+    _id: new ObjectId(sourceId),
+    projectId: new ObjectId(projectId),
+  });
+}
+
+/**
+ * Version history of a web source, newest first, without the page snapshots
+ */
+export async function listWebSourceVersions(
+  db: Db,
+  sourceId: ObjectId,
+  limit: number = 50
+): Promise<Omit<WebSourceVersion, 'markdown'>[]> {
+  return db.collection<WebSourceVersion>(VERSIONS_COLLECTION)
+    .find({ sourceId })
+    .project<Omit<WebSourceVersion, 'markdown'>>({ markdown: 0 })
+    .sort({ version: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+/**
+ * Change the refresh interval or pause/resume a web source
+ */
+export async function updateWebSource(
+  db: Db,
+  projectId: string,
+  sourceId: string,
+  changes: { refreshIntervalHours?: number; enabled?: boolean }
+): Promise<WebSource | null> {
+  const source = await getWebSource(db, projectId, sourceId);
+  if (!source) return null;
+
+  const refreshIntervalHours = changes.refreshIntervalHours !== undefined
+    ? clampInterval(changes.refreshIntervalHours)
+    : source.refreshIntervalHours;
+
+  return db.collection<WebSource>(SOURCES_COLLECTION).findOneAndUpdate(
+    { _id: source._id },
+    {
+      $set: {
+        refreshIntervalHours,
+        ...(changes.enabled !== undefined && { enabled: changes.enabled }),
+        nextRefreshAt: nextRefreshAfter(source.lastCheckedAt || new Date(), refreshIntervalHours),
+        updatedAt: new Date(),
+      },
+    },
+    { returnDocument: 'after' }
+  );
+}
+
+/**
+ * Stop tracking a web source and drop its version history
+ * Items already ingested from the page are kept
+ */
+export async function deleteWebSource(db: Db, projectId: string, sourceId: string): Promise<boolean> {
+  const source = await getWebSource(db, projectId, sourceId);
+  if (!source) return false;
+
+  await cancelItemJobs(db, [source._id]);
+  await db.collection(VERSIONS_COLLECTION).deleteMany({ sourceId: source._id });
+  await db.collection(SOURCES_COLLECTION).deleteOne({ _id: source._id });
+
+  return true;
+}
+
+/**
+ * Queue a refresh now instead of waiting for the schedule
+ * @returns ID of the queued job, or null when one is already pending
+ */
+export async function requestRefresh(db: Db, source: WebSource): Promise<ObjectId | null> {
+  const [jobId] = await enqueueJobs(db, source.projectId.toString(), [{ type: 'refresh', dataId: source._id }]);
+  return jobId || null;
+}
+
+/**
+ * Queue refresh jobs for sources whose interval has elapsed
+ * Each source's next refresh is pushed forward as it is queued, so concurrent workers don't double-queue
+ * @returns Number of refreshes queued
+ */
+export async function scheduleDueRefreshes(db: Db): Promise<number> {
+  const sources = db.collection<WebSource>(SOURCES_COLLECTION);
+  const now = new Date();
+  const due = await sources
+    .find({ enabled: true, nextRefreshAt: { $lte: now } })
+    .limit(100)
+    .toArray();
+
+  let queued = 0;
+  for (const source of due) {
+    const claimed = await sources.updateOne(
+      { _id: source._id, nextRefreshAt: source.nextRefreshAt },
+      { $set: { nextRefreshAt: nextRefreshAfter(now, source.refreshIntervalHours) } }
+    );
+    if (claimed.modifiedCount === 0) continue;
+
+    const jobIds = await enqueueJobs(db, source.projectId.toString(), [{ type: 'refresh', dataId: source._id }]);
+    queued += jobIds.length;
+  }
+
+  return queued;
+}
+
+/**
+ * Whether any web source is waiting for scheduled refreshes
+ */
+export async function hasScheduledWebSources(db: Db): Promise<boolean> {
+  const count = await db.collection(SOURCES_COLLECTION).countDocuments({ enabled: true }, { limit: 1 });
+  return count > 0;
+}
+
+/**
+ * Re-scrape a web source and replace only the chunks whose content changed
+ * Unchanged chunks keep their embeddings; new chunks are queued for embedding.
+ * A version snapshot is stored whenever the page content differs from the last one.
+ * Throws when the page can't be fetched so the job is retried with backoff
+ */
+export async function refreshWebSource(db: Db, sourceId: string): Promise<RefreshResult> {
+  const sources = db.collection<WebSource>(SOURCES_COLLECTION);
+  const source = await sources.findOne({ _id: new ObjectId(sourceId) });
+  if (!source) {
+    return { status: 'missing', added: 0, removed: 0, unchanged: 0 };
+  }
+
+  const now = new Date();
+  const scraped = await scrapeWebsite(source.url);
+  if (!scraped.success || !scraped.text) {
+    const error = scraped.error || 'Could not extract content from page';
+    await sources.updateOne(
+      { _id: source._id },
+      { $set: { lastStatus: 'failed', lastError: error, lastCheckedAt: now, updatedAt: now } }
+    );
+    throw new Error(error);
+  }
+
+  const sourceHash = hashScrapedPage(scraped);
+  const chunks = chunkScrapedPage(scraped);
+  const projectId = source.projectId.toString();
+
+  const existing = await db.collection('projectData')
+    .find({ projectId: source.projectId, type: 'web_chunk', 'metadata.chunkInfo.sourceUrl': source.url })
+    .project<{
+      _id: ObjectId;
+      content?: { text?: string };
+      metadata?: { contentHash?: string; chunkInfo?: { parentId?: ObjectId } };
+    }>({ _id: 1, 'content.text': 1, 'metadata.contentHash': 1, 'metadata.chunkInfo.parentId': 1 })
+    .toArray();
+
+  const pageChanged = sourceHash !== source.sourceHash;
+  if (!pageChanged && existing.length > 0) {
+    await sources.updateOne(
+      { _id: source._id },
+      {
+        $set: {
+          lastStatus: 'unchanged',
+          lastCheckedAt: now,
+          nextRefreshAt: nextRefreshAfter(now, source.refreshIntervalHours),
+          updatedAt: now,
+        },
+        $unset: { lastError: '' },
+      }
+    );
+    return { status: 'unchanged', version: source.version, added: 0, removed: 0, unchanged: existing.length };
+  }
+
+  // Match new chunks to stored items by content hash
+  const storedByHash = new Map<string, ObjectId[]>();
+  for (const item of existing) {
+    const hash = item.metadata?.contentHash || hashContent(item.content?.text || '');
+    storedByHash.set(hash, [...(storedByHash.get(hash) || []), item._id]);
+  }
+
+  const parentId = existing[0]?.metadata?.chunkInfo?.parentId || new ObjectId();
+  const keptIds: ObjectId[] = [];
+  const newItems: ReturnType<typeof buildWebChunkItem>[] = [];
+
+  for (const chunk of chunks) {
+    const item = buildWebChunkItem(projectId, source.url, scraped, chunk, { parentId, sourceHash });
+    const match = storedByHash.get(item.metadata.contentHash)?.shift();
+
+    if (match) {
+      // Same text: keep the item and its embedding, refresh its position on the page
+      keptIds.push(match);
+      await db.collection('projectData').updateOne(
+        { _id: match },
+        {
+          $set: {
+            'metadata.filename': item.metadata.filename,
+            'metadata.sourceHash': sourceHash,
+            'metadata.chunkInfo.chunkIndex': chunk.chunkIndex,
+            'metadata.chunkInfo.totalChunks': chunk.totalChunks,
+            'metadata.chunkInfo.parentId': parentId,
+            'metadata.chunkInfo.headingPath': chunk.metadata.headingPath,
+            updatedAt: now,
+          },
+        }
+      );
+    } else {
+      assertValidProjectData(item);
+      newItems.push(item);
+    }
+  }
+
+  const removedIds = Array.from(storedByHash.values()).flat();
+  if (removedIds.length > 0) {
+    await cancelItemJobs(db, removedIds);
+    await db.collection('projectData').deleteMany({ _id: { $in: removedIds } });
+  }
+
+  let insertedIds: ObjectId[] = [];
+  if (newItems.length > 0) {
+    const result = await db.collection('projectData').insertMany(newItems);
+    insertedIds = Object.values(result.insertedIds);
+    await enqueueIngestionJobs(db, projectId, insertedIds.map((_id) => ({ _id, type: 'web_chunk' })));
+  }
+
+  const changes = { added: insertedIds.length, removed: removedIds.length, unchanged: keptIds.length };
+  let version = source.version;
+
+  if (pageChanged) {
+    version = source.version + 1;
+    await db.collection<WebSourceVersion>(VERSIONS_COLLECTION).insertOne({
+      _id: new ObjectId(),
+      sourceId: source._id,
+      projectId: source.projectId,
+      url: source.url,
+      version,
+      title: scraped.title,
+      sourceHash,
+      markdown: scraped.markdown || scraped.text,
+      changes,
+      fetchedAt: now,
+    });
+  }
+
+  const updated = changes.added > 0 || changes.removed > 0;
+  await sources.updateOne(
+    { _id: source._id },
+    {
+      $set: {
+        title: scraped.title || source.title,
+        sourceHash,
+        version,
+        lastStatus: updated ? 'updated' : 'unchanged',
+        lastCheckedAt: now,
+        ...(updated && { lastChangedAt: now }),
+        nextRefreshAt: nextRefreshAfter(now, source.refreshIntervalHours),
+        updatedAt: now,
+      },
+      $unset: { lastError: '' },
+    }
+  );
+
+  return { status: updated ? 'updated' : 'unchanged', version, ...changes };
+}
+
+/**
+ * Describe how a tracked page changed between the version current at `since` and the latest one
+ * @param since - Compare against the last version fetched at or before this date
+ *                (the oldest version when omitted or older than the history)
+ */
+export async function getPageChanges(
+  db: Db,
+  projectId: string,
+  url: string,
+  since?: Date
+): Promise<PageChanges | null> {
+  const source = await findSourceByUrl(db, projectId, url);
+  if (!source) return null;
+
+  const versions = db.collection<WebSourceVersion>(VERSIONS_COLLECTION);
+  const latest = await versions.findOne({ sourceId: source._id }, { sort: { version: -1 } });
+  if (!latest) return null;
+
+  const baseline =
+    (since && await versions.findOne(
+      { sourceId: source._id, fetchedAt: { $lte: since } },
+      { sort: { version: -1 } }
+    )) ||
+    await versions.findOne({ sourceId: source._id }, { sort: { version: 1 } });
+  if (!baseline) return null;
+
+  const history = await versions
+    .find({ sourceId: source._id, version: { $gt: baseline.version } })
+    .project<{ version: number; fetchedAt: Date; changes: WebSourceVersion['changes'] }>({
+      version: 1,
+      fetchedAt: 1,
+      changes: 1,
+    })
+    .sort({ version: 1 })
+    .toArray();
+
+  return {
+    url: source.url,
+    title: source.title,
+    from: { version: baseline.version, fetchedAt: baseline.fetchedAt },
+    to: { version: latest.version, fetchedAt: latest.fetchedAt },
+    history,
+    ...diffSnapshots(baseline.markdown, latest.markdown),
+    lastCheckedAt: source.lastCheckedAt,
+  };
+}
+
+/**
+ * Helper: Section-level diff of two page snapshots
+ * A section present on both sides under the same heading with different text counts as modified
+ */
+function diffSnapshots(before: string, after: string): Pick<PageChanges, 'added' | 'removed' | 'modified'> {
+  const oldChunks = chunkMarkdown(before, 'snapshot');
+  const newChunks = chunkMarkdown(after, 'snapshot');
+  const oldHashes = new Set(oldChunks.map((chunk) => hashContent(chunk.content)));
+  const newHashes = new Set(newChunks.map((chunk) => hashContent(chunk.content)));
+
+  const removedChunks = oldChunks.filter((chunk) => !newHashes.has(hashContent(chunk.content)));
+  const addedChunks = newChunks.filter((chunk) => !oldHashes.has(hashContent(chunk.content)));
+
+  const modified: SectionChange[] = [];
+  const removed: SectionChange[] = [];
+  const addedBySection = new Map<string, TextChunk[]>();
+  for (const chunk of addedChunks) {
+    const section = sectionLabel(chunk);
+    addedBySection.set(section, [...(addedBySection.get(section) || []), chunk]);
+  }
+
+  for (const chunk of removedChunks) {
+    const section = sectionLabel(chunk);
+    const replacement = addedBySection.get(section)?.shift();
+    if (replacement) {
+      modified.push({ section, before: excerpt(chunk.content), after: excerpt(replacement.content) });
+    } else {
+      removed.push({ section, before: excerpt(chunk.content) });
+    }
+  }
+
+  const added = Array.from(addedBySection.entries()).flatMap(([section, chunks]) =>
+    chunks.map((chunk) => ({ section, after: excerpt(chunk.content) }))
+  );
+
+  return {
+    added: added.slice(0, MAX_DIFF_SECTIONS),
+    removed: removed.slice(0, MAX_DIFF_SECTIONS),
+    modified: modified.slice(0, MAX_DIFF_SECTIONS),
+  };
+}
+
+/**
+ * Helper: Find a source by URL, tolerating a missing scheme or trailing slash
+ */
+async function findSourceByUrl(db: Db, projectId: string, url: string): Promise<WebSource | null> {
+  const normalized = normalizeURL(url.trim());
+  const variants = normalized.endsWith('/')
+    ? [normalized, normalized.slice(0, -1)]
+    : [normalized, `${normalized}/`];
+
+  return db.collection<WebSource>(SOURCES_COLLECTION).findOne({
+    projectId: new ObjectId(projectId),
+    url: { $in: variants },
+  });
+}
+
+/**
+ * Helper: Label a chunk by its heading path, or its position when the page has no headings
+ */
+function sectionLabel(chunk: TextChunk): string {
+  const path = chunk.metadata.headingPath;
+  return path && path.length > 0 ? path.join(' > ') : `Part ${chunk.chunkIndex + 1}`;
+}
+
+/**
+ * Helper: Shorten section text for diff output
+ */
+function excerpt(text: string): string {
+  return text.length > DIFF_EXCERPT_CHARS ? text.substring(0, DIFF_EXCERPT_CHARS) + '...' : text;
+}
+
+/**
+ * Helper: Keep refresh intervals within supported bounds
+ */
+function clampInterval(hours: number): number {
+  if (!Number.isFinite(hours)) return REFRESH_INTERVAL_LIMITS.defaultHours;
+  return Math.min(Math.max(hours, REFRESH_INTERVAL_LIMITS.minHours), REFRESH_INTERVAL_LIMITS.maxHours);
+}
+
+/**
+ * Helper: Time of the next scheduled refresh
+ */
+function nextRefreshAfter(from: Date, intervalHours: number): Date {
+  return new Date(from.getTime() + intervalHours * 60 * 60 * 1000);
+}
@@ -0,0 +1,172 @@
+/**
+ * Table Schema Inference
+ * Infers column types (number, date, boolean, string) for CSV and spreadsheet rows
+ * and converts cell text into typed values for storage
+ */
+
+export type ColumnType = 'number' | 'date' | 'boolean' | 'string';
+
+export interface TableColumn {
+  name: string; // header text (blank and repeated headers are made unique)
+  key: string; // field name the typed values are stored under
+  type: ColumnType;
+  nullCount: number; // empty or N/A cells
+  distinctCount: number; // capped at MAX_DISTINCT_TRACKED
+  min?: number | string; // numbers, or ISO dates for date columns
+  max?: number | string;
+  examples: string[]; // a few distinct raw values
+}
+
+const MAX_DISTINCT_TRACKED = 1000;
+const MAX_EXAMPLES = 3;
+
+const NULL_VALUES = new Set(['', 'na', 'n/a', 'null', 'none', '-', '--', 'nan']);
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, false: false, yes: true, no: false };
+
+// 1234, -12.5, 1,234,567.89, $1,200, 12.5%, 1e-3
+const NUMBER_PATTERN = /^[-+]?[$€£¥]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?%?$/;
+// 2025-03-04, 2025/03/04, 2025-03-04T10:00:00Z, 3/4/2025, 03-04-2025 10:00
+const DATE_PATTERN = /^(\d{4}[-/]\d{1,2}[-/]\d{1,2}|\d{1,2}[-/]\d{1,2}[-/]\d{4})([ T]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Infer the schema of a table from its header and data rows
+ * A column gets a non-string type only when every non-empty cell parses as that type
+ */
+export function inferTableSchema(headers: string[], rows: string[][]): TableColumn[] {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), headers.length);
+  const names = uniqueColumnNames(Array.from({ length: width }, (_, i) => headers[i] ?? ''));
+
+  return names.map((name, index) => {
+    const candidates = new Set<ColumnType>(['number', 'date', 'boolean']);
+    const distinct = new Set<string>();
+    const examples: string[] = [];
+    const range = { number: { min: Infinity, max: -Infinity }, date: { min: Infinity, max: -Infinity } };
+    let nullCount = 0;
+
+    for (const row of rows) {
+      const raw = (row[index] ?? '').trim();
+      if (isNullValue(raw)) {
+        nullCount++;
+        continue;
+      }
+
+      if (distinct.size < MAX_DISTINCT_TRACKED) distinct.add(raw);
+      if (examples.length < MAX_EXAMPLES && !examples.includes(raw)) examples.push(raw);
+
+      if (candidates.has('number')) {
+        const value = parseNumber(raw);
+        if (value === null) candidates.delete('number');
+        else trackRange(range.number, value);
+      }
+      if (candidates.has('date')) {
+        const value = parseDate(raw);
+        if (value === null) candidates.delete('date');
+        else trackRange(range.date, value.getTime());
+      }
+      if (candidates.has('boolean') && !(raw.toLowerCase() in BOOLEAN_VALUES)) candidates.delete('boolean');
+    }
+
+    // An empty column stays a string; otherwise the most specific surviving type wins
+    const type: ColumnType = distinct.size === 0
+      ? 'string'
+      : candidates.has('number') ? 'number'
+      : candidates.has('boolean') ? 'boolean'
+      : candidates.has('date') ? 'date'
+      : 'string';
+
+    const column: TableColumn = {
+      name,
+      key: `c${index}`,
+      type,
+      nullCount,
+      distinctCount: distinct.size,
+      examples,
+    };
+
+    if (type === 'number') {
+      column.min = range.number.min;
+      column.max = range.number.max;
+    } else if (type === 'date') {
+      column.min = new Date(range.date.min).toISOString();
+      column.max = new Date(range.date.max).toISOString();
+    }
+
+    return column;
+  });
+}
+
+/**
+ * Convert a cell to the typed value stored for its column
+ * @returns null for empty cells and cells that do not parse
+ */
+export function coerceValue(raw: unknown, type: ColumnType): number | Date | boolean | string | null {
+  if (raw === null || raw === undefined) return null;
+  if (typeof raw === 'number' && type === 'number') return raw;
+  if (typeof raw === 'boolean' && type === 'boolean') return raw;
+  if (raw instanceof Date && type === 'date') return raw;
+
+  const text = String(raw).trim();
+  if (isNullValue(text)) return null;
+
+  switch (type) {
+    case 'number':
+      return parseNumber(text);
+    case 'date':
+      return parseDate(text);
+    case 'boolean': {
+      const value = BOOLEAN_VALUES[text.toLowerCase()];
+      return value === undefined ? null : value;
+    }
+    default:
+      return text;
+  }
+}
+
+/**
+ * Helper: Widen a running min/max
+ */
+function trackRange(range: { min: number; max: number }, value: number): void {
+  if (value < range.min) range.min = value;
+  if (value > range.max) range.max = value;
+}
+
+/**
+ * Helper: Cells that count as missing values
+ */
+function isNullValue(raw: string): boolean {
+  return NULL_VALUES.has(raw.toLowerCase());
+}
+
+/**
+ * Helper: Parse a number, accepting thousands separators, a currency prefix and a percent suffix
+ */
+function parseNumber(raw: string): number | null {
+  if (!NUMBER_PATTERN.test(raw) || !/\d/.test(raw)) return null;
+  // Leading zeros mark identifiers (zip codes, part numbers), not quantities
+  if (/^[-+]?0\d/.test(raw)) return null;
+  const value = Number(raw.replace(/[$€£¥,%]/g, ''));
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Helper: Parse an ISO-like or slash-separated date
+ */
+function parseDate(raw: string): Date | null {
+  if (!DATE_PATTERN.test(raw)) return null;
+  const time = Date.parse(raw);
+  return Number.isNaN(time) ? null : new Date(time);
+}
+
+/**
+ * Helper: Name blank headers "column_N" and suffix repeated ones ("amount", "amount_2")
+ */
+function uniqueColumnNames(headers: string[]): string[] {
+  const seen = new Map<string, number>();
+
+  return headers.map((header, index) => {
+    const base = header.trim() || `column_${index + 1}`;
+    const count = (seen.get(base.toLowerCase()) || 0) + 1;
+    seen.set(base.toLowerCase(), count);
+    return count === 1 ? base : `${base}_${count}`;
+  });
+}
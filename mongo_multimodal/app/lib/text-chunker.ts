@@ -1,8 +1,12 @@
 /**
  * Text Chunking Utilities
- * Handles semantic chunking of text, CSV, and JSON files
+ * Handles semantic chunking of text, CSV, and JSON files,
+ * structure-aware chunking of Markdown and HTML, and time windows for transcripts
  */
 
+import { htmlToMarkdown } from './web-scraper';
+import { chunkTranscript, isTranscriptFile } from './transcript-parser';
+
 export interface TextChunk {
   content: string;
   chunkIndex: number;
@@ -11,16 +15,35 @@ export interface TextChunk {
     charStart: number;
     charEnd: number;
     estimatedTokens: number;
-    type: 'paragraph' | 'csv_rows' | 'json_section';
+    type:
+      | 'paragraph'
+      | 'section'
+      | 'csv_rows'
+      | 'json_section'
+      | 'pdf_page'
+      | 'docx_section'
+      | 'pptx_slide'
+      | 'xlsx_rows'
+      | 'transcript_window'
+      | 'email_message';
     originalFilename?: string;
     sourceType?: 'file' | 'web';
     rowStart?: number; // for CSV
     rowEnd?: number; // for CSV
     columns?: string[]; // for CSV
+    pageNumber?: number; // for PDF pages
+    slideNumber?: number; // for PPTX slides
+    sheetName?: string; // for XLSX sheets
+    headingPath?: string[]; // for Markdown/HTML sections, outermost heading first
+    startTime?: number; // for transcripts, seconds from the start of the recording
+    endTime?: number; // for transcripts
+    speakers?: string[]; // for transcripts, speaker labels in order of first appearance
+    jsonPath?: string; // for JSON, the record or subtree the chunk holds, e.g. $.orders[42].shipping
     csvMetadata?: {
       rowStart: number;
       rowEnd: number;
       columns: string[];
+      sheetName?: string;
     };
   };
 }
@@ -239,22 +262,162 @@ export function chunkCSV(
 }
 
 /**
- * Flatten JSON and chunk the result
- * Converts JSON to readable text format
+ * Parse CSV into a header and data rows
+ * Rows line up with the rowStart/rowEnd of chunkCSV chunks (row 1 is the first data row)
+ */
+export function parseCSVTable(csvContent: string): { headers: string[]; rows: string[][] } {
+  const lines = csvContent.split('\n').filter((line) => line.trim().length > 0);
+  if (lines.length === 0) {
+    return { headers: [], rows: [] };
+  }
+
+  return {
+    headers: parseCSVLine(lines[0]),
+    rows: lines.slice(1).map((line) => parseCSVLine(line.replace(/\r$/, ''))),
+  };
+}
+
+/**
+ * Path-aware chunking of JSON
+ * Arrays of records (the first arrays of objects below the root, as in API dumps) become
+ * one chunk per record; anything larger than maxTokens is split into subtrees. Each chunk
+ * lists "key.path: value" lines relative to its JSONPath, e.g. $.orders[42].shipping
  */
 export function chunkJSON(
   jsonContent: string,
   filename?: string,
   options: ChunkOptions = {}
 ): TextChunk[] {
+  let parsed: JSONValue;
   try {
-    const parsed = JSON.parse(jsonContent);
-    const flattened = flattenJSON(parsed);
-    return chunkText(flattened, filename, { ...options });
+    parsed = JSON.parse(jsonContent);
   } catch {
     // If parsing fails, treat as plain text
     return chunkText(jsonContent, filename, options);
   }
+
+  const { maxTokens = 2000 } = options;
+  const sections: JSONSection[] = [];
+  collectJSONSections(parsed, '$', false, maxTokens, sections);
+
+  let charStart = 0;
+  const chunks = sections.map((section, index) => {
+    const content = `${section.path}\n\n${section.lines.join('\n')}`;
+    const chunk: Omit<TextChunk, 'totalChunks'> = {
+      content,
+      chunkIndex: index,
+      metadata: {
+        charStart,
+        charEnd: charStart + content.length,
+        estimatedTokens: estimateTokens(content),
+        type: 'json_section',
+        originalFilename: filename,
+        sourceType: 'file',
+        jsonPath: section.path,
+      },
+    };
+    charStart += content.length;
+    return chunk;
+  });
+
+  return chunks.map((chunk) => ({
+    ...chunk,
+    totalChunks: chunks.length,
+  }));
+}
+
+/**
+ * Structure-aware chunking of Markdown
+ * Chunks never cross a heading boundary, fenced code blocks and tables are
+ * never split, and every chunk records the heading path it sits under
+ */
+export function chunkMarkdown(
+  markdown: string,
+  filename?: string,
+  options: ChunkOptions = {}
+): TextChunk[] {
+  const { maxTokens = 2000 } = options;
+  const blocks = parseMarkdownBlocks(markdown);
+
+  const chunks: Omit<TextChunk, 'totalChunks'>[] = [];
+  const headingStack: Array<{ level: number; text: string }> = [];
+  let headingPath: string[] = [];
+  let current: MarkdownBlock[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const prefix = headingPath.length > 0 ? headingPath.join(' > ') + '\n\n' : '';
+    const content = prefix + current.map((b) => b.text).join('\n\n');
+    chunks.push({
+      content,
+      chunkIndex: chunks.length,
+      metadata: {
+        charStart: current[0].start,
+        charEnd: current[current.length - 1].end,
+        estimatedTokens: estimateTokens(content),
+        type: 'section',
+        originalFilename: filename,
+        sourceType: 'file',
+        headingPath: [...headingPath],
+      },
+    });
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const block of blocks) {
+    if (block.kind === 'heading') {
+      flush();
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= block.level!) {
+        headingStack.pop();
+      }
+      headingStack.push({ level: block.level!, text: block.text });
+      headingPath = headingStack.map((h) => h.text);
+      continue;
+    }
+
+    const blockTokens = estimateTokens(block.text);
+
+    // Oversized prose is split by sentences; code and tables stay whole
+    if (block.kind === 'text' && blockTokens > maxTokens) {
+      flush();
+      for (const piece of chunkText(block.text, filename, options)) {
+        current = [{
+          ...block,
+          text: piece.content,
+          start: block.start + piece.metadata.charStart,
+          end: block.start + piece.metadata.charEnd,
+        }];
+        flush();
+      }
+      continue;
+    }
+
+    if (currentTokens + blockTokens > maxTokens && current.length > 0) {
+      flush();
+    }
+    current.push(block);
+    currentTokens += blockTokens;
+  }
+  flush();
+
+  return chunks.map((chunk) => ({
+    ...chunk,
+    totalChunks: chunks.length,
+  }));
+}
+
+/**
+ * Structure-aware chunking of HTML
+ * Converts headings, code, tables and prose to Markdown, then chunks by section
+ */
+export function chunkHTML(
+  html: string,
+  filename?: string,
+  options: ChunkOptions = {}
+): TextChunk[] {
+  return chunkMarkdown(htmlToMarkdown(html), filename, options);
 }
 
 /**
@@ -270,6 +433,12 @@ export function chunkFileContent(
     return chunkCSV(content, filename);
   } else if (mimeType === 'application/json' || filename.endsWith('.json')) {
     return chunkJSON(content, filename);
+  } else if (mimeType === 'text/markdown' || /\.(md|markdown)$/i.test(filename)) {
+    return chunkMarkdown(content, filename);
+  } else if (mimeType === 'text/html' || /\.html?$/i.test(filename)) {
+    return chunkHTML(content, filename);
+  } else if (isTranscriptFile(filename, mimeType)) {
+    return chunkTranscript(content, filename);
   } else {
     // Default to text chunking
     return chunkText(content, filename);
@@ -299,6 +468,135 @@ function createChunk(
   };
 }
 
+interface MarkdownBlock {
+  kind: 'heading' | 'code' | 'table' | 'text';
+  text: string;
+  level?: number; // for headings
+  start: number;
+  end: number;
+}
+
+/**
+ * Helper: Split Markdown into headings, fenced code, tables and prose blocks
+ */
+function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    offsets.push(offset);
+    offset += line.length + 1;
+  }
+  const lineEnd = (i: number) => offsets[i] + lines[i].length;
+
+  const blocks: MarkdownBlock[] = [];
+  const isTableSeparator = (line: string) => /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line);
+  const isTableStart = (i: number) =>
+    lines[i].includes('|') && i + 1 < lines.length && isTableSeparator(lines[i + 1]);
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim().length === 0) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block: keep everything up to the closing fence
+    const fence = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fence) {
+      const marker = fence[1];
+      let j = i + 1;
+      while (j < lines.length && !lines[j].trim().startsWith(marker)) {
+        j++;
+      }
+      const last = Math.min(j, lines.length - 1);
+      blocks.push({
+        kind: 'code',
+        text: lines.slice(i, last + 1).join('\n'),
+        start: offsets[i],
+        end: lineEnd(last),
+      });
+      i = last + 1;
+      continue;
+    }
+
+    // ATX heading
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      blocks.push({
+        kind: 'heading',
+        text: heading[2],
+        level: heading[1].length,
+        start: offsets[i],
+        end: lineEnd(i),
+      });
+      i++;
+      continue;
+    }
+
+    // Table: header row, separator row, then every following row with a pipe
+    if (isTableStart(i)) {
+      let j = i + 2;
+      while (j < lines.length && lines[j].includes('|') && lines[j].trim().length > 0) {
+        j++;
+      }
+      blocks.push({
+        kind: 'table',
+        text: lines.slice(i, j).join('\n'),
+        start: offsets[i],
+        end: lineEnd(j - 1),
+      });
+      i = j;
+      continue;
+    }
+
+    // Horizontal rule
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      i++;
+      continue;
+    }
+
+    // Prose (paragraphs and lists) up to the next blank line or structural block
+    let j = i + 1;
+    while (
+      j < lines.length &&
+      lines[j].trim().length > 0 &&
+      !/^\s{0,3}(#{1,6}\s|`{3,}|~{3,})/.test(lines[j]) &&
+      !isTableStart(j)
+    ) {
+      // Setext heading underline turns the paragraph into a heading
+      if (/^\s{0,3}(=+|-+)\s*$/.test(lines[j])) {
+        break;
+      }
+      j++;
+    }
+
+    if (j < lines.length && /^\s{0,3}(=+|-+)\s*$/.test(lines[j]) && j === i + 1) {
+      blocks.push({
+        kind: 'heading',
+        text: line.trim(),
+        level: lines[j].trim().startsWith('=') ? 1 : 2,
+        start: offsets[i],
+        end: lineEnd(j),
+      });
+      i = j + 1;
+      continue;
+    }
+
+    blocks.push({
+      kind: 'text',
+      text: lines.slice(i, j).join('\n').trim(),
+      start: offsets[i],
+      end: lineEnd(j - 1),
+    });
+    i = j;
+  }
+
+  return blocks;
+}
+
 /**
  * Helper: Parse CSV line handling quoted fields
  */
@@ -332,54 +630,155 @@ function parseCSVLine(line: string): string[] {
   return result;
 }
 
+type JSONValue = string | number | boolean | null | JSONValue[] | { [key: string]: JSONValue };
+
+interface JSONSection {
+  path: string; // JSONPath of the record, subtree or array slice
+  lines: string[];
+}
+
 /**
- * Helper: Flatten JSON to readable text
+ * Helper: Split a JSON value into sections of at most maxTokens, keyed by JSONPath
+ * Outside a record, arrays of objects are split per element and objects holding
+ * such arrays are split per key; inside a record only size forces a split
  */
-function flattenJSON(
-  obj: any,
-  prefix = '',
-  depth = 0
-): string {
-  const maxDepth = 5;
-  const lines: string[] = [];
-
-  if (depth > maxDepth) {
-    return '[max depth exceeded]';
+function collectJSONSections(
+  value: JSONValue,
+  path: string,
+  inRecord: boolean,
+  maxTokens: number,
+  out: JSONSection[]
+): void {
+  if (!inRecord && isRecordArray(value)) {
+    value.forEach((item, i) => collectJSONSections(item, `${path}[${i}]`, true, maxTokens, out));
+    return;
   }
 
-  if (typeof obj === 'string' || typeof obj === 'number' || typeof obj === 'boolean') {
-    return obj.toString();
+  const lines = renderJSONLines(value);
+  const holdsRecords = !inRecord && containsRecordArray(value);
+  if (!holdsRecords && estimateTokens(lines.join('\n')) <= maxTokens) {
+    out.push({ path, lines });
+    return;
   }
 
-  if (Array.isArray(obj)) {
-    if (obj.length === 0) {
-      return '[]';
-    }
-    // For arrays, show each item
-    for (let i = 0; i < obj.length; i++) {
-      const item = obj[i];
-      if (typeof item === 'object' && item !== null) {
-        lines.push(`${prefix}[${i}]:`);
-        lines.push(flattenJSON(item, prefix + '  ', depth + 1));
-      } else {
-        lines.push(`${prefix}[${i}]: ${item}`);
+  if (Array.isArray(value)) {
+    // Pack consecutive elements into slices such as $.values[0:40]
+    let group: string[] = [];
+    let groupTokens = 0;
+    let groupStart = 0;
+    const flush = (end: number) => {
+      if (group.length > 0) {
+        out.push({ path: end - groupStart === 1 ? `${path}[${groupStart}]` : `${path}[${groupStart}:${end}]`, lines: group });
       }
-    }
-    return lines.join('\n');
+      group = [];
+      groupTokens = 0;
+      groupStart = end;
+    };
+
+    value.forEach((item, i) => {
+      const itemText = renderJSONLines(item, `[${i}]`).join('\n');
+      const itemTokens = estimateTokens(`${itemText}\n`); // with its line break
+      if (itemTokens > maxTokens) {
+        flush(i);
+        collectJSONSections(item, `${path}[${i}]`, inRecord, maxTokens, out);
+        groupStart = i + 1;
+        return;
+      }
+      if (group.length > 0 && groupTokens + itemTokens > maxTokens) {
+        flush(i);
+      }
+      group.push(itemText);
+      groupTokens += itemTokens;
+    });
+    flush(value.length);
+    return;
   }
 
-  if (typeof obj === 'object' && obj !== null) {
-    for (const [key, value] of Object.entries(obj)) {
-      const newPrefix = prefix ? `${prefix}.${key}` : key;
-      if (typeof value === 'object' && value !== null) {
-        lines.push(`${newPrefix}:`);
-        lines.push(flattenJSON(value, newPrefix, depth + 1));
-      } else {
-        lines.push(`${newPrefix}: ${value}`);
+  if (value !== null && typeof value === 'object') {
+    // Keys that hold records or are too large get their own sections; the rest stay together
+    let group: string[] = [];
+    let groupTokens = 0;
+    const flush = () => {
+      if (group.length > 0) out.push({ path, lines: group });
+      group = [];
+      groupTokens = 0;
+    };
+
+    for (const [key, child] of Object.entries(value)) {
+      const childText = renderJSONLines(child, appendJSONKey('', key)).join('\n');
+      const childTokens = estimateTokens(`${childText}\n`);
+      if ((!inRecord && containsRecordArray(child)) || childTokens > maxTokens) {
+        collectJSONSections(child, appendJSONKey(path, key), inRecord, maxTokens, out);
+        continue;
+      }
+      if (group.length > 0 && groupTokens + childTokens > maxTokens) {
+        flush();
       }
+      group.push(childText);
+      groupTokens += childTokens;
     }
-    return lines.join('\n');
+    flush();
+    return;
   }
 
-  return String(obj);
+  // A single string longer than maxTokens
+  for (const chunk of chunkText(String(value), undefined, { maxTokens, minChunkSize: 0 })) {
+    out.push({ path, lines: [chunk.content] });
+  }
+}
+
+/**
+ * Helper: Render a JSON value as "key.path: value" lines relative to prefix
+ */
+function renderJSONLines(value: JSONValue, prefix = ''): string[] {
+  const line = (text: string) => (prefix ? `${prefix}: ${text}` : text);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [line('[]')];
+    // Lists of scalars stay on one line
+    if (!value.some(isJSONContainer)) return [line(value.map(String).join(', '))];
+    return value.flatMap((item, i) => renderJSONLines(item, `${prefix}[${i}]`));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return [line('{}')];
+    return entries.flatMap(([key, child]) => renderJSONLines(child, appendJSONKey(prefix, key)));
+  }
+
+  return [line(String(value))];
+}
+
+/**
+ * Helper: Append a key in JSONPath notation (bracket notation for keys that are not identifiers)
+ */
+function appendJSONKey(path: string, key: string): string {
+  if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+    return path ? `${path}.${key}` : key;
+  }
+  return `${path}['${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+}
+
+/**
+ * Helper: Objects and arrays
+ */
+function isJSONContainer(value: JSONValue): value is JSONValue[] | { [key: string]: JSONValue } {
+  return value !== null && typeof value === 'object';
+}
+
+/**
+ * Helper: A non-empty array whose elements are all objects, i.e. a list of records
+ */
+function isRecordArray(value: JSONValue): value is Array<{ [key: string]: JSONValue }> {
+  return Array.isArray(value) && value.length > 0 &&
+    value.every((item) => item !== null && typeof item === 'object' && !Array.isArray(item));
+}
+
+/**
+ * Helper: Whether a value is, or nests within a few levels, a list of records
+ */
+function containsRecordArray(value: JSONValue, depth = 0): boolean {
+  if (isRecordArray(value)) return true;
+  if (depth >= 4 || value === null || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.values(value).some((child) => containsRecordArray(child, depth + 1));
 }
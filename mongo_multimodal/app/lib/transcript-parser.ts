@@ -0,0 +1,233 @@
+/**
+ * Transcript Parsing
+ * Reads SRT and WebVTT subtitle files and chunks their cues into time windows
+ */
+
+import type { ChunkOptions, TextChunk } from './text-chunker';
+
+export type TranscriptFormat = 'srt' | 'vtt';
+
+export interface TranscriptCue {
+  startTime: number; // seconds from the start of the recording
+  endTime: number;
+  speaker?: string;
+  text: string;
+  charStart: number; // offsets of the cue block in the source file
+  charEnd: number;
+}
+
+export interface TranscriptChunkOptions extends ChunkOptions {
+  windowSeconds?: number; // default 120
+}
+
+const TRANSCRIPT_MIME_TYPES: Record<string, TranscriptFormat> = {
+  'text/vtt': 'vtt',
+  'application/x-subrip': 'srt',
+  'text/srt': 'srt',
+};
+
+// 00:14:32,120 (SRT) or 00:14:32.120 / 14:32.120 (VTT)
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+const TIMING_LINE = new RegExp(`^\\s*${TIMESTAMP.source}\\s*-->\\s*${TIMESTAMP.source}`);
+
+// "Alice:", "Dr. Smith:", "SPEAKER 2:" or ">> Bob:" at the start of a cue
+const SPEAKER_PREFIX = /^(?:>>\s*)?([A-Z][\w.'-]*(?:\s+[A-Z0-9][\w.'-]*){0,3}):\s+/;
+// A "Name:" prefix only counts as a speaker when it starts at least this many cues,
+// so one-off lines such as "Note: ..." or "Warning: ..." keep their text
+const MIN_SPEAKER_PREFIX_CUES = 2;
+
+/**
+ * Detect the transcript format of a file by MIME type or extension
+ */
+export function getTranscriptFormat(filename: string, mimeType: string): TranscriptFormat | null {
+  if (TRANSCRIPT_MIME_TYPES[mimeType]) {
+    return TRANSCRIPT_MIME_TYPES[mimeType];
+  }
+  const match = filename.toLowerCase().match(/\.(srt|vtt)$/);
+  return match ? (match[1] as TranscriptFormat) : null;
+}
+
+/**
+ * Check if a file is an SRT or WebVTT transcript
+ */
+export function isTranscriptFile(filename: string, mimeType: string): boolean {
+  return getTranscriptFormat(filename, mimeType) !== null;
+}
+
+/**
+ * Parse the cues of an SRT or WebVTT file
+ * Both formats are blank-line separated blocks around a "start --> end" timing line,
+ * so one parser handles them; VTT headers, NOTE, STYLE and REGION blocks have no timing line
+ */
+export function parseTranscriptCues(content: string): TranscriptCue[] {
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const cues: Array<TranscriptCue & { prefix?: RegExpMatchArray }> = [];
+
+  const blockPattern = /[^\n]+(?:\n[^\n]+)*/g;
+  let match: RegExpExecArray | null;
+  while ((match = blockPattern.exec(text)) !== null) {
+    const lines = match[0].split('\n');
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const timing = lines[timingIndex].match(TIMING_LINE);
+    if (!timing) continue;
+
+    const raw = lines.slice(timingIndex + 1).join('\n');
+    const { voice, text: cueText } = extractSpeaker(raw);
+    if (!cueText) continue;
+
+    cues.push({
+      startTime: toSeconds(timing.slice(1, 5)),
+      endTime: toSeconds(timing.slice(5, 9)),
+      speaker: voice,
+      text: cueText,
+      charStart: match.index,
+      charEnd: match.index + match[0].length,
+      prefix: voice ? undefined : cueText.match(SPEAKER_PREFIX) || undefined,
+    });
+  }
+
+  // Keep "Name:" prefixes that recur across cues as speakers
+  const prefixCounts = new Map<string, number>();
+  for (const cue of cues) {
+    if (cue.prefix) prefixCounts.set(cue.prefix[1], (prefixCounts.get(cue.prefix[1]) || 0) + 1);
+  }
+
+  return cues
+    .map(({ prefix, ...cue }) => {
+      if (!prefix || (prefixCounts.get(prefix[1]) || 0) < MIN_SPEAKER_PREFIX_CUES) return cue;
+      return { ...cue, speaker: prefix[1], text: cue.text.slice(prefix[0].length).trim() };
+    })
+    .filter((cue) => cue.text.length > 0)
+    .sort((a, b) => a.startTime - b.startTime);
+}
+
+/**
+ * Chunk a transcript into time windows
+ * Each chunk covers consecutive cues within windowSeconds (or maxTokens, whichever comes first),
+ * with one "[hh:mm:ss] Speaker: text" line per speaker turn
+ */
+export function chunkTranscript(
+  content: string,
+  filename?: string,
+  options: TranscriptChunkOptions = {}
+): TextChunk[] {
+  const { windowSeconds = 120, maxTokens = 2000 } = options;
+  const cues = parseTranscriptCues(content);
+
+  const chunks: Omit<TextChunk, 'totalChunks'>[] = [];
+  let current: TranscriptCue[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const body = formatTurns(current);
+    const speakers = [...new Set(current.map((cue) => cue.speaker).filter((s): s is string => !!s))];
+    chunks.push({
+      content: body,
+      chunkIndex: chunks.length,
+      metadata: {
+        charStart: current[0].charStart,
+        charEnd: current[current.length - 1].charEnd,
+        estimatedTokens: Math.ceil(body.length / 4),
+        type: 'transcript_window',
+        originalFilename: filename,
+        sourceType: 'file',
+        startTime: current[0].startTime,
+        endTime: Math.max(...current.map((cue) => cue.endTime)),
+        speakers: speakers.length > 0 ? speakers : undefined,
+      },
+    });
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const cue of cues) {
+    const cueTokens = Math.ceil(cue.text.length / 4);
+    if (
+      current.length > 0 &&
+      (cue.startTime - current[0].startTime >= windowSeconds || currentTokens + cueTokens > maxTokens)
+    ) {
+      flush();
+    }
+    current.push(cue);
+    currentTokens += cueTokens;
+  }
+  flush();
+
+  return chunks.map((chunk) => ({
+    ...chunk,
+    totalChunks: chunks.length,
+  }));
+}
+
+/**
+ * Format seconds as an hh:mm:ss timecode
+ */
+export function formatTimecode(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+}
+
+/**
+ * Helper: Join cues into speaker turns; consecutive cues by the same speaker share one line
+ */
+function formatTurns(cues: TranscriptCue[]): string {
+  const lines: string[] = [];
+  let previousSpeaker: string | undefined;
+
+  for (const cue of cues) {
+    if (lines.length > 0 && cue.speaker && cue.speaker === previousSpeaker) {
+      lines[lines.length - 1] += ` ${cue.text}`;
+      continue;
+    }
+    const label = cue.speaker ? `${cue.speaker}: ` : '';
+    lines.push(`[${formatTimecode(cue.startTime)}] ${label}${cue.text}`);
+    previousSpeaker = cue.speaker;
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Helper: Pull the speaker out of a cue's VTT <v Name> voice tag and strip markup from the text
+ * ("Name:" prefixes are judged across all cues by parseTranscriptCues)
+ */
+function extractSpeaker(raw: string): { voice?: string; text: string } {
+  const voice = raw.match(/<v(?:\.[^\s>]*)?\s+([^>]+)>/);
+
+  const text = decodeEntities(
+    raw
+      .replace(/<[^>]*>/g, '') // VTT voice/class/timestamp tags, SRT <i>/<font>
+      .replace(/\{\\[^}]*\}/g, '') // SRT positioning codes such as {\an8}
+      .replace(/\s*\n\s*/g, ' ')
+  ).trim();
+
+  return { voice: voice?.[1].trim(), text };
+}
+
+/**
+ * Helper: Decode the HTML entities allowed in cue text
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lrm;|&rlm;/g, '')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Helper: Convert captured [hours, minutes, seconds, fraction] groups to seconds
+ */
+function toSeconds([hours, minutes, seconds, fraction]: string[]): number {
+  return (
+    parseInt(hours || '0', 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    parseInt(fraction.padEnd(3, '0'), 10) / 1000
+  );
+}
@@ -1,4 +1,10 @@
 import { z } from 'zod';
+import { ObjectId } from 'mongodb';
+import { FILE_CATEGORIES } from './file-types';
+
+const objectIdSchema = z.custom<ObjectId>((value) => value instanceof ObjectId, {
+  message: 'Expected an ObjectId',
+});
 
 export const userSchema = z.object({
   email: z.string().email(),
@@ -13,29 +19,83 @@ export const projectSchema = z.object({
   sampleQuestions: z.array(z.string().min(1).max(200)).max(5).optional(),
 });
 
+export const uploadPolicySchema = z.object({
+  allowedTypes: z.array(z.enum(FILE_CATEGORIES)).min(1).optional(),
+  maxFileBytes: z.number().int().positive().optional(),
+  maxBytesByType: z.record(z.enum(FILE_CATEGORIES), z.number().int().positive()).optional(),
+});
+
+// Per-request overrides of the hybrid search fusion weights (see getFusionWeights)
+export const fusionWeightsSchema = z.object({
+  vector: z.number().min(0).optional(),
+  keyword: z.number().min(0).optional(),
+  k: z.number().min(0).optional(),
+}).refine((weights) => weights.vector !== 0 || weights.keyword !== 0, {
+  message: 'At least one fusion weight must be positive',
+});
+
+// Project search filters (see SearchFilters); dates as ISO strings
+export const searchFiltersSchema = z.object({
+  types: z.array(z.enum(['image', 'document', 'text_chunk', 'web_chunk'])).optional(),
+  tags: z.array(z.string().min(1)).max(50).optional(),
+  filenames: z.array(z.string().min(1)).max(50).optional(),
+  mimeTypes: z.array(z.string().min(1)).max(50).optional(),
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+});
+
+// A projectData document as stored, checked by the ingestion pipelines before insert
 export const projectDataSchema = z.object({
-  projectId: z.string(),
-  type: z.enum(['image', 'document']),
+  projectId: objectIdSchema,
+  type: z.enum(['image', 'document', 'text_chunk', 'web_chunk']),
   content: z.object({
     base64: z.string().optional(),
+    fileId: objectIdSchema.optional(),
     text: z.string().optional(),
-  }).refine(data => data.base64 || data.text, {
-    message: "Either base64 or text must be provided"
+  }).refine(data => data.base64 || data.fileId || data.text, {
+    message: "Either file bytes or text must be provided"
   }),
   metadata: z.object({
-    filename: z.string(),
+    filename: z.string().min(1),
     mimeType: z.string(),
-    size: z.number().positive(),
+    size: z.number().nonnegative(),
   }),
   analysis: z.object({
     description: z.string(),
     tags: z.array(z.string()),
     insights: z.array(z.string()),
   }),
-  // Embedding is optional at creation time; will be added during processing
-  embedding: z.array(z.number()).length(1024).optional(),
+  // Embedding is optional at creation time; will be added during processing.
+  // Its length depends on the embedding provider (EMBEDDING_DIMENSIONS)
+  embedding: z.array(z.number()).nonempty().optional(),
 });
 
+/**
+ * A projectData document that does not match projectDataSchema
+ */
+export class ProjectDataValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid item: ${issues.join('; ')}`);
+    this.name = 'ProjectDataValidationError';
+  }
+}
+
+/**
+ * Check a projectData document before it is inserted
+ * @throws ProjectDataValidationError listing every failed field
+ */
+export function assertValidProjectData(doc: unknown): void {
+  const result = projectDataSchema.safeParse(doc);
+  if (!result.success) {
+    throw new ProjectDataValidationError(
+      result.error.issues.map((issue) => `${issue.path.join('.') || 'item'}: ${issue.message}`)
+    );
+  }
+}
+
 export type CreateUserInput = z.infer<typeof userSchema>;
 export type CreateProjectInput = z.infer<typeof projectSchema>;
 export type CreateProjectDataInput = z.infer<typeof projectDataSchema>;
+export type UploadPolicyInput = z.infer<typeof uploadPolicySchema>;
+export type FusionWeightsInput = z.infer<typeof fusionWeightsSchema>;
+export type SearchFiltersInput = z.infer<typeof searchFiltersSchema>;
@@ -1,29 +1,21 @@
-const VOYAGE_API_URL = 'https://api.voyageai.com/v1/multimodalembeddings';
-
-interface VoyageAIInput {
-  inputs: Array<{
-    content: Array<TextContent | ImageContent>;
-  }>;
-  model: string;
-  input_type: 'query' | 'document';
-}
+/**
+ * Voyage AI Embeddings
+ * Multimodal embeddings from Voyage's HTTP API: text, an image, or both in one vector,
+ * for up to 1,000 inputs per request
+ */
 
-interface TextContent {
-  type: "text";
-  text: string;
-}
-
-interface ImageContent {
-  type: "image_base64";
-  image_base64: string;
-}
+import { EmbeddingRequestError, parseRetryAfter } from './embeddings';
+import type { EmbeddingInput, EmbeddingInputType, EmbeddingProvider } from './embeddings';
 
+const VOYAGE_API_URL = 'https://api.voyageai.com/v1/multimodalembeddings';
 
 interface VoyageAIInput {
   inputs: Array<{
     content: Array<TextContent | ImageContent>;
   }>;
   model: string;
+  input_type: 'query' | 'document';
+  output_dimension?: number;
 }
 
 interface TextContent {
@@ -55,35 +47,51 @@ interface Usage {
   total_tokens: number;
 }
 
-export async function generateMultimodalEmbedding(
-  content: { text?: string; base64?: string },
-  taskType: 'query' | 'document' = 'document'
-): Promise<number[]> {
-  if (!process.env.VOYAGE_API_KEY) {
-    throw new Error('VOYAGE_API_KEY is not set');
-  }
+export interface VoyageProviderConfig {
+  apiKey?: string; // default VOYAGE_API_KEY
+  model: string; // e.g. voyage-multimodal-3
+  dimensions: number;
+  outputDimension?: number; // only for models with a configurable output size
+}
 
-  const input: VoyageAIInput = {
-    model: 'voyage-multimodal-3',
-    inputs: [{ content: [] }],
-    input_type: taskType
+/**
+ * Embedding provider for Voyage's multimodal models
+ */
+export function createVoyageProvider(config: VoyageProviderConfig): EmbeddingProvider {
+  return {
+    name: 'voyage',
+    model: config.model,
+    dimensions: config.dimensions,
+    supportsImages: true,
+    // Per request: 1,000 inputs and 320K tokens, where every 560 image pixels count as a token;
+    // images may have up to 16M pixels
+    limits: { maxInputs: 1000, maxTokens: 320000, pixelsPerToken: 560, maxPixels: 16000000 },
+    embedBatch: (contents, inputType) => generateVoyageEmbeddings(config, contents, inputType),
   };
+}
 
-  if (content.text) {
-    input.inputs[0].content.push({
-      type: 'text',
-      text: content.text
-    });
+/**
+ * Helper: Embed each input (text and/or an image) in one request
+ * @returns one vector per input, in input order
+ */
+async function generateVoyageEmbeddings(
+  config: VoyageProviderConfig,
+  contents: EmbeddingInput[],
+  taskType: EmbeddingInputType
+): Promise<number[][]> {
+  const apiKey = config.apiKey || process.env.VOYAGE_API_KEY;
+  if (!apiKey) {
+    throw new Error('VOYAGE_API_KEY is not set');
   }
 
-  if (content.base64) {
-    input.inputs[0].content.push({
-      type: 'image_base64',
-      image_base64: "data:image/jpeg;base64,"+content.base64
-    });
-  }
+  const input: VoyageAIInput = {
+    model: config.model,
+    inputs: contents.map((content) => ({ content: toVoyageContent(content) })),
+    input_type: taskType,
+    ...(config.outputDimension && { output_dimension: config.outputDimension })
+  };
 
-  if (input.inputs[0].content.length === 0) {
+  if (input.inputs.some((item) => item.content.length === 0)) {
     throw new Error('No content provided');
   }
 
@@ -92,37 +100,52 @@ export async function generateMultimodalEmbedding(
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.VOYAGE_API_KEY}`
+        'Authorization': `Bearer ${apiKey}`
       },
       body: JSON.stringify(input)
     });
 
     if (!response.ok) {
-      const error = await response.json();
+      const error = await response.json().catch(() => ({}));
       console.error(error);
-      throw new Error(error.message || 'Failed to generate embedding');
+      throw new EmbeddingRequestError(
+        error.detail || error.message || 'Failed to generate embedding',
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
     }
 
     const result: VoyageAIResponse = await response.json();
 
-    // Combine embeddings if there are multiple inputs
-    if (result.data.length > 1) {
-      // Average the embeddings
-      const combined = new Array(result.data[0].embedding.length).fill(0);
-      for (const embedding of result.data) {
-        for (let i = 0; i < embedding.embedding.length; i++) {
-          combined[i] += embedding.embedding[i];
-        }
-      }
-      for (let i = 0; i < combined.length; i++) {
-        combined[i] /= result.data.length;
-      }
-      return combined;
-    }
-
-    return result.data[0].embedding;
+    // One embedding per input; `index` is its position in the request
+    return result.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
   } catch (error) {
     console.error('Error generating embedding:', error);
     throw error;
   }
 }
+
+/**
+ * Helper: Text and image parts of one input
+ */
+function toVoyageContent(content: EmbeddingInput): Array<TextContent | ImageContent> {
+  const parts: Array<TextContent | ImageContent> = [];
+
+  if (content.text) {
+    parts.push({
+      type: 'text',
+      text: content.text
+    });
+  }
+
+  if (content.base64) {
+    parts.push({
+      type: 'image_base64',
+      image_base64: "data:image/jpeg;base64,"+content.base64
+    });
+  }
+
+  return parts;
+}
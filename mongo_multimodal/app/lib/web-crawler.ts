@@ -0,0 +1,338 @@
+/**
+ * Web Crawling Utilities
+ * Follows same-origin links from a start page, with sitemap.xml discovery and robots.txt rules
+ */
+
+import * as cheerio from 'cheerio';
+import { scrapeWebsite, ScrapedContent, SCRAPER_USER_AGENT } from './web-scraper';
+
+// Product token matched against robots.txt User-agent lines
+const ROBOTS_AGENT = 'mongomultimodal';
+
+export const CRAWL_LIMITS = {
+  defaultMaxDepth: 2,
+  defaultMaxPages: 50,
+  maxDepth: 5,
+  maxPages: 500,
+  maxSitemaps: 10, // nested sitemaps followed from a sitemap index
+  maxCrawlDelayMs: 10 * 1000,
+};
+
+// Links to files that are never HTML pages
+const NON_PAGE_EXTENSIONS = /\.(pdf|zip|gz|tar|rar|7z|png|jpe?g|gif|svg|webp|ico|bmp|mp3|mp4|webm|mov|avi|wav|css|js|json|xml|rss|atom|docx?|xlsx?|pptx?|csv|woff2?|ttf|eot|exe|dmg|iso)$/i;
+
+export interface CrawlOptions {
+  maxDepth?: number; // link hops from the start page (sitemap URLs count as one hop)
+  maxPages?: number; // pages fetched, including failures
+  useSitemap?: boolean;
+  respectRobots?: boolean;
+  delayMs?: number; // pause between requests; robots.txt Crawl-delay wins when larger
+  signal?: AbortSignal;
+  onPage?: (page: CrawledPage) => Promise<void>; // called for every successfully scraped page
+  onError?: (url: string, error: string) => Promise<void>;
+}
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  discoveredBy: 'start' | 'link' | 'sitemap';
+  scraped: ScrapedContent;
+}
+
+export interface CrawlSummary {
+  startUrl: string;
+  pagesVisited: number;
+  pagesSucceeded: number;
+  pagesFailed: number;
+  blockedByRobots: string[];
+  sitemapUrls: number;
+  stoppedBy: 'completed' | 'maxPages' | 'cancelled';
+}
+
+export interface RobotsRules {
+  rules: Array<{ allow: boolean; path: string }>;
+  sitemaps: string[];
+  crawlDelayMs?: number;
+}
+
+/**
+ * Crawl a website breadth-first, staying on the start page's origin
+ * Pages are handed to onPage as they are scraped so callers can store them incrementally
+ */
+export async function crawlWebsite(startUrl: string, options: CrawlOptions = {}): Promise<CrawlSummary> {
+  const maxDepth = clamp(options.maxDepth ?? CRAWL_LIMITS.defaultMaxDepth, 0, CRAWL_LIMITS.maxDepth);
+  const maxPages = clamp(options.maxPages ?? CRAWL_LIMITS.defaultMaxPages, 1, CRAWL_LIMITS.maxPages);
+  const { useSitemap = true, respectRobots = true, signal, onPage, onError } = options;
+
+  const start = canonicalURL(startUrl);
+  if (!start) {
+    throw new Error('Invalid URL format');
+  }
+  const origin = new URL(start).origin;
+
+  const robots = respectRobots ? await fetchRobots(origin, signal) : null;
+  const delayMs = Math.min(
+    Math.max(options.delayMs ?? 0, robots?.crawlDelayMs ?? 0),
+    CRAWL_LIMITS.maxCrawlDelayMs
+  );
+
+  const queue: Array<{ url: string; depth: number; discoveredBy: CrawledPage['discoveredBy'] }> = [
+    { url: start, depth: 0, discoveredBy: 'start' },
+  ];
+  const seen = new Set<string>([start]);
+
+  let sitemapUrls = 0;
+  if (useSitemap && maxDepth > 0) {
+    const sitemapLocations = robots?.sitemaps.length ? robots.sitemaps : [`${origin}/sitemap.xml`];
+    for (const url of await fetchSitemapUrls(sitemapLocations, origin, signal)) {
+      if (seen.has(url)) continue;
+      seen.add(url);
+      queue.push({ url, depth: 1, discoveredBy: 'sitemap' });
+      sitemapUrls++;
+    }
+  }
+
+  const summary: CrawlSummary = {
+    startUrl: start,
+    pagesVisited: 0,
+    pagesSucceeded: 0,
+    pagesFailed: 0,
+    blockedByRobots: [],
+    sitemapUrls,
+    stoppedBy: 'completed',
+  };
+
+  // Sitemap entries sit at depth 1, so keep the queue ordered by depth
+  queue.sort((a, b) => a.depth - b.depth);
+
+  while (queue.length > 0) {
+    if (signal?.aborted) {
+      summary.stoppedBy = 'cancelled';
+      break;
+    }
+    if (summary.pagesVisited >= maxPages) {
+      summary.stoppedBy = 'maxPages';
+      break;
+    }
+
+    const next = queue.shift()!;
+    if (robots && !isAllowedByRobots(robots, next.url)) {
+      summary.blockedByRobots.push(next.url);
+      continue;
+    }
+
+    if (summary.pagesVisited > 0 && delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+
+    summary.pagesVisited++;
+    const scraped = await scrapeWebsite(next.url);
+
+    if (!scraped.success) {
+      summary.pagesFailed++;
+      await onError?.(next.url, scraped.error || 'Failed to scrape page');
+      continue;
+    }
+
+    summary.pagesSucceeded++;
+    await onPage?.({ url: next.url, depth: next.depth, discoveredBy: next.discoveredBy, scraped });
+
+    if (next.depth >= maxDepth) continue;
+
+    for (const link of scraped.links || []) {
+      const url = canonicalURL(link);
+      if (!url || seen.has(url) || !isCrawlableLink(url, origin)) continue;
+      seen.add(url);
+      queue.push({ url, depth: next.depth + 1, discoveredBy: 'link' });
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Parse robots.txt, keeping the group that applies to this crawler
+ * A group naming our product token wins over the catch-all "*" group
+ */
+export function parseRobotsTxt(text: string): RobotsRules {
+  type Group = { agents: string[]; rules: RobotsRules['rules']; crawlDelayMs?: number };
+
+  const groups: Group[] = [];
+  const sitemaps: string[] = [];
+  let current: Group | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything
+      if (value) current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (!isNaN(seconds) && seconds > 0) current.crawlDelayMs = seconds * 1000;
+    }
+  }
+
+  const group =
+    groups.find((g) => g.agents.includes(ROBOTS_AGENT)) ||
+    groups.find((g) => g.agents.includes('*'));
+
+  return {
+    rules: group?.rules || [],
+    sitemaps,
+    crawlDelayMs: group?.crawlDelayMs,
+  };
+}
+
+/**
+ * Check a URL against robots.txt rules
+ * The longest matching path wins; Allow wins a tie
+ */
+export function isAllowedByRobots(robots: RobotsRules, url: string): boolean {
+  const { pathname, search } = new URL(url);
+  const target = pathname + search;
+
+  let best: { allow: boolean; length: number } | null = null;
+  for (const rule of robots.rules) {
+    if (!robotsPathMatches(rule.path, target)) continue;
+    const length = rule.path.length;
+    if (!best || length > best.length || (length === best.length && rule.allow)) {
+      best = { allow: rule.allow, length };
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+/**
+ * Helper: Match a robots.txt path pattern, supporting * wildcards and a trailing $ anchor
+ */
+function robotsPathMatches(pattern: string, target: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(target);
+}
+
+/**
+ * Helper: Fetch and parse robots.txt; a missing or unreadable file allows everything
+ */
+async function fetchRobots(origin: string, signal?: AbortSignal): Promise<RobotsRules> {
+  const text = await fetchText(`${origin}/robots.txt`, signal);
+  return text ? parseRobotsTxt(text) : { rules: [], sitemaps: [] };
+}
+
+/**
+ * Helper: Collect same-origin page URLs from sitemaps, following one level of sitemap index
+ */
+async function fetchSitemapUrls(locations: string[], origin: string, signal?: AbortSignal): Promise<string[]> {
+  const pending = [...locations];
+  const visited = new Set<string>();
+  const urls: string[] = [];
+
+  while (pending.length > 0 && visited.size < CRAWL_LIMITS.maxSitemaps) {
+    const location = pending.shift()!;
+    if (visited.has(location)) continue;
+    visited.add(location);
+
+    const xml = await fetchText(location, signal);
+    if (!xml) continue;
+
+    const $ = cheerio.load(xml, { xmlMode: true });
+    const isIndex = $('sitemapindex').length > 0;
+
+    $('loc').each((_, elem) => {
+      const url = canonicalURL($(elem).text().trim());
+      if (!url || new URL(url).origin !== origin) return;
+      if (isIndex) {
+        pending.push(url);
+      } else if (isCrawlableLink(url, origin)) {
+        urls.push(url);
+      }
+    });
+  }
+
+  return urls;
+}
+
+/**
+ * Helper: GET a text resource, returning null on any failure
+ */
+async function fetchText(url: string, signal?: AbortSignal): Promise<string | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 10000);
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort);
+
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': SCRAPER_USER_AGENT },
+      signal: controller.signal,
+    });
+    return response.ok ? await response.text() : null;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abort);
+  }
+}
+
+/**
+ * Helper: Normalize a URL for de-duplication (no fragment, no default port)
+ */
+function canonicalURL(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    parsed.hash = '';
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Helper: Same-origin links that look like HTML pages
+ */
+function isCrawlableLink(url: string, origin: string): boolean {
+  const parsed = new URL(url);
+  return parsed.origin === origin && !NON_PAGE_EXTENSIONS.test(parsed.pathname);
+}
+
+/**
+ * Helper: Clamp a numeric option into range
+ */
+function clamp(value: number, min: number, max: number): number {
+  if (!Number.isFinite(value)) return min;
+  return Math.min(Math.max(Math.floor(value), min), max);
+}
@@ -5,10 +5,14 @@
 
 import * as cheerio from 'cheerio';
 
+export const SCRAPER_USER_AGENT = 'Mozilla/5.0 (compatible; MongoMultimodal/1.0)';
+
 export interface ScrapedContent {
   url: string;
   title: string;
   text: string;
+  markdown: string; // structure-preserving version of the main content
+  links?: string[]; // absolute http(s) links found on the page, without fragments
   metadata: {
     description?: string;
     author?: string;
@@ -35,7 +39,7 @@ export async function scrapeWebsite(url: string): Promise<ScrapedContent> {
 
     const response = await fetch(url, {
       headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; MongoMultimodal/1.0)',
+        'User-Agent': SCRAPER_USER_AGENT,
       },
       signal: controller.signal,
     });
@@ -47,21 +51,38 @@ export async function scrapeWebsite(url: string): Promise<ScrapedContent> {
         url,
         title: '',
         text: '',
+        markdown: '',
         metadata: { scrapedAt: now },
         success: false,
         error: `HTTP ${response.status}: ${response.statusText}`,
       };
     }
 
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType && !/html|xml|text\/plain/i.test(contentType)) {
+      return {
+        url,
+        title: '',
+        text: '',
+        markdown: '',
+        metadata: { scrapedAt: now },
+        success: false,
+        error: `Unsupported content type: ${contentType.split(';')[0]}`,
+      };
+    }
+
     const html = await response.text();
 
     // Parse and clean HTML
-    const { title, text, description, author, publishDate } = cleanHTML(html);
+    const { title, text, markdown, description, author, publishDate } = cleanHTML(html);
 
     return {
       url,
       title,
       text,
+      markdown,
+      // Relative links resolve against the final URL after redirects
+      links: extractLinks(html, response.url || url),
       metadata: {
         description,
         author,
@@ -77,6 +98,7 @@ export async function scrapeWebsite(url: string): Promise<ScrapedContent> {
       url,
       title: '',
       text: '',
+      markdown: '',
       metadata: { scrapedAt: now },
       success: false,
       error: `Failed to scrape: ${errorMessage}`,
@@ -90,6 +112,7 @@ export async function scrapeWebsite(url: string): Promise<ScrapedContent> {
 export function cleanHTML(html: string): {
   title: string;
   text: string;
+  markdown: string;
   description?: string;
   author?: string;
   publishDate?: string;
@@ -168,15 +191,130 @@ export function cleanHTML(html: string): {
     text = text.substring(0, 10000) + '...';
   }
 
+  const markdown = contentToMarkdown($, $content);
+
   return {
     title,
     text,
+    markdown,
     description: description || undefined,
     author: author || undefined,
     publishDate: publishDate || undefined,
   };
 }
 
+/**
+ * Convert an HTML document to Markdown, keeping headings, code blocks,
+ * tables and lists so it can be chunked by structure
+ */
+export function htmlToMarkdown(html: string): string {
+  return cleanHTML(html).markdown;
+}
+
+/**
+ * Helper: Walk content blocks in document order and emit Markdown
+ */
+function contentToMarkdown($: cheerio.Root, $content: cheerio.Cheerio): string {
+  const collapse = (value: string) => value.replace(/\s+/g, ' ').trim();
+  const parts: Array<{ text: string; listItem: boolean }> = [];
+
+  $content
+    .find('h1, h2, h3, h4, h5, h6, p, li, pre, table, blockquote, dt, dd')
+    .each((_: number, elem: cheerio.Element) => {
+      const $elem = $(elem);
+
+      // Nested blocks are emitted as part of their container
+      if ($elem.parents('pre, table, li, blockquote').length > 0) {
+        return;
+      }
+
+      const tag = (elem as cheerio.TagElement).tagName.toLowerCase();
+      let text = '';
+      if (/^h[1-6]$/.test(tag)) {
+        const content = collapse($elem.text());
+        text = content ? `${'#'.repeat(parseInt(tag[1], 10))} ${content}` : '';
+      } else if (tag === 'pre') {
+        const language = ($elem.find('code').attr('class') || '').match(/language-([\w-]+)/)?.[1] || '';
+        const code = $elem.text().replace(/\n+$/, '');
+        text = code.trim() ? '```' + language + '\n' + code + '\n```' : '';
+      } else if (tag === 'table') {
+        const rows = $elem
+          .find('tr')
+          .toArray()
+          .map((row) =>
+            $(row)
+              .find('th, td')
+              .toArray()
+              .map((cell) => collapse($(cell).text()).replace(/\|/g, '\\|'))
+          )
+          .filter((cells) => cells.length > 0);
+        if (rows.length > 0) {
+          const width = Math.max(...rows.map((cells) => cells.length));
+          const formatRow = (cells: string[]) =>
+            '| ' + Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ') + ' |';
+          text = [
+            formatRow(rows[0]),
+            '| ' + Array(width).fill('---').join(' | ') + ' |',
+            ...rows.slice(1).map(formatRow),
+          ].join('\n');
+        }
+      } else if (tag === 'li') {
+        const content = collapse($elem.text());
+        text = content ? `- ${content}` : '';
+      } else if (tag === 'blockquote') {
+        const content = collapse($elem.text());
+        text = content ? `> ${content}` : '';
+      } else {
+        text = collapse($elem.text());
+      }
+
+      if (text) {
+        parts.push({ text, listItem: tag === 'li' });
+      }
+    });
+
+  // Consecutive list items stay in one block
+  return parts
+    .map((part, i) => (i > 0 && part.listItem && parts[i - 1].listItem ? '\n' : i > 0 ? '\n\n' : '') + part.text)
+    .join('');
+}
+
+/**
+ * Collect the absolute http(s) links of a page, honouring <base href>
+ * Fragments are dropped so in-page anchors resolve to the page itself
+ */
+export function extractLinks(html: string, pageUrl: string): string[] {
+  const $ = cheerio.load(html);
+  const links = new Set<string>();
+
+  let baseUrl = pageUrl;
+  const baseHref = $('base[href]').attr('href');
+  if (baseHref) {
+    try {
+      baseUrl = new URL(baseHref, pageUrl).toString();
+    } catch {
+      // Keep the page URL when <base> is malformed
+    }
+  }
+
+  $('a[href]').each((_, elem) => {
+    const href = $(elem).attr('href')?.trim();
+    const rel = $(elem).attr('rel') || '';
+    if (!href || /\bnofollow\b/i.test(rel)) return;
+
+    try {
+      const link = new URL(href, baseUrl);
+      if (link.protocol !== 'http:' && link.protocol !== 'https:') return;
+      link.hash = '';
+      links.add(link.toString());
+    } catch {
+      // Ignore hrefs that are not valid URLs
+    }
+  });
+
+  return Array.from(links);
+}
+
 /**
  * Validate URL format
  */
@@ -0,0 +1,206 @@
+/**
+ * ZIP Reading Utilities
+ * Streams through a ZIP archive and hands over one file entry at a time,
+ * so large archives never have to be held in memory as a whole
+ */
+
+import { Unzip, UnzipFile, UnzipInflate } from 'fflate';
+
+export const ZIP_LIMITS = {
+  maxEntries: 5000,
+  maxEntryBytes: 50 * 1024 * 1024, // uncompressed size of one file
+  maxTotalBytes: 2 * 1024 * 1024 * 1024, // uncompressed size of the whole archive
+};
+
+export interface ZipEntry {
+  path: string; // full path inside the archive, e.g. "site-a/roof/IMG_0001.jpg"
+  name: string; // file name without folders
+  folderPath: string; // containing folders, empty for files at the archive root
+  data: Uint8Array;
+}
+
+export interface ZipReadHandlers {
+  onEntry: (entry: ZipEntry) => Promise<void>;
+  onEntryError?: (path: string, error: string) => Promise<void>; // entry could not be extracted
+}
+
+export interface ZipReadSummary {
+  entries: number; // file entries found, excluding folders and system files
+  ignored: number; // folders, __MACOSX resource forks, dotfiles
+}
+
+// Compression methods fflate can decode: stored and deflate
+const SUPPORTED_COMPRESSION = new Set([0, 8]);
+
+/**
+ * Read a ZIP archive from a byte stream
+ * Entries are handed to onEntry in archive order; the next chunk is only read once
+ * the entries completed so far have been handled
+ */
+export async function readZipStream(
+  stream: ReadableStream<Uint8Array>,
+  handlers: ZipReadHandlers,
+  limits = ZIP_LIMITS
+): Promise<ZipReadSummary> {
+  const summary: ZipReadSummary = { entries: 0, ignored: 0 };
+  const completed: Array<{ path: string; data?: Uint8Array; error?: string }> = [];
+  let totalBytes = 0;
+  let fatal: Error | null = null;
+
+  const unzip = new Unzip();
+  unzip.register(UnzipInflate);
+
+  unzip.onfile = (file: UnzipFile) => {
+    if (fatal) return;
+
+    // Archives made on Windows may use backslashes
+    const path = file.name.replace(/\\/g, '/');
+    if (path.endsWith('/') || isIgnoredEntry(path)) {
+      summary.ignored++;
+      return;
+    }
+
+    summary.entries++;
+    if (summary.entries > limits.maxEntries) {
+      fatal = new Error(`Archive contains more than ${limits.maxEntries} files`);
+      return;
+    }
+
+    if (!SUPPORTED_COMPRESSION.has(file.compression)) {
+      completed.push({ path, error: `Unsupported compression method (${file.compression})` });
+      return;
+    }
+    if (file.originalSize !== undefined && file.originalSize > limits.maxEntryBytes) {
+      completed.push({ path, error: `File is larger than ${formatMB(limits.maxEntryBytes)}` });
+      return;
+    }
+
+    const parts: Uint8Array[] = [];
+    let size = 0;
+    let stopped = false;
+
+    file.ondata = (err, chunk, final) => {
+      if (stopped) return;
+      if (err) {
+        stopped = true;
+        completed.push({ path, error: err.message });
+        return;
+      }
+
+      // Sizes in the header can be missing or wrong, so count what is actually inflated
+      size += chunk.length;
+      totalBytes += chunk.length;
+      if (size > limits.maxEntryBytes) {
+        stopped = true;
+        file.terminate();
+        completed.push({ path, error: `File is larger than ${formatMB(limits.maxEntryBytes)}` });
+        return;
+      }
+      if (totalBytes > limits.maxTotalBytes) {
+        stopped = true;
+        file.terminate();
+        fatal = new Error(`Archive expands to more than ${formatMB(limits.maxTotalBytes)}`);
+        return;
+      }
+
+      parts.push(chunk);
+      if (final) {
+        completed.push({ path, data: concatChunks(parts, size) });
+      }
+    };
+    file.start();
+  };
+
+  const reader = stream.getReader();
+  let checkedSignature = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (!checkedSignature && value && value.length > 0) {
+        checkedSignature = true;
+        if (!hasZipSignature(value)) throw new Error('File is not a ZIP archive');
+      }
+      try {
+        unzip.push(value ?? new Uint8Array(0), done);
+      } catch (error) {
+        throw new Error(`Invalid ZIP archive: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      while (completed.length > 0) {
+        const entry = completed.shift()!;
+        if (entry.data) {
+          await handlers.onEntry({ ...splitPath(entry.path), path: entry.path, data: entry.data });
+        } else {
+          await handlers.onEntryError?.(entry.path, entry.error || 'Failed to extract file');
+        }
+      }
+
+      if (fatal) throw fatal;
+      if (done) break;
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+
+  return summary;
+}
+
+/**
+ * Helper: Check for a local file header or an empty archive's end record ("PK\x03\x04" / "PK\x05\x06")
+ */
+function hasZipSignature(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= 4 &&
+    bytes[0] === 0x50 &&
+    bytes[1] === 0x4b &&
+    ((bytes[2] === 0x03 && bytes[3] === 0x04) || (bytes[2] === 0x05 && bytes[3] === 0x06))
+  );
+}
+
+/**
+ * Helper: Entries created by the OS rather than the user (resource forks, .DS_Store, Thumbs.db)
+ */
+function isIgnoredEntry(path: string): boolean {
+  const segments = path.split('/');
+  const name = segments[segments.length - 1];
+  return (
+    segments.includes('__MACOSX') ||
+    segments.some((segment) => segment.startsWith('.')) ||
+    name.toLowerCase() === 'thumbs.db' ||
+    name.toLowerCase() === 'desktop.ini'
+  );
+}
+
+/**
+ * Helper: Split an entry path into its file name and containing folders
+ */
+function splitPath(path: string): { name: string; folderPath: string } {
+  const separator = path.lastIndexOf('/');
+  return separator === -1
+    ? { name: path, folderPath: '' }
+    : { name: path.slice(separator + 1), folderPath: path.slice(0, separator) };
+}
+
+/**
+ * Helper: Join inflated chunks into one buffer
+ */
+function concatChunks(parts: Uint8Array[], size: number): Uint8Array {
+  if (parts.length === 1) return parts[0];
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return data;
+}
+
+/**
+ * Helper: Format a byte limit for error messages
+ */
+function formatMB(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
@@ -1,7 +1,7 @@
 
 'use client'
 import { useState, useEffect, useCallback } from 'react';
-import { Bot, User, Send, ChevronDown, ChevronRight, BrainCircuit, History, MessageSquare, Image as ImageIcon, Loader2, Search, Globe, Eye, ChevronUp, Copy, Check, Brain, Database, Mail, ClipboardList, Link, StopCircle } from 'lucide-react';
+import { Bot, User, Send, ChevronDown, ChevronRight, BrainCircuit, History, MessageSquare, Image as ImageIcon, Loader2, Search, Globe, Eye, ChevronUp, Copy, Check, Brain, Database, Mail, ClipboardList, Link, StopCircle, Paperclip, X } from 'lucide-react';
 import { useSelection } from './SelectionContext';
 import { Message, AgentPlan, ConversationReference } from '@/types/clientTypes';
 import ReactMarkdown from 'react-markdown';
@@ -48,6 +48,8 @@ export default function AgentView({ projectId }: AgentViewProps) {
     // Manual state management instead of useChat
     const [messages, setMessages] = useState<Message[]>([]);
     const [input, setInput] = useState('');
+    // Image sent with the next message; the agent can search with it
+    const [attachedImage, setAttachedImage] = useState<{ name: string; dataUrl: string } | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [toolCallsMetadata, setToolCallsMetadata] = useState<Map<string, ToolCallMetadata[]>>(new Map());
     const [expandedToolCalls, setExpandedToolCalls] = useState<Set<string>>(new Set());
@@ -85,6 +87,16 @@ export default function AgentView({ projectId }: AgentViewProps) {
         setInput(e.target.value);
     };
 
+    const handleAttachImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // allow attaching the same file again
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = () => setAttachedImage({ name: file.name, dataUrl: reader.result as string });
+        reader.readAsDataURL(file);
+    };
+
     const handleCopyResponse = async (messageId: string, content: string) => {
         try {
             await navigator.clipboard.writeText(content);
@@ -168,9 +180,11 @@ export default function AgentView({ projectId }: AgentViewProps) {
             content: input,
             createdAt: new Date()
         };
+        const imageToSend = attachedImage;
 
         setMessages(prev => [...prev, userMessage]);
         setInput('');
+        setAttachedImage(null);
         setIsLoading(true);
 
         // Create new AbortController for this request
@@ -200,7 +214,8 @@ export default function AgentView({ projectId }: AgentViewProps) {
                     // Tool toggles from UI
                     enableWebSearch,
                     enableEmail,
-                    enableMemory
+                    enableMemory,
+                    attachedImage: imageToSend?.dataUrl
                 }),
                 signal: controller.signal
             });
@@ -1066,7 +1081,34 @@ export default function AgentView({ projectId }: AgentViewProps) {
                         <span>Email</span>
                     </button>
                 </div>
+                {attachedImage && (
+                    <div className="mb-2 inline-flex items-center gap-1.5 px-2 py-1 rounded-md bg-gray-100 dark:bg-gray-800 text-xs text-gray-700 dark:text-gray-300">
+                        <ImageIcon className="h-3.5 w-3.5" />
+                        <span className="max-w-[12rem] truncate">{attachedImage.name}</span>
+                        <button
+                            type="button"
+                            onClick={() => setAttachedImage(null)}
+                            className="text-gray-500 hover:text-red-500"
+                            title="Remove image"
+                        >
+                            <X className="h-3.5 w-3.5" />
+                        </button>
+                    </div>
+                )}
                 <form onSubmit={handleSubmit} className="flex gap-2">
+                    <label
+                        className={`flex items-center px-2 rounded-md border dark:border-gray-800 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 ${isLoading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+                        title="Attach an image (the agent can search for items like it)"
+                    >
+                        <Paperclip className="h-4 w-4" />
+                        <input
+                            type="file"
+                            accept="image/jpeg,image/png,image/gif,image/webp"
+                            onChange={handleAttachImage}
+                            className="hidden"
+                            disabled={isLoading}
+                        />
+                    </label>
                     <input
                         value={input}
                         onChange={handleInputChange}
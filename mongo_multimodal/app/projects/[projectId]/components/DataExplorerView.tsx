@@ -2,19 +2,29 @@
 import { ClientProjectData } from "@/types/clientTypes";
 import DataList from './DataList';
 import BatchProcessButton from './BatchProcessButton';
-import { Database, Filter, Wand2 } from 'lucide-react';
-import { useMemo, useState } from 'react';
+import { Database, Filter, Loader2, Wand2 } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+// How often queued analysis jobs are checked for completion
+const JOB_POLL_INTERVAL_MS = 3000;
 
 interface DataExplorerViewProps {
     projectId: string;
     data: ClientProjectData[];
     onSelectForChat: () => void;
     onSelectForAgent: () => void;
+    onDataUpdate?: () => void | Promise<void>; // refetch project data; the page is refreshed when omitted
 }
 
-export default function DataExplorerView({ projectId, data, onSelectForChat, onSelectForAgent }: DataExplorerViewProps) {
+export default function DataExplorerView({ projectId, data, onSelectForChat, onSelectForAgent, onDataUpdate }: DataExplorerViewProps) {
     const [showUnanalyzedOnly, setShowUnanalyzedOnly] = useState(false);
     const [showUnembeddedOnly, setShowUnembeddedOnly] = useState(false);
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const unmounted = useRef(false);
+    const router = useRouter();
+
+    useEffect(() => () => { unmounted.current = true; }, []);
 
     const isUnanalyzed = (d: ClientProjectData) => d.type === 'image' && !(d.analysis?.description && d.analysis.description.trim().length > 0);
 
@@ -41,22 +51,39 @@ export default function DataExplorerView({ projectId, data, onSelectForChat, onS
         try {
             const ids = data.filter(isUnanalyzed).map(d => d._id);
             if (ids.length === 0) return;
-            // Ask server which ids are valid in scope (returns canonical ids)
+            // Queue analysis jobs; the background worker picks them up
             const resp = await fetch(`/api/projects/${projectId}/data/analyze`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ ids })
             });
             if (!resp.ok) throw new Error('Bulk analyze init failed');
-            const { ids: validIds } = await resp.json();
-            // Process sequentially to stay token-safe
-            for (const id of validIds) {
-                await fetch(`/api/projects/data/${id}/analyze`, { method: 'POST' });
+            const { ids: queuedIds } = await resp.json() as { ids: string[] };
+
+            setIsAnalyzing(true);
+            if (queuedIds.length > 0) await waitForAnalysisJobs();
+            if (unmounted.current) return;
+            if (onDataUpdate) {
+                await onDataUpdate();
+            } else {
+                router.refresh();
             }
-            // Force a refresh by reloading the page data (caller page will refetch)
-            location.reload();
         } catch (e) {
             console.error('Bulk analyze error:', e);
+        } finally {
+            if (!unmounted.current) setIsAnalyzing(false);
+        }
+    };
+
+    // Poll the project's analysis jobs until none is queued or running
+    // (the per-status counts cover every job; the job list itself is capped)
+    const waitForAnalysisJobs = async () => {
+        while (!unmounted.current) {
+            await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+            const resp = await fetch(`/api/projects/${projectId}/jobs?type=analyze&limit=1`, { cache: 'no-store' });
+            if (!resp.ok) throw new Error('Failed to check analysis jobs');
+            const { counts } = await resp.json() as { counts: { queued: number; running: number } };
+            if (counts.queued + counts.running === 0) return;
         }
     };
 
@@ -87,11 +114,21 @@ export default function DataExplorerView({ projectId, data, onSelectForChat, onS
                     {unanalyzedCount > 0 && (
                         <button
                             onClick={handleBulkAnalyze}
-                            className="px-3 py-1 text-xs rounded bg-amber-500 text-white hover:bg-amber-600"
+                            disabled={isAnalyzing}
+                            className="px-3 py-1 text-xs rounded bg-amber-500 text-white hover:bg-amber-600 disabled:bg-gray-400"
                             title="Analyze all filtered images and generate tags/description"
                         >
-                            <Wand2 className="h-3 w-3 inline mr-1" />
-                            Analyze {unanalyzedCount} images
+                            {isAnalyzing ? (
+                                <>
+                                    <Loader2 className="h-3 w-3 inline mr-1 animate-spin" />
+                                    Analyzing {unanalyzedCount} images...
+                                </>
+                            ) : (
+                                <>
+                                    <Wand2 className="h-3 w-3 inline mr-1" />
+                                    Analyze {unanalyzedCount} images
+                                </>
+                            )}
                         </button>
                     )}
                     {unembeddedCount > 0 && (
@@ -36,6 +36,7 @@ const getTypeLabel = (item: ClientProjectData): string => {
 const getChunkIndicator = (item: ClientProjectData): string | null => {
   if ((item.type === 'text_chunk' || item.type === 'web_chunk') && item.metadata?.chunkInfo) {
     const chunkInfo = item.metadata.chunkInfo;
+    if (chunkInfo.jsonPath) return chunkInfo.jsonPath;
     return `Chunk ${chunkInfo.chunkIndex + 1}/${chunkInfo.totalChunks}`;
   }
   return null;
@@ -320,9 +321,9 @@ export default function DataList({ projectId, data, onSelectForChat, onSelectFor
 
             {/* Modal Content */}
             <div className="flex-grow overflow-auto p-4">
-              {previewItem.type === 'image' && previewItem.content.base64 ? (
+              {previewItem.type === 'image' ? (
                 <img
-                  src={`data:${previewItem.metadata.mimeType};base64,${previewItem.content.base64}`}
+                  src={`/api/projects/data/${previewItem._id}/content`}
                   alt={previewItem.metadata.filename}
                   className="max-w-full h-auto rounded mx-auto"
                 />
@@ -38,7 +38,7 @@ export function ImagePreviewModal({ dataId, projectId, onClose, allItems }: Imag
       }
 
       try {
-        const response = await fetch(`/api/projects/data/${dataId}/content`);
+        const response = await fetch(`/api/projects/data/${dataId}`);
         if (!response.ok) throw new Error('Failed to fetch item');
         const data = await response.json();
         setItem(data);
@@ -60,9 +60,9 @@ export function ImagePreviewModal({ dataId, projectId, onClose, allItems }: Imag
   }, [dataId]);
 
   const handleDownload = () => {
-    if (!item || !item.content.base64) return;
+    if (!item) return;
     const link = document.createElement('a');
-    link.href = `data:${item.metadata.mimeType};base64,${item.content.base64}`;
+    link.href = `/api/projects/data/${item._id}/content?download=1`;
     link.download = item.metadata.filename;
     link.click();
   };
@@ -175,7 +175,6 @@ export function ImagePreviewModal({ dataId, projectId, onClose, allItems }: Imag
                 <button
                   onClick={handleDownload}
                   className="p-2 bg-white/10 hover:bg-white/20 rounded-lg text-white transition"
-                  disabled={!item.content.base64}
                   title="Download"
                 >
                   <Download className="h-4 w-4" />
@@ -221,9 +220,9 @@ export function ImagePreviewModal({ dataId, projectId, onClose, allItems }: Imag
                 ref={scrollContainerRef}
                 className="overflow-auto max-h-[80vh] w-full flex items-start justify-center p-4 pt-20 pb-20"
               >
-                {item.type === 'image' && item.content.base64 ? (
+                {item.type === 'image' ? (
                   <img
-                    src={`data:${item.metadata.mimeType};base64,${item.content.base64}`}
+                    src={`/api/projects/data/${item._id}/content`}
                     alt={item.metadata.filename}
                     className="max-w-full h-auto transition-transform"
                     style={{ transform: `scale(${zoom})`, transformOrigin: 'top center' }}
@@ -240,16 +239,22 @@ export function ImagePreviewModal({ dataId, projectId, onClose, allItems }: Imag
             </div>
 
             {/* Footer with metadata */}
-            {item.analysis && (item.analysis.description || (item.analysis.tags && item.analysis.tags.length > 0)) && (
+            {((item.analysis && (item.analysis.description || (item.analysis.tags && item.analysis.tags.length > 0))) || item.ocr?.text) && (
               <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/60 to-transparent p-4 z-10">
                 <div className="text-white text-sm space-y-2">
-                  {item.analysis.description && (
+                  {item.analysis?.description && (
                     <div>
                       <span className="font-semibold">Description: </span>
                       <span className="text-gray-300">{item.analysis.description}</span>
                     </div>
                   )}
-                  {item.analysis.tags && item.analysis.tags.length > 0 && (
+                  {item.ocr?.text && (
+                    <div className="line-clamp-3">
+                      <span className="font-semibold">Text in image: </span>
+                      <span className="text-gray-300 whitespace-pre-line">{item.ocr.text}</span>
+                    </div>
+                  )}
+                  {item.analysis?.tags && item.analysis.tags.length > 0 && (
                     <div className="flex flex-wrap gap-1">
                       {item.analysis.tags.map((tag, i) => (
                         <span key={i} className="px-2 py-0.5 bg-blue-500/30 rounded text-xs">
@@ -96,6 +96,7 @@ export default function ProjectPageClient({ project, data: initialData, projectI
             data={projectData}
             onSelectForChat={() => setMode('chat')}
             onSelectForAgent={() => setMode('agent')}
+            onDataUpdate={refreshProjectData}
           />
         );
       default:
@@ -38,39 +38,34 @@ export default function SearchView({
     const [error, setError] = useState<string | null>(null);
     const { selectedResult, setSelectedResult } = useSearchResult();
     const [previewItem, setPreviewItem] = useState<SearchResult | null>(null);
-    const [loadingPreviewId, setLoadingPreviewId] = useState<string | null>(null);
 
     // Thumbnail component that fetches image on-demand
-    function ImageThumbnail({ id, mime }: { id: string; mime: string }) {
+    function ImageThumbnail({ id }: { id: string }) {
         const [src, setSrc] = useState<string | null>(null);
         const [isLoadingThumb, setIsLoadingThumb] = useState(false);
         const [thumbError, setThumbError] = useState<string | null>(null);
 
-        const loadThumbnail = async () => {
+        const loadThumbnail = () => {
             if (src || isLoadingThumb) return;
             setThumbError(null);
             setIsLoadingThumb(true);
-            try {
-                const resp = await fetch(`/api/projects/data/${id}/content`);
-                if (!resp.ok) throw new Error('Failed to load thumbnail');
-                const data = await resp.json();
-                if (data?.content?.base64) {
-                    setSrc(`data:${mime};base64,${data.content.base64}`);
-                } else {
-                    throw new Error('No image data');
-                }
-            } catch (e: unknown) {
-                const err = e as Error;
-                setThumbError(err.message);
-            } finally {
-                setIsLoadingThumb(false);
-            }
+            // The content endpoint streams the image bytes directly
+            setSrc(`/api/projects/data/${id}/content`);
         };
 
         return (
             <div className="mt-2">
-                {src ? (
-                    <img src={src} alt="thumbnail" className="max-w-xs max-h-32 object-contain rounded border" />
+                {src && !thumbError ? (
+                    <img
+                        src={src}
+                        alt="thumbnail"
+                        className="max-w-xs max-h-32 object-contain rounded border"
+                        onLoad={() => setIsLoadingThumb(false)}
+                        onError={() => {
+                            setIsLoadingThumb(false);
+                            setThumbError('Failed to load thumbnail');
+                        }}
+                    />
                 ) : (
                     <div className="h-24 w-36 bg-gray-100 dark:bg-gray-700 rounded flex items-center justify-center">
                         <button
@@ -130,30 +125,9 @@ export default function SearchView({
         setSelectedResult(result);
     };
 
-    const handlePreview = async (result: SearchResult) => {
-        // For images, ensure base64 content is loaded before opening the modal
-        if (result.type === 'image' && !result.content?.base64) {
-            setLoadingPreviewId(result._id);
-            try {
-                const resp = await fetch(`/api/projects/data/${result._id}/content`);
-                if (resp.ok) {
-                    const data = await resp.json();
-                    const enriched: SearchResult = {
-                        ...result,
-                        content: { ...result.content, base64: data?.content?.base64 },
-                    } as SearchResult;
-                    setPreviewItem(enriched);
-                } else {
-                    setPreviewItem(result);
-                }
-            } catch {
-                setPreviewItem(result);
-            } finally {
-                setLoadingPreviewId(null);
-            }
-        } else {
-            setPreviewItem(result);
-        }
+    const handlePreview = (result: SearchResult) => {
+        // Image bytes are streamed by the content endpoint when the modal renders
+        setPreviewItem(result);
     };
 
     return (
@@ -227,20 +201,17 @@ export default function SearchView({
                                      <span className="flex items-center gap-1 text-xs text-gray-500">
                                         <Target className="h-3 w-3" />
                                          {(Math.round((result.score ?? 0) * 10000) / 100).toFixed(2)}% match
+                                         {result.source && ` (${result.source === 'both' ? 'keyword + vector' : result.source})`}
+                                         {result.rerankScore !== undefined && ` · ${(result.rerankScore * 100).toFixed(2)}% reranked`}
                                     </span>
                                 </div>
                                 <div className="flex items-center gap-2">
                                     <button
                                         onClick={() => handlePreview(result)}
-                                        className="p-1 text-gray-500 hover:text-blue-500 hover:bg-blue-50 rounded disabled:opacity-50"
+                                        className="p-1 text-gray-500 hover:text-blue-500 hover:bg-blue-50 rounded"
                                         title="Preview"
-                                        disabled={loadingPreviewId === result._id}
                                     >
-                                        {loadingPreviewId === result._id ? (
-                                            <Loader2 className="h-4 w-4 animate-spin" />
-                                        ) : (
-                                            <Eye className="h-4 w-4" />
-                                        )}
+                                        <Eye className="h-4 w-4" />
                                     </button>
                                     <button
                                         onClick={() => handleResultSelect(result)}
@@ -294,7 +265,7 @@ export default function SearchView({
 
                                 {/* Image thumbnail loads on demand to avoid excessive /content calls */}
                                 {result.type === 'image' && (
-                                    <ImageThumbnail id={result._id} mime={result.metadata?.mimeType || 'image/jpeg'} />
+                                    <ImageThumbnail id={result._id} />
                                 )}
 
                                 {/* Text preview for document type */}
@@ -380,9 +351,9 @@ export default function SearchView({
 
                         {/* Modal Content */}
                         <div className="flex-grow overflow-auto p-4">
-                            {previewItem.type === 'image' && previewItem.content?.base64 ? (
+                            {previewItem.type === 'image' ? (
                                 <img
-                                    src={`data:${previewItem.metadata?.mimeType};base64,${previewItem.content.base64}`}
+                                    src={`/api/projects/data/${previewItem._id}/content`}
                                     alt={previewItem.metadata?.filename || 'image'}
                                     className="max-w-full h-auto rounded mx-auto"
                                 />
@@ -0,0 +1,334 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, Cloud, Folder, Loader2, Pause, Play, RefreshCw, Trash2 } from 'lucide-react';
+
+interface ConnectorsPanelProps {
+  projectId: string;
+  onSyncComplete?: () => void;
+}
+
+interface ConnectorSummary {
+  _id: string;
+  kind: 'folder' | 's3';
+  name: string;
+  config: Record<string, string>;
+  syncIntervalHours: number;
+  enabled: boolean;
+  lastStatus: 'pending' | 'syncing' | 'synced' | 'failed';
+  lastError?: string;
+  lastSyncAt?: string;
+  lastSync?: {
+    added: number;
+    updated: number;
+    removed: number;
+    unchanged: number;
+    failed: number;
+    unsupported: number;
+  };
+  lastIngestionId?: string;
+  fileCount: number;
+}
+
+interface SyncProgress {
+  processed: number;
+  succeeded: number;
+  failed: number;
+  items: number;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+const INTERVAL_OPTIONS = [
+  { hours: 1, label: 'Hourly' },
+  { hours: 24, label: 'Daily' },
+  { hours: 168, label: 'Weekly' },
+];
+
+const inputClass = `w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm
+  bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400`;
+
+/**
+ * Helper: One-line summary of the last sync
+ */
+function describeLastSync(connector: ConnectorSummary): string {
+  const sync = connector.lastSync;
+  if (!sync) return `${connector.fileCount} files`;
+
+  const parts = [`${connector.fileCount} files`];
+  if (sync.added > 0) parts.push(`${sync.added} added`);
+  if (sync.updated > 0) parts.push(`${sync.updated} updated`);
+  if (sync.removed > 0) parts.push(`${sync.removed} removed`);
+  if (sync.failed > 0) parts.push(`${sync.failed} failed`);
+  if (sync.unsupported > 0) parts.push(`${sync.unsupported} unsupported`);
+  return parts.join(' • ');
+}
+
+export function ConnectorsPanel({ projectId, onSyncComplete }: ConnectorsPanelProps) {
+  const [connectors, setConnectors] = useState<ConnectorSummary[]>([]);
+  const [progress, setProgress] = useState<Record<string, SyncProgress>>({});
+  const [loading, setLoading] = useState(true);
+  const [kind, setKind] = useState<'folder' | 's3'>('folder');
+  const [name, setName] = useState('');
+  const [folderPath, setFolderPath] = useState('');
+  const [bucket, setBucket] = useState('');
+  const [prefix, setPrefix] = useState('');
+  const [endpoint, setEndpoint] = useState('');
+  const [accessKeyId, setAccessKeyId] = useState('');
+  const [secretAccessKey, setSecretAccessKey] = useState('');
+  const [syncIntervalHours, setSyncIntervalHours] = useState(24);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConnectors = useCallback(async () => {
+    const response = await fetch(`/api/projects/${projectId}/connectors`);
+    if (!response.ok) return;
+    const { connectors: list } = await response.json() as { connectors: ConnectorSummary[] };
+    setConnectors(list);
+
+    // Running syncs report progress through their ingestion record
+    const running = list.filter((c) => c.lastStatus === 'syncing' && c.lastIngestionId);
+    const entries = await Promise.all(running.map(async (c) => {
+      const res = await fetch(`/api/projects/${projectId}/ingestions/${c.lastIngestionId}`);
+      if (!res.ok) return null;
+      const { ingestion } = await res.json();
+      return [c._id, ingestion.progress as SyncProgress] as const;
+    }));
+    setProgress(Object.fromEntries(entries.filter((entry) => entry !== null)));
+  }, [projectId]);
+
+  useEffect(() => {
+    loadConnectors().finally(() => setLoading(false));
+  }, [loadConnectors]);
+
+  // Poll while a sync is queued or running, and refresh the data list when it finishes
+  const active = connectors.some((c) => c.lastStatus === 'pending' || c.lastStatus === 'syncing');
+  const wasActive = useRef(false);
+  useEffect(() => {
+    if (wasActive.current && !active) onSyncComplete?.();
+    wasActive.current = active;
+    if (!active) return;
+
+    const timer = setInterval(loadConnectors, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [active, loadConnectors, onSyncComplete]);
+
+  const addConnector = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const config = kind === 'folder'
+        ? { path: folderPath }
+        : { bucket, prefix, endpoint, accessKeyId, secretAccessKey };
+
+      const response = await fetch(`/api/projects/${projectId}/connectors`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kind, name: name || undefined, config, syncIntervalHours }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to add source');
+
+      setName('');
+      setFolderPath('');
+      setBucket('');
+      setPrefix('');
+      setSecretAccessKey('');
+      await loadConnectors();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add source');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const syncNow = async (connectorId: string) => {
+    await fetch(`/api/projects/${projectId}/connectors/${connectorId}/sync`, { method: 'POST' });
+    setConnectors((prev) => prev.map((c) => (c._id === connectorId ? { ...c, lastStatus: 'pending' } : c)));
+  };
+
+  const toggleEnabled = async (connector: ConnectorSummary) => {
+    await fetch(`/api/projects/${projectId}/connectors/${connector._id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled: !connector.enabled }),
+    });
+    await loadConnectors();
+  };
+
+  const removeConnector = async (connector: ConnectorSummary) => {
+    if (!confirm(`Stop syncing "${connector.name}"? Files already imported stay in the project.`)) return;
+    await fetch(`/api/projects/${projectId}/connectors/${connector._id}`, { method: 'DELETE' });
+    await loadConnectors();
+  };
+
+  const canSubmit = kind === 'folder' ? !!folderPath.trim() : !!bucket.trim();
+
+  return (
+    <div className="space-y-4">
+      {/* New source form */}
+      <div className="space-y-2">
+        <div className="flex gap-2 text-xs">
+          {(['folder', 's3'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setKind(option)}
+              className={`flex items-center gap-1 px-2 py-1 rounded border transition-colors ${
+                kind === option
+                  ? 'border-[#00ED64] text-[#13AA52] dark:text-[#00ED64]'
+                  : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400'
+              }`}
+            >
+              {option === 'folder' ? <Folder className="w-3 h-3" /> : <Cloud className="w-3 h-3" />}
+              {option === 'folder' ? 'Shared folder' : 'S3 / MinIO'}
+            </button>
+          ))}
+        </div>
+
+        {kind === 'folder' ? (
+          <input
+            value={folderPath}
+            onChange={(e) => setFolderPath(e.target.value)}
+            placeholder="/mnt/shared/reports"
+            className={inputClass}
+          />
+        ) : (
+          <>
+            <div className="flex gap-2">
+              <input value={bucket} onChange={(e) => setBucket(e.target.value)} placeholder="Bucket" className={inputClass} />
+              <input value={prefix} onChange={(e) => setPrefix(e.target.value)} placeholder="Prefix (optional)" className={inputClass} />
+            </div>
+            <input
+              value={endpoint}
+              onChange={(e) => setEndpoint(e.target.value)}
+              placeholder="Endpoint, e.g. http://localhost:9000 (blank for AWS)"
+              className={inputClass}
+            />
+            <div className="flex gap-2">
+              <input value={accessKeyId} onChange={(e) => setAccessKeyId(e.target.value)} placeholder="Access key" className={inputClass} />
+              <input
+                type="password"
+                value={secretAccessKey}
+                onChange={(e) => setSecretAccessKey(e.target.value)}
+                placeholder="Secret key"
+                className={inputClass}
+              />
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-2">
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name (optional)" className={inputClass} />
+          <select
+            value={syncIntervalHours}
+            onChange={(e) => setSyncIntervalHours(Number(e.target.value))}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg text-sm
+                     bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+          >
+            {INTERVAL_OPTIONS.map((option) => (
+              <option key={option.hours} value={option.hours}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={addConnector}
+            disabled={!canSubmit || submitting}
+            className="px-4 py-2 bg-[#00ED64] text-gray-900 rounded-lg hover:bg-[#13AA52]
+                     disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Add'}
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Imports every supported file, then picks up new, changed and removed files on each sync
+        </p>
+      </div>
+
+      {/* Connected sources */}
+      <div className="space-y-2 max-h-[calc(100vh-500px)] overflow-y-auto">
+        {loading && <Loader2 className="w-4 h-4 mx-auto animate-spin text-gray-400" />}
+        {!loading && connectors.length === 0 && (
+          <div className="text-center py-8 text-sm text-gray-500 dark:text-gray-400">
+            No sources connected yet
+          </div>
+        )}
+        {connectors.map((connector) => {
+          const running = progress[connector._id];
+          const busy = connector.lastStatus === 'pending' || connector.lastStatus === 'syncing';
+
+          return (
+            <div
+              key={connector._id}
+              className="p-3 border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800"
+            >
+              <div className="flex items-start gap-2">
+                <div className="mt-0.5 flex-shrink-0">
+                  {connector.kind === 'folder'
+                    ? <Folder className="w-4 h-4 text-gray-500" />
+                    : <Cloud className="w-4 h-4 text-gray-500" />}
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {connector.name}
+                    {!connector.enabled && <span className="ml-1 text-gray-500 dark:text-gray-400">(paused)</span>}
+                  </p>
+                  {connector.lastStatus === 'syncing' && running ? (
+                    <p className="text-xs text-blue-600 dark:text-blue-400 mt-0.5">
+                      Syncing… {running.processed} checked • {running.items} chunks
+                      {running.failed > 0 && ` • ${running.failed} failed`}
+                    </p>
+                  ) : busy ? (
+                    <p className="text-xs text-blue-600 dark:text-blue-400 mt-0.5">Sync queued</p>
+                  ) : (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                      {describeLastSync(connector)}
+                      {connector.lastSyncAt && ` • ${new Date(connector.lastSyncAt).toLocaleString()}`}
+                    </p>
+                  )}
+                  {connector.lastStatus === 'failed' && connector.lastError && (
+                    <p className="text-xs text-red-600 dark:text-red-400 mt-0.5">{connector.lastError}</p>
+                  )}
+                </div>
+
+                <div className="flex-shrink-0 flex items-center gap-1">
+                  {busy ? (
+                    <Loader2 className="w-4 h-4 animate-spin text-blue-600" />
+                  ) : connector.lastStatus === 'failed' ? (
+                    <AlertCircle className="w-4 h-4 text-red-600" />
+                  ) : (
+                    <CheckCircle2 className="w-4 h-4 text-green-600" />
+                  )}
+                  <button
+                    onClick={() => syncNow(connector._id)}
+                    disabled={busy}
+                    className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded
+                             hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40"
+                    title="Sync now"
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => toggleEnabled(connector)}
+                    className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded
+                             hover:bg-gray-100 dark:hover:bg-gray-700"
+                    title={connector.enabled ? 'Pause scheduled syncs' : 'Resume scheduled syncs'}
+                  >
+                    {connector.enabled ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+                  </button>
+                  <button
+                    onClick={() => removeConnector(connector)}
+                    className="p-1 text-gray-400 hover:text-red-600 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                    title="Remove source"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
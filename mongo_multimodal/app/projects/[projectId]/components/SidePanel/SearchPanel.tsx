@@ -1,8 +1,8 @@
 'use client';
 
 import { useState, useRef, useCallback } from 'react';
-import { Search, Target, Clock, Loader2, CheckSquare, Square, Eye } from 'lucide-react';
-import { SearchResult } from '@/types/clientTypes';
+import { Search, Target, Clock, Loader2, CheckSquare, Square, Eye, Filter, X } from 'lucide-react';
+import { FacetCount, SearchFacets, SearchFilters, SearchResult } from '@/types/clientTypes';
 import { useSelection } from '../SelectionContext';
 import { ImagePreviewModal } from '../ImagePreviewModal';
 
@@ -17,8 +17,17 @@ interface PaginatedResults {
   limit: number;
   totalPages: number;
   timeTaken: number;
+  facets?: SearchFacets;
 }
 
+// Filter fields offered as facets, in display order
+const FACET_FIELDS: Array<{ field: 'types' | 'mimeTypes' | 'tags' | 'filenames'; label: string }> = [
+  { field: 'types', label: 'Type' },
+  { field: 'mimeTypes', label: 'MIME type' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'filenames', label: 'Source file' },
+];
+
 export function SearchPanel({ projectId }: SearchPanelProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [allResults, setAllResults] = useState<SearchResult[]>([]);
@@ -31,11 +40,13 @@ export function SearchPanel({ projectId }: SearchPanelProps) {
   const [error, setError] = useState<string | null>(null);
   const [previewDataId, setPreviewDataId] = useState<string | null>(null);
   const [lastSearchQuery, setLastSearchQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
 
   const { toggleItem, isSelected } = useSelection();
   const observer = useRef<IntersectionObserver | null>(null);
 
-  const handleSearch = async (page = 1, isNewSearch = true) => {
+  const handleSearch = async (page = 1, isNewSearch = true, activeFilters: SearchFilters = filters) => {
     if (!searchQuery.trim()) return;
 
     // If it's a new search and query changed, reset everything
@@ -61,7 +72,8 @@ export function SearchPanel({ projectId }: SearchPanelProps) {
           query: searchQuery,
           mode: 'search',
           page,
-          limit: 20
+          limit: 20,
+          filters: activeFilters
         }),
       });
 
@@ -74,6 +86,7 @@ export function SearchPanel({ projectId }: SearchPanelProps) {
 
       if (isNewSearch) {
         setAllResults(data.results);
+        setFacets(data.facets || null);
       } else {
         setAllResults(prev => [...prev, ...data.results]);
       }
@@ -97,6 +110,27 @@ export function SearchPanel({ projectId }: SearchPanelProps) {
     }
   }, [currentPage, totalPages, isLoadingMore, searchQuery]);
 
+  // Filter changes start a new search from the first page
+  const applyFilters = (next: SearchFilters) => {
+    setFilters(next);
+    handleSearch(1, true, next);
+  };
+
+  const toggleFilterValue = (field: 'types' | 'mimeTypes' | 'tags' | 'filenames', value: string) => {
+    const current: string[] = filters[field] || [];
+    const values = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+    applyFilters({ ...filters, [field]: values.length > 0 ? values : undefined });
+  };
+
+  const setDateFilter = (field: 'createdFrom' | 'createdTo', date: string) => {
+    // Dates are whole days: from the start of the first to the end of the last
+    const value = date ? `${date}T${field === 'createdFrom' ? '00:00:00.000' : '23:59:59.999'}Z` : undefined;
+    applyFilters({ ...filters, [field]: value });
+  };
+
+  const activeFilterCount = FACET_FIELDS.reduce((count, { field }) => count + (filters[field]?.length || 0), 0)
+    + (filters.createdFrom ? 1 : 0) + (filters.createdTo ? 1 : 0);
+
   const lastResultRef = useCallback((node: HTMLDivElement | null) => {
     if (isLoadingMore) return;
     if (observer.current) observer.current.disconnect();
@@ -167,6 +201,60 @@ export function SearchPanel({ projectId }: SearchPanelProps) {
         </p>
       </div>
 
+      {/* Facet Filters */}
+      {facets && (
+        <div className="space-y-2 text-xs">
+          <div className="flex items-center justify-between text-gray-600 dark:text-gray-400">
+            <span className="flex items-center gap-1">
+              <Filter className="h-3 w-3" />
+              Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+            </span>
+            {activeFilterCount > 0 && (
+              <button
+                onClick={() => applyFilters({})}
+                className="flex items-center gap-0.5 text-[#13AA52] dark:text-[#00ED64] hover:underline"
+              >
+                <X className="h-3 w-3" />
+                Clear
+              </button>
+            )}
+          </div>
+
+          {FACET_FIELDS.map(({ field, label }) => (
+            <FacetGroup
+              key={field}
+              label={label}
+              counts={facets[field]}
+              selected={filters[field] || []}
+              onToggle={(value) => toggleFilterValue(field, value)}
+            />
+          ))}
+
+          <div className="flex items-center gap-1 text-gray-600 dark:text-gray-400">
+            <span className="w-16 flex-shrink-0">Created</span>
+            <input
+              type="date"
+              value={filters.createdFrom?.slice(0, 10) || ''}
+              min={facets.createdRange?.from.slice(0, 10)}
+              onChange={(e) => setDateFilter('createdFrom', e.target.value)}
+              className="min-w-0 flex-1 px-1 py-0.5 border border-gray-300 dark:border-gray-600 rounded
+                       bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              aria-label="Created from"
+            />
+            <span>–</span>
+            <input
+              type="date"
+              value={filters.createdTo?.slice(0, 10) || ''}
+              max={facets.createdRange?.to.slice(0, 10)}
+              onChange={(e) => setDateFilter('createdTo', e.target.value)}
+              className="min-w-0 flex-1 px-1 py-0.5 border border-gray-300 dark:border-gray-600 rounded
+                       bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              aria-label="Created to"
+            />
+          </div>
+        </div>
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800
@@ -251,10 +339,19 @@ export function SearchPanel({ projectId }: SearchPanelProps) {
                         <span className="text-xs font-medium text-gray-900 dark:text-gray-100 truncate">
                           {result.metadata?.filename || 'Unknown'}
                         </span>
+                        {result.metadata?.chunkInfo?.jsonPath && (
+                          <span className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate">
+                            {result.metadata.chunkInfo.jsonPath}
+                          </span>
+                        )}
                       </div>
                       <span className="flex items-center gap-0.5 text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
                         <Target className="h-2.5 w-2.5" />
                         {(Math.round((result.score ?? 0) * 10000) / 100).toFixed(0)}%
+                        {result.source && <span title="Matched by">· {result.source}</span>}
+                        {result.rerankScore !== undefined && (
+                          <span title="Reranker relevance">· reranked {Math.round(result.rerankScore * 100)}%</span>
+                        )}
                       </span>
                     </div>
 
@@ -347,3 +444,50 @@ export function SearchPanel({ projectId }: SearchPanelProps) {
     </div>
   );
 }
+
+/**
+ * Facet values with their counts; selected values filter the search
+ * Selected values stay listed when another filter leaves them without hits
+ */
+function FacetGroup({
+  label,
+  counts,
+  selected,
+  onToggle,
+}: {
+  label: string;
+  counts: FacetCount[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}) {
+  const values = [
+    ...counts,
+    ...selected.filter((value) => !counts.some((c) => c.value === value)).map((value) => ({ value, count: 0 })),
+  ];
+  if (values.length === 0) return null;
+
+  return (
+    <div className="flex items-start gap-1">
+      <span className="w-16 flex-shrink-0 pt-0.5 text-gray-600 dark:text-gray-400">{label}</span>
+      <div className="flex flex-wrap gap-1">
+        {values.map(({ value, count }) => {
+          const isActive = selected.includes(value);
+          return (
+            <button
+              key={value}
+              onClick={() => onToggle(value)}
+              title={value}
+              className={`max-w-[10rem] truncate px-1.5 py-0.5 rounded-full border transition-colors ${
+                isActive
+                  ? 'border-[#00ED64] bg-green-50 dark:bg-green-900/20 text-gray-900 dark:text-gray-100'
+                  : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:border-gray-400'
+              }`}
+            >
+              {value} <span className="text-gray-400">{count}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
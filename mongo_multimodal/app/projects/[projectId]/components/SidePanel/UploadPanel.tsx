@@ -1,7 +1,8 @@
 'use client';
 
 import { useState } from 'react';
-import { Upload, FileText, Image as ImageIcon, X, Loader2, CheckCircle2, AlertCircle, Globe, Tabs } from 'lucide-react';
+import { Upload, FileText, Image as ImageIcon, X, Loader2, CheckCircle2, AlertCircle, Globe, Tabs, RotateCcw, FolderSync } from 'lucide-react';
+import { ConnectorsPanel } from './ConnectorsPanel';
 
 interface UploadPanelProps {
   projectId: string;
@@ -12,10 +13,21 @@ interface UploadFile {
   id: string;
   file: File;
   status: 'pending' | 'uploading' | 'success' | 'error';
-  progress: number;
+  progress: number; // percent of the bytes sent; the server is still processing at 100
   error?: string;
+  errorHint?: string; // what the project accepts, when the file was rejected by validation
   chunkCount?: number;
   memoriesCreated?: number;
+  skipped?: boolean; // identical content already in the project
+  archive?: ArchiveSummary; // set for ZIP archives
+}
+
+interface ArchiveSummary {
+  success: number;
+  skipped: number;
+  unsupported: number;
+  failed: number;
+  failures: Array<{ path: string; error: string }>;
 }
 
 interface WebUpload {
@@ -25,14 +37,122 @@ interface WebUpload {
   error?: string;
   chunkCount?: number;
   memoriesCreated?: number;
+  skipped?: boolean;
+  crawl?: CrawlProgress; // set when the whole site is crawled
+  refreshIntervalHours?: number; // set when the page is kept in sync
+}
+
+interface CrawlProgress {
+  ingestionId: string;
+  maxPages: number;
+  processed: number;
+  succeeded: number;
+  skipped: number;
+  failed: number;
+  items: number;
+}
+
+type DuplicatePolicy = 'skip' | 'replace' | 'keep-both';
+
+interface ResumableUpload {
+  uploadId: string;
+  partSize: number;
+  totalParts: number;
+  status: 'uploading' | 'processing' | 'completed' | 'failed';
+  receivedParts: number[];
+  receivedBytes: number;
+}
+
+// Files above this size are sent in parts through the resumable upload endpoints
+const RESUMABLE_THRESHOLD = 8 * 1024 * 1024;
+const PART_ATTEMPTS = 3;
+// How often a completed upload is checked while the server imports it
+const IMPORT_POLL_MS = 2000;
+
+// Send a request with XMLHttpRequest, which (unlike fetch) reports upload progress
+function sendWithProgress(
+  url: string,
+  init: { method: string; body: XMLHttpRequestBodyInit; headers?: Record<string, string> },
+  onProgress: (loaded: number, total: number) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method, url);
+    Object.entries(init.headers || {}).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded, event.total);
+    };
+    xhr.onload = () => resolve(new Response(xhr.responseText, { status: xhr.status }));
+    xhr.onerror = () => reject(new Error('Network error'));
+    xhr.send(init.body);
+  });
+}
+
+// Hex SHA-256 of a file part, checked by the server before the part is stored
+async function sha256Hex(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Error body of the upload endpoints; rejected files also say what the project accepts
+interface UploadErrorBody {
+  error?: string;
+  code?: string;
+  allowedTypes?: string[];
+  maxBytes?: number;
+}
+
+class UploadRequestError extends Error {
+  constructor(
+    message: string,
+    public hint?: string
+  ) {
+    super(message);
+    this.name = 'UploadRequestError';
+  }
+}
+
+const FILE_CATEGORY_LABELS: Record<string, string> = {
+  image: 'images',
+  pdf: 'PDF',
+  text: 'text',
+  office: 'Office',
+  email: 'email',
+  archive: 'ZIP',
+};
+
+// Error for a failed upload response, with a hint like "Allowed: images, PDF" or "Limit: 20 MB"
+function toUploadError(data: UploadErrorBody, fallback: string): UploadRequestError {
+  const hint = data.code === 'file_too_large' && data.maxBytes
+    ? `Limit: ${Math.round(data.maxBytes / 1024 / 1024)} MB`
+    : data.allowedTypes?.length
+      ? `Allowed: ${data.allowedTypes.map((type) => FILE_CATEGORY_LABELS[type] || type).join(', ')}`
+      : undefined;
+  return new UploadRequestError(data.error || fallback, hint);
+}
+
+// Outcome counts and failed entries of a ZIP import response
+function toArchiveSummary(archive: {
+  counts: Omit<ArchiveSummary, 'failures'>;
+  entries: Array<{ path: string; status: string; error?: string }>;
+}): ArchiveSummary {
+  const failures = archive.entries
+    .filter((entry) => entry.status === 'failed')
+    .map((entry) => ({ path: entry.path, error: entry.error || 'Failed' }));
+  return { ...archive.counts, failures };
 }
 
 export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
-  const [tab, setTab] = useState<'files' | 'web'>('files');
+  const [tab, setTab] = useState<'files' | 'web' | 'sources'>('files');
   const [files, setFiles] = useState<UploadFile[]>([]);
   const [webUploads, setWebUploads] = useState<WebUpload[]>([]);
   const [webUrl, setWebUrl] = useState('');
   const [isDragging, setIsDragging] = useState(false);
+  const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicatePolicy>('skip');
+  const [crawlSite, setCrawlSite] = useState(false);
+  const [crawlMaxDepth, setCrawlMaxDepth] = useState(2);
+  const [crawlMaxPages, setCrawlMaxPages] = useState(50);
+  const [syncIntervalHours, setSyncIntervalHours] = useState(0);
 
   const handleFileSelect = (selectedFiles: FileList | null) => {
     if (!selectedFiles) return;
@@ -51,8 +171,21 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
   };
 
   const isTextFile = (file: File): boolean => {
-    const textExtensions = /\.(txt|csv|json)$/i;
-    const textMimeTypes = ['text/plain', 'text/csv', 'application/json', 'text/x-csv', 'application/vnd.ms-excel'];
+    const textExtensions = /\.(txt|csv|json|md|markdown|html?|srt|vtt|docx|pptx|xlsx)$/i;
+    const textMimeTypes = [
+      'text/plain',
+      'text/csv',
+      'application/json',
+      'text/x-csv',
+      'text/markdown',
+      'text/html',
+      'text/vtt',
+      'application/x-subrip',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ];
     return textExtensions.test(file.name) || textMimeTypes.includes(file.type);
   };
 
@@ -60,70 +193,107 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
     return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
   };
 
-  const processPDFFile = async (uploadFile: UploadFile) => {
+  const isEmailFile = (file: File): boolean => {
+    return (
+      file.type === 'message/rfc822' ||
+      file.type === 'application/mbox' ||
+      /\.(eml|mbox)$/i.test(file.name)
+    );
+  };
+
+  const isZipFile = (file: File): boolean => {
+    return (
+      file.type === 'application/zip' ||
+      file.type === 'application/x-zip-compressed' ||
+      file.name.toLowerCase().endsWith('.zip')
+    );
+  };
+
+  const setProgress = (id: string, loaded: number, total: number) => {
+    const progress = total > 0 ? Math.min(100, Math.round((loaded / total) * 100)) : 0;
+    setFiles((prev) => prev.map((f) => (f.id === id && f.progress !== progress ? { ...f, progress } : f)));
+  };
+
+  const processZipFile = async (uploadFile: UploadFile) => {
+    setFiles((prev) =>
+      prev.map((f) =>
+        f.id === uploadFile.id ? { ...f, status: 'uploading' as const, progress: 0 } : f
+      )
+    );
+
     try {
-      // Dynamic import to avoid SSR issues
-      const { validatePDFFile, extractPDFData, convertPDFToImages } = await import('@/lib/pdf-to-image');
+      // Sent as the raw body so the server can work through entries while the upload streams in
+      const query = new URLSearchParams({ filename: uploadFile.file.name, duplicatePolicy });
+      const response = await sendWithProgress(
+        `/api/projects/${projectId}/upload-zip?${query}`,
+        { method: 'POST', headers: { 'Content-Type': 'application/zip' }, body: uploadFile.file },
+        (loaded, total) => setProgress(uploadFile.id, loaded, total)
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw toUploadError(data, 'Archive import failed');
+      }
 
+      // data.error is set when the archive could not be read to the end
       setFiles((prev) =>
         prev.map((f) =>
-          f.id === uploadFile.id ? { ...f, status: 'uploading' as const, progress: 10 } : f
+          f.id === uploadFile.id
+            ? {
+                ...f,
+                status: data.error ? ('error' as const) : ('success' as const),
+                progress: 100,
+                error: data.error,
+                archive: toArchiveSummary(data),
+              }
+            : f
         )
       );
 
-      // Validate PDF file
-      validatePDFFile(uploadFile.file);
-
-      // Extract PDF data
-      const pdfData = await extractPDFData(uploadFile.file);
-
-      // Convert PDF to images
-      const images = await convertPDFToImages(pdfData, {
-        imageFormat: 'jpeg',
-        jpegQuality: 0.85,
-        maxSizeBytes: 2 * 1024 * 1024 // 2MB per image
-      });
-
+      onUploadComplete?.();
+    } catch (error) {
+      console.error('ZIP import error:', error);
       setFiles((prev) =>
         prev.map((f) =>
-          f.id === uploadFile.id ? { ...f, progress: 30 } : f
+          f.id === uploadFile.id
+            ? {
+                ...f,
+                status: 'error' as const,
+                error: error instanceof Error ? error.message : 'Archive import failed',
+                errorHint: error instanceof UploadRequestError ? error.hint : undefined,
+              }
+            : f
         )
       );
+    }
+  };
 
-      // Upload each page as a separate image
-      const totalPages = images.length;
-      for (let i = 0; i < images.length; i++) {
-        // Convert data URL to blob
-        const response = await fetch(images[i].dataUrl);
-        const blob = await response.blob();
-
-        // Create a file from the blob
-        const pageFile = new File([blob], `${uploadFile.file.name.replace('.pdf', '')}_page_${i + 1}.jpg`, {
-          type: 'image/jpeg'
-        });
-
-        // Upload the page
-        const formData = new FormData();
-        formData.append('file', pageFile);
+  const processPDFFile = async (uploadFile: UploadFile) => {
+    setFiles((prev) =>
+      prev.map((f) =>
+        f.id === uploadFile.id ? { ...f, status: 'uploading' as const, progress: 0 } : f
+      )
+    );
 
-        const uploadResponse = await fetch(`/api/projects/${projectId}/upload`, {
-          method: 'POST',
-          body: formData,
-        });
+    try {
+      // Pages are rendered and their text layer extracted on the server
+      const formData = new FormData();
+      formData.append('file', uploadFile.file);
+      formData.append('duplicatePolicy', duplicatePolicy);
 
-        if (!uploadResponse.ok) {
-          throw new Error(`Failed to upload page ${i + 1}`);
-        }
+      const response = await sendWithProgress(
+        `/api/projects/${projectId}/upload-pdf`,
+        { method: 'POST', body: formData },
+        (loaded, total) => setProgress(uploadFile.id, loaded, total)
+      );
 
-        // Update progress
-        const progress = 30 + ((i + 1) / totalPages) * 70;
-        setFiles((prev) =>
-          prev.map((f) =>
-            f.id === uploadFile.id ? { ...f, progress: Math.round(progress) } : f
-          )
-        );
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw toUploadError(errorData, 'PDF processing failed');
       }
 
+      const data = await response.json();
+
       // Success
       setFiles((prev) =>
         prev.map((f) =>
@@ -132,6 +302,9 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
                 ...f,
                 status: 'success' as const,
                 progress: 100,
+                chunkCount: data.chunkCount,
+                memoriesCreated: data.memoriesCreated,
+                skipped: !!data.skipped
               }
             : f
         )
@@ -147,6 +320,149 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
                 ...f,
                 status: 'error' as const,
                 error: error instanceof Error ? error.message : 'PDF processing failed',
+                errorHint: error instanceof UploadRequestError ? error.hint : undefined,
+              }
+            : f
+        )
+      );
+    }
+  };
+
+  // Send a large file in checksummed parts; an interrupted upload resumes from the parts the
+  // server already has when the same file is retried, even after a page reload
+  const uploadResumable = async (uploadFile: UploadFile) => {
+    const { file } = uploadFile;
+    const storageKey = `resumable-upload:${projectId}:${file.name}:${file.size}:${file.lastModified}`;
+    const uploadsUrl = `/api/projects/${projectId}/uploads`;
+
+    setFiles((prev) =>
+      prev.map((f) =>
+        f.id === uploadFile.id ? { ...f, status: 'uploading' as const, progress: 0, error: undefined, errorHint: undefined } : f
+      )
+    );
+
+    try {
+      let upload: ResumableUpload | null = null;
+
+      const previousId = localStorage.getItem(storageKey);
+      if (previousId) {
+        const response = await fetch(`${uploadsUrl}/${previousId}`);
+        const data = response.ok ? await response.json() : null;
+        if (data && data.upload.status !== 'failed') {
+          upload = data.upload;
+        }
+      }
+
+      if (!upload) {
+        const response = await fetch(uploadsUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            filename: file.name,
+            contentType: file.type,
+            size: file.size,
+            duplicatePolicy,
+          }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw toUploadError(data, 'Failed to start upload');
+        }
+        upload = data.upload as ResumableUpload;
+        localStorage.setItem(storageKey, upload.uploadId);
+      }
+
+      if (upload.status === 'uploading') {
+        const received = new Set(upload.receivedParts);
+        let sentBytes = upload.receivedBytes;
+        setProgress(uploadFile.id, sentBytes, file.size);
+
+        for (let partNumber = 1; partNumber <= upload.totalParts; partNumber++) {
+          if (received.has(partNumber)) continue;
+
+          const part = file.slice((partNumber - 1) * upload.partSize, partNumber * upload.partSize);
+          const checksum = await sha256Hex(part);
+
+          // Retry network errors and server errors; anything else means the part itself is wrong
+          for (let attempt = 1; ; attempt++) {
+            try {
+              const response = await sendWithProgress(
+                `${uploadsUrl}/${upload.uploadId}/parts/${partNumber}`,
+                { method: 'PUT', headers: { 'X-Part-Sha256': checksum }, body: part },
+                (loaded) => setProgress(uploadFile.id, sentBytes + loaded, file.size)
+              );
+              if (response.ok) break;
+              const data = await response.json().catch(() => ({}));
+              const error = new Error(data.error || `Part ${partNumber} failed`);
+              if (response.status < 500 || attempt >= PART_ATTEMPTS) throw error;
+            } catch (error) {
+              if (!(error instanceof Error && error.message === 'Network error') || attempt >= PART_ATTEMPTS) {
+                throw error;
+              }
+            }
+            await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt));
+          }
+
+          sentBytes += part.size;
+        }
+      }
+
+      const response = await fetch(`${uploadsUrl}/${upload.uploadId}/complete`, { method: 'POST' });
+      let data = await response.json();
+      if (!response.ok) {
+        throw toUploadError(data, 'Upload failed');
+      }
+
+      // The server imports the file in the background; wait for the result
+      while (data.status === 'processing') {
+        await new Promise((resolve) => setTimeout(resolve, IMPORT_POLL_MS));
+        const statusResponse = await fetch(`${uploadsUrl}/${upload.uploadId}`, { cache: 'no-store' });
+        const statusData = await statusResponse.json();
+        if (!statusResponse.ok) {
+          throw toUploadError(statusData, 'Upload failed');
+        }
+        const current = statusData.upload;
+        if (current.status === 'failed') {
+          throw new Error(current.error || 'Upload failed');
+        }
+        data = current.status === 'completed' ? { uploadId: current.uploadId, ...current.result } : current;
+      }
+      localStorage.removeItem(storageKey);
+
+      setFiles((prev) =>
+        prev.map((f) =>
+          f.id === uploadFile.id
+            ? data.archive
+              ? {
+                  ...f,
+                  status: data.error ? ('error' as const) : ('success' as const),
+                  progress: 100,
+                  error: data.error,
+                  archive: toArchiveSummary(data.archive),
+                }
+              : {
+                  ...f,
+                  status: 'success' as const,
+                  progress: 100,
+                  chunkCount: data.chunkCount,
+                  memoriesCreated: data.memoriesCreated,
+                  skipped: !!data.skipped
+                }
+            : f
+        )
+      );
+
+      onUploadComplete?.();
+    } catch (error) {
+      console.error('Resumable upload error:', error);
+      setFiles((prev) =>
+        prev.map((f) =>
+          f.id === uploadFile.id
+            ? {
+                ...f,
+                status: 'error' as const,
+                error: error instanceof Error ? error.message : 'Upload failed',
+                errorHint: error instanceof UploadRequestError ? error.hint : undefined,
               }
             : f
         )
@@ -155,7 +471,19 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
   };
 
   const uploadFile_ = async (uploadFile: UploadFile) => {
-    // Handle PDF files separately (convert to images on client side)
+    // Large files go up in resumable parts, whatever their type
+    if (uploadFile.file.size > RESUMABLE_THRESHOLD) {
+      await uploadResumable(uploadFile);
+      return;
+    }
+
+    // ZIP archives are unpacked on the server, entry by entry
+    if (isZipFile(uploadFile.file)) {
+      await processZipFile(uploadFile);
+      return;
+    }
+
+    // Handle PDF files separately (page images + text layer)
     if (isPDFFile(uploadFile.file)) {
       await processPDFFile(uploadFile);
       return;
@@ -170,20 +498,24 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
     try {
       const formData = new FormData();
       formData.append('file', uploadFile.file);
+      formData.append('duplicatePolicy', duplicatePolicy);
 
       // Determine endpoint based on file type
-      const endpoint = isTextFile(uploadFile.file)
-        ? `/api/projects/${projectId}/upload-text`
-        : `/api/projects/${projectId}/upload`;
-
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        body: formData,
-      });
+      const endpoint = isEmailFile(uploadFile.file)
+        ? `/api/projects/${projectId}/upload-email`
+        : isTextFile(uploadFile.file)
+          ? `/api/projects/${projectId}/upload-text`
+          : `/api/projects/${projectId}/upload`;
+
+      const response = await sendWithProgress(
+        endpoint,
+        { method: 'POST', body: formData },
+        (loaded, total) => setProgress(uploadFile.id, loaded, total)
+      );
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Upload failed');
+        throw toUploadError(errorData, 'Upload failed');
       }
 
       const data = await response.json();
@@ -197,7 +529,8 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
                 status: 'success' as const,
                 progress: 100,
                 chunkCount: data.chunkCount,
-                memoriesCreated: data.memoriesCreated
+                memoriesCreated: data.memoriesCreated,
+                skipped: !!data.skipped
               }
             : f
         )
@@ -213,6 +546,7 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
                 ...f,
                 status: 'error' as const,
                 error: error instanceof Error ? error.message : 'Upload failed',
+                errorHint: error instanceof UploadRequestError ? error.hint : undefined,
               }
             : f
         )
@@ -236,7 +570,11 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
       const response = await fetch(`/api/projects/${projectId}/upload-web`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url: webUrl })
+        body: JSON.stringify(
+          crawlSite
+            ? { url: webUrl, duplicatePolicy, mode: 'crawl', maxDepth: crawlMaxDepth, maxPages: crawlMaxPages }
+            : { url: webUrl, duplicatePolicy }
+        )
       });
 
       if (!response.ok) {
@@ -246,6 +584,25 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
 
       const data = await response.json();
 
+      if (data.ingestionId) {
+        setWebUrl('');
+        await pollCrawl(id, data.ingestionId, crawlMaxPages);
+        return;
+      }
+
+      // Register the page for scheduled re-scraping
+      let refreshIntervalHours: number | undefined;
+      if (syncIntervalHours > 0) {
+        const syncResponse = await fetch(`/api/projects/${projectId}/web-sources`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ url: data.url || webUrl, refreshIntervalHours: syncIntervalHours })
+        });
+        if (syncResponse.ok) {
+          refreshIntervalHours = syncIntervalHours;
+        }
+      }
+
       setWebUploads((prev) =>
         prev.map((w) =>
           w.id === id
@@ -253,7 +610,9 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
                 ...w,
                 status: 'success' as const,
                 chunkCount: data.chunkCount,
-                memoriesCreated: data.memoriesCreated
+                memoriesCreated: data.memoriesCreated,
+                skipped: !!data.skipped,
+                refreshIntervalHours
               }
             : w
         )
@@ -276,6 +635,39 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
     }
   };
 
+  // Follow a background crawl until it finishes
+  const pollCrawl = async (id: string, ingestionId: string, maxPages: number) => {
+    const updateCrawl = (changes: Partial<WebUpload>) =>
+      setWebUploads((prev) => prev.map((w) => (w.id === id ? { ...w, ...changes } : w)));
+
+    while (true) {
+      const response = await fetch(`/api/projects/${projectId}/ingestions/${ingestionId}`);
+      if (!response.ok) throw new Error('Failed to fetch crawl progress');
+      const { ingestion } = await response.json();
+
+      updateCrawl({
+        chunkCount: ingestion.progress.items,
+        crawl: { ingestionId, maxPages, ...ingestion.progress },
+      });
+
+      if (ingestion.status !== 'running') {
+        updateCrawl(
+          ingestion.status === 'failed'
+            ? { status: 'error', error: ingestion.error || 'Crawl failed' }
+            : { status: 'success' }
+        );
+        onUploadComplete?.();
+        return;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+    }
+  };
+
+  const cancelCrawl = async (ingestionId: string) => {
+    await fetch(`/api/projects/${projectId}/ingestions/${ingestionId}`, { method: 'DELETE' });
+  };
+
   const removeFile = (id: string) => {
     setFiles((prev) => prev.filter((f) => f.id !== id));
   };
@@ -353,8 +745,26 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
             Web Links
           </div>
         </button>
+        <button
+          onClick={() => setTab('sources')}
+          className={`pb-2 px-3 text-sm font-medium border-b-2 transition-colors ${
+            tab === 'sources'
+              ? 'border-[#00ED64] text-[#00ED64]'
+              : 'border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-300'
+          }`}
+        >
+          <div className="flex items-center gap-2">
+            <FolderSync className="w-4 h-4" />
+            Sources
+          </div>
+        </button>
       </div>
 
+      {/* Sources Tab */}
+      {tab === 'sources' && (
+        <ConnectorsPanel projectId={projectId} onSyncComplete={onUploadComplete} />
+      )}
+
       {/* Files Tab */}
       {tab === 'files' && (
         <>
@@ -377,18 +787,37 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
               Click to upload or drag and drop
             </p>
             <p className="text-xs text-gray-500 dark:text-gray-400">
-              Images (JPEG, PNG), PDFs, Text (.txt, .csv, .json) - max 20MB
+              Images (JPEG, PNG), PDFs, Text (.txt, .csv, .json, .md, .html), Transcripts (.srt, .vtt), Email (.eml, .mbox), Office (.docx, .pptx, .xlsx) - max 20MB,
+              or a ZIP archive of them
             </p>
 
             <input
               id="file-input"
               type="file"
               multiple
-              accept="image/jpeg,image/png,application/pdf,.txt,.csv,.json,text/plain,text/csv,application/json"
+              accept="image/jpeg,image/png,application/pdf,.txt,.csv,.json,text/plain,text/csv,application/json,.md,.markdown,.html,.htm,text/markdown,text/html,.srt,.vtt,text/vtt,.eml,.mbox,message/rfc822,.docx,.pptx,.xlsx,.zip,application/zip"
               onChange={(e) => handleFileSelect(e.target.files)}
               className="hidden"
             />
           </div>
+
+          {/* Duplicate handling */}
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <label htmlFor="duplicate-policy" className="text-gray-600 dark:text-gray-400">
+              If a file is already in this project
+            </label>
+            <select
+              id="duplicate-policy"
+              value={duplicatePolicy}
+              onChange={(e) => setDuplicatePolicy(e.target.value as DuplicatePolicy)}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded
+                       bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            >
+              <option value="skip">Skip it</option>
+              <option value="replace">Replace it</option>
+              <option value="keep-both">Keep both</option>
+            </select>
+          </div>
         </>
       )}
 
@@ -419,18 +848,76 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
                 className="px-4 py-2 bg-[#00ED64] text-gray-900 rounded-lg hover:bg-[#13AA52]
                          disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
               >
-                {webPendingCount > 0 ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Scrape'}
+                {webPendingCount > 0 ? <Loader2 className="w-4 h-4 animate-spin" /> : crawlSite ? 'Crawl' : 'Scrape'}
               </button>
             </div>
             <p className="text-xs text-gray-500 dark:text-gray-400">
-              Enter a website URL to scrape and analyze its content
+              {crawlSite
+                ? 'Follows links on the same site, using its sitemap.xml and respecting robots.txt'
+                : 'Enter a website URL to scrape and analyze its content'}
             </p>
           </div>
+
+          {/* Crawl options */}
+          <div className="space-y-2 text-xs">
+            <label className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+              <input
+                type="checkbox"
+                checked={crawlSite}
+                onChange={(e) => setCrawlSite(e.target.checked)}
+              />
+              Crawl the whole site
+            </label>
+            {!crawlSite && (
+              <div className="flex items-center justify-between gap-2 text-gray-600 dark:text-gray-400">
+                <label htmlFor="sync-interval">Keep in sync with the live page</label>
+                <select
+                  id="sync-interval"
+                  value={syncIntervalHours}
+                  onChange={(e) => setSyncIntervalHours(Number(e.target.value))}
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded
+                           bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                >
+                  <option value={0}>Never</option>
+                  <option value={24}>Daily</option>
+                  <option value={168}>Weekly</option>
+                </select>
+              </div>
+            )}
+            {crawlSite && (
+              <div className="flex items-center gap-4 text-gray-600 dark:text-gray-400">
+                <label className="flex items-center gap-1">
+                  Link depth
+                  <input
+                    type="number"
+                    min={0}
+                    max={5}
+                    value={crawlMaxDepth}
+                    onChange={(e) => setCrawlMaxDepth(Number(e.target.value))}
+                    className="w-14 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded
+                             bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                  />
+                </label>
+                <label className="flex items-center gap-1">
+                  Max pages
+                  <input
+                    type="number"
+                    min={1}
+                    max={500}
+                    value={crawlMaxPages}
+                    onChange={(e) => setCrawlMaxPages(Number(e.target.value))}
+                    className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded
+                             bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                  />
+                </label>
+              </div>
+            )}
+          </div>
         </>
       )}
 
       {/* Stats */}
-      {(files.length > 0 || webUploads.length > 0) && (
+      {tab !== 'sources' && (files.length > 0 || webUploads.length > 0) && (
         <div className="flex items-center justify-between text-xs">
           <div className="flex items-center gap-3">
             {tab === 'files' && pendingCount > 0 && (
@@ -497,7 +984,36 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
                       <p className="text-xs text-gray-500 dark:text-gray-400">
                         {Math.round(uploadFile.file.size / 1024)} KB
                       </p>
-                      {uploadFile.chunkCount !== undefined && (
+                      {uploadFile.skipped && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                          Already in project, skipped
+                        </p>
+                      )}
+                      {uploadFile.archive && (
+                        <>
+                          <p className="text-xs text-[#13AA52] dark:text-[#00ED64] mt-0.5">
+                            {uploadFile.archive.success} imported
+                            {uploadFile.archive.skipped > 0 && ` • ${uploadFile.archive.skipped} already in project`}
+                            {uploadFile.archive.unsupported > 0 && ` • ${uploadFile.archive.unsupported} unsupported`}
+                            {uploadFile.archive.failed > 0 && ` • ${uploadFile.archive.failed} failed`}
+                          </p>
+                          {uploadFile.archive.failures.slice(0, 5).map((failure) => (
+                            <p
+                              key={failure.path}
+                              className="text-xs text-red-600 dark:text-red-400 truncate"
+                              title={`${failure.path}: ${failure.error}`}
+                            >
+                              {failure.path}: {failure.error}
+                            </p>
+                          ))}
+                          {uploadFile.archive.failures.length > 5 && (
+                            <p className="text-xs text-red-600 dark:text-red-400">
+                              and {uploadFile.archive.failures.length - 5} more
+                            </p>
+                          )}
+                        </>
+                      )}
+                      {uploadFile.chunkCount !== undefined && !uploadFile.skipped && (
                         <p className="text-xs text-[#13AA52] dark:text-[#00ED64] mt-0.5">
                           {uploadFile.chunkCount} chunk{uploadFile.chunkCount !== 1 ? 's' : ''}
                           {uploadFile.memoriesCreated !== undefined && ` • ${uploadFile.memoriesCreated} memories`}
@@ -513,22 +1029,44 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
 
                   {/* Progress bar for uploading */}
                   {uploadFile.status === 'uploading' && (
-                    <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5 mb-1">
-                      <div
-                        className="bg-[#00ED64] h-1.5 rounded-full transition-all duration-300"
-                        style={{ width: '50%' }}  // Indeterminate progress
-                      />
-                    </div>
+                    <>
+                      <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5 mb-1">
+                        <div
+                          className="bg-[#00ED64] h-1.5 rounded-full transition-all duration-300"
+                          style={{ width: `${uploadFile.progress}%` }}
+                        />
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {uploadFile.progress < 100
+                          ? `Uploading ${Math.round((uploadFile.file.size * uploadFile.progress) / 100 / 1024)} of ${Math.round(uploadFile.file.size / 1024)} KB`
+                          : 'Processing...'}
+                      </p>
+                    </>
                   )}
 
                   {/* Error message */}
                   {uploadFile.status === 'error' && uploadFile.error && (
                     <p className="text-xs text-red-600 dark:text-red-400">
                       {uploadFile.error}
+                      {uploadFile.errorHint && (
+                        <span className="text-gray-500 dark:text-gray-400"> ({uploadFile.errorHint})</span>
+                      )}
                     </p>
                   )}
                 </div>
 
+                {/* Retry button (large files resume from the parts already sent) */}
+                {uploadFile.status === 'error' && (
+                  <button
+                    onClick={() => uploadFile_(uploadFile)}
+                    className="flex-shrink-0 p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300
+                             rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                    aria-label="Retry"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                  </button>
+                )}
+
                 {/* Remove button */}
                 {(uploadFile.status === 'success' || uploadFile.status === 'error') && (
                   <button
@@ -563,10 +1101,23 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
                     <p className="text-xs font-medium text-gray-900 dark:text-gray-100 truncate">
                       {webUpload.url}
                     </p>
-                    {webUpload.chunkCount !== undefined && (
+                    {webUpload.skipped && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                        Already in project, skipped
+                      </p>
+                    )}
+                    {webUpload.crawl && (
+                      <p className="text-xs text-blue-600 dark:text-blue-400 mt-0.5">
+                        {webUpload.crawl.succeeded} page{webUpload.crawl.succeeded !== 1 ? 's' : ''} • {webUpload.crawl.items} chunks
+                        {webUpload.crawl.skipped > 0 && ` • ${webUpload.crawl.skipped} unchanged`}
+                        {webUpload.crawl.failed > 0 && ` • ${webUpload.crawl.failed} failed`}
+                      </p>
+                    )}
+                    {webUpload.chunkCount !== undefined && !webUpload.skipped && !webUpload.crawl && (
                       <p className="text-xs text-blue-600 dark:text-blue-400 mt-0.5">
                         {webUpload.chunkCount} chunk{webUpload.chunkCount !== 1 ? 's' : ''}
                         {webUpload.memoriesCreated !== undefined && ` • ${webUpload.memoriesCreated} memories`}
+                        {webUpload.refreshIntervalHours && ` • refreshes ${webUpload.refreshIntervalHours >= 168 ? 'weekly' : 'daily'}`}
                       </p>
                     )}
                   </div>
@@ -588,7 +1139,11 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
                   <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5 mb-1">
                     <div
                       className="bg-blue-600 h-1.5 rounded-full transition-all duration-300"
-                      style={{ width: '50%' }}  // Indeterminate progress
+                      style={{
+                        width: webUpload.crawl
+                          ? `${Math.min(100, Math.max(5, (webUpload.crawl.processed / webUpload.crawl.maxPages) * 100))}%`
+                          : '50%'  // Indeterminate progress
+                      }}
                     />
                   </div>
                 )}
@@ -601,6 +1156,19 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
                 )}
               </div>
 
+              {/* Cancel button for running crawls */}
+              {webUpload.status === 'uploading' && webUpload.crawl && (
+                <button
+                  onClick={() => cancelCrawl(webUpload.crawl!.ingestionId)}
+                  className="flex-shrink-0 p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300
+                           rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                  aria-label="Cancel crawl"
+                  title="Stop crawling"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+
               {/* Remove button */}
               {(webUpload.status === 'success' || webUpload.status === 'error') && (
                 <button
@@ -632,7 +1200,7 @@ export function UploadPanel({ projectId, onUploadComplete }: UploadPanelProps) {
       {/* Info */}
       <div className="pt-3 border-t border-gray-200 dark:border-gray-700">
         <p className="text-xs text-gray-500 dark:text-gray-400">
-          <strong>Note:</strong> Files and web content are automatically chunked, analyzed, and processed after upload.
+          <strong>Note:</strong> Files, web content and synced sources are automatically chunked, analyzed, and processed after upload.
           Memories are automatically extracted and stored. Use the Agent to explore your uploaded data.
         </p>
       </div>
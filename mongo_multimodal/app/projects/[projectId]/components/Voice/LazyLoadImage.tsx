@@ -29,40 +29,12 @@ export function LazyLoadImage({
       return;
     }
 
-    // Otherwise, fetch the content
-    const fetchImage = async () => {
-      setLoading(true);
-      setError(false);
-
-      try {
-        const response = await fetch(`/api/projects/data/${dataId}/content`);
-        if (!response.ok) throw new Error('Failed to fetch');
-
-        const data = await response.json();
-        if (data.content?.base64) {
-          setImageSrc(`data:${data.metadata.mimeType || mimeType};base64,${data.content.base64}`);
-        } else {
-          throw new Error('No base64 data');
-        }
-      } catch (err) {
-        console.error('Failed to load image:', err);
-        setError(true);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchImage();
+    // Otherwise, stream the bytes from the content endpoint
+    setLoading(true);
+    setError(false);
+    setImageSrc(`/api/projects/data/${dataId}/content`);
   }, [dataId, base64, mimeType]);
 
-  if (loading) {
-    return (
-      <div className={`${className} flex items-center justify-center bg-neutral-200 dark:bg-neutral-800`}>
-        <Loader2 className="w-6 h-6 animate-spin text-neutral-400" />
-      </div>
-    );
-  }
-
   if (error || !imageSrc) {
     return (
       <div className={`${className} flex items-center justify-center bg-neutral-200 dark:bg-neutral-800`}>
@@ -72,10 +44,23 @@ export function LazyLoadImage({
   }
 
   return (
-    <img
-      src={imageSrc}
-      alt={filename}
-      className={className}
-    />
+    <>
+      {loading && (
+        <div className={`${className} flex items-center justify-center bg-neutral-200 dark:bg-neutral-800`}>
+          <Loader2 className="w-6 h-6 animate-spin text-neutral-400" />
+        </div>
+      )}
+      <img
+        src={imageSrc}
+        alt={filename}
+        className={loading ? 'hidden' : className}
+        onLoad={() => setLoading(false)}
+        onError={() => {
+          console.error('Failed to load image:', dataId);
+          setLoading(false);
+          setError(true);
+        }}
+      />
+    </>
   );
 }
@@ -2,6 +2,7 @@ import { notFound } from 'next/navigation';
 import ProjectPageClient from './components/ProjectPageClient';
 import { getDb } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
+import { embeddingProjection, getActiveEmbedding } from '@/lib/services/embeddingModel.service';
 import { ClientProject, ClientProjectData } from '@/types/clientTypes';
 
 // Helper function to serialize ObjectId instances to strings
@@ -62,6 +63,7 @@ async function getProject(projectId: string): Promise<ClientProject | null> {
 async function getProjectData(projectId: string): Promise<ClientProjectData[]> {
   try {
     const db = await getDb();
+    const active = await getActiveEmbedding(db);
 
     // Get all data items without base64 content for images
     const data = await db.collection('projectData')
@@ -73,7 +75,7 @@ async function getProjectData(projectId: string): Promise<ClientProjectData[]> {
         'content.text': 1, // Include text content for documents/chunks
         metadata: 1,
         analysis: 1,
-        embedding: 1,
+        embedding: embeddingProjection(active), // vector from the active model
         createdAt: 1,
         updatedAt: 1,
         processedAt: 1
@@ -0,0 +1,46 @@
+import * as dotenv from 'dotenv';
+import { resolve } from 'path';
+
+// Load environment variables from .env.local
+dotenv.config({ path: resolve(__dirname, '../../.env.local') });
+
+import { ObjectId } from 'mongodb';
+import { getDb } from '../lib/mongodb';
+import { backfillContentHashes } from '../lib/services/dedup.service';
+
+/**
+ * Compute metadata.contentHash for items stored before duplicate detection existed,
+ * so the duplicates report can compare them
+ * Usage: npm run migrate:hashes [-- --project <projectId>]
+ */
+async function migrateContentHashes() {
+  const projectId = argValue('--project');
+
+  try {
+    if (projectId !== undefined && !ObjectId.isValid(projectId)) {
+      console.error(`Invalid project ID "${projectId}"`);
+      process.exit(1);
+    }
+
+    const db = await getDb();
+    console.log(`Hashing items without a content hash${projectId ? ` in project ${projectId}` : ''}...`);
+
+    const updated = await backfillContentHashes(db, projectId);
+    console.log(`\nHashed ${updated} items`);
+  } catch (error) {
+    console.error('Content hash backfill failed:', error);
+    process.exit(1);
+  } finally {
+    process.exit(0);
+  }
+}
+
+/**
+ * Helper: Value following a command-line flag
+ */
+function argValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+migrateContentHashes();
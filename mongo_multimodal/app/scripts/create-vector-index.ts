@@ -5,66 +5,45 @@ import { resolve } from 'path';
 dotenv.config({ path: resolve(__dirname, '../../.env.local') });
 
 import { getDb } from '../lib/mongodb';
+import { TEXT_INDEX_NAME, ensureTextSearchIndex } from '../lib/services/vectorSearch.service';
+import { VECTOR_COLLECTIONS, ensureEmbeddingIndexes, ensureVectorIndex, getActiveEmbedding } from '../lib/services/embeddingModel.service';
+import { ensureJobIndexes } from '../lib/services/jobQueue.service';
+import { ensureIngestionIndexes } from '../lib/services/ingestion.service';
+import { ensureWebSourceIndexes } from '../lib/services/webSource.service';
+import { ensureTableIndexes } from '../lib/services/table.service';
+import { ensureUploadIndexes } from '../lib/services/resumableUpload.service';
+import { ensureConnectorIndexes } from '../lib/services/connector.service';
+import { ensureFeedIndexes } from '../lib/services/feed.service';
 
 async function createVectorIndex() {
   try {
-    console.log('Creating vector search index...');
+    console.log('Creating vector search indexes...');
 
     const db = await getDb();
 
+    // Vectors are as long as the active embedding model makes them; the model is pinned on first
+    // use, so changing EMBEDDING_* later needs a migration (npm run migrate:embeddings)
+    const active = await getActiveEmbedding(db);
+    const { name, model, dimensions } = active.provider;
+    console.log(`Embedding model: ${name} (${model}, ${dimensions} dimensions), stored in ${active.slot}`);
+
     // Get the projectData collection
     const collection = db.collection('projectData');
 
-    // Define the vector search index
-    const indexDefinition = {
-      name: 'vector_index',
-      definition: {
-        mappings: {
-          dynamic: true,
-          fields: {
-            embedding: {
-              type: 'knnVector',
-              dimensions: 1024,
-              similarity: 'cosine'
-            }
-          }
-        }
-      }
-    };
-
-    try {
-      // Check if index already exists
-      const indexes = await collection.listSearchIndexes().toArray();
-      const existingIndex = indexes.find(idx => idx.name === 'vector_index');
-
-      if (existingIndex) {
-        console.log('Vector index already exists:', existingIndex.name);
-        console.log('Index definition:', JSON.stringify(existingIndex, null, 2));
-        return;
-      }
-
-      // Create the search index
-      console.log('Creating new vector index...');
-      await collection.createSearchIndex(indexDefinition);
-
-      console.log('Vector search index created successfully!');
-      console.log('Index name: vector_index');
-      console.log('Collection: projectData');
-      console.log('Dimensions: 1024');
-      console.log('Similarity: cosine');
-
-      console.log('\nNote: It may take a few minutes for the index to be fully active.');
-      console.log('You can check the index status in MongoDB Atlas UI.');
-
-    } catch (error: unknown) {
-      const err = error as { code?: string; message?: string };
-      if (err?.code === 'IndexAlreadyExists' || err?.message?.includes('already exists')) {
-        console.log('Vector index already exists');
-      } else {
-        throw error;
-      }
+    // Vector indexes on projectData and agentMemories; existing ones are updated to the current
+    // definition (e.g. to add the embedding model filter)
+    for (const vectorCollection of VECTOR_COLLECTIONS) {
+      const result = await ensureVectorIndex(db, vectorCollection, active.slot, dimensions);
+      console.log(`Vector index ${active.index} on ${vectorCollection}: ${result}`);
     }
 
+    // Full-text index for the keyword half of hybrid search
+    const textIndexResult = await ensureTextSearchIndex(db);
+    console.log(`Search index ${TEXT_INDEX_NAME} on projectData: ${textIndexResult}`);
+
+    console.log('\nNote: It may take a few minutes for the index to be fully active.');
+    console.log('You can check the index status in MongoDB Atlas UI.');
+
     // Also ensure regular indexes exist
     console.log('\nCreating regular indexes...');
 
@@ -80,11 +59,48 @@ async function createVectorIndex() {
     await collection.createIndex({ type: 1 });
     console.log('Created index on type');
 
+    // Content hashes for duplicate detection
+    await collection.createIndex({ projectId: 1, 'metadata.sourceHash': 1 });
+    await collection.createIndex({ projectId: 1, 'metadata.contentHash': 1 });
+    console.log('Created indexes on content hashes');
+
     // For projects collection
     const projectsCollection = db.collection('projects');
     await projectsCollection.createIndex({ createdAt: -1 });
     console.log('Created index on projects.createdAt');
 
+    // For the background jobs collection
+    await ensureJobIndexes(db);
+    console.log('Created indexes on jobs');
+
+    // For crawl progress tracking
+    await ensureIngestionIndexes(db);
+    console.log('Created indexes on ingestions');
+
+    // For scheduled web source refreshes and their version history
+    await ensureWebSourceIndexes(db);
+    console.log('Created indexes on webSources');
+
+    // For queryTable over CSV/XLSX rows
+    await ensureTableIndexes(db);
+    console.log('Created indexes on tables and tableRows');
+
+    // For resumable uploads (expired sessions and parts are removed by TTL)
+    await ensureUploadIndexes(db);
+    console.log('Created indexes on uploadSessions and uploadParts');
+
+    // For scheduled folder/S3 connector syncs and their file tracking
+    await ensureConnectorIndexes(db);
+    console.log('Created indexes on connectors and connectorFiles');
+
+    // For scheduled feed polls and GUID deduplication of their entries
+    await ensureFeedIndexes(db);
+    console.log('Created indexes on feedSubscriptions and feedEntries');
+
+    // For re-embedding migrations
+    await ensureEmbeddingIndexes(db);
+    console.log('Created indexes on embeddingMigrations');
+
     console.log('\nAll indexes created successfully!');
 
   } catch (error) {
@@ -0,0 +1,148 @@
+import * as dotenv from 'dotenv';
+import { resolve } from 'path';
+
+// Load environment variables from .env.local
+dotenv.config({ path: resolve(__dirname, '../../.env.local') });
+
+import { Db } from 'mongodb';
+import { getDb } from '../lib/mongodb';
+import { EmbeddingModelSpec, embeddingSpecFromEnv } from '../lib/embeddings';
+import {
+  ACTIVE_EMBEDDING_CACHE_MS,
+  EmbeddingMigrationError,
+  cancelEmbeddingMigration,
+  catchUpEmbeddings,
+  cutoverEmbeddingMigration,
+  getEmbeddingStatus,
+  runEmbeddingMigration,
+  startEmbeddingMigration,
+} from '../lib/services/embeddingModel.service';
+
+// How long --cutover waits for the new vector indexes to finish building
+const INDEX_WAIT_MS = 30 * 60 * 1000;
+const INDEX_POLL_MS = 15 * 1000;
+
+/**
+ * Re-embed every stored vector with another embedding model
+ * Search keeps using the current model until the cutover; stopping (Ctrl+C) and running the
+ * same command again resumes where it left off.
+ * Usage: npm run migrate:embeddings -- [--provider voyage|openai|local] [--model name]
+ *          [--dimensions n] [--cutover]
+ *        npm run migrate:embeddings -- --status | --cancel
+ * Without --provider the target is the model configured by EMBEDDING_* in .env.local.
+ */
+async function migrateEmbeddings() {
+  try {
+    const db = await getDb();
+
+    if (process.argv.includes('--status')) {
+      const status = await getEmbeddingStatus(db);
+      console.log(`Active model: ${status.active.modelId} (stored in ${status.active.slot})`);
+      console.log(`Configured model: ${status.configuredModelId}`);
+      if (status.migration) {
+        const { targetModelId, status: state, processed, failed, total } = status.migration;
+        console.log(`Latest migration: to ${targetModelId}, ${state}, ${processed}/${total} vectors (${failed} failed)`);
+      }
+      return;
+    }
+
+    if (process.argv.includes('--cancel')) {
+      const { migration } = await getEmbeddingStatus(db);
+      const cancelled = migration && await cancelEmbeddingMigration(db, migration._id.toString());
+      console.log(cancelled ? `Cancelled the migration to ${migration.targetModelId}` : 'No migration in progress');
+      return;
+    }
+
+    const migration = await startEmbeddingMigration(db, targetSpec());
+    console.log(`Migrating ${migration.fromModelId} -> ${migration.targetModelId} (${migration.total} vectors)`);
+
+    // Stop after the current batch; running again resumes
+    const controller = new AbortController();
+    process.on('SIGINT', () => {
+      console.log('\nStopping after the current batch...');
+      controller.abort();
+    });
+
+    const result = await runEmbeddingMigration(db, migration._id.toString(), {
+      signal: controller.signal,
+      onProgress: ({ processed, failed, total }) => {
+        console.log(`Re-embedded ${processed + failed}/${total} vectors${failed ? ` (${failed} failed)` : ''}`);
+      },
+    });
+
+    if (result.status !== 'ready') {
+      console.log(`Migration is ${result.status}${result.lastError ? `: ${result.lastError}` : ''}`);
+      return;
+    }
+    if (result.failed > 0) {
+      console.log(`${result.failed} vectors failed (last error: ${result.lastError}); they are retried at cutover`);
+    }
+    if (!process.argv.includes('--cutover')) {
+      console.log('\nAll vectors re-embedded. Run again with --cutover to switch search to the new model.');
+      return;
+    }
+
+    await cutover(db, result._id.toString());
+
+    // Other processes may have stored vectors with the old model until they saw the cutover
+    console.log(`Waiting ${ACTIVE_EMBEDDING_CACHE_MS / 1000}s for running processes to switch...`);
+    await new Promise((resolve) => setTimeout(resolve, ACTIVE_EMBEDDING_CACHE_MS));
+    const caughtUp = await catchUpEmbeddings(db);
+    console.log(`\nSwitched to ${result.targetModelId}${caughtUp ? ` (re-embedded ${caughtUp} late vectors)` : ''}`);
+    console.log('Set EMBEDDING_* in .env.local to the new model so the next migration starts from it.');
+  } catch (error) {
+    if (error instanceof EmbeddingMigrationError) {
+      console.error(error.message);
+    } else {
+      console.error('Embedding migration failed:', error);
+    }
+    process.exit(1);
+  } finally {
+    process.exit(0);
+  }
+}
+
+/**
+ * Helper: Target model from the arguments, falling back to the environment
+ */
+function targetSpec(): EmbeddingModelSpec {
+  const provider = argValue('--provider');
+  const model = argValue('--model');
+  const dimensions = argValue('--dimensions');
+
+  // Another provider doesn't inherit the configured model
+  const base = provider ? { provider } : embeddingSpecFromEnv();
+  return {
+    ...base,
+    ...(model && { model }),
+    ...(dimensions && { dimensions: parseInt(dimensions, 10) }),
+  };
+}
+
+/**
+ * Helper: Cut over once the new vector indexes have finished building
+ */
+async function cutover(db: Db, migrationId: string) {
+  const deadline = Date.now() + INDEX_WAIT_MS;
+  for (;;) {
+    try {
+      await cutoverEmbeddingMigration(db, migrationId);
+      return;
+    } catch (error) {
+      const building = error instanceof EmbeddingMigrationError && error.message.includes('still building');
+      if (!building || Date.now() > deadline) throw error;
+      console.log(`${(error as Error).message}, waiting...`);
+      await new Promise((resolve) => setTimeout(resolve, INDEX_POLL_MS));
+    }
+  }
+}
+
+/**
+ * Helper: Value following a command-line flag
+ */
+function argValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+migrateEmbeddings();
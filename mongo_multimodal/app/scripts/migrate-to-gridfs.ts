@@ -0,0 +1,81 @@
+import * as dotenv from 'dotenv';
+import { resolve } from 'path';
+
+// Load environment variables from .env.local
+dotenv.config({ path: resolve(__dirname, '../../.env.local') });
+
+import { ObjectId } from 'mongodb';
+import { getDb } from '../lib/mongodb';
+import { storeFile } from '../lib/services/fileStorage.service';
+import { hashContent } from '../lib/services/dedup.service';
+
+/**
+ * Move inline base64 image bytes on projectData into GridFS
+ * Usage: npm run migrate:gridfs [-- --dry-run]
+ */
+async function migrateToGridFS() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  try {
+    const db = await getDb();
+    const collection = db.collection('projectData');
+
+    const filter = { 'content.base64': { $exists: true, $ne: null } };
+    const total = await collection.countDocuments(filter);
+    console.log(`Found ${total} items with inline base64 content${dryRun ? ' (dry run)' : ''}`);
+
+    const cursor = collection
+      .find(filter)
+      .project<{
+        _id: ObjectId;
+        projectId: ObjectId;
+        content: { base64: string };
+        metadata?: { filename?: string; mimeType?: string; contentHash?: string };
+      }>({ _id: 1, projectId: 1, 'content.base64': 1, metadata: 1 });
+
+    let migrated = 0;
+    let bytesMoved = 0;
+    for await (const item of cursor) {
+      const bytes = Buffer.from(item.content.base64, 'base64');
+      bytesMoved += bytes.length;
+
+      if (dryRun) {
+        migrated++;
+        continue;
+      }
+
+      const fileId = await storeFile(db, bytes, {
+        filename: item.metadata?.filename || item._id.toString(),
+        contentType: item.metadata?.mimeType || 'application/octet-stream',
+        projectId: item.projectId,
+        kind: 'image',
+      });
+
+      await collection.updateOne(
+        { _id: item._id },
+        {
+          $set: {
+            'content.fileId': fileId,
+            ...(!item.metadata?.contentHash && { 'metadata.contentHash': hashContent(bytes) }),
+          },
+          $unset: { 'content.base64': '' },
+        }
+      );
+
+      migrated++;
+      if (migrated % 50 === 0) {
+        console.log(`Migrated ${migrated}/${total} items...`);
+      }
+    }
+
+    const megabytes = (bytesMoved / (1024 * 1024)).toFixed(1);
+    console.log(`\n${dryRun ? 'Would migrate' : 'Migrated'} ${migrated} items (${megabytes} MB) to GridFS`);
+  } catch (error) {
+    console.error('GridFS migration failed:', error);
+    process.exit(1);
+  } finally {
+    process.exit(0);
+  }
+}
+
+migrateToGridFS();
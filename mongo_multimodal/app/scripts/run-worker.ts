@@ -0,0 +1,36 @@
+import * as dotenv from 'dotenv';
+import { resolve } from 'path';
+
+// Load environment variables from .env.local
+dotenv.config({ path: resolve(__dirname, '../../.env.local') });
+
+import { getDb } from '../lib/mongodb';
+import { ensureJobIndexes, runWorker } from '../lib/services/jobQueue.service';
+
+async function startWorker() {
+  const controller = new AbortController();
+
+  // Finish the current job before exiting
+  const stop = () => {
+    console.log('\nStopping worker after the current job...');
+    controller.abort();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  try {
+    const db = await getDb();
+    await ensureJobIndexes(db);
+
+    console.log('Job worker started, waiting for jobs...');
+    const processed = await runWorker(db, { signal: controller.signal });
+    console.log(`Job worker stopped after ${processed} jobs`);
+  } catch (error) {
+    console.error('Job worker failed:', error);
+    process.exit(1);
+  } finally {
+    process.exit(0);
+  }
+}
+
+startWorker();
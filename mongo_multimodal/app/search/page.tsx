@@ -70,10 +70,12 @@ export default function SearchPage() {
       let response;
 
       if (imageFile) {
+        // Text with an image refines it, e.g. "like this photo but at night"
         const formData = new FormData();
         formData.append('image', imageFile);
+        formData.append('query', data.query);
 
-        response = await fetch('/api/vector-search', {
+        response = await fetch('/api/search', {
           method: 'POST',
           body: formData,
         });
@@ -100,29 +102,14 @@ export default function SearchPage() {
     }
   };
 
-  const loadImage = async (resultId: string) => {
+  const loadImage = (resultId: string) => {
     if (loadedImages[resultId] || loadingImages[resultId]) return;
 
-    setLoadingImages(prev => ({ ...prev, [resultId]: true }));
-    try {
-      const response = await fetch(`/api/projects/data/${resultId}/content`);
-      if (!response.ok) throw new Error('Failed to load image');
-
-      const data = await response.json();
-      if (data.content?.base64) {
-        const result = results.find(r => r._id === resultId);
-        const mimeType = result?.metadata.mimeType || 'image/jpeg';
-        setLoadedImages(prev => ({
-          ...prev,
-          [resultId]: `data:${mimeType};base64,${data.content.base64}`
-        }));
-      }
-    } catch (error) {
-      console.error('Error loading image:', error);
-      setError('Failed to load image');
-    } finally {
-      setLoadingImages(prev => ({ ...prev, [resultId]: false }));
-    }
+    // The content endpoint streams the image bytes, so the URL can be used directly
+    setLoadedImages(prev => ({
+      ...prev,
+      [resultId]: `/api/projects/data/${resultId}/content`
+    }));
   };
 
   return (
@@ -132,7 +119,7 @@ export default function SearchPage() {
         <div className="text-center mb-12">
 
           <p className="text-lg text-zinc-600 dark:text-zinc-400">
-            Search across all your projects using text or images
+            Search across all your projects using text, images, or both
           </p>
         </div>
 
@@ -162,7 +149,7 @@ export default function SearchPage() {
               </div>
               <div className="relative flex justify-center">
                 <span className="px-4 bg-white dark:bg-zinc-800 text-sm font-semibold text-zinc-500 dark:text-zinc-400">
-                  OR
+                  AND / OR
                 </span>
               </div>
             </div>
@@ -172,6 +159,9 @@ export default function SearchPage() {
               <label className="block text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-3">
                 Search by image
               </label>
+              <p className="-mt-2 mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+                With text as well, both are searched together: an image of a street and &quot;at night&quot; finds night scenes like it
+              </p>
               <div className="flex items-center gap-4">
                 <label className="flex-1 cursor-pointer">
                   <div className="flex items-center justify-center gap-3 px-6 py-4 border-2 border-dashed border-zinc-300 dark:border-zinc-600 rounded-xl hover:border-blue-500 dark:hover:border-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/10 transition-all">
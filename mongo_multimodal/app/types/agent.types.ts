@@ -4,6 +4,7 @@
  */
 
 import { ObjectId } from 'mongodb';
+import { EmbeddingModelInfo } from './models';
 
 /**
  * Memory Types
@@ -19,6 +20,9 @@ export interface AgentMemory {
   type: MemoryType;
   content: string;
   embedding?: number[];
+  embeddingModel?: EmbeddingModelInfo;
+  embeddingAlt?: number[]; // second vector slot, filled by re-embedding migrations
+  embeddingAltModel?: EmbeddingModelInfo;
   metadata: {
     source: string;
     confidence: number;
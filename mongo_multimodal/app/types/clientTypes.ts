@@ -20,7 +20,7 @@ export interface ClientProjectData {
   projectId: string;
   type: 'image' | 'document' | 'text_chunk' | 'web_chunk';
   content: {
-    base64?: string; // for images
+    base64?: string; // legacy inline images; load bytes from /api/projects/data/[id]/content
     text?: string;   // for documents and chunks
   };
   metadata: {
@@ -33,6 +33,7 @@ export interface ClientProjectData {
       parentId?: string;
       sourceUrl?: string;
       originalFilename?: string;
+      jsonPath?: string;
       csvMetadata?: {
         rowStart: number;
         rowEnd: number;
@@ -45,6 +46,14 @@ export interface ClientProjectData {
     tags: string[];
     insights: string[];
   };
+  ocr?: {
+    text: string;
+    words: Array<{ text: string; confidence: number; bbox: { x0: number; y0: number; x1: number; y1: number } }>;
+    confidence: number;
+    width: number;
+    height: number;
+    error?: string;
+  };
   embedding?: number[]; // 1024-dimensional vector
   score?: number; // Similarity score from vector search
   createdAt: string;
@@ -53,6 +62,35 @@ export interface ClientProjectData {
 
 export interface SearchResult extends Omit<ClientProjectData, 'embedding'> {
   score: number;
+  // Hybrid search: which ranking(s) found the hit, and its score in each
+  source?: 'keyword' | 'vector' | 'both';
+  vectorScore?: number;
+  keywordScore?: number;
+  rerankScore?: number; // reranked hits: the reranker's relevance, which the results are ordered by
+}
+
+// Project search filters; values within a field are alternatives, fields combine
+export interface SearchFilters {
+  types?: Array<'image' | 'document' | 'text_chunk' | 'web_chunk'>;
+  tags?: string[];
+  filenames?: string[];
+  mimeTypes?: string[];
+  createdFrom?: string; // ISO date
+  createdTo?: string;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Counts over all hits of a search, returned with its first page
+export interface SearchFacets {
+  types: FacetCount[];
+  mimeTypes: FacetCount[];
+  tags: FacetCount[];
+  filenames: FacetCount[];
+  createdRange: { from: string; to: string } | null;
 }
 
 export interface Message {
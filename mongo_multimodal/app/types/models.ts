@@ -1,4 +1,8 @@
-import { ObjectId } from 'mongodb';
+import { Binary, ObjectId } from 'mongodb';
+import { TableColumn } from '../lib/table-schema';
+import { OcrResult } from '../lib/ocr';
+import { FileCategory } from '../lib/file-types';
+import { EmbeddingModelSpec } from '../lib/embeddings';
 
 export interface User {
   _id: ObjectId;
@@ -13,33 +17,79 @@ export interface Project {
   description: string;
   userId: ObjectId;
   sampleQuestions?: string[];
+  uploadPolicy?: UploadPolicy;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Restrictions on the files a project ingests, checked by every upload route and connector sync
+export interface UploadPolicy {
+  allowedTypes?: FileCategory[]; // every type when unset
+  maxFileBytes?: number; // for any file
+  maxBytesByType?: Partial<Record<FileCategory, number>>;
+}
+
 export interface ProjectData {
   _id: ObjectId;
   projectId: ObjectId;
   type: 'image' | 'document' | 'text_chunk' | 'web_chunk';
   content: {
-    base64?: string; // for images
+    base64?: string; // legacy inline image bytes (see scripts/migrate-to-gridfs.ts)
+    fileId?: ObjectId; // image bytes in the projectFiles GridFS bucket
     text?: string;   // for documents and chunks
   };
   metadata: {
     filename: string;
     mimeType: string;
     size: number;
+    originalFileId?: ObjectId; // uploaded source file in GridFS (PDF, Office, text)
+    contentHash?: string; // SHA-256 of this item's content (image bytes or text)
+    sourceHash?: string; // SHA-256 of the uploaded file the item came from
+    ingestionId?: ObjectId; // multi-source ingestion (e.g. website crawl) that created the item
+    folderPath?: string; // folder of the file inside an imported archive, e.g. "site-a/roof"
+    attachmentOf?: ObjectId; // email message item this file was attached to
+    connectorId?: ObjectId; // folder or S3 connector the file was synced from
+    // Feed entry a web_chunk was ingested from
+    feed?: {
+      subscriptionId: ObjectId;
+      feedTitle: string;
+      guid: string;
+      title: string;
+      publishedAt?: Date;
+    };
+    // Headers of the message an email text_chunk came from
+    email?: {
+      messageId?: string;
+      from?: string;
+      to: string[];
+      cc: string[];
+      date?: Date;
+      subject: string;
+      attachmentIds?: ObjectId[]; // items created from (or matching) its attachments
+    };
     // Chunk metadata for text_chunk and web_chunk types
     chunkInfo?: {
       chunkIndex: number;
       totalChunks: number;
       parentId?: ObjectId; // links chunks from same source
       sourceUrl?: string; // for web chunks
+      pageNumber?: number; // for PDF pages (image and text share parentId + pageNumber)
+      slideNumber?: number; // for PPTX slides
+      headingPath?: string[]; // enclosing headings for Markdown/HTML/DOCX sections
+      startTime?: number; // for SRT/VTT transcripts, seconds from the start of the recording
+      endTime?: number;
+      speakers?: string[]; // speaker labels within the transcript window
+      jsonPath?: string; // for JSON, the record or subtree in the chunk, e.g. $.orders[42].shipping
+      threadId?: string; // for emails, Message-ID of the first message in the thread
+      messageId?: string; // for emails
       originalFilename?: string;
       csvMetadata?: {
         rowStart: number;
         rowEnd: number;
         columns: string[];
+        sheetName?: string; // for XLSX sheets
+        tableId?: ObjectId; // typed rows of the file or sheet, queryable with queryTable
+        columnTypes?: Record<string, string>; // inferred type per column name
       };
     };
   };
@@ -48,7 +98,15 @@ export interface ProjectData {
     tags: string[];
     insights: string[];
   };
-  embedding?: number[]; // 1024-dimensional vector
+  // Text recognized in image items at ingest; error is set when recognition failed
+  ocr?: OcrResult & {
+    processedAt: Date;
+    error?: string;
+  };
+  embedding?: number[]; // vector from the model in embeddingModel
+  embeddingModel?: EmbeddingModelInfo;
+  embeddingAlt?: number[]; // second vector slot, filled by re-embedding migrations
+  embeddingAltModel?: EmbeddingModelInfo;
   referencedBy?: Reference[]; // Track where this data was used
   score?: number; // Similarity score from vector search (0-1)
   createdAt: Date;
@@ -105,3 +163,265 @@ export interface Conversation {
   references?: ConversationReference[]; // Sources used
   toolExecutions?: ToolExecution[]; // Detailed tool usage tracking
 }
+
+export const JOB_TYPES = ['analyze', 'embed', 'refresh', 'sync', 'poll', 'crawl', 'import'] as const;
+
+export type JobType = (typeof JOB_TYPES)[number];
+
+export const JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'cancelled'] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export interface Job {
+  _id: ObjectId;
+  projectId: ObjectId;
+  type: JobType;
+  dataId: ObjectId; // projectData item the job works on (web source for refresh, connector for sync, feed for poll, ingestion for crawl, upload session for import jobs)
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date; // not picked up before this time (used for retry backoff)
+  lockedBy?: string; // worker id while running
+  lockedAt?: Date;
+  lastError?: string;
+  result?: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export type IngestionKind = 'crawl' | 'zip' | 'sync';
+
+export type IngestionStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Ingestion {
+  _id: ObjectId;
+  projectId: ObjectId;
+  kind: IngestionKind;
+  source: string; // start URL for crawls, archive filename for ZIP imports, connector name for syncs
+  options?: Record<string, unknown>;
+  status: IngestionStatus;
+  progress: {
+    processed: number; // sources handled so far (pages for crawls)
+    succeeded: number;
+    skipped: number; // unchanged duplicates
+    failed: number;
+    items: number; // projectData items created
+  };
+  errors: Array<{ source: string; error: string }>; // most recent failures
+  result?: Record<string, unknown>;
+  error?: string; // set when the whole ingestion failed
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export type WebSourceStatus = 'pending' | 'unchanged' | 'updated' | 'failed';
+
+export interface WebSource {
+  _id: ObjectId;
+  projectId: ObjectId;
+  url: string;
+  title?: string;
+  refreshIntervalHours: number;
+  enabled: boolean;
+  nextRefreshAt: Date;
+  lastCheckedAt?: Date;
+  lastChangedAt?: Date;
+  lastStatus: WebSourceStatus;
+  lastError?: string;
+  sourceHash?: string; // SHA-256 of the page content at the latest version
+  version: number; // latest version number, 0 before the first fetch
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebSourceVersion {
+  _id: ObjectId;
+  sourceId: ObjectId;
+  projectId: ObjectId;
+  url: string;
+  version: number;
+  title: string;
+  sourceHash: string;
+  markdown: string; // page snapshot used to diff versions
+  changes: {
+    added: number; // chunks new in this version
+    removed: number; // chunks no longer present
+    unchanged: number;
+  };
+  fetchedAt: Date;
+}
+
+export type FeedStatus = 'pending' | 'unchanged' | 'updated' | 'failed';
+
+export interface FeedSubscription {
+  _id: ObjectId;
+  projectId: ObjectId;
+  url: string; // RSS or Atom feed URL
+  title: string;
+  siteUrl?: string;
+  pollIntervalHours: number;
+  enabled: boolean;
+  nextPollAt: Date;
+  lastPolledAt?: Date;
+  lastNewEntryAt?: Date;
+  lastStatus: FeedStatus;
+  lastError?: string;
+  etag?: string; // validators of the last response, for conditional requests
+  lastModified?: string;
+  entryCount: number; // entries ingested so far
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface FeedEntryRecord {
+  _id: ObjectId;
+  projectId: ObjectId;
+  subscriptionId: ObjectId;
+  guid: string; // unique per project, so an article in two feeds is ingested once
+  url: string;
+  title: string;
+  author?: string;
+  publishedAt?: Date;
+  status: 'ingested' | 'duplicate' | 'failed';
+  dataIds: ObjectId[]; // web_chunk items of the article (existing ones for duplicates)
+  attempts: number; // failed entries are retried on later polls up to a limit
+  error?: string;
+  ingestedAt: Date;
+}
+
+export type ConnectorKind = 'folder' | 's3';
+
+export type ConnectorStatus = 'pending' | 'syncing' | 'synced' | 'failed';
+
+export interface Connector {
+  _id: ObjectId;
+  projectId: ObjectId;
+  kind: ConnectorKind;
+  name: string;
+  // Folder: { path }; S3: { bucket, prefix?, region?, endpoint?, accessKeyId?, secretAccessKey? }
+  config: Record<string, string>;
+  syncIntervalHours: number;
+  enabled: boolean;
+  nextSyncAt: Date;
+  lastSyncAt?: Date;
+  lastStatus: ConnectorStatus;
+  lastError?: string;
+  lastSync?: {
+    added: number;
+    updated: number;
+    removed: number;
+    unchanged: number;
+    failed: number;
+    unsupported: number; // files no pipeline can ingest
+  };
+  lastIngestionId?: ObjectId; // ingestion record of the latest sync, for progress
+  fileCount: number; // files currently imported from the source
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ConnectorFile {
+  _id: ObjectId;
+  connectorId: ObjectId;
+  projectId: ObjectId;
+  path: string; // relative to the folder or bucket prefix
+  version: string; // ETag (S3) or mtime + size (folder) at the last import
+  size: number;
+  dataIds: ObjectId[]; // projectData items created from the file
+  status: 'imported' | 'failed';
+  error?: string;
+  syncedAt: Date;
+}
+
+export interface DataTable {
+  _id: ObjectId;
+  projectId: ObjectId;
+  parentId: ObjectId; // shared with the file's csv_rows/xlsx_rows chunks
+  filename: string;
+  sheetName?: string; // for XLSX sheets
+  columns: TableColumn[];
+  rowCount: number;
+  sourceHash: string;
+  createdAt: Date;
+}
+
+export interface TableRow {
+  _id: ObjectId;
+  tableId: ObjectId;
+  projectId: ObjectId;
+  rowNumber: number; // 1-based data row, matching the chunks' rowStart/rowEnd
+  values: Record<string, number | Date | boolean | string | null>; // keyed by TableColumn.key
+}
+
+export type UploadSessionStatus = 'uploading' | 'processing' | 'completed' | 'failed';
+
+export interface UploadSession {
+  _id: ObjectId;
+  projectId: ObjectId;
+  filename: string;
+  contentType: string;
+  size: number; // bytes of the whole file
+  partSize: number; // bytes per part; only the last part may be smaller
+  totalParts: number;
+  sha256?: string; // whole-file checksum declared by the client, checked on completion
+  options: {
+    duplicatePolicy?: string;
+    sessionId?: string; // chat session, for memory extraction
+  };
+  status: UploadSessionStatus;
+  result?: Record<string, unknown>; // response of the completed import, returned again on retries
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date; // unfinished sessions and their parts are removed after this
+}
+
+export interface UploadPart {
+  _id: ObjectId;
+  uploadId: ObjectId;
+  partNumber: number; // 1-based
+  data: Binary;
+  size: number;
+  sha256: string;
+  expiresAt: Date;
+}
+
+// Recorded next to every stored vector (projectData and agentMemories)
+export interface EmbeddingModelInfo {
+  id: string; // e.g. "voyage/voyage-multimodal-3/1024", see embeddingModelId
+  dimensions: number;
+  embeddedAt: Date;
+}
+
+// Each vector slot is a field with its own vector index, so two models can be searchable at once
+export type EmbeddingSlot = 'embedding' | 'embeddingAlt';
+
+// The model search and new vectors use (one document, _id 'active')
+export interface EmbeddingConfig {
+  _id: 'active';
+  spec: EmbeddingModelSpec;
+  modelId: string;
+  slot: EmbeddingSlot;
+  updatedAt: Date;
+}
+
+export type EmbeddingMigrationStatus = 'running' | 'ready' | 'completed' | 'failed' | 'cancelled';
+
+// Re-embedding of every stored vector with a new model into the inactive slot
+export interface EmbeddingMigration {
+  _id: ObjectId;
+  target: EmbeddingModelSpec;
+  targetModelId: string;
+  fromModelId: string;
+  slot: EmbeddingSlot; // slot the new vectors are written to
+  status: EmbeddingMigrationStatus; // ready: every vector re-embedded, waiting for cutover
+  total: number; // vectors to re-embed when the migration started
+  processed: number;
+  failed: number;
+  lastError?: string;
+  startedAt: Date;
+  updatedAt: Date; // also a heartbeat while a process works on it
+  completedAt?: Date;
+}
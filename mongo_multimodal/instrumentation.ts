@@ -0,0 +1,18 @@
+/**
+ * Server Startup Hook
+ * Resumes the in-process job worker so queued jobs and scheduled web source
+ * refreshes continue after a restart (skipped with JOB_WORKER=external)
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.JOB_WORKER === 'external') return;
+
+  try {
+    const { getDb } = await import('@/lib/mongodb');
+    const { ensureInlineWorker } = await import('@/lib/services/jobQueue.service');
+
+    ensureInlineWorker(await getDb());
+  } catch (error) {
+    console.error('[Jobs] Failed to resume inline worker:', error);
+  }
+}
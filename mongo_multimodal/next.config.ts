@@ -4,6 +4,9 @@ const nextConfig: NextConfig = {
   // Empty turbopack config to silence warnings
   turbopack: {},
 
+  // Native/worker-based packages used by server-side PDF extraction and OCR
+  serverExternalPackages: ['pdfjs-dist', '@napi-rs/canvas', 'tesseract.js'],
+
   // Temporarily disable TypeScript errors during build (existing code has strict null check issues)
   typescript: {
     ignoreBuildErrors: true,
@@ -0,0 +1,14 @@
+import { resolve } from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': resolve(__dirname, 'app'),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['app/**/*.test.ts'],
+  },
+});